@@ -10,7 +10,7 @@ dotenv.config();
 const env: Partial<Environment> = {
   BROWSER: (process.env.BROWSER as Environment['BROWSER']) || 'chromium',
   BASE_URL: process.env.BASE_URL || 'https://opensource-demo.orangehrmlive.com',
-  API_BASE_URL: process.env.API_BASE_URL || 'https://opensource-demo.orangehrmlive.com/web/api/v1',
+  API_BASE_URL: process.env.API_BASE_URL || 'https://opensource-demo.orangehrmlive.com/web/index.php/api/v2',
   USERNAME: process.env.USERNAME || 'Admin',
   PASSWORD: process.env.PASSWORD || 'admin123',
   HEADLESS: process.env.HEADLESS === 'true',
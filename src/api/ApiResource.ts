@@ -0,0 +1,150 @@
+import { ApiHelper } from '../helpers/ApiHelper.js';
+import type { ApiEnvelope, ApiListResult, ApiPagination, HttpMethod } from '../types/index.js';
+
+type QueryValue = string | number | boolean | null | undefined | Array<string | number>;
+
+// Registry schema a response is validated against, at a JSON pointer of the body
+interface ResponseSchema {
+  name: string;
+  pointer?: string;
+}
+
+/**
+ * Base class of the OrangeHRM REST API (v2) resource modules
+ * Builds query strings, unwraps the { data, meta } envelope, pages through lists and validates
+ * responses against the test-data/schemas registry so contract drift fails the request
+ */
+export abstract class ApiResource {
+  static readonly DEFAULT_PAGE_SIZE = 50;
+
+  protected readonly api: ApiHelper;
+
+  // Registry schema of one item; `<schemaName>-list` describes a list response
+  protected abstract readonly schemaName: string;
+
+  constructor(api: ApiHelper) {
+    this.api = api;
+  }
+
+  /**
+   * Build a query string, leaving out empty values
+   * Arrays are sent as repeated `key[]=value` pairs, the way the OrangeHRM front end does
+   * @param params - Query parameters
+   * @returns Query string with its leading "?", or an empty string
+   */
+  protected static buildQuery(params: object): string {
+    const query = new URLSearchParams();
+
+    for (const [key, value] of Object.entries(params) as Array<[string, QueryValue]>) {
+      if (value === undefined || value === null || value === '') {
+        continue;
+      }
+
+      if (Array.isArray(value)) {
+        value.forEach(item => query.append(`${key}[]`, String(item)));
+      } else {
+        query.append(key, String(value));
+      }
+    }
+
+    const queryString = query.toString();
+    return queryString ? `?${queryString}` : '';
+  }
+
+  /**
+   * Schema of a single item response, whose item sits in `data`
+   */
+  protected get itemSchema(): ResponseSchema {
+    return { name: this.schemaName, pointer: '/data' };
+  }
+
+  /**
+   * Send a request, validate it and unwrap its envelope
+   * @param method - HTTP method
+   * @param path - Endpoint path relative to the API base URL, with its query string
+   * @param body - Request body
+   * @param schema - Schema the response has to match
+   * @param expectedStatus - Status the endpoint answers with on success
+   * @returns Response envelope
+   */
+  protected async request<T>(
+    method: HttpMethod,
+    path: string,
+    body?: unknown,
+    schema?: ResponseSchema,
+    expectedStatus: number = 200
+  ): Promise<ApiEnvelope<T>> {
+    let response;
+
+    switch (method) {
+      case 'GET':
+        response = await this.api.get<ApiEnvelope<T>>(path);
+        break;
+      case 'POST':
+        response = await this.api.post<ApiEnvelope<T>>(path, body);
+        break;
+      case 'PUT':
+        response = await this.api.put<ApiEnvelope<T>>(path, body);
+        break;
+      case 'PATCH':
+        response = await this.api.patch<ApiEnvelope<T>>(path, body);
+        break;
+      case 'DELETE':
+        response = await this.api.delete<ApiEnvelope<T>>(path, {}, body);
+        break;
+    }
+
+    this.api.validateStatus(
+      response,
+      expectedStatus,
+      `${method} ${path} returned ${response.status} instead of ${expectedStatus}: ${JSON.stringify(response.body)}`
+    );
+
+    if (schema) {
+      await this.api.validateSchema(response, schema.name, schema.pointer);
+    }
+
+    return response.body;
+  }
+
+  /**
+   * Get one page of a list endpoint
+   * @param path - Endpoint path
+   * @param params - Filters, sorting and pagination
+   * @returns Page of items with the total count
+   */
+  protected async fetchPage<T>(path: string, params: ApiPagination): Promise<ApiListResult<T>> {
+    const limit = params.limit ?? ApiResource.DEFAULT_PAGE_SIZE;
+    const offset = params.offset ?? 0;
+    const query = ApiResource.buildQuery({ ...params, limit, offset });
+    const envelope = await this.request<T[]>('GET', `${path}${query}`, undefined, { name: `${this.schemaName}-list` });
+
+    return {
+      data: envelope.data,
+      total: envelope.meta.total ?? envelope.data.length,
+      limit,
+      offset
+    };
+  }
+
+  /**
+   * Get every item of a list endpoint, one page at a time
+   * @param path - Endpoint path
+   * @param params - Filters and sorting; `limit` sets the page size
+   * @returns All items
+   */
+  protected async fetchAll<T>(path: string, params: ApiPagination): Promise<T[]> {
+    const items: T[] = [];
+    let offset = params.offset ?? 0;
+
+    while (true) {
+      const page = await this.fetchPage<T>(path, { ...params, offset });
+      items.push(...page.data);
+      offset += page.limit;
+
+      if (page.data.length === 0 || offset >= page.total) {
+        return items;
+      }
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { ApiResource } from './ApiResource.js';
+import type {
+  ApiCandidate,
+  ApiCandidateFilters,
+  ApiCreateCandidateRequest,
+  ApiListResult
+} from '../types/index.js';
+
+/**
+ * Recruitment candidates resource (/recruitment/candidates)
+ */
+export class CandidatesApi extends ApiResource {
+  private readonly path = '/recruitment/candidates';
+  protected readonly schemaName = 'candidate';
+
+  /**
+   * Ask for the list model, which includes vacancy and status
+   * @param filters - Candidate filters
+   * @returns Query parameters
+   */
+  private toQuery(filters: ApiCandidateFilters): ApiCandidateFilters {
+    return { ...filters, model: 'list' } as ApiCandidateFilters;
+  }
+
+  /**
+   * Get one page of candidates
+   * @param filters - Filters, sorting and pagination
+   * @returns Page of candidates with the total count
+   */
+  async list(filters: ApiCandidateFilters = {}): Promise<ApiListResult<ApiCandidate>> {
+    return await this.fetchPage<ApiCandidate>(this.path, this.toQuery(filters));
+  }
+
+  /**
+   * Get every candidate matching the filters
+   * @param filters - Filters and sorting
+   * @returns All matching candidates
+   */
+  async listAll(filters: ApiCandidateFilters = {}): Promise<ApiCandidate[]> {
+    return await this.fetchAll<ApiCandidate>(this.path, this.toQuery(filters));
+  }
+
+  /**
+   * Get a candidate
+   * @param id - Candidate id
+   * @returns Candidate
+   */
+  async get(id: number): Promise<ApiCandidate> {
+    return (await this.request<ApiCandidate>('GET', `${this.path}/${id}`, undefined, this.itemSchema)).data;
+  }
+
+  /**
+   * Add a candidate, optionally to a vacancy
+   * @param candidate - Candidate fields
+   * @returns Created candidate
+   */
+  async create(candidate: ApiCreateCandidateRequest): Promise<ApiCandidate> {
+    return (await this.request<ApiCandidate>('POST', this.path, { consentToKeepData: false, ...candidate }, this.itemSchema)).data;
+  }
+
+  /**
+   * Delete candidates
+   * @param ids - Candidate ids
+   * @returns Deleted candidate ids
+   */
+  async delete(ids: number[]): Promise<number[]> {
+    return (await this.request<number[]>('DELETE', this.path, { ids })).data;
+  }
+}
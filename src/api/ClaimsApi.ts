@@ -0,0 +1,93 @@
+import { ApiResource } from './ApiResource.js';
+import type {
+  ApiClaimAction,
+  ApiClaimFilters,
+  ApiClaimRequest,
+  ApiCreateClaimRequest,
+  ApiListResult
+} from '../types/index.js';
+
+/**
+ * Claim requests resource
+ * `/claim/employees/requests` lists the claims an admin or supervisor manages,
+ * `/claim/requests` holds the logged in user's own claims
+ */
+export class ClaimsApi extends ApiResource {
+  private readonly employeesPath = '/claim/employees/requests';
+  private readonly myPath = '/claim/requests';
+  protected readonly schemaName = 'claim-request';
+
+  /**
+   * Get one page of the claims the user manages
+   * @param filters - Filters, sorting and pagination
+   * @returns Page of claims with the total count
+   */
+  async list(filters: ApiClaimFilters = {}): Promise<ApiListResult<ApiClaimRequest>> {
+    return await this.fetchPage<ApiClaimRequest>(this.employeesPath, filters);
+  }
+
+  /**
+   * Get every claim the user manages that matches the filters
+   * @param filters - Filters and sorting
+   * @returns All matching claims
+   */
+  async listAll(filters: ApiClaimFilters = {}): Promise<ApiClaimRequest[]> {
+    return await this.fetchAll<ApiClaimRequest>(this.employeesPath, filters);
+  }
+
+  /**
+   * Get one page of the logged in user's own claims
+   * @param filters - Filters, sorting and pagination
+   * @returns Page of claims with the total count
+   */
+  async listMine(filters: ApiClaimFilters = {}): Promise<ApiListResult<ApiClaimRequest>> {
+    return await this.fetchPage<ApiClaimRequest>(this.myPath, filters);
+  }
+
+  /**
+   * Get one of the logged in user's claims
+   * @param id - Claim request id
+   * @returns Claim request
+   */
+  async get(id: number): Promise<ApiClaimRequest> {
+    return (await this.request<ApiClaimRequest>('GET', `${this.myPath}/${id}`, undefined, this.itemSchema)).data;
+  }
+
+  /**
+   * Find a managed claim by its reference id
+   * @param referenceId - Reference id shown in the claim lists
+   * @returns Claim request or undefined if not found
+   */
+  async findByReferenceId(referenceId: string): Promise<ApiClaimRequest | undefined> {
+    const claims = await this.listAll({ referenceId, includeEmployees: 'currentAndPast' });
+    return claims.find(claim => claim.referenceId === referenceId);
+  }
+
+  /**
+   * Create a claim for the logged in user; it stays in the Initiated status until submitted
+   * @param claim - Event, currency and remarks
+   * @returns Created claim request
+   */
+  async create(claim: ApiCreateClaimRequest): Promise<ApiClaimRequest> {
+    return (await this.request<ApiClaimRequest>('POST', this.myPath, claim, this.itemSchema)).data;
+  }
+
+  /**
+   * Move a claim through its workflow
+   * @param id - Claim request id
+   * @param action - Action to perform
+   * @returns Updated claim request
+   */
+  async performAction(id: number, action: ApiClaimAction): Promise<ApiClaimRequest> {
+    return (await this.request<ApiClaimRequest>('PUT', `${this.myPath}/${id}/action`, { action }, this.itemSchema)).data;
+  }
+
+  /**
+   * Submit a claim
+   * @param id - Claim request id
+   * @returns Updated claim request
+   */
+  async submit(id: number): Promise<ApiClaimRequest> {
+    return await this.performAction(id, 'SUBMIT');
+  }
+}
@@ -0,0 +1,93 @@
+import { ApiResource } from './ApiResource.js';
+import type {
+  ApiCreateEmployeeRequest,
+  ApiEmployee,
+  ApiEmployeeFilters,
+  ApiListResult,
+  ApiPersonalDetailsRequest,
+  ApiTermination,
+  ApiTerminationRequest
+} from '../types/index.js';
+
+/**
+ * PIM employees resource (/pim/employees)
+ */
+export class EmployeesApi extends ApiResource {
+  private readonly path = '/pim/employees';
+  protected readonly schemaName = 'employee';
+
+  /**
+   * Get one page of employees
+   * @param filters - Filters, sorting and pagination
+   * @returns Page of employees with the total count
+   */
+  async list(filters: ApiEmployeeFilters = {}): Promise<ApiListResult<ApiEmployee>> {
+    return await this.fetchPage<ApiEmployee>(this.path, filters);
+  }
+
+  /**
+   * Get every employee matching the filters
+   * @param filters - Filters and sorting
+   * @returns All matching employees
+   */
+  async listAll(filters: ApiEmployeeFilters = {}): Promise<ApiEmployee[]> {
+    return await this.fetchAll<ApiEmployee>(this.path, filters);
+  }
+
+  /**
+   * Get an employee
+   * @param empNumber - Employee number (internal id)
+   * @returns Employee
+   */
+  async get(empNumber: number): Promise<ApiEmployee> {
+    return (await this.request<ApiEmployee>('GET', `${this.path}/${empNumber}`, undefined, this.itemSchema)).data;
+  }
+
+  /**
+   * Find an employee by their employee id
+   * @param employeeId - Employee id shown in PIM
+   * @returns Employee or undefined if not found
+   */
+  async findByEmployeeId(employeeId: string): Promise<ApiEmployee | undefined> {
+    const employees = await this.listAll({ nameOrId: employeeId, includeEmployees: 'currentAndPast' });
+    return employees.find(employee => employee.employeeId === employeeId);
+  }
+
+  /**
+   * Create an employee
+   * @param employee - Employee names and id
+   * @returns Created employee
+   */
+  async create(employee: ApiCreateEmployeeRequest): Promise<ApiEmployee> {
+    return (await this.request<ApiEmployee>('POST', this.path, employee, this.itemSchema)).data;
+  }
+
+  /**
+   * Update the personal details of an employee
+   * @param empNumber - Employee number
+   * @param details - Personal details
+   * @returns Updated employee
+   */
+  async updatePersonalDetails(empNumber: number, details: ApiPersonalDetailsRequest): Promise<ApiEmployee> {
+    return (await this.request<ApiEmployee>('PUT', `${this.path}/${empNumber}/personal-details`, details, this.itemSchema)).data;
+  }
+
+  /**
+   * Terminate the employment of an employee, turning them into a past employee
+   * @param empNumber - Employee number
+   * @param termination - Termination reason id, date (yyyy-mm-dd) and note
+   * @returns Termination record
+   */
+  async terminate(empNumber: number, termination: ApiTerminationRequest): Promise<ApiTermination> {
+    return (await this.request<ApiTermination>('POST', `${this.path}/${empNumber}/terminations`, termination)).data;
+  }
+
+  /**
+   * Delete employees
+   * @param empNumbers - Employee numbers
+   * @returns Deleted employee numbers
+   */
+  async delete(empNumbers: number[]): Promise<number[]> {
+    return (await this.request<number[]>('DELETE', this.path, { ids: empNumbers })).data;
+  }
+}
@@ -0,0 +1,74 @@
+import { ApiResource } from './ApiResource.js';
+import type { ApiJobTitle, ApiJobTitleFilters, ApiJobTitleRequest, ApiListResult } from '../types/index.js';
+
+/**
+ * Admin job titles resource (/admin/job-titles)
+ */
+export class JobTitlesApi extends ApiResource {
+  private readonly path = '/admin/job-titles';
+  protected readonly schemaName = 'job-title';
+
+  /**
+   * Get one page of job titles
+   * @param filters - Sorting and pagination
+   * @returns Page of job titles with the total count
+   */
+  async list(filters: ApiJobTitleFilters = {}): Promise<ApiListResult<ApiJobTitle>> {
+    return await this.fetchPage<ApiJobTitle>(this.path, filters);
+  }
+
+  /**
+   * Get every job title
+   * @param filters - Sorting
+   * @returns All job titles
+   */
+  async listAll(filters: ApiJobTitleFilters = {}): Promise<ApiJobTitle[]> {
+    return await this.fetchAll<ApiJobTitle>(this.path, filters);
+  }
+
+  /**
+   * Get a job title
+   * @param id - Job title id
+   * @returns Job title
+   */
+  async get(id: number): Promise<ApiJobTitle> {
+    return (await this.request<ApiJobTitle>('GET', `${this.path}/${id}`, undefined, this.itemSchema)).data;
+  }
+
+  /**
+   * Find a job title by name
+   * @param title - Job title name, matched exactly
+   * @returns Job title or undefined if not found
+   */
+  async findByTitle(title: string): Promise<ApiJobTitle | undefined> {
+    return (await this.listAll()).find(jobTitle => jobTitle.title === title);
+  }
+
+  /**
+   * Create a job title
+   * @param jobTitle - Job title fields
+   * @returns Created job title
+   */
+  async create(jobTitle: ApiJobTitleRequest): Promise<ApiJobTitle> {
+    return (await this.request<ApiJobTitle>('POST', this.path, jobTitle, this.itemSchema)).data;
+  }
+
+  /**
+   * Update a job title
+   * @param id - Job title id
+   * @param jobTitle - Job title fields
+   * @returns Updated job title
+   */
+  async update(id: number, jobTitle: ApiJobTitleRequest): Promise<ApiJobTitle> {
+    return (await this.request<ApiJobTitle>('PUT', `${this.path}/${id}`, { ...jobTitle, currentJobSpecification: 'keepCurrent' }, this.itemSchema)).data;
+  }
+
+  /**
+   * Delete job titles
+   * @param ids - Job title ids
+   * @returns Deleted job title ids
+   */
+  async delete(ids: number[]): Promise<number[]> {
+    return (await this.request<number[]>('DELETE', this.path, { ids })).data;
+  }
+}
@@ -0,0 +1,133 @@
+import { ApiResource } from './ApiResource.js';
+import type {
+  ApiCreateLeaveRequest,
+  ApiLeaveRequest,
+  ApiLeaveRequestAction,
+  ApiLeaveRequestFilters,
+  ApiListResult,
+  LeaveStatus
+} from '../types/index.js';
+
+/**
+ * Leave requests resource
+ * `/leave/employees/leave-requests` covers the requests a supervisor or admin manages,
+ * `/leave/leave-requests` the requests of the logged in user
+ */
+export class LeaveRequestsApi extends ApiResource {
+  private readonly employeesPath = '/leave/employees/leave-requests';
+  private readonly myPath = '/leave/leave-requests';
+  protected readonly schemaName = 'leave-request';
+
+  // Leave status ids expected by the `statuses[]` filter
+  static readonly STATUS_IDS: Record<LeaveStatus, number> = {
+    'Rejected': -1,
+    'Cancelled': 0,
+    'Pending Approval': 1,
+    'Scheduled': 2,
+    'Taken': 3
+  };
+
+  /**
+   * Replace status names with the ids the API filters on
+   * @param filters - Leave request filters
+   * @returns Query parameters
+   */
+  private toQuery(filters: ApiLeaveRequestFilters): object {
+    return {
+      ...filters,
+      statuses: filters.statuses?.map(status => LeaveRequestsApi.STATUS_IDS[status])
+    };
+  }
+
+  /**
+   * Get one page of the leave requests the user manages
+   * @param filters - Date range, filters, sorting and pagination
+   * @returns Page of leave requests with the total count
+   */
+  async list(filters: ApiLeaveRequestFilters): Promise<ApiListResult<ApiLeaveRequest>> {
+    return await this.fetchPage<ApiLeaveRequest>(this.employeesPath, this.toQuery(filters));
+  }
+
+  /**
+   * Get every leave request the user manages that matches the filters
+   * @param filters - Date range, filters and sorting
+   * @returns All matching leave requests
+   */
+  async listAll(filters: ApiLeaveRequestFilters): Promise<ApiLeaveRequest[]> {
+    return await this.fetchAll<ApiLeaveRequest>(this.employeesPath, this.toQuery(filters));
+  }
+
+  /**
+   * Get one page of the logged in user's own leave requests
+   * @param filters - Date range, filters, sorting and pagination
+   * @returns Page of leave requests with the total count
+   */
+  async listMine(filters: ApiLeaveRequestFilters): Promise<ApiListResult<ApiLeaveRequest>> {
+    return await this.fetchPage<ApiLeaveRequest>(this.myPath, this.toQuery(filters));
+  }
+
+  /**
+   * Get a leave request
+   * @param id - Leave request id
+   * @returns Leave request
+   */
+  async get(id: number): Promise<ApiLeaveRequest> {
+    return (await this.request<ApiLeaveRequest>('GET', `${this.employeesPath}/${id}`, undefined, this.itemSchema)).data;
+  }
+
+  /**
+   * Apply for leave as the logged in user
+   * @param leave - Leave type, dates and duration
+   * @returns Created leave request
+   */
+  async apply(leave: ApiCreateLeaveRequest): Promise<ApiLeaveRequest> {
+    return (await this.request<ApiLeaveRequest>('POST', this.myPath, leave, this.itemSchema)).data;
+  }
+
+  /**
+   * Assign leave to an employee
+   * @param empNumber - Employee number
+   * @param leave - Leave type, dates and duration
+   * @returns Created leave request
+   */
+  async assign(empNumber: number, leave: ApiCreateLeaveRequest): Promise<ApiLeaveRequest> {
+    return (await this.request<ApiLeaveRequest>('POST', this.employeesPath, { empNumber, ...leave }, this.itemSchema)).data;
+  }
+
+  /**
+   * Approve, reject or cancel a leave request
+   * @param id - Leave request id
+   * @param action - Action to perform
+   * @returns Updated leave request
+   */
+  async performAction(id: number, action: ApiLeaveRequestAction): Promise<ApiLeaveRequest> {
+    return (await this.request<ApiLeaveRequest>('PUT', `${this.employeesPath}/${id}`, { action }, this.itemSchema)).data;
+  }
+
+  /**
+   * Approve a leave request
+   * @param id - Leave request id
+   * @returns Updated leave request
+   */
+  async approve(id: number): Promise<ApiLeaveRequest> {
+    return await this.performAction(id, 'APPROVE');
+  }
+
+  /**
+   * Reject a leave request
+   * @param id - Leave request id
+   * @returns Updated leave request
+   */
+  async reject(id: number): Promise<ApiLeaveRequest> {
+    return await this.performAction(id, 'REJECT');
+  }
+
+  /**
+   * Cancel a leave request
+   * @param id - Leave request id
+   * @returns Updated leave request
+   */
+  async cancel(id: number): Promise<ApiLeaveRequest> {
+    return await this.performAction(id, 'CANCEL');
+  }
+}
@@ -0,0 +1,74 @@
+import { BrowserContext } from '@playwright/test';
+import { ApiHelper } from '../helpers/ApiHelper.js';
+import { EmployeesApi } from './EmployeesApi.js';
+import { UsersApi } from './UsersApi.js';
+import { LeaveRequestsApi } from './LeaveRequestsApi.js';
+import { JobTitlesApi } from './JobTitlesApi.js';
+import { CandidatesApi } from './CandidatesApi.js';
+import { ClaimsApi } from './ClaimsApi.js';
+import { configManager } from '../config/configManager.js';
+import logger from '../config/logger.js';
+
+/**
+ * Typed OrangeHRM REST API (v2) client
+ * Groups the resource modules over one ApiHelper, which has to point at `/web/index.php/api/v2`.
+ * The API accepts the same session cookie as the UI, so the client authenticates with the
+ * session of a logged in browser context instead of a token.
+ */
+export class OrangeHrmApi {
+  readonly employees: EmployeesApi;
+  readonly users: UsersApi;
+  readonly leaveRequests: LeaveRequestsApi;
+  readonly jobTitles: JobTitlesApi;
+  readonly candidates: CandidatesApi;
+  readonly claims: ClaimsApi;
+
+  private readonly apiHelper: ApiHelper;
+  private readonly browserContext?: BrowserContext;
+
+  /**
+   * @param apiHelper - Initialized ApiHelper for the v2 API base URL
+   * @param browserContext - Browser context the session is shared with
+   */
+  constructor(apiHelper: ApiHelper, browserContext?: BrowserContext) {
+    this.apiHelper = apiHelper;
+    this.browserContext = browserContext;
+    this.employees = new EmployeesApi(apiHelper);
+    this.users = new UsersApi(apiHelper);
+    this.leaveRequests = new LeaveRequestsApi(apiHelper);
+    this.jobTitles = new JobTitlesApi(apiHelper);
+    this.candidates = new CandidatesApi(apiHelper);
+    this.claims = new ClaimsApi(apiHelper);
+  }
+
+  /**
+   * Create a client sharing the session of a logged in browser context
+   * @param browserContext - Browser context holding the OrangeHRM session cookie
+   * @returns Client; dispose it when done
+   */
+  static async fromBrowserContext(browserContext: BrowserContext): Promise<OrangeHrmApi> {
+    const apiHelper = await ApiHelper.fromBrowserContext(browserContext, configManager.get('API_BASE_URL'));
+    const cookies = await apiHelper.getCookies();
+
+    logger.debug('OrangeHrmApi sharing browser session', { cookieNames: cookies.map(cookie => cookie.name) });
+    return new OrangeHrmApi(apiHelper, browserContext);
+  }
+
+  /**
+   * Push the API session cookies back into the browser context
+   */
+  async syncSession(): Promise<void> {
+    if (!this.browserContext) {
+      throw new Error('OrangeHrmApi was not created from a browser context');
+    }
+
+    await this.apiHelper.syncCookiesTo(this.browserContext);
+  }
+
+  /**
+   * Dispose the underlying API context
+   */
+  async dispose(): Promise<void> {
+    await this.apiHelper.dispose();
+  }
+}
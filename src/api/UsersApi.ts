@@ -0,0 +1,81 @@
+import { ApiResource } from './ApiResource.js';
+import type {
+  ApiCreateUserRequest,
+  ApiListResult,
+  ApiUpdateUserRequest,
+  ApiUser,
+  ApiUserFilters
+} from '../types/index.js';
+
+/**
+ * Admin system users resource (/admin/users)
+ */
+export class UsersApi extends ApiResource {
+  private readonly path = '/admin/users';
+  protected readonly schemaName = 'user';
+
+  /**
+   * Get one page of system users
+   * @param filters - Filters, sorting and pagination
+   * @returns Page of users with the total count
+   */
+  async list(filters: ApiUserFilters = {}): Promise<ApiListResult<ApiUser>> {
+    return await this.fetchPage<ApiUser>(this.path, filters);
+  }
+
+  /**
+   * Get every system user matching the filters
+   * @param filters - Filters and sorting
+   * @returns All matching users
+   */
+  async listAll(filters: ApiUserFilters = {}): Promise<ApiUser[]> {
+    return await this.fetchAll<ApiUser>(this.path, filters);
+  }
+
+  /**
+   * Get a system user
+   * @param id - User id
+   * @returns User
+   */
+  async get(id: number): Promise<ApiUser> {
+    return (await this.request<ApiUser>('GET', `${this.path}/${id}`, undefined, this.itemSchema)).data;
+  }
+
+  /**
+   * Find a system user by username
+   * @param username - Username, matched exactly
+   * @returns User or undefined if not found
+   */
+  async findByUsername(username: string): Promise<ApiUser | undefined> {
+    const users = await this.listAll({ username });
+    return users.find(user => user.userName === username);
+  }
+
+  /**
+   * Create a system user
+   * @param user - User fields
+   * @returns Created user
+   */
+  async create(user: ApiCreateUserRequest): Promise<ApiUser> {
+    return (await this.request<ApiUser>('POST', this.path, user, this.itemSchema)).data;
+  }
+
+  /**
+   * Update a system user
+   * @param id - User id
+   * @param user - User fields; `changePassword` has to be set for `password` to be used
+   * @returns Updated user
+   */
+  async update(id: number, user: ApiUpdateUserRequest): Promise<ApiUser> {
+    return (await this.request<ApiUser>('PUT', `${this.path}/${id}`, user, this.itemSchema)).data;
+  }
+
+  /**
+   * Delete system users
+   * @param ids - User ids
+   * @returns Deleted user ids
+   */
+  async delete(ids: number[]): Promise<number[]> {
+    return (await this.request<number[]>('DELETE', this.path, { ids })).data;
+  }
+}
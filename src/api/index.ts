@@ -0,0 +1,8 @@
+export { ApiResource } from './ApiResource.js';
+export { EmployeesApi } from './EmployeesApi.js';
+export { UsersApi } from './UsersApi.js';
+export { LeaveRequestsApi } from './LeaveRequestsApi.js';
+export { JobTitlesApi } from './JobTitlesApi.js';
+export { CandidatesApi } from './CandidatesApi.js';
+export { ClaimsApi } from './ClaimsApi.js';
+export { OrangeHrmApi } from './OrangeHrmApi.js';
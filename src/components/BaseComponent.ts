@@ -0,0 +1,40 @@
+import { Locator, Page } from '@playwright/test';
+import { AllureHelper } from '../helpers/AllureHelper.js';
+import logger, { type ExtendedLogger } from '../config/logger.js';
+import type { WaitCondition } from '../types/index.js';
+
+/**
+ * Base class for OrangeHRM "oxd" widget wrappers
+ * A component is scoped to a root Locator so several instances can live on the same page
+ */
+export abstract class BaseComponent {
+  readonly root: Locator;
+  protected page: Page;
+  protected allure: AllureHelper;
+  protected logger: ExtendedLogger = logger;
+  protected timeout: number;
+
+  constructor(root: Locator, timeout: number = 30000) {
+    this.root = root;
+    this.page = root.page();
+    this.allure = new AllureHelper();
+    this.timeout = timeout;
+  }
+
+  /**
+   * Wait for the component root to reach a state
+   * @param state - Wait condition
+   * @param timeout - Timeout in milliseconds
+   */
+  async waitFor(state: WaitCondition = 'visible', timeout: number = this.timeout): Promise<void> {
+    await this.root.first().waitFor({ state, timeout });
+  }
+
+  /**
+   * Check if the component is visible
+   * @returns True if visible
+   */
+  async isVisible(): Promise<boolean> {
+    return await this.root.first().isVisible();
+  }
+}
@@ -0,0 +1,158 @@
+import { Locator, Page } from '@playwright/test';
+import { BaseComponent } from './BaseComponent.js';
+import { OxdFormGroup } from './OxdFormGroup.js';
+import type { LeaveDuration, LeavePartialDays, LeaveRequest } from '../types/index.js';
+
+/**
+ * Leave request form shared by Apply Leave and Assign Leave
+ * Partial-day fields only appear once the dates are set, so they are filled after the dates
+ */
+export class LeaveRequestForm extends BaseComponent {
+  private readonly selectors = {
+    leaveBalance: '.orangehrm-leave-balance-text',
+    submitButton: `xpath=.//button[@type='submit']`,
+    formRow: (label: string) =>
+      `xpath=.//label[normalize-space()='${label}']/ancestor::div[contains(@class,'oxd-form-row')][1]`
+  };
+
+  /**
+   * Leave form of a page
+   * @param page - Page instance
+   * @returns Leave request form component
+   */
+  static of(page: Page): LeaveRequestForm {
+    return new LeaveRequestForm(page.locator('.orangehrm-card-container form'));
+  }
+
+  /**
+   * Form group of the form
+   * @param label - Exact label text
+   * @param scope - Part of the form to search in
+   * @returns Form group component
+   */
+  private group(label: string, scope: Locator = this.root): OxdFormGroup {
+    return OxdFormGroup.byLabel(scope, label);
+  }
+
+  /**
+   * Get the leave types offered by the form
+   * @returns Leave type names
+   */
+  async getLeaveTypes(): Promise<string[]> {
+    return await this.group('Leave Type').select().getOptions();
+  }
+
+  /**
+   * Select a leave type and read the balance shown for it
+   * @param leaveType - Leave type name
+   * @returns Balance in days
+   */
+  async getLeaveBalance(leaveType: string): Promise<number> {
+    return await this.allure.timedStep(`Get Leave Balance: ${leaveType}`, async () => {
+      // The balance is fetched after the type is picked and reads "0.00 Day(s)" until then
+      const balanceResponse = this.page.waitForResponse(
+        response => response.url().includes('/leave/leave-balance/'),
+        { timeout: this.timeout }
+      );
+      await this.group('Leave Type').select().select(leaveType);
+      await balanceResponse;
+
+      const balance = this.root.locator(this.selectors.leaveBalance);
+      await balance.waitFor({ state: 'visible', timeout: this.timeout });
+
+      const text = (await balance.innerText()).trim();
+      const days = parseFloat(text.match(/-?\d+(\.\d+)?/)?.[0] || '0');
+
+      this.allure.addParameter(`${leaveType} Balance`, days);
+      this.logger.test.step('Get Leave Balance', 'read', { leaveType, days });
+
+      return days;
+    });
+  }
+
+  /**
+   * Fill the leave type, dates, partial-day options and comment
+   * Single-day requests use `duration`; multi-day requests apply `duration` to all days, the start
+   * day or the end day depending on `partialDays`, and `endDuration` to the end day of "Start and End Day"
+   * @param request - Leave request
+   */
+  async fill(request: LeaveRequest): Promise<void> {
+    await this.allure.timedStep('Fill Leave Request', async () => {
+      this.allure.attachJSON('Leave Request', request);
+
+      await this.group('Leave Type').select().select(request.leaveType);
+      await this.group('From Date').datePicker().setDate(request.fromDate);
+
+      if (request.toDate) {
+        await this.group('To Date').datePicker().setDate(request.toDate);
+      }
+
+      const partialDays: LeavePartialDays = request.partialDays || 'None';
+      const isMultiDay = await this.group('Partial Days').isVisible();
+
+      if (!isMultiDay) {
+        await this.fillDuration('Duration', request.duration);
+      } else if (partialDays !== 'None') {
+        await this.group('Partial Days').select().select(partialDays);
+
+        switch (partialDays) {
+          case 'All Days':
+            await this.fillDuration('Duration', request.duration);
+            break;
+          case 'Start Day Only':
+            await this.fillDuration('Start Day', request.duration);
+            break;
+          case 'End Day Only':
+            await this.fillDuration('End Day', request.duration);
+            break;
+          case 'Start and End Day':
+            await this.fillDuration('Start Day', request.duration);
+            await this.fillDuration('End Day', request.endDuration);
+            break;
+        }
+      }
+
+      if (request.comment) {
+        await this.group('Comments').fill(request.comment);
+      }
+
+      this.logger.test.step('Fill Leave Request', 'input', {
+        leaveType: request.leaveType,
+        partialDays
+      });
+    });
+  }
+
+  /**
+   * Pick a duration and, for "Specify Time", its time range
+   * @param label - Label of the duration dropdown
+   * @param duration - Duration, the form default (Full Day) is kept when undefined
+   */
+  private async fillDuration(label: string, duration?: LeaveDuration): Promise<void> {
+    if (!duration) {
+      return;
+    }
+
+    await this.group(label).select().select(duration.type);
+
+    if (duration.type === 'Specify Time') {
+      // "From" and "To" appear in the same row as the duration they belong to
+      const row = this.root.locator(this.selectors.formRow(label)).first();
+
+      if (duration.from) {
+        await this.group('From', row).fill(duration.from);
+      }
+
+      if (duration.to) {
+        await this.group('To', row).fill(duration.to);
+      }
+    }
+  }
+
+  /**
+   * Submit the form
+   */
+  async submit(): Promise<void> {
+    await this.root.locator(this.selectors.submitButton).click({ timeout: this.timeout });
+  }
+}
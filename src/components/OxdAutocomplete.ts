@@ -0,0 +1,92 @@
+import { Locator } from '@playwright/test';
+import { BaseComponent } from './BaseComponent.js';
+
+/**
+ * oxd-autocomplete input (employee name, candidate, vacancy hints)
+ * Root is the input group or the `.oxd-autocomplete-wrapper`
+ */
+export class OxdAutocomplete extends BaseComponent {
+  static readonly SEARCHING = 'Searching';
+  static readonly NO_RECORDS = 'No Records Found';
+
+  private readonly selectors = {
+    input: 'input',
+    options: `xpath=//div[@role='listbox']//div[contains(@class,'oxd-autocomplete-option')]`
+  };
+
+  /**
+   * Input element of the autocomplete
+   */
+  get input(): Locator {
+    return this.root.locator(this.selectors.input).first();
+  }
+
+  /**
+   * Suggestions that finished loading
+   */
+  private get suggestions(): Locator {
+    return this.page.locator(this.selectors.options).filter({ hasNotText: OxdAutocomplete.SEARCHING });
+  }
+
+  /**
+   * Type text and wait for the suggestions without picking one
+   * Useful for filters that accept a partial name
+   * @param text - Text to type
+   */
+  async type(text: string): Promise<void> {
+    await this.input.fill(text, { timeout: this.timeout });
+    await this.suggestions.first()
+      .waitFor({ state: 'visible', timeout: 5000 })
+      .catch(() => undefined);
+  }
+
+  /**
+   * Get the suggestions offered for a text
+   * @param text - Text to type
+   * @returns Suggestion texts, empty when nothing matches
+   */
+  async getSuggestions(text: string): Promise<string[]> {
+    await this.type(text);
+
+    const suggestions = (await this.suggestions.allInnerTexts()).map(suggestion => suggestion.trim());
+    return suggestions.filter(suggestion => suggestion !== OxdAutocomplete.NO_RECORDS);
+  }
+
+  /**
+   * Type text and pick a suggestion
+   * @param text - Text to type
+   * @param optionText - Suggestion to pick, defaults to the first one
+   */
+  async select(text: string, optionText?: string): Promise<void> {
+    await this.allure.timedStep(`Select suggestion: ${optionText || text}`, async () => {
+      await this.input.fill(text, { timeout: this.timeout });
+
+      const options = optionText ? this.suggestions.filter({ hasText: optionText }) : this.suggestions;
+      const option = options.first();
+      await option.waitFor({ state: 'visible', timeout: this.timeout });
+
+      if ((await option.innerText()).trim() === OxdAutocomplete.NO_RECORDS) {
+        throw new Error(`No suggestion found for '${text}'`);
+      }
+
+      await option.click({ timeout: this.timeout });
+
+      this.logger.test.step('Select Suggestion', 'select', { text, optionText });
+    });
+  }
+
+  /**
+   * Get the current input value
+   * @returns Input value
+   */
+  async getValue(): Promise<string> {
+    return await this.input.inputValue();
+  }
+
+  /**
+   * Clear the input
+   */
+  async clear(): Promise<void> {
+    await this.input.clear({ timeout: this.timeout });
+  }
+}
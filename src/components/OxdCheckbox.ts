@@ -0,0 +1,57 @@
+import { Locator, Page } from '@playwright/test';
+import { BaseComponent } from './BaseComponent.js';
+
+/**
+ * oxd-checkbox
+ * The native input is hidden behind a styled span, so clicks go to the span
+ */
+export class OxdCheckbox extends BaseComponent {
+  private readonly selectors = {
+    input: 'input[type="checkbox"]',
+    styledInput: '.oxd-checkbox-input'
+  };
+
+  /**
+   * Find a checkbox by the text of its label
+   * @param scope - Page or locator to search in
+   * @param label - Label text (e.g. "Yes" next to "Change Password ?")
+   * @returns Checkbox component
+   */
+  static byLabel(scope: Page | Locator, label: string): OxdCheckbox {
+    return new OxdCheckbox(scope.locator('.oxd-checkbox-wrapper').filter({ hasText: label }).first());
+  }
+
+  /**
+   * Check if the checkbox is checked
+   * @returns True if checked
+   */
+  async isChecked(): Promise<boolean> {
+    return await this.root.locator(this.selectors.input).first().isChecked();
+  }
+
+  /**
+   * Set the checked state, clicking only when it differs
+   * @param checked - Expected state
+   */
+  async setChecked(checked: boolean): Promise<void> {
+    if ((await this.isChecked()) !== checked) {
+      await this.root.locator(this.selectors.styledInput).first().click({ timeout: this.timeout });
+    }
+
+    this.logger.test.step('Set Checkbox', 'input', { checked });
+  }
+
+  /**
+   * Check the checkbox
+   */
+  async check(): Promise<void> {
+    await this.setChecked(true);
+  }
+
+  /**
+   * Uncheck the checkbox
+   */
+  async uncheck(): Promise<void> {
+    await this.setChecked(false);
+  }
+}
@@ -0,0 +1,72 @@
+import { Page } from '@playwright/test';
+import { BaseComponent } from './BaseComponent.js';
+
+/**
+ * Confirmation dialog ("Are you Sure?") used before deletions
+ */
+export class OxdConfirmDialog extends BaseComponent {
+  private readonly selectors = {
+    title: '.oxd-text--card-title',
+    message: '.oxd-text--card-body',
+    button: (text: string) => `xpath=.//button[normalize-space()='${text}']`
+  };
+
+  /**
+   * Dialog of a page
+   * @param page - Page instance
+   * @returns Confirm dialog component
+   */
+  static of(page: Page): OxdConfirmDialog {
+    return new OxdConfirmDialog(page.locator('.orangehrm-dialog-popup'));
+  }
+
+  /**
+   * Get the dialog title
+   * @returns Title text
+   */
+  async getTitle(): Promise<string> {
+    await this.waitFor();
+    return (await this.root.locator(this.selectors.title).first().innerText()).trim();
+  }
+
+  /**
+   * Get the dialog message
+   * @returns Message text
+   */
+  async getMessage(): Promise<string> {
+    await this.waitFor();
+    return (await this.root.locator(this.selectors.message).first().innerText()).trim();
+  }
+
+  /**
+   * Click a dialog button and wait for the dialog to close
+   * @param text - Button text
+   */
+  private async clickButton(text: string): Promise<void> {
+    await this.waitFor();
+    await this.root.locator(this.selectors.button(text)).first().click({ timeout: this.timeout });
+    await this.waitFor('hidden');
+
+    this.logger.test.step('Confirm Dialog', 'click', { button: text });
+  }
+
+  /**
+   * Confirm the dialog
+   * @param buttonText - Confirm button text
+   */
+  async confirm(buttonText: string = 'Yes, Delete'): Promise<void> {
+    await this.allure.timedStep(`Confirm dialog: ${buttonText}`, async () => {
+      await this.clickButton(buttonText);
+    });
+  }
+
+  /**
+   * Cancel the dialog
+   * @param buttonText - Cancel button text
+   */
+  async cancel(buttonText: string = 'No, Cancel'): Promise<void> {
+    await this.allure.timedStep(`Cancel dialog: ${buttonText}`, async () => {
+      await this.clickButton(buttonText);
+    });
+  }
+}
@@ -0,0 +1,115 @@
+import { Locator } from '@playwright/test';
+import { BaseComponent } from './BaseComponent.js';
+
+/**
+ * oxd-date-input with its calendar popup
+ * Dates are typed in the format shown by the input placeholder (e.g. yyyy-dd-mm), which follows
+ * the localization setting of the instance
+ */
+export class OxdDatePicker extends BaseComponent {
+  static readonly DEFAULT_FORMAT = 'yyyy-mm-dd';
+
+  private readonly selectors = {
+    input: 'input',
+    calendar: '.oxd-calendar-wrapper'
+  };
+
+  /**
+   * Input element of the date picker
+   */
+  get input(): Locator {
+    return this.root.locator(this.selectors.input).first();
+  }
+
+  /**
+   * Format a date with an OrangeHRM placeholder pattern
+   * @param date - Date to format
+   * @param format - Pattern using yyyy, mm and dd
+   * @returns Formatted date
+   */
+  static formatDate(date: Date, format: string = OxdDatePicker.DEFAULT_FORMAT): string {
+    const pad = (value: number) => value.toString().padStart(2, '0');
+
+    return format
+      .replace('yyyy', date.getFullYear().toString())
+      .replace('mm', pad(date.getMonth() + 1))
+      .replace('dd', pad(date.getDate()));
+  }
+
+  /**
+   * Parse a date typed with an OrangeHRM placeholder pattern
+   * @param value - Formatted date
+   * @param format - Pattern using yyyy, mm and dd
+   * @returns Parsed date, null when the value does not match the pattern
+   */
+  static parseDate(value: string, format: string = OxdDatePicker.DEFAULT_FORMAT): Date | null {
+    const yearIndex = format.indexOf('yyyy');
+    const monthIndex = format.indexOf('mm');
+    const dayIndex = format.indexOf('dd');
+
+    if (value.length !== format.length || yearIndex < 0 || monthIndex < 0 || dayIndex < 0) {
+      return null;
+    }
+
+    const year = parseInt(value.substring(yearIndex, yearIndex + 4));
+    const month = parseInt(value.substring(monthIndex, monthIndex + 2));
+    const day = parseInt(value.substring(dayIndex, dayIndex + 2));
+
+    if ([year, month, day].some(part => isNaN(part))) {
+      return null;
+    }
+
+    return new Date(year, month - 1, day);
+  }
+
+  /**
+   * Get the date format expected by the input
+   * @returns Placeholder pattern, the default format when the input has none
+   */
+  async getFormat(): Promise<string> {
+    return (await this.input.getAttribute('placeholder')) || OxdDatePicker.DEFAULT_FORMAT;
+  }
+
+  /**
+   * Set the date
+   * @param date - Date object, or a string already in the input format
+   */
+  async setDate(date: Date | string): Promise<void> {
+    await this.allure.timedStep(`Set date: ${date instanceof Date ? date.toDateString() : date}`, async () => {
+      const value = date instanceof Date ? OxdDatePicker.formatDate(date, await this.getFormat()) : date;
+
+      await this.input.fill(value, { timeout: this.timeout });
+      // Close the calendar so it does not cover the next field
+      await this.input.blur();
+      await this.page.locator(this.selectors.calendar)
+        .waitFor({ state: 'hidden', timeout: 5000 })
+        .catch(() => undefined);
+
+      this.logger.test.step('Set Date', 'input', { value });
+    });
+  }
+
+  /**
+   * Get the typed value
+   * @returns Input value
+   */
+  async getValue(): Promise<string> {
+    return await this.input.inputValue();
+  }
+
+  /**
+   * Get the value as a date
+   * @returns Parsed date, null when empty or invalid
+   */
+  async getDate(): Promise<Date | null> {
+    const value = await this.getValue();
+    return value ? OxdDatePicker.parseDate(value, await this.getFormat()) : null;
+  }
+
+  /**
+   * Clear the date
+   */
+  async clear(): Promise<void> {
+    await this.input.clear({ timeout: this.timeout });
+  }
+}
@@ -0,0 +1,118 @@
+import { Locator, Page } from '@playwright/test';
+import { BaseComponent } from './BaseComponent.js';
+import { OxdSelect } from './OxdSelect.js';
+import { OxdAutocomplete } from './OxdAutocomplete.js';
+import { OxdDatePicker } from './OxdDatePicker.js';
+import { OxdCheckbox } from './OxdCheckbox.js';
+
+/**
+ * oxd-input-group: a label with its input and field validation message
+ * The widget inside the group is exposed through select(), autocomplete(), datePicker() and checkbox()
+ */
+export class OxdFormGroup extends BaseComponent {
+  readonly label: string;
+
+  private readonly selectors = {
+    input: 'input:not([type="checkbox"]):not([type="radio"]):not([type="file"]), textarea',
+    label: 'label',
+    fieldError: '.oxd-input-field-error-message',
+    requiredLabel: '.oxd-input-field-required'
+  };
+
+  constructor(root: Locator, label: string, timeout?: number) {
+    super(root, timeout);
+    this.label = label;
+  }
+
+  /**
+   * Find a form group by its label text
+   * @param scope - Page or locator to search in (e.g. a dialog or a form)
+   * @param label - Exact label text
+   * @returns Form group component
+   */
+  static byLabel(scope: Page | Locator, label: string): OxdFormGroup {
+    // Labels such as "Driver's License Number" need double quotes in the XPath literal
+    const literal = label.includes("'") ? `"${label}"` : `'${label}'`;
+    const root = scope.locator(
+      `xpath=.//label[normalize-space()=${literal}]/ancestor::div[contains(@class,'oxd-input-group')][1]`
+    ).first();
+
+    return new OxdFormGroup(root, label);
+  }
+
+  /**
+   * Text input or textarea of the group
+   */
+  get input(): Locator {
+    return this.root.locator(this.selectors.input).first();
+  }
+
+  /**
+   * Replace the input value
+   * @param value - Value to fill
+   */
+  async fill(value: string): Promise<void> {
+    await this.input.clear({ timeout: this.timeout });
+    await this.input.fill(value, { timeout: this.timeout });
+
+    this.logger.test.step(`Fill ${this.label}`, 'input', { label: this.label, length: value.length });
+  }
+
+  /**
+   * Get the input value
+   * @returns Input value
+   */
+  async getValue(): Promise<string> {
+    return await this.input.inputValue({ timeout: this.timeout });
+  }
+
+  /**
+   * Get the field validation message
+   * @returns Error text or null when the field is valid
+   */
+  async getError(): Promise<string | null> {
+    const error = this.root.locator(this.selectors.fieldError);
+
+    if ((await error.count()) === 0) {
+      return null;
+    }
+
+    return (await error.first().innerText()).trim();
+  }
+
+  /**
+   * Check if the label is marked as required
+   * @returns True if required
+   */
+  async isRequired(): Promise<boolean> {
+    return (await this.root.locator(this.selectors.requiredLabel).count()) > 0;
+  }
+
+  /**
+   * Dropdown of the group
+   */
+  select(): OxdSelect {
+    return new OxdSelect(this.root, this.timeout);
+  }
+
+  /**
+   * Autocomplete of the group
+   */
+  autocomplete(): OxdAutocomplete {
+    return new OxdAutocomplete(this.root, this.timeout);
+  }
+
+  /**
+   * Date picker of the group
+   */
+  datePicker(): OxdDatePicker {
+    return new OxdDatePicker(this.root, this.timeout);
+  }
+
+  /**
+   * Checkbox of the group
+   */
+  checkbox(): OxdCheckbox {
+    return new OxdCheckbox(this.root, this.timeout);
+  }
+}
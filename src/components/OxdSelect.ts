@@ -0,0 +1,62 @@
+import { BaseComponent } from './BaseComponent.js';
+
+/**
+ * oxd-select dropdown
+ * Root is the input group or the `.oxd-select-wrapper` holding the dropdown
+ */
+export class OxdSelect extends BaseComponent {
+  static readonly PLACEHOLDER = '-- Select --';
+
+  private readonly selectors = {
+    selectText: '.oxd-select-text',
+    selectedValue: '.oxd-select-text-input',
+    listbox: `xpath=//div[@role='listbox']`,
+    options: `xpath=//div[@role='listbox']//div[@role='option']`,
+    option: (option: string) => `xpath=//div[@role='listbox']//span[text()='${option}']`
+  };
+
+  /**
+   * Open the dropdown list
+   */
+  async open(): Promise<void> {
+    await this.root.locator(this.selectors.selectText).first().click({ timeout: this.timeout });
+    await this.page.locator(this.selectors.listbox).first().waitFor({ state: 'visible', timeout: this.timeout });
+  }
+
+  /**
+   * Select an option by its exact text
+   * @param option - Option text
+   */
+  async select(option: string): Promise<void> {
+    await this.allure.timedStep(`Select option: ${option}`, async () => {
+      await this.open();
+      await this.page.locator(this.selectors.option(option)).first().click({ timeout: this.timeout });
+
+      this.logger.test.step('Select Option', 'select', { option });
+    });
+  }
+
+  /**
+   * Get the selected option
+   * @returns Selected option text, undefined when the placeholder is shown
+   */
+  async getSelected(): Promise<string | undefined> {
+    const value = (await this.root.locator(this.selectors.selectedValue).first().innerText()).trim();
+    return value && value !== OxdSelect.PLACEHOLDER ? value : undefined;
+  }
+
+  /**
+   * Get every option offered by the dropdown
+   * @returns Option texts without the placeholder
+   */
+  async getOptions(): Promise<string[]> {
+    await this.open();
+
+    const options = (await this.page.locator(this.selectors.options).allInnerTexts())
+      .map(option => option.trim())
+      .filter(option => option && option !== OxdSelect.PLACEHOLDER);
+
+    await this.page.keyboard.press('Escape');
+    return options;
+  }
+}
@@ -0,0 +1,370 @@
+import { Locator, Page } from '@playwright/test';
+import { BaseComponent } from './BaseComponent.js';
+import { OxdCheckbox } from './OxdCheckbox.js';
+import { OxdConfirmDialog } from './OxdConfirmDialog.js';
+import { OxdToast } from './OxdToast.js';
+import type { OxdRowAction, OxdSortDirection, OxdTableRow } from '../types/index.js';
+
+/**
+ * oxd-table list with its "(N) Records Found" header, header sort menus, row selection,
+ * row actions and pagination
+ * Root is the list container (`.orangehrm-paper-container`) holding the table
+ */
+export class OxdTable extends BaseComponent {
+  // Rows per page of every OrangeHRM list
+  static readonly PAGE_SIZE = 50;
+
+  private readonly selectors = {
+    // Table
+    headers: '.oxd-table-header .oxd-table-th',
+    rows: '.oxd-table-body .oxd-table-card',
+    cell: '.oxd-table-cell',
+    headerCheckbox: '.oxd-table-header .oxd-checkbox-wrapper',
+    rowCheckbox: '.oxd-checkbox-wrapper',
+    recordsFound: `xpath=.//div[contains(@class,'orangehrm-horizontal-padding')]//span[contains(normalize-space(),'Record')]`,
+    deleteSelectedButton: `xpath=.//button[normalize-space()='Delete Selected']`,
+    loadingSpinner: '.oxd-loading-spinner',
+
+    // Header sort menu
+    sortIcon: '.oxd-table-header-sort',
+    sortOption: (direction: OxdSortDirection) =>
+      `xpath=.//div[contains(@class,'oxd-table-header-sort-dropdown')]//li[normalize-space()='${direction}']`,
+
+    // Pagination
+    currentPage: '.oxd-pagination-page-item--page-selected',
+    pageButton: (pageNumber: number) =>
+      `xpath=.//button[contains(@class,'oxd-pagination-page-item--page')][normalize-space()='${pageNumber}']`,
+    nextButton: `xpath=.//button[contains(@class,'oxd-pagination-page-item--previous-next')][.//i[contains(@class,'bi-chevron-right')]]`,
+    previousButton: `xpath=.//button[contains(@class,'oxd-pagination-page-item--previous-next')][.//i[contains(@class,'bi-chevron-left')]]`
+  };
+
+  // Row action icons
+  private readonly actionIcons: Record<OxdRowAction, string> = {
+    edit: '.bi-pencil-fill',
+    delete: '.bi-trash',
+    view: '.bi-eye-fill',
+    download: '.bi-download'
+  };
+
+  /**
+   * Table list of a page
+   * @param page - Page instance
+   * @returns Table component
+   */
+  static of(page: Page): OxdTable {
+    return new OxdTable(page.locator('.orangehrm-paper-container').filter({ has: page.locator('.oxd-table') }).first());
+  }
+
+  /**
+   * Wait until the table has finished loading
+   */
+  async waitForLoad(): Promise<void> {
+    await this.page.locator(this.selectors.loadingSpinner).first()
+      .waitFor({ state: 'hidden', timeout: this.timeout })
+      .catch(() => undefined);
+  }
+
+  /**
+   * Get the column headers
+   * @returns Header texts, empty string for the checkbox and actions columns
+   */
+  async getHeaders(): Promise<string[]> {
+    return (await this.root.locator(this.selectors.headers).allInnerTexts()).map(header => header.trim());
+  }
+
+  /**
+   * Get the index of a column
+   * @param column - Header text
+   * @returns Column index
+   */
+  async getColumnIndex(column: string): Promise<number> {
+    const index = (await this.getHeaders()).indexOf(column);
+
+    if (index < 0) {
+      throw new Error(`Column '${column}' not found in table`);
+    }
+
+    return index;
+  }
+
+  /**
+   * Row locators of the current page
+   */
+  get rows(): Locator {
+    return this.root.locator(this.selectors.rows);
+  }
+
+  /**
+   * Get the number of rows on the current page
+   * @returns Row count
+   */
+  async getRowCount(): Promise<number> {
+    await this.waitForLoad();
+    return await this.rows.count();
+  }
+
+  /**
+   * Read the rows of the current page keyed by header text
+   * @param mapRow - Optional mapper from header-keyed cells to a typed row
+   * @returns Rows
+   */
+  async getRows<T = OxdTableRow>(mapRow?: (row: OxdTableRow) => T): Promise<T[]> {
+    await this.waitForLoad();
+
+    const headers = await this.getHeaders();
+    const rowLocators = await this.rows.all();
+    const rows: T[] = [];
+
+    for (const rowLocator of rowLocators) {
+      const cells = (await rowLocator.locator(this.selectors.cell).allInnerTexts()).map(cell => cell.trim());
+      const row: OxdTableRow = {};
+
+      headers.forEach((header, index) => {
+        if (header) {
+          row[header] = cells[index] || '';
+        }
+      });
+
+      rows.push(mapRow ? mapRow(row) : row as T);
+    }
+
+    return rows;
+  }
+
+  /**
+   * Read the rows of every page, starting from the first one
+   * @param mapRow - Optional mapper from header-keyed cells to a typed row
+   * @returns Rows of all pages
+   */
+  async getAllRows<T = OxdTableRow>(mapRow?: (row: OxdTableRow) => T): Promise<T[]> {
+    return await this.allure.timedStep('Read all table pages', async () => {
+      if ((await this.getPageCount()) > 1) {
+        await this.goToPage(1);
+      }
+
+      const rows = await this.getRows(mapRow);
+      let pagesRead = 1;
+
+      while (await this.hasNextPage()) {
+        await this.nextPage();
+        rows.push(...await this.getRows(mapRow));
+        pagesRead++;
+      }
+
+      this.allure.addParameter('Pages Read', pagesRead);
+      this.logger.test.step('Read All Table Pages', 'read', { pagesRead, rowCount: rows.length });
+
+      return rows;
+    });
+  }
+
+  /**
+   * Get the cell texts of a column on the current page
+   * @param column - Header text
+   * @returns Cell texts
+   */
+  async getColumnValues(column: string): Promise<string[]> {
+    const rows = await this.getRows();
+    return rows.map(row => row[column] ?? '');
+  }
+
+  /**
+   * Find the row whose cell in a column has an exact text on the current page
+   * @param column - Header text
+   * @param value - Cell text
+   * @returns Row locator
+   */
+  async getRow(column: string, value: string): Promise<Locator> {
+    const index = await this.getColumnIndex(column);
+
+    return this.rows.filter({
+      has: this.page.locator(`xpath=.//div[contains(@class,'oxd-table-cell')][${index + 1}][normalize-space()='${value}']`)
+    }).first();
+  }
+
+  /**
+   * Get the "(N) Records Found" count
+   * @returns Number of records found, 0 when no records
+   */
+  async getRecordCount(): Promise<number> {
+    await this.waitForLoad();
+
+    const recordsFound = this.root.locator(this.selectors.recordsFound);
+    if ((await recordsFound.count()) === 0) {
+      return 0;
+    }
+
+    const match = (await recordsFound.first().innerText()).match(/\((\d+)\)/);
+    return match ? parseInt(match[1]) : 0;
+  }
+
+  /**
+   * Sort by a column through its header sort menu
+   * @param column - Header text
+   * @param direction - Sort direction
+   */
+  async sortBy(column: string, direction: OxdSortDirection = 'Ascending'): Promise<void> {
+    await this.allure.timedStep(`Sort by ${column}: ${direction}`, async () => {
+      const index = await this.getColumnIndex(column);
+      const header = this.root.locator(this.selectors.headers).nth(index);
+
+      await header.locator(this.selectors.sortIcon).click({ timeout: this.timeout });
+      await header.locator(this.selectors.sortOption(direction)).click({ timeout: this.timeout });
+      await this.waitForLoad();
+
+      this.logger.test.step('Sort Table', 'sort', { column, direction });
+    });
+  }
+
+  /**
+   * Select the row whose cell in a column has an exact text
+   * @param column - Header text
+   * @param value - Cell text
+   */
+  async selectRow(column: string, value: string): Promise<void> {
+    const row = await this.getRow(column, value);
+    await new OxdCheckbox(row.locator(this.selectors.rowCheckbox), this.timeout).check();
+
+    this.logger.test.step('Select Table Row', 'select', { column, value });
+  }
+
+  /**
+   * Select every row of the current page through the header checkbox
+   */
+  async selectAll(): Promise<void> {
+    await new OxdCheckbox(this.root.locator(this.selectors.headerCheckbox), this.timeout).check();
+  }
+
+  /**
+   * Delete the selected rows through "Delete Selected" and the confirmation dialog
+   */
+  async deleteSelected(): Promise<void> {
+    await this.allure.timedStep('Delete selected rows', async () => {
+      await this.root.locator(this.selectors.deleteSelectedButton).click({ timeout: this.timeout });
+      await OxdConfirmDialog.of(this.page).confirm();
+      await OxdToast.of(this.page).waitForSuccess();
+      await this.waitForLoad();
+    });
+  }
+
+  /**
+   * Click a row action icon
+   * @param column - Header text used to find the row
+   * @param value - Cell text used to find the row
+   * @param action - Row action
+   */
+  async clickRowAction(column: string, value: string, action: OxdRowAction): Promise<void> {
+    await this.allure.timedStep(`Row action ${action}: ${value}`, async () => {
+      const row = await this.getRow(column, value);
+
+      if ((await row.count()) === 0) {
+        throw new Error(`Row with ${column} '${value}' not found in table`);
+      }
+
+      await row.locator(this.actionIcons[action]).click({ timeout: this.timeout });
+
+      this.logger.test.step('Table Row Action', action, { column, value });
+    });
+  }
+
+  /**
+   * Open the edit form of a row
+   * @param column - Header text used to find the row
+   * @param value - Cell text used to find the row
+   */
+  async editRow(column: string, value: string): Promise<void> {
+    await this.clickRowAction(column, value, 'edit');
+  }
+
+  /**
+   * Delete a row through its trash icon and the confirmation dialog
+   * @param column - Header text used to find the row
+   * @param value - Cell text used to find the row
+   */
+  async deleteRow(column: string, value: string): Promise<void> {
+    await this.clickRowAction(column, value, 'delete');
+    await OxdConfirmDialog.of(this.page).confirm();
+    await OxdToast.of(this.page).waitForSuccess();
+    await this.waitForLoad();
+  }
+
+  /**
+   * Get the number of pages
+   * Worked out from "(N) Records Found", as the page buttons only show a window of the pages
+   * @returns Page count, 1 when the list has no pagination
+   */
+  async getPageCount(): Promise<number> {
+    return Math.max(1, Math.ceil((await this.getRecordCount()) / OxdTable.PAGE_SIZE));
+  }
+
+  /**
+   * Get the current page number
+   * @returns Current page, 1 when the list has no pagination
+   */
+  async getCurrentPage(): Promise<number> {
+    const current = this.root.locator(this.selectors.currentPage);
+
+    if ((await current.count()) === 0) {
+      return 1;
+    }
+
+    return parseInt((await current.first().innerText()).trim());
+  }
+
+  /**
+   * Check if there is a page after the current one
+   * @returns True if a next page exists
+   */
+  async hasNextPage(): Promise<boolean> {
+    return (await this.root.locator(this.selectors.nextButton).count()) > 0;
+  }
+
+  /**
+   * Go to the next page
+   */
+  async nextPage(): Promise<void> {
+    const currentPage = await this.getCurrentPage();
+
+    await this.root.locator(this.selectors.nextButton).click({ timeout: this.timeout });
+    await this.waitForPage(currentPage + 1);
+  }
+
+  /**
+   * Go to a page
+   * @param pageNumber - Page number, starting from 1
+   */
+  async goToPage(pageNumber: number): Promise<void> {
+    if ((await this.getCurrentPage()) === pageNumber) {
+      return;
+    }
+
+    // Only a window of page numbers is shown, so step towards the page until its button appears
+    while ((await this.root.locator(this.selectors.pageButton(pageNumber)).count()) === 0) {
+      const currentPage = await this.getCurrentPage();
+      const stepButton = this.root.locator(
+        currentPage < pageNumber ? this.selectors.nextButton : this.selectors.previousButton
+      );
+
+      if ((await stepButton.count()) === 0) {
+        throw new Error(`Page ${pageNumber} not found in table pagination`);
+      }
+
+      await stepButton.click({ timeout: this.timeout });
+      await this.waitForPage(currentPage < pageNumber ? currentPage + 1 : currentPage - 1);
+    }
+
+    await this.root.locator(this.selectors.pageButton(pageNumber)).click({ timeout: this.timeout });
+    await this.waitForPage(pageNumber);
+  }
+
+  /**
+   * Wait for the pagination to mark a page as current and for the rows to load
+   * @param pageNumber - Expected current page
+   */
+  private async waitForPage(pageNumber: number): Promise<void> {
+    await this.root.locator(this.selectors.currentPage)
+      .filter({ hasText: new RegExp(`^\\s*${pageNumber}\\s*$`) })
+      .waitFor({ state: 'visible', timeout: this.timeout });
+    await this.waitForLoad();
+  }
+}
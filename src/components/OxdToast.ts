@@ -0,0 +1,71 @@
+import { Page } from '@playwright/test';
+import { BaseComponent } from './BaseComponent.js';
+import type { OxdToastType } from '../types/index.js';
+
+/**
+ * oxd-toast notifications ("Success - Successfully Saved", "Error - ...")
+ * Root is the toast container shared by the whole page
+ */
+export class OxdToast extends BaseComponent {
+  private readonly selectors = {
+    toast: (type: OxdToastType) => `.oxd-toast--${type}`,
+    message: '.oxd-toast-content-text.oxd-text--toast-message',
+    closeButton: '.oxd-toast-close'
+  };
+
+  /**
+   * Toast container of a page
+   * @param page - Page instance
+   * @returns Toast component
+   */
+  static of(page: Page): OxdToast {
+    return new OxdToast(page.locator('.oxd-toast-container'));
+  }
+
+  /**
+   * Wait for a toast of a type and read its message
+   * @param type - Toast type
+   * @param timeout - Timeout in milliseconds
+   * @returns Toast message
+   */
+  async waitForToast(type: OxdToastType = 'success', timeout: number = this.timeout): Promise<string> {
+    return await this.allure.timedStep(`Wait for ${type} toast`, async () => {
+      const toast = this.root.locator(this.selectors.toast(type)).last();
+      await toast.waitFor({ state: 'visible', timeout });
+
+      const message = (await toast.locator(this.selectors.message).innerText()).trim();
+
+      this.allure.addParameter('Toast Message', message);
+      this.logger.test.step('Toast Displayed', 'verification', { type, message });
+
+      return message;
+    });
+  }
+
+  /**
+   * Wait for the success toast
+   * @returns Toast message
+   */
+  async waitForSuccess(): Promise<string> {
+    return await this.waitForToast('success');
+  }
+
+  /**
+   * Get the messages of the toasts currently shown
+   * @returns Toast messages
+   */
+  async getMessages(): Promise<string[]> {
+    return (await this.root.locator(this.selectors.message).allInnerTexts()).map(message => message.trim());
+  }
+
+  /**
+   * Close every visible toast
+   */
+  async closeAll(): Promise<void> {
+    const closeButtons = await this.root.locator(this.selectors.closeButton).all();
+
+    for (const closeButton of closeButtons) {
+      await closeButton.click().catch(() => undefined);
+    }
+  }
+}
@@ -0,0 +1,203 @@
+import { Page, expect } from '@playwright/test';
+import { BaseComponent } from './BaseComponent.js';
+import { OxdFormGroup } from './OxdFormGroup.js';
+import { OxdToast } from './OxdToast.js';
+import type { AboutInfo, UserDropdownItem } from '../types/index.js';
+
+/**
+ * Top bar shown on every authenticated page
+ * Handles the user dropdown: About, Support, Change Password and Logout
+ */
+export class TopBar extends BaseComponent {
+  // Page URLs
+  private readonly LOGIN_URL = '/web/index.php/auth/login';
+  private readonly SUPPORT_URL = '/web/index.php/help/support';
+  private readonly CHANGE_PASSWORD_URL = '/web/index.php/pim/updatePassword';
+
+  private readonly selectors = {
+    // User dropdown
+    userName: '.oxd-userdropdown-name',
+    dropdownTab: '.oxd-userdropdown-tab',
+    dropdownMenu: '.oxd-dropdown-menu',
+    dropdownItem: (item: UserDropdownItem) =>
+      `xpath=//ul[contains(@class,'oxd-dropdown-menu')]//a[normalize-space()='${item}']`,
+
+    // About dialog
+    aboutDialog: '.orangehrm-dialog-popup',
+    aboutContent: '.orangehrm-about',
+    dialogClose: '.oxd-dialog-close-button',
+
+    // Change password form
+    changePasswordForm: '.orangehrm-card-container form',
+    saveButton: `xpath=//form//button[@type='submit']`,
+
+    // Login page
+    loginButton: 'button[type="submit"]'
+  };
+
+  /**
+   * Top bar of a page
+   * @param page - Page instance
+   * @returns Top bar component
+   */
+  static of(page: Page): TopBar {
+    return new TopBar(page.locator('.oxd-topbar'));
+  }
+
+  /**
+   * Get the name of the logged-in user
+   * @returns Full name shown next to the avatar
+   */
+  async getUserName(): Promise<string> {
+    const userName = this.root.locator(this.selectors.userName);
+    await userName.waitFor({ state: 'visible', timeout: this.timeout });
+
+    return (await userName.innerText()).trim();
+  }
+
+  /**
+   * Open the user dropdown
+   */
+  async openUserDropdown(): Promise<void> {
+    await this.allure.timedStep('Open User Dropdown', async () => {
+      const menu = this.page.locator(this.selectors.dropdownMenu);
+
+      if (!(await menu.isVisible())) {
+        await this.root.locator(this.selectors.dropdownTab).click({ timeout: this.timeout });
+        await menu.waitFor({ state: 'visible', timeout: this.timeout });
+      }
+    });
+  }
+
+  /**
+   * Get the items of the user dropdown
+   * @returns Item labels
+   */
+  async getUserDropdownItems(): Promise<string[]> {
+    await this.openUserDropdown();
+
+    const items = await this.page.locator(this.selectors.dropdownMenu).locator('a').allInnerTexts();
+    return items.map(item => item.trim());
+  }
+
+  /**
+   * Click an item of the user dropdown
+   * @param item - Dropdown item
+   */
+  async selectUserDropdownItem(item: UserDropdownItem): Promise<void> {
+    await this.openUserDropdown();
+    await this.page.locator(this.selectors.dropdownItem(item)).click({ timeout: this.timeout });
+
+    this.logger.test.step('Select User Dropdown Item', 'click', { item });
+  }
+
+  /**
+   * Log out and verify the login page is shown again
+   */
+  async logout(): Promise<void> {
+    await this.allure.timedStep('Logout', async () => {
+      const userName = await this.getUserName();
+
+      await this.selectUserDropdownItem('Logout');
+      await this.page.waitForURL(`**${this.LOGIN_URL}`, { timeout: this.timeout });
+      await expect(this.page.locator(this.selectors.loginButton)).toBeVisible({ timeout: this.timeout });
+
+      this.allure.addParameter('Logged Out User', userName);
+      this.logger.test.step('Logout', 'authentication', { userName });
+    });
+  }
+
+  /**
+   * Open "About" and parse the dialog
+   * @returns Company name, version and employee counts
+   */
+  async getAboutInfo(): Promise<AboutInfo> {
+    return await this.allure.timedStep('Get About Info', async () => {
+      await this.selectUserDropdownItem('About');
+
+      const dialog = this.page.locator(this.selectors.aboutDialog);
+      const content = dialog.locator(this.selectors.aboutContent);
+      await content.waitFor({ state: 'visible', timeout: this.timeout });
+
+      const fields = TopBar.parseLabelledLines(await content.innerText());
+      const version = fields['Version'] || '';
+      const aboutInfo: AboutInfo = {
+        companyName: fields['Company Name'] || '',
+        version,
+        versionNumber: version.match(/\d+(\.\d+)*/)?.[0] || '',
+        activeEmployees: parseInt(fields['Active Employees'] || '0'),
+        terminatedEmployees: parseInt(fields['Employees Terminated'] || '0')
+      };
+
+      await dialog.locator(this.selectors.dialogClose).click({ timeout: this.timeout });
+      await dialog.waitFor({ state: 'hidden', timeout: this.timeout });
+
+      this.allure.attachJSON('About Info', aboutInfo);
+      this.logger.test.step('Get About Info', 'read', { ...aboutInfo });
+
+      return aboutInfo;
+    });
+  }
+
+  /**
+   * Parse "Label: value" pairs, whether a pair shares one line or spans two lines
+   * @param text - Inner text of the About dialog
+   * @returns Values keyed by label
+   */
+  private static parseLabelledLines(text: string): Record<string, string> {
+    const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+    const fields: Record<string, string> = {};
+
+    for (let index = 0; index < lines.length; index++) {
+      const [label, ...rest] = lines[index].split(':');
+      const value = rest.join(':').trim();
+
+      if (rest.length === 0) {
+        continue;
+      }
+
+      if (value) {
+        fields[label.trim()] = value;
+      } else if (index + 1 < lines.length) {
+        fields[label.trim()] = lines[++index];
+      }
+    }
+
+    return fields;
+  }
+
+  /**
+   * Open the Support page
+   */
+  async openSupport(): Promise<void> {
+    await this.allure.timedStep('Open Support', async () => {
+      await this.selectUserDropdownItem('Support');
+      await this.page.waitForURL(`**${this.SUPPORT_URL}`, { timeout: this.timeout });
+    });
+  }
+
+  /**
+   * Change the password of the logged-in user
+   * @param currentPassword - Current password
+   * @param newPassword - New password
+   */
+  async changePassword(currentPassword: string, newPassword: string): Promise<void> {
+    await this.allure.timedStep('Change Password', async () => {
+      await this.selectUserDropdownItem('Change Password');
+      await this.page.waitForURL(`**${this.CHANGE_PASSWORD_URL}`, { timeout: this.timeout });
+
+      const form = this.page.locator(this.selectors.changePasswordForm);
+      await form.waitFor({ state: 'visible', timeout: this.timeout });
+
+      await OxdFormGroup.byLabel(form, 'Current Password').fill(currentPassword);
+      await OxdFormGroup.byLabel(form, 'Password').fill(newPassword);
+      await OxdFormGroup.byLabel(form, 'Confirm Password').fill(newPassword);
+
+      await form.locator(this.selectors.saveButton).click({ timeout: this.timeout });
+      await OxdToast.of(this.page).waitForSuccess();
+
+      this.allure.addParameter('Password Changed', true);
+      this.logger.test.step('Change Password', 'authentication', { passwordLength: newPassword.length });
+    });
+  }
+}
@@ -0,0 +1,11 @@
+export { BaseComponent } from './BaseComponent.js';
+export { OxdSelect } from './OxdSelect.js';
+export { OxdAutocomplete } from './OxdAutocomplete.js';
+export { OxdDatePicker } from './OxdDatePicker.js';
+export { OxdCheckbox } from './OxdCheckbox.js';
+export { OxdToast } from './OxdToast.js';
+export { OxdConfirmDialog } from './OxdConfirmDialog.js';
+export { OxdFormGroup } from './OxdFormGroup.js';
+export { OxdTable } from './OxdTable.js';
+export { TopBar } from './TopBar.js';
+export { LeaveRequestForm } from './LeaveRequestForm.js';
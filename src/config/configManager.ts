@@ -3,7 +3,7 @@ import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import logger from './logger.js';
-import type { Environment, FrameworkConfig } from '../types/index.js';
+import type { Environment, FrameworkConfig, SmtpCaptureConfig } from '../types/index.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -44,7 +44,7 @@ export class ConfigManager {
       environment: {
         BROWSER: (process.env.BROWSER as Environment['BROWSER']) || 'chromium',
         BASE_URL: process.env.BASE_URL || 'https://opensource-demo.orangehrmlive.com',
-        API_BASE_URL: process.env.API_BASE_URL || 'https://opensource-demo.orangehrmlive.com/web/api/v1',
+        API_BASE_URL: process.env.API_BASE_URL || 'https://opensource-demo.orangehrmlive.com/web/index.php/api/v2',
         USERNAME: process.env.USERNAME || 'Admin',
         PASSWORD: process.env.PASSWORD || 'admin123',
         HEADLESS: process.env.HEADLESS === 'true',
@@ -395,6 +395,18 @@ export class ConfigManager {
     };
   }
 
+  /**
+   * Get SMTP capture server configuration
+   * Only enable it against an OrangeHRM instance whose Email Configuration points at this host and port
+   */
+  getSmtpCaptureConfig(): SmtpCaptureConfig {
+    return {
+      enabled: process.env.SMTP_CAPTURE_ENABLED === 'true',
+      host: process.env.SMTP_CAPTURE_HOST || '127.0.0.1',
+      port: parseInt(process.env.SMTP_CAPTURE_PORT || '2525')
+    };
+  }
+
   /**
    * Get notification configuration
    */
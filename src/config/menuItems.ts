@@ -0,0 +1,107 @@
+import type { MenuItem, MenuItemName } from '../types/index.js';
+
+const ALL_ROLES = ['Admin', 'ESS'];
+const ADMIN_ONLY = ['Admin'];
+
+/**
+ * Main menu registry of OrangeHRM
+ * `url` is the menu link target; modules redirect to their default screen from there
+ */
+export const MENU_ITEMS: Record<MenuItemName, MenuItem> = {
+  'Admin': {
+    name: 'Admin',
+    label: 'Admin',
+    url: '/web/index.php/admin/viewAdminModule',
+    roles: ADMIN_ONLY
+  },
+  'PIM': {
+    name: 'PIM',
+    label: 'PIM',
+    url: '/web/index.php/pim/viewPimModule',
+    roles: ADMIN_ONLY
+  },
+  'Leave': {
+    name: 'Leave',
+    label: 'Leave',
+    url: '/web/index.php/leave/viewLeaveModule',
+    roles: ALL_ROLES
+  },
+  'Time': {
+    name: 'Time',
+    label: 'Time',
+    url: '/web/index.php/time/viewTimeModule',
+    roles: ALL_ROLES
+  },
+  'Recruitment': {
+    name: 'Recruitment',
+    label: 'Recruitment',
+    url: '/web/index.php/recruitment/viewRecruitmentModule',
+    roles: ADMIN_ONLY
+  },
+  'My Info': {
+    name: 'My Info',
+    label: 'My Info',
+    url: '/web/index.php/pim/viewMyDetails',
+    roles: ALL_ROLES
+  },
+  'Performance': {
+    name: 'Performance',
+    label: 'Performance',
+    url: '/web/index.php/performance/viewPerformanceModule',
+    roles: ALL_ROLES
+  },
+  'Dashboard': {
+    name: 'Dashboard',
+    label: 'Dashboard',
+    url: '/web/index.php/dashboard/index',
+    roles: ALL_ROLES
+  },
+  'Directory': {
+    name: 'Directory',
+    label: 'Directory',
+    url: '/web/index.php/directory/viewDirectory',
+    roles: ALL_ROLES
+  },
+  'Maintenance': {
+    name: 'Maintenance',
+    label: 'Maintenance',
+    url: '/web/index.php/maintenance/viewMaintenanceModule',
+    roles: ADMIN_ONLY
+  },
+  'Claim': {
+    name: 'Claim',
+    label: 'Claim',
+    url: '/web/index.php/claim/viewClaimModule',
+    roles: ALL_ROLES
+  },
+  'Buzz': {
+    name: 'Buzz',
+    label: 'Buzz',
+    url: '/web/index.php/buzz/viewBuzz',
+    roles: ALL_ROLES
+  }
+};
+
+/**
+ * Get a menu item by name
+ * @param name - Menu item name
+ * @returns Menu item
+ */
+export function getMenuItem(name: MenuItemName): MenuItem {
+  const menuItem = MENU_ITEMS[name];
+
+  if (!menuItem) {
+    throw new Error(`Unknown menu item: ${name}`);
+  }
+
+  return menuItem;
+}
+
+/**
+ * Get the menu items a role is allowed to see
+ * @param role - Account role
+ * @returns Menu items in menu order
+ */
+export function getMenuItemsForRole(role: string): MenuItem[] {
+  return Object.values(MENU_ITEMS).filter(menuItem => menuItem.roles.includes(role));
+}
@@ -0,0 +1,89 @@
+import type { ReferenceList, ReferenceListName } from '../types/index.js';
+
+/**
+ * Admin reference data lists of OrangeHRM
+ * `nameColumn` is the list header holding the item name, `nameLabel` the matching field of the add/edit form
+ */
+export const REFERENCE_LISTS: Record<ReferenceListName, ReferenceList> = {
+  'Job Titles': {
+    name: 'Job Titles',
+    url: '/web/index.php/admin/viewJobTitleList',
+    nameColumn: 'Job Titles',
+    nameLabel: 'Job Title'
+  },
+  'Pay Grades': {
+    name: 'Pay Grades',
+    url: '/web/index.php/admin/viewPayGrades',
+    nameColumn: 'Pay Grade',
+    nameLabel: 'Name'
+  },
+  'Employment Status': {
+    name: 'Employment Status',
+    url: '/web/index.php/admin/employmentStatus',
+    nameColumn: 'Employment Status',
+    nameLabel: 'Name'
+  },
+  'Job Categories': {
+    name: 'Job Categories',
+    url: '/web/index.php/admin/jobCategory',
+    nameColumn: 'Job Categories',
+    nameLabel: 'Name'
+  },
+  'Work Shifts': {
+    name: 'Work Shifts',
+    url: '/web/index.php/admin/workShift',
+    nameColumn: 'Name',
+    nameLabel: 'Shift Name'
+  },
+  'Locations': {
+    name: 'Locations',
+    url: '/web/index.php/admin/viewLocations',
+    nameColumn: 'Name',
+    nameLabel: 'Name'
+  },
+  'Skills': {
+    name: 'Skills',
+    url: '/web/index.php/admin/viewSkills',
+    nameColumn: 'Name',
+    nameLabel: 'Name'
+  },
+  'Education': {
+    name: 'Education',
+    url: '/web/index.php/admin/viewEducation',
+    nameColumn: 'Level',
+    nameLabel: 'Level'
+  },
+  'Licenses': {
+    name: 'Licenses',
+    url: '/web/index.php/admin/viewLicenses',
+    nameColumn: 'Name',
+    nameLabel: 'Name'
+  },
+  'Languages': {
+    name: 'Languages',
+    url: '/web/index.php/admin/viewLanguages',
+    nameColumn: 'Name',
+    nameLabel: 'Name'
+  },
+  'Memberships': {
+    name: 'Memberships',
+    url: '/web/index.php/admin/membership',
+    nameColumn: 'Membership',
+    nameLabel: 'Name'
+  }
+};
+
+/**
+ * Get a reference list by name
+ * @param name - Reference list name
+ * @returns Reference list
+ */
+export function getReferenceList(name: ReferenceListName): ReferenceList {
+  const referenceList = REFERENCE_LISTS[name];
+
+  if (!referenceList) {
+    throw new Error(`Unknown reference list: ${name}`);
+  }
+
+  return referenceList;
+}
@@ -0,0 +1,387 @@
+import { test as base, expect, BrowserContext, Page } from '@playwright/test';
+import { performance } from 'perf_hooks';
+import fs from 'fs/promises';
+import path from 'path';
+import { LoginPage } from '../pages/LoginPage.js';
+import { Nav } from '../pages/Nav.js';
+import { EmployeeListPage } from '../pages/EmployeeListPage.js';
+import { AddEmployeePage } from '../pages/AddEmployeePage.js';
+import { EmployeeDetailsPage } from '../pages/EmployeeDetailsPage.js';
+import { AdminUsersPage } from '../pages/AdminUsersPage.js';
+import { DashboardPage } from '../pages/DashboardPage.js';
+import { ApplyLeavePage } from '../pages/ApplyLeavePage.js';
+import { AssignLeavePage } from '../pages/AssignLeavePage.js';
+import { LeaveListPage } from '../pages/LeaveListPage.js';
+import { MyLeavePage } from '../pages/MyLeavePage.js';
+import { LeaveEntitlementsPage } from '../pages/LeaveEntitlementsPage.js';
+import { TimesheetPage } from '../pages/TimesheetPage.js';
+import { AttendancePage } from '../pages/AttendancePage.js';
+import { MyInfoPage } from '../pages/MyInfoPage.js';
+import { VacanciesPage } from '../pages/VacanciesPage.js';
+import { CandidatesPage } from '../pages/CandidatesPage.js';
+import { SubmitClaimPage } from '../pages/SubmitClaimPage.js';
+import { AssignClaimPage } from '../pages/AssignClaimPage.js';
+import { EmployeeClaimsPage } from '../pages/EmployeeClaimsPage.js';
+import { MyClaimsPage } from '../pages/MyClaimsPage.js';
+import { KpiPage } from '../pages/KpiPage.js';
+import { ManageReviewsPage } from '../pages/ManageReviewsPage.js';
+import { EmployeeReviewsPage } from '../pages/EmployeeReviewsPage.js';
+import { MyReviewsPage } from '../pages/MyReviewsPage.js';
+import { ReviewEvaluationPage } from '../pages/ReviewEvaluationPage.js';
+import { DirectoryPage } from '../pages/DirectoryPage.js';
+import { BuzzPage } from '../pages/BuzzPage.js';
+import { ReferenceListPage } from '../pages/ReferenceListPage.js';
+import { OrganizationInfoPage } from '../pages/OrganizationInfoPage.js';
+import { OrganizationStructurePage } from '../pages/OrganizationStructurePage.js';
+import { MaintenancePage } from '../pages/MaintenancePage.js';
+import { ResetPasswordPage } from '../pages/ResetPasswordPage.js';
+import { TopBar } from '../components/index.js';
+import { ApiHelper } from '../helpers/ApiHelper.js';
+import { AllureHelper } from '../helpers/AllureHelper.js';
+import { AuthHelper } from '../helpers/AuthHelper.js';
+import { SmtpCaptureServer } from '../helpers/SmtpCaptureServer.js';
+import { OrangeHrmApi } from '../api/index.js';
+import { configManager } from '../config/configManager.js';
+import { TestUtils } from '../utils/testUtils.js';
+import logger from '../config/logger.js';
+import type { ReferenceListName } from '../types/index.js';
+
+/**
+ * Fixtures shared by every spec
+ */
+export interface FrameworkFixtures {
+  role: string | undefined;
+  asRole: (role: string) => Promise<Page>;
+  loginPage: LoginPage;
+  nav: Nav;
+  topBar: TopBar;
+  employeeListPage: EmployeeListPage;
+  addEmployeePage: AddEmployeePage;
+  employeeDetailsPage: EmployeeDetailsPage;
+  adminUsersPage: AdminUsersPage;
+  dashboardPage: DashboardPage;
+  applyLeavePage: ApplyLeavePage;
+  assignLeavePage: AssignLeavePage;
+  leaveListPage: LeaveListPage;
+  myLeavePage: MyLeavePage;
+  leaveEntitlementsPage: LeaveEntitlementsPage;
+  timesheetPage: TimesheetPage;
+  attendancePage: AttendancePage;
+  myInfoPage: MyInfoPage;
+  vacanciesPage: VacanciesPage;
+  candidatesPage: CandidatesPage;
+  submitClaimPage: SubmitClaimPage;
+  assignClaimPage: AssignClaimPage;
+  employeeClaimsPage: EmployeeClaimsPage;
+  myClaimsPage: MyClaimsPage;
+  kpiPage: KpiPage;
+  manageReviewsPage: ManageReviewsPage;
+  employeeReviewsPage: EmployeeReviewsPage;
+  myReviewsPage: MyReviewsPage;
+  reviewEvaluationPage: ReviewEvaluationPage;
+  directoryPage: DirectoryPage;
+  buzzPage: BuzzPage;
+  referenceList: (name: ReferenceListName) => ReferenceListPage;
+  organizationInfoPage: OrganizationInfoPage;
+  organizationStructurePage: OrganizationStructurePage;
+  maintenancePage: MaintenancePage;
+  resetPasswordPage: ResetPasswordPage;
+  smtpServer: SmtpCaptureServer;
+  apiHelper: ApiHelper;
+  orangeHrmApi: OrangeHrmApi;
+  allure: AllureHelper;
+  testLifecycle: void;
+}
+
+/**
+ * Build the suite name reported to the logger from the describe blocks of a test
+ * @param titlePath - Title path of the test (file, describes..., test)
+ * @returns Suite name
+ */
+function getSuiteName(titlePath: string[]): string {
+  const describes = titlePath.slice(1, -1);
+  return describes.length > 0 ? describes.join(' > ') : titlePath[0];
+}
+
+/**
+ * Browser context options shared by the default context and role contexts
+ * @returns Context options from the framework configuration
+ */
+function getContextOptions() {
+  return {
+    viewport: {
+      width: configManager.get('VIEWPORT_WIDTH'),
+      height: configManager.get('VIEWPORT_HEIGHT')
+    },
+    baseURL: configManager.get('BASE_URL'),
+    ignoreHTTPSErrors: true,
+    acceptDownloads: true
+  };
+}
+
+/**
+ * Extended Playwright test with ready-made page objects and helpers
+ * Specs only declare the fixtures they need, e.g. `async ({ loginPage, nav }) => {}`
+ * Use `test.use({ role: 'Admin' })` to start every test of a describe block already authenticated
+ */
+export const test = base.extend<FrameworkFixtures>({
+  // Context configuration taken from the framework config instead of per-spec newContext calls
+  viewport: async ({}, use) => {
+    await use(getContextOptions().viewport);
+  },
+  baseURL: async ({}, use) => {
+    await use(getContextOptions().baseURL);
+  },
+  ignoreHTTPSErrors: true,
+  acceptDownloads: true,
+
+  // Role whose cached session the default context starts with (unauthenticated when unset)
+  role: [undefined, { option: true }],
+
+  // Must not depend on `browser`: Playwright resolves it for every test, including the browserless @api specs
+  storageState: async ({ role, storageState }, use) => {
+    if (!role) {
+      await use(storageState);
+      return;
+    }
+
+    await use(await AuthHelper.ensureStorageState(role));
+  },
+
+  asRole: async ({ browser }, use) => {
+    const contexts: BrowserContext[] = [];
+
+    await use(async (role: string) => {
+      const context = await browser.newContext({
+        ...getContextOptions(),
+        storageState: await AuthHelper.ensureStorageState(role, browser)
+      });
+      contexts.push(context);
+
+      const page = await context.newPage();
+      await page.goto(configManager.get('BASE_URL'));
+
+      logger.test.step(`Start context as ${role}`, 'authentication', { role });
+      return page;
+    });
+
+    for (const context of contexts) {
+      await context.close();
+    }
+  },
+
+  page: async ({ page }, use, testInfo) => {
+    // Navigate to home page first for clean state
+    await page.goto(configManager.get('BASE_URL'));
+
+    await use(page);
+
+    if (testInfo.status !== testInfo.expectedStatus && !page.isClosed()) {
+      const fileName = `failed_${TestUtils.sanitizeFilename(testInfo.title)}_${Date.now()}.png`;
+      const screenshotPath = path.join('screenshots', fileName);
+
+      try {
+        await fs.mkdir('screenshots', { recursive: true });
+        const screenshot = await page.screenshot({ path: screenshotPath, fullPage: true });
+
+        await testInfo.attach('Failure Screenshot', { body: screenshot, contentType: 'image/png' });
+        logger.test.screenshot(testInfo.title, screenshotPath);
+      } catch (error) {
+        logger.warn('Failed to capture failure screenshot', {
+          test: testInfo.title,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  },
+
+  loginPage: async ({ page }, use) => {
+    await use(new LoginPage(page));
+  },
+
+  nav: async ({ page }, use) => {
+    await use(new Nav(page));
+  },
+
+  topBar: async ({ page }, use) => {
+    await use(TopBar.of(page));
+  },
+
+  employeeListPage: async ({ page }, use) => {
+    await use(new EmployeeListPage(page));
+  },
+
+  addEmployeePage: async ({ page }, use) => {
+    await use(new AddEmployeePage(page));
+  },
+
+  employeeDetailsPage: async ({ page }, use) => {
+    await use(new EmployeeDetailsPage(page));
+  },
+
+  adminUsersPage: async ({ page }, use) => {
+    await use(new AdminUsersPage(page));
+  },
+
+  dashboardPage: async ({ page }, use) => {
+    await use(new DashboardPage(page));
+  },
+
+  applyLeavePage: async ({ page }, use) => {
+    await use(new ApplyLeavePage(page));
+  },
+
+  assignLeavePage: async ({ page }, use) => {
+    await use(new AssignLeavePage(page));
+  },
+
+  leaveListPage: async ({ page }, use) => {
+    await use(new LeaveListPage(page));
+  },
+
+  myLeavePage: async ({ page }, use) => {
+    await use(new MyLeavePage(page));
+  },
+
+  leaveEntitlementsPage: async ({ page }, use) => {
+    await use(new LeaveEntitlementsPage(page));
+  },
+
+  timesheetPage: async ({ page }, use) => {
+    await use(new TimesheetPage(page));
+  },
+
+  attendancePage: async ({ page }, use) => {
+    await use(new AttendancePage(page));
+  },
+
+  myInfoPage: async ({ page }, use) => {
+    await use(new MyInfoPage(page));
+  },
+
+  vacanciesPage: async ({ page }, use) => {
+    await use(new VacanciesPage(page));
+  },
+
+  candidatesPage: async ({ page }, use) => {
+    await use(new CandidatesPage(page));
+  },
+
+  submitClaimPage: async ({ page }, use) => {
+    await use(new SubmitClaimPage(page));
+  },
+
+  assignClaimPage: async ({ page }, use) => {
+    await use(new AssignClaimPage(page));
+  },
+
+  employeeClaimsPage: async ({ page }, use) => {
+    await use(new EmployeeClaimsPage(page));
+  },
+
+  myClaimsPage: async ({ page }, use) => {
+    await use(new MyClaimsPage(page));
+  },
+
+  kpiPage: async ({ page }, use) => {
+    await use(new KpiPage(page));
+  },
+
+  manageReviewsPage: async ({ page }, use) => {
+    await use(new ManageReviewsPage(page));
+  },
+
+  employeeReviewsPage: async ({ page }, use) => {
+    await use(new EmployeeReviewsPage(page));
+  },
+
+  myReviewsPage: async ({ page }, use) => {
+    await use(new MyReviewsPage(page));
+  },
+
+  reviewEvaluationPage: async ({ page }, use) => {
+    await use(new ReviewEvaluationPage(page));
+  },
+
+  directoryPage: async ({ page }, use) => {
+    await use(new DirectoryPage(page));
+  },
+
+  buzzPage: async ({ page }, use) => {
+    await use(new BuzzPage(page));
+  },
+
+  referenceList: async ({ page }, use) => {
+    await use((name: ReferenceListName) => new ReferenceListPage(page, name));
+  },
+
+  organizationInfoPage: async ({ page }, use) => {
+    await use(new OrganizationInfoPage(page));
+  },
+
+  organizationStructurePage: async ({ page }, use) => {
+    await use(new OrganizationStructurePage(page));
+  },
+
+  maintenancePage: async ({ page }, use) => {
+    await use(new MaintenancePage(page));
+  },
+
+  resetPasswordPage: async ({ page }, use) => {
+    await use(new ResetPasswordPage(page));
+  },
+
+  smtpServer: async ({}, use) => {
+    const { host, port } = configManager.getSmtpCaptureConfig();
+    const smtpServer = new SmtpCaptureServer(port, host);
+    await smtpServer.start();
+
+    await use(smtpServer);
+
+    await smtpServer.stop();
+  },
+
+  apiHelper: async ({}, use) => {
+    const apiHelper = new ApiHelper();
+    await apiHelper.init();
+
+    await use(apiHelper);
+
+    await apiHelper.dispose();
+  },
+
+  // Typed API client sharing the browser session of the default context (set `role` to log in)
+  orangeHrmApi: async ({ page }, use) => {
+    const orangeHrmApi = await OrangeHrmApi.fromBrowserContext(page.context());
+
+    await use(orangeHrmApi);
+
+    await orangeHrmApi.dispose();
+  },
+
+  allure: async ({}, use) => {
+    await use(new AllureHelper());
+  },
+
+  testLifecycle: [async ({ allure }, use, testInfo) => {
+    const suite = getSuiteName(testInfo.titlePath);
+    const startTime = performance.now();
+
+    logger.test.start(testInfo.title, suite);
+    allure.addBrowserInfo({
+      name: configManager.get('BROWSER'),
+      platform: process.platform,
+      viewport: {
+        width: configManager.get('VIEWPORT_WIDTH'),
+        height: configManager.get('VIEWPORT_HEIGHT')
+      }
+    });
+
+    await use();
+
+    const duration = Math.round(performance.now() - startTime);
+    logger.test.end(testInfo.title, suite, testInfo.status || 'unknown', duration);
+  }, { auto: true }]
+});
+
+export { expect };
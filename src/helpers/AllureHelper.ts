@@ -28,6 +28,23 @@ export class AllureHelper {
     }
   }
 
+  /**
+   * Run a function inside a step, nesting the steps it adds
+   * The step fails if the function throws
+   * @param stepName - Name of the step
+   * @param body - Function to run in the step
+   * @returns Result of the function
+   */
+  async step<T>(stepName: string, body: () => Promise<T>): Promise<T> {
+    let result!: T;
+
+    await allure.step(stepName, async () => {
+      result = await body();
+    });
+
+    return result;
+  }
+
   /**
    * Add an attachment to the current test
    * @param name - Name of the attachment
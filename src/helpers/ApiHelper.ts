@@ -1,22 +1,41 @@
-import { request, APIRequestContext } from '@playwright/test';
+import { request, APIRequestContext, BrowserContext } from '@playwright/test';
 import { AllureHelper } from './AllureHelper.js';
+import { SchemaValidator } from './SchemaValidator.js';
+import { ResponseExpectation } from './ResponseExpectation.js';
+import { TestUtils } from '../utils/testUtils.js';
 import logger from '../config/logger.js';
 import type { 
   ApiResponse, 
   HttpMethod, 
   RequestOptions, 
   FormData,
-  Cookie 
+  Cookie,
+  RetryPolicy
 } from '../types/index.js';
 
+// Cookies and local storage as returned by BrowserContext.storageState()
+type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+// Thrown by an attempt that got a retryable status while attempts remain
+class RetryableResponseError extends Error {
+  readonly response: ApiResponse;
+
+  constructor(response: ApiResponse) {
+    super(`Retryable response status ${response.status} ${response.statusText}`.trim());
+    this.name = 'RetryableResponseError';
+    this.response = response;
+  }
+}
+
 export class ApiHelper {
   private baseURL: string;
   private defaultHeaders: Record<string, string>;
   private context: APIRequestContext | null = null;
   private allure: AllureHelper;
+  private retryPolicy: RetryPolicy;
   private logger = logger;
 
-  constructor(baseURL: string = process.env.API_BASE_URL || 'https://opensource-demo.orangehrmlive.com/web/api/v1') {
+  constructor(baseURL: string = process.env.API_BASE_URL || 'https://opensource-demo.orangehrmlive.com/web/index.php/api/v2') {
     this.baseURL = baseURL;
     this.defaultHeaders = {
       'Content-Type': 'application/json',
@@ -24,25 +43,55 @@ export class ApiHelper {
     //   'User-Agent': 'OrangeHRM-TestFramework/1.0'
     };
     this.allure = new AllureHelper();
+    this.retryPolicy = {
+      maxAttempts: parseInt(process.env.API_RETRY_ATTEMPTS || '3'),
+      baseDelay: parseInt(process.env.API_RETRY_BASE_DELAY || '500'),
+      maxDelay: 10000,
+      jitter: 0.3,
+      retryOnStatus: [429, 502, 503, 504],
+      retryOnNetworkError: true,
+      retryNonIdempotent: false,
+      respectRetryAfter: true
+    };
     
     this.logger.debug('ApiHelper initialized', {
       baseURL: this.baseURL,
-      defaultHeaders: this.defaultHeaders
+      defaultHeaders: this.defaultHeaders,
+      retryPolicy: this.retryPolicy
     });
   }
 
+  /**
+   * Create an API helper that shares the session of a browser context
+   * Its cookie jar starts from the context's storage state, so a UI login authenticates the API calls
+   * @param browserContext - Logged in browser context
+   * @param baseURL - API base URL
+   * @returns Initialized API helper
+   */
+  static async fromBrowserContext(browserContext: BrowserContext, baseURL?: string): Promise<ApiHelper> {
+    const apiHelper = new ApiHelper(baseURL);
+    await apiHelper.init({ storageState: await browserContext.storageState() });
+
+    return apiHelper;
+  }
+
   /**
    * Initialize API context
+   * @param options - Storage state to start the cookie jar from
    */
-  async init(): Promise<APIRequestContext> {
-    this.logger.info('Initializing API context', { baseURL: this.baseURL });
+  async init(options: { storageState?: StorageState } = {}): Promise<APIRequestContext> {
+    this.logger.info('Initializing API context', {
+      baseURL: this.baseURL,
+      cookieCount: options.storageState?.cookies.length ?? 0
+    });
     
     try {
       this.context = await request.newContext({
         baseURL: this.baseURL,
         timeout: parseInt(process.env.API_TIMEOUT || '10000'),
         ignoreHTTPSErrors: true,
-        extraHTTPHeaders: this.defaultHeaders
+        extraHTTPHeaders: this.defaultHeaders,
+        storageState: options.storageState
       });
       
       this.logger.info('API context initialized successfully');
@@ -75,6 +124,24 @@ export class ApiHelper {
     return headers;
   }
 
+  /**
+   * Change the retry policy of every request of this client
+   * Requests can still override it through `options.retry`
+   * @param policy - Policy fields to change
+   */
+  setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
+    this.logger.info('Retry policy updated', { retryPolicy: this.retryPolicy });
+  }
+
+  /**
+   * Get the retry policy of this client
+   * @returns Retry policy
+   */
+  getRetryPolicy(): RetryPolicy {
+    return { ...this.retryPolicy };
+  }
+
   /**
    * Set authentication token in headers
    * @param token - Bearer token
@@ -96,12 +163,9 @@ export class ApiHelper {
     this.allure.addStep('Removed authentication token');
   }
 
-  /**
-   * Set session cookies for authentication
-   * @param cookies - Array of cookie objects
-   */
   /**
    * Set session cookies for authentication via Cookie header
+   * The header is sent on top of the cookie jar; use syncCookiesFrom to share a browser session instead
    * @param cookies - Array of cookie objects
    */
   async setCookies(cookies: Cookie[]): Promise<void> {
@@ -138,8 +202,25 @@ export class ApiHelper {
     this.allure.addStep('Cleared all cookies');
   }
 
+  /**
+   * Build the absolute URL of an endpoint
+   * Playwright resolves request URLs like `new URL(endpoint, baseURL)`, so an endpoint starting with "/"
+   * would drop the base path (/web/index.php/api/v2); endpoints are appended to the base URL instead
+   * @param endpoint - Endpoint relative to the base URL, or an absolute URL
+   * @returns Absolute URL
+   */
+  private resolveUrl(endpoint: string): string {
+    if (/^https?:\/\//i.test(endpoint)) {
+      return endpoint;
+    }
+
+    return `${this.baseURL.replace(/\/+$/, '')}/${endpoint.replace(/^\/+/, '')}`;
+  }
+
   /**
    * Generic request method
+   * Retries per the client's retry policy, overridable per request through `options.retry`;
+   * each attempt is logged and reported as a step nested in the request step
    * @param method - HTTP method
    * @param endpoint - API endpoint
    * @param data - Request body data
@@ -156,27 +237,90 @@ export class ApiHelper {
       throw new Error('API context not initialized. Call init() first.');
     }
 
-    const startTime = Date.now();
-    const headers = this.generateHeader(options.headers || {});
-    const fullUrl = `${this.baseURL}${endpoint}`;
+    const { retry, ...requestOptions } = options;
+    const policy = this.resolveRetryPolicy(method, retry);
+    const headers = this.generateHeader(requestOptions.headers || {});
+    const fullUrl = this.resolveUrl(endpoint);
     
     this.logger.info(`Making ${method} request`, {
       url: fullUrl,
       headers,
       data: method !== 'GET' ? data : undefined,
-      params: options.params
+      params: requestOptions.params,
+      maxAttempts: policy.maxAttempts
     });
     
-    this.allure.addStep(`${method} Request to: ${fullUrl}`);
-    
-    if (data && method !== 'GET') {
-      this.allure.attachJSON('Request Body', data);
-    }
-    
+    return await this.allure.step(`${method} Request to: ${fullUrl}`, async () => {
+      if (data && method !== 'GET') {
+        this.allure.attachJSON('Request Body', data);
+      }
+
+      let attempts = 0;
+
+      try {
+        return await TestUtils.retryWithBackoff(
+          attempt => {
+            attempts = attempt;
+            return this.allure.step(`Attempt ${attempt}/${policy.maxAttempts}`, () =>
+              this.sendRequest<T>(method, endpoint, data, { ...requestOptions, headers }, policy, attempt)
+            );
+          },
+          policy.maxAttempts,
+          policy.baseDelay,
+          {
+            maxDelay: policy.maxDelay,
+            jitter: policy.jitter,
+            shouldRetry: error => error instanceof RetryableResponseError
+              || (policy.retryOnNetworkError && ApiHelper.isTransportError(error)),
+            getDelay: error => (error instanceof RetryableResponseError && policy.respectRetryAfter
+              ? ApiHelper.parseRetryAfter(error.response.headers['retry-after'], policy.maxDelay)
+              : undefined)
+          }
+        );
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        
+        this.logger.error(`${method} request failed`, {
+          url: fullUrl,
+          data: method !== 'GET' ? data : undefined,
+          error: errorMessage,
+          attempts,
+          maxAttempts: policy.maxAttempts
+        });
+
+        throw new Error(`${method} request to ${fullUrl} failed: ${errorMessage}`);
+      }
+    });
+  }
+
+  /**
+   * Send one attempt of a request
+   * A retryable status throws while attempts remain, so the retry loop sends the request again;
+   * the last attempt returns whatever status it got for the caller to validate
+   * @param method - HTTP method
+   * @param endpoint - API endpoint
+   * @param data - Request body data
+   * @param options - Request options with the final headers
+   * @param policy - Retry policy of the request
+   * @param attempt - Attempt number, starting at 1
+   * @returns Response object
+   */
+  private async sendRequest<T = any>(
+    method: HttpMethod,
+    endpoint: string,
+    data: any,
+    options: RequestOptions,
+    policy: RetryPolicy,
+    attempt: number
+  ): Promise<ApiResponse<T>> {
+    const startTime = Date.now();
+    const fullUrl = this.resolveUrl(endpoint);
+    const requestData = method !== 'GET' ? data : options.params;
+
     try {
       let response;
       const requestConfig = {
-        headers,
+        headers: options.headers,
         params: options.params,
         timeout: options.timeout,
         ...options
@@ -184,25 +328,28 @@ export class ApiHelper {
 
       switch (method) {
         case 'GET':
-          response = await this.context.get(endpoint, requestConfig);
+          response = await this.context!.get(fullUrl, requestConfig);
           break;
         case 'POST':
-          response = await this.context.post(endpoint, {
+          response = await this.context!.post(fullUrl, {
             ...requestConfig,
             data: JSON.stringify(data)
           });
           break;
         case 'PUT':
-          response = await this.context.put(endpoint, {
+          response = await this.context!.put(fullUrl, {
             ...requestConfig,
             data: JSON.stringify(data)
           });
           break;
         case 'DELETE':
-          response = await this.context.delete(endpoint, requestConfig);
+          response = await this.context!.delete(fullUrl, data === undefined ? requestConfig : {
+            ...requestConfig,
+            data: JSON.stringify(data)
+          });
           break;
         case 'PATCH':
-          response = await this.context.patch(endpoint, {
+          response = await this.context!.patch(fullUrl, {
             ...requestConfig,
             data: JSON.stringify(data)
           });
@@ -229,12 +376,23 @@ export class ApiHelper {
         responseData.body = await response.text() as any;
       }
 
-      this.logger.test.api(method, fullUrl, responseData.status, responseTime, 
-        method !== 'GET' ? data : options.params, responseData.body);
+      this.logger.test.api(method, fullUrl, responseData.status, responseTime, requestData, responseData.body);
       
       this.allure.addStep(`Response Status: ${responseData.status}`);
       this.allure.attachApiResponse(responseData.body, method !== 'GET' ? data : undefined);
 
+      if (policy.retryOnStatus.includes(responseData.status) && attempt < policy.maxAttempts) {
+        this.logger.warn(`${method} request returned a retryable status`, {
+          url: fullUrl,
+          status: responseData.status,
+          attempt,
+          maxAttempts: policy.maxAttempts,
+          retryAfter: responseData.headers['retry-after']
+        });
+
+        throw new RetryableResponseError(responseData);
+      }
+
       // Check response time against threshold
       const threshold = parseInt(process.env.API_RESPONSE_THRESHOLD || '3000');
       if (responseTime > threshold) {
@@ -247,20 +405,61 @@ export class ApiHelper {
 
       return responseData;
     } catch (error) {
-      const endTime = Date.now();
-      const responseTime = endTime - startTime;
+      if (error instanceof RetryableResponseError) {
+        throw error;
+      }
+
       const errorMessage = error instanceof Error ? error.message : String(error);
-      
-      this.logger.error(`${method} request failed`, {
+
+      this.logger.test.api(method, fullUrl, 0, Date.now() - startTime, requestData, { error: errorMessage });
+      this.logger.warn(`${method} request attempt failed`, {
         url: fullUrl,
-        data: method !== 'GET' ? data : undefined,
         error: errorMessage,
-        responseTime
+        attempt,
+        maxAttempts: policy.maxAttempts
       });
-      
-      this.allure.addStep(`${method} Request Failed: ${errorMessage}`, 'failed');
-      throw new Error(`${method} request to ${fullUrl} failed: ${errorMessage}`);
+
+      throw error;
+    }
+  }
+
+  /**
+   * Get the retry policy of a request
+   * POST and PATCH are not idempotent and get a single attempt unless `retryNonIdempotent` is set
+   * @param method - HTTP method
+   * @param overrides - Per request overrides
+   * @returns Retry policy
+   */
+  private resolveRetryPolicy(method: HttpMethod, overrides: Partial<RetryPolicy> = {}): RetryPolicy {
+    const policy = { ...this.retryPolicy, ...overrides };
+    const idempotent = method !== 'POST' && method !== 'PATCH';
+
+    return idempotent || policy.retryNonIdempotent ? policy : { ...policy, maxAttempts: 1 };
+  }
+
+  /**
+   * Convert a Retry-After header to a delay
+   * @param retryAfter - Header value, in seconds or as an HTTP date
+   * @param maxDelay - Longest delay to honour
+   * @returns Delay in milliseconds, or undefined without a valid header
+   */
+  private static parseRetryAfter(retryAfter: string | undefined, maxDelay: number): number | undefined {
+    if (!retryAfter) {
+      return undefined;
     }
+
+    const delay = /^\d+$/.test(retryAfter.trim()) ? parseInt(retryAfter) * 1000 : Date.parse(retryAfter) - Date.now();
+    return Number.isNaN(delay) ? undefined : Math.min(Math.max(delay, 0), maxDelay);
+  }
+
+  /**
+   * Check whether an error was raised by the connection rather than by the request itself
+   * Only these are worth another attempt; invalid arguments or a disposed context fail the same way every time
+   * @param error - Error thrown by an attempt
+   * @returns True for refused or reset connections, DNS hiccups and timeouts
+   */
+  private static isTransportError(error: Error): boolean {
+    return /ECONNREFUSED|ECONNRESET|ETIMEDOUT|EPIPE|EAI_AGAIN|socket hang up|Timeout \d+ms exceeded/i.test(error.message);
   }
 
   /**
@@ -299,10 +498,11 @@ export class ApiHelper {
    * Generic DELETE request
    * @param endpoint - API endpoint
    * @param options - Request options
+   * @param data - Request body data, for bulk deletes that send the ids in the body
    * @returns Response object
    */
-  async delete<T = any>(endpoint: string, options: RequestOptions = {}): Promise<ApiResponse<T>> {
-    return this.makeRequest<T>('DELETE', endpoint, undefined, options);
+  async delete<T = any>(endpoint: string, options: RequestOptions = {}, data?: any): Promise<ApiResponse<T>> {
+    return this.makeRequest<T>('DELETE', endpoint, data, options);
   }
 
   /**
@@ -333,7 +533,7 @@ export class ApiHelper {
       'Content-Type': 'application/x-www-form-urlencoded',
       ...options.headers
     });
-    const fullUrl = `${this.baseURL}${endpoint}`;
+    const fullUrl = this.resolveUrl(endpoint);
     
     this.logger.info('Making POST Form request', {
       url: fullUrl,
@@ -345,7 +545,7 @@ export class ApiHelper {
     this.allure.attachJSON('Form Data', formData);
     
     try {
-      const response = await this.context.post(endpoint, {
+      const response = await this.context.post(fullUrl, {
         headers,
         form: formData,
         timeout: options.timeout,
@@ -420,7 +620,7 @@ export class ApiHelper {
     });
     delete headers['Content-Type'];
     
-    const fullUrl = `${this.baseURL}${endpoint}`;
+    const fullUrl = this.resolveUrl(endpoint);
     
     this.logger.info('Making file upload request', {
       url: fullUrl,
@@ -434,7 +634,7 @@ export class ApiHelper {
     this.allure.addParameter('Field Name', fieldName);
     
     try {
-      const response = await this.context.post(endpoint, {
+      const response = await this.context.post(fullUrl, {
         headers,
         multipart: {
           [fieldName]: {
@@ -569,6 +769,46 @@ export class ApiHelper {
     this.allure.addStep('Response data validation passed');
   }
 
+  /**
+   * Start fluent assertions on a response: status class, headers, JSONPath queries and partial matching
+   * Failures list every mismatch and attach the diff to Allure
+   * @param response - API response
+   * @returns Response expectation
+   */
+  expectResponse<T = any>(response: ApiResponse<T>): ResponseExpectation<T> {
+    return new ResponseExpectation(response, this.allure);
+  }
+
+  /**
+   * Validate a response body against a schema of the test-data/schemas registry
+   * Every violation is reported with its JSON pointer; the schema and payload are attached on failure
+   * @param response - API response
+   * @param schemaName - Schema name, the file name without `.json`
+   * @param pointer - JSON pointer of the validated part of the body, e.g. "/data" for the item of an envelope
+   */
+  async validateSchema(response: ApiResponse, schemaName: string, pointer: string = ''): Promise<void> {
+    const payload = pointer ? SchemaValidator.resolvePointer(response.body, pointer) : response.body;
+    const violations = await SchemaValidator.validate(schemaName, payload, pointer);
+
+    if (violations.length > 0) {
+      this.logger.error('Schema validation failed', {
+        schemaName,
+        status: response.status,
+        violations
+      });
+
+      this.allure.attachJSON(`Schema: ${schemaName}`, await SchemaValidator.load(schemaName));
+      this.allure.attachJSON('Failing Payload', response.body);
+      this.allure.attachJSON('Schema Violations', violations);
+
+      const details = violations.map(violation => `  ${violation.pointer}: ${violation.message} (${violation.keyword})`);
+      throw new Error(`Response does not match schema '${schemaName}' (${violations.length} violations):\n${details.join('\n')}`);
+    }
+
+    this.logger.debug('Schema validation passed', { schemaName });
+    this.allure.addStep(`Schema validation passed: ${schemaName}`);
+  }
+
   /**
    * Wait for API endpoint to become available
    * @param endpoint - API endpoint to check
@@ -613,7 +853,7 @@ export class ApiHelper {
   }
 
   /**
-   * Get current cookies from the default headers
+   * Get current cookies: the request context's cookie jar, overridden by cookies set through setCookies
    * @returns Array of cookies
    */
   async getCookies(): Promise<Cookie[]> {
@@ -621,23 +861,59 @@ export class ApiHelper {
       throw new Error('API context not initialized. Call init() first.');
     }
 
+    const { cookies: jarCookies } = await this.context.storageState();
+    const cookies = new Map<string, Cookie>(jarCookies.map(cookie => [cookie.name, cookie]));
+
+    // Parse Cookie header into Cookie objects
     const cookieHeader = this.defaultHeaders['Cookie'];
-    if (!cookieHeader) {
-      this.logger.debug('No cookies found in headers');
-      return [];
+    for (const cookieStr of cookieHeader ? cookieHeader.split('; ') : []) {
+      const [name, ...value] = cookieStr.split('=');
+      cookies.set(name.trim(), { name: name.trim(), value: value.join('=').trim() });
     }
 
-    // Parse Cookie header into Cookie objects
-    const cookies: Cookie[] = cookieHeader.split('; ').map(cookieStr => {
-      const [name, value] = cookieStr.split('=');
-      return {
-        name: name.trim(),
-        value: value?.trim() || ''
-      };
+    this.logger.debug('Retrieved cookies', {
+      cookieCount: cookies.size,
+      fromHeader: Boolean(cookieHeader)
+    });
+    return [...cookies.values()];
+  }
+
+  /**
+   * Push the cookies the API received back into a browser context
+   * Lets the UI continue with a session the API refreshed or created
+   * @param browserContext - Browser context to update
+   */
+  async syncCookiesTo(browserContext: BrowserContext): Promise<void> {
+    if (!this.context) {
+      throw new Error('API context not initialized. Call init() first.');
+    }
+
+    const { cookies } = await this.context.storageState();
+    await browserContext.addCookies(cookies);
+
+    this.logger.info('Cookies pushed to browser context', {
+      cookieCount: cookies.length,
+      cookieNames: cookies.map(c => c.name)
     });
+    this.allure.addStep(`Pushed ${cookies.length} cookies to the browser context`);
+  }
+
+  /**
+   * Replace the cookie jar with the current cookies of a browser context
+   * A request context cannot add cookies, so it is recreated from the browser storage state
+   * @param browserContext - Browser context to copy the session from
+   */
+  async syncCookiesFrom(browserContext: BrowserContext): Promise<void> {
+    const storageState = await browserContext.storageState();
 
-    this.logger.debug('Retrieved cookies from headers', { cookieCount: cookies.length });
-    return cookies;
+    await this.context?.dispose();
+    await this.init({ storageState });
+
+    this.logger.info('Cookies pulled from browser context', {
+      cookieCount: storageState.cookies.length,
+      cookieNames: storageState.cookies.map(c => c.name)
+    });
+    this.allure.addStep(`Pulled ${storageState.cookies.length} cookies from the browser context`);
   }
 
   /**
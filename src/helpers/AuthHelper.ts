@@ -0,0 +1,213 @@
+import { Browser, chromium } from '@playwright/test';
+import fs from 'fs/promises';
+import path from 'path';
+import { LoginPage } from '../pages/LoginPage.js';
+import { AdminUsersPage } from '../pages/AdminUsersPage.js';
+import { AddEmployeePage } from '../pages/AddEmployeePage.js';
+import { TestUtils } from '../utils/testUtils.js';
+import logger from '../config/logger.js';
+import type { TestAccount, TestAccountsData } from '../types/index.js';
+
+/**
+ * Authenticated storage state cache
+ * Logs in once per role and stores the Playwright storage state so tests can skip the UI login
+ */
+export class AuthHelper {
+  static readonly STORAGE_STATE_DIR = path.join('playwright', '.auth');
+  static readonly TEST_ACCOUNTS_FILE = 'test-data/test-accounts.json';
+
+  // Roles whose storage state has already been checked in this worker
+  private static validatedRoles = new Set<string>();
+
+  /**
+   * Get storage state file path for a role
+   * @param role - Account role (Admin, ESS, ...)
+   * @returns Storage state file path
+   */
+  static getStorageStatePath(role: string): string {
+    return path.join(this.STORAGE_STATE_DIR, `${TestUtils.sanitizeFilename(role)}.json`);
+  }
+
+  /**
+   * Load active accounts from test data, one per role
+   * @returns Active accounts, first match per role
+   */
+  static async getActiveAccounts(): Promise<TestAccount[]> {
+    const testAccounts = await TestUtils.loadTestData<TestAccountsData>(this.TEST_ACCOUNTS_FILE);
+    const accountsByRole = new Map<string, TestAccount>();
+
+    for (const account of testAccounts.accounts) {
+      if (account.active && !accountsByRole.has(account.role)) {
+        accountsByRole.set(account.role, account);
+      }
+    }
+
+    return [...accountsByRole.values()];
+  }
+
+  /**
+   * Find the active account for a role
+   * @param role - Account role
+   * @returns Active account
+   */
+  static async getAccountForRole(role: string): Promise<TestAccount> {
+    const accounts = await this.getActiveAccounts();
+    const account = accounts.find(acc => acc.role === role);
+
+    if (!account) {
+      throw new Error(`No active account found for role '${role}' in ${this.TEST_ACCOUNTS_FILE}`);
+    }
+
+    return account;
+  }
+
+  /**
+   * Log in with an account and save its storage state
+   * @param browser - Browser instance
+   * @param account - Account to log in with
+   * @returns Storage state file path
+   */
+  static async createStorageState(browser: Browser, account: TestAccount): Promise<string> {
+    const statePath = this.getStorageStatePath(account.role);
+    const context = await browser.newContext({
+      baseURL: process.env.BASE_URL,
+      ignoreHTTPSErrors: true
+    });
+
+    try {
+      const page = await context.newPage();
+      const loginPage = new LoginPage(page);
+
+      await loginPage.navigateToLogin();
+      await loginPage.login(account);
+
+      await fs.mkdir(this.STORAGE_STATE_DIR, { recursive: true });
+      await context.storageState({ path: statePath });
+
+      logger.info('Storage state saved', {
+        role: account.role,
+        username: account.username,
+        statePath
+      });
+
+      return statePath;
+    } finally {
+      await context.close();
+    }
+  }
+
+  /**
+   * Check if a stored session is no longer accepted by the application
+   * @param browser - Browser instance
+   * @param statePath - Storage state file path
+   * @returns True if the session has expired
+   */
+  static async isStorageStateExpired(browser: Browser, statePath: string): Promise<boolean> {
+    const context = await browser.newContext({
+      baseURL: process.env.BASE_URL,
+      ignoreHTTPSErrors: true,
+      storageState: statePath
+    });
+
+    try {
+      const loginPage = new LoginPage(await context.newPage());
+      return await loginPage.isSessionExpired();
+    } finally {
+      await context.close();
+    }
+  }
+
+  /**
+   * Create or update every non-Admin account of the test data through Admin > User Management
+   * Inactive accounts are kept as disabled users; accounts without an employee get a generated one
+   * @param browser - Browser instance
+   * @returns Usernames of the accounts that were created
+   */
+  static async provisionTestAccounts(browser: Browser): Promise<string[]> {
+    const testAccounts = await TestUtils.loadTestData<TestAccountsData>(this.TEST_ACCOUNTS_FILE);
+    const context = await browser.newContext({
+      baseURL: process.env.BASE_URL,
+      ignoreHTTPSErrors: true,
+      storageState: await this.ensureStorageState('Admin', browser)
+    });
+    const created: string[] = [];
+
+    try {
+      const page = await context.newPage();
+      const usersPage = new AdminUsersPage(page);
+      await usersPage.open();
+
+      for (const account of testAccounts.accounts.filter(acc => acc.role !== 'Admin')) {
+        const existing = await usersPage.findUser(account.username);
+        let employeeName = existing?.employeeName ?? account.employeeName;
+
+        if (!employeeName) {
+          const employee = TestUtils.generateEmployeeData({ lastName: account.username });
+          await new AddEmployeePage(page).addEmployee(employee);
+          employeeName = `${employee.firstName} ${employee.lastName}`;
+          await usersPage.open();
+        }
+
+        const wasCreated = await usersPage.ensureUser({
+          username: account.username,
+          password: account.password,
+          role: account.role,
+          employeeName,
+          status: account.active ? 'Enabled' : 'Disabled'
+        });
+
+        if (wasCreated) {
+          created.push(account.username);
+        }
+      }
+
+      logger.info('Test accounts provisioned', {
+        accounts: testAccounts.accounts.length,
+        created
+      });
+
+      return created;
+    } finally {
+      await context.close();
+    }
+  }
+
+  /**
+   * Get a valid storage state for a role, logging in again when it is missing or expired
+   * Checking the session needs a browser; without one, a headless Chromium is launched for the check only
+   * and closed again, so callers such as the storageState fixture do not depend on the test browser
+   * @param role - Account role
+   * @param browser - Browser to check and refresh the session with
+   * @returns Storage state file path
+   */
+  static async ensureStorageState(role: string, browser?: Browser): Promise<string> {
+    const statePath = this.getStorageStatePath(role);
+
+    if (this.validatedRoles.has(role)) {
+      return statePath;
+    }
+
+    const refreshBrowser = browser ?? await chromium.launch({ headless: true });
+
+    try {
+      const exists = await fs.access(statePath).then(() => true).catch(() => false);
+      const expired = exists && await this.isStorageStateExpired(refreshBrowser, statePath);
+
+      if (!exists || expired) {
+        logger.info('Refreshing storage state', {
+          role,
+          reason: exists ? 'session expired' : 'missing storage state'
+        });
+
+        await this.createStorageState(refreshBrowser, await this.getAccountForRole(role));
+      }
+    } finally {
+      if (!browser) {
+        await refreshBrowser.close();
+      }
+    }
+
+    this.validatedRoles.add(role);
+    return statePath;
+  }
+}
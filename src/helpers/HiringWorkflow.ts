@@ -0,0 +1,160 @@
+import { CandidatesPage } from '../pages/CandidatesPage.js';
+import { AllureHelper } from './AllureHelper.js';
+import logger from '../config/logger.js';
+import type { Candidate, CandidateAction, CandidateStatus, HiringStep, Interview } from '../types/index.js';
+
+/**
+ * Composable hiring pipeline
+ * Steps are chained and run in order against one candidate; after each step the candidate
+ * status and the status history are checked against the status the action leads to
+ *
+ * @example
+ * await new HiringWorkflow(candidatesPage)
+ *   .shortlist()
+ *   .scheduleInterview({ title: 'Technical', interviewer: 'Peter', date: new Date() })
+ *   .markInterviewPassed()
+ *   .offerJob()
+ *   .hire()
+ *   .run(candidateId);
+ */
+export class HiringWorkflow {
+  private readonly steps: HiringStep[] = [];
+  private readonly allure = new AllureHelper();
+  private readonly candidatesPage: CandidatesPage;
+
+  /**
+   * @param candidatesPage - Candidates page the steps run on
+   */
+  constructor(candidatesPage: CandidatesPage) {
+    this.candidatesPage = candidatesPage;
+  }
+
+  /**
+   * Add a step
+   * @param action - Pipeline action
+   * @param details - Notes, or the interview for "Schedule Interview"
+   * @returns This workflow for chaining
+   */
+  step(action: CandidateAction, details?: string | Interview): this {
+    this.steps.push({ action, details });
+    return this;
+  }
+
+  /**
+   * Shortlist the candidate
+   * @param notes - Optional notes
+   */
+  shortlist(notes?: string): this {
+    return this.step('Shortlist', notes);
+  }
+
+  /**
+   * Schedule an interview
+   * @param interview - Interview details
+   */
+  scheduleInterview(interview: Interview): this {
+    return this.step('Schedule Interview', interview);
+  }
+
+  /**
+   * Mark the scheduled interview as passed
+   * @param notes - Optional notes
+   */
+  markInterviewPassed(notes?: string): this {
+    return this.step('Mark Interview Passed', notes);
+  }
+
+  /**
+   * Mark the scheduled interview as failed
+   * @param notes - Optional notes
+   */
+  markInterviewFailed(notes?: string): this {
+    return this.step('Mark Interview Failed', notes);
+  }
+
+  /**
+   * Offer the job
+   * @param notes - Optional notes
+   */
+  offerJob(notes?: string): this {
+    return this.step('Offer Job', notes);
+  }
+
+  /**
+   * Record that the candidate declined the offer
+   * @param notes - Optional notes
+   */
+  declineOffer(notes?: string): this {
+    return this.step('Offer Declined', notes);
+  }
+
+  /**
+   * Hire the candidate
+   * @param notes - Optional notes
+   */
+  hire(notes?: string): this {
+    return this.step('Hire', notes);
+  }
+
+  /**
+   * Reject the candidate
+   * @param notes - Optional notes
+   */
+  reject(notes?: string): this {
+    return this.step('Reject', notes);
+  }
+
+  /**
+   * Run every step against an existing candidate
+   * @param candidateId - Candidate id
+   * @returns Final status
+   */
+  async run(candidateId: string): Promise<CandidateStatus> {
+    return await this.allure.timedStep(`Hiring Workflow: Candidate ${candidateId}`, async () => {
+      this.allure.attachJSON('Hiring Steps', this.steps.map(step => step.action));
+
+      let status: CandidateStatus = await this.currentStatus(candidateId);
+
+      for (const { action, details } of this.steps) {
+        await this.candidatesPage.performAction(candidateId, action, details);
+
+        status = CandidatesPage.ACTION_RESULTS[action];
+        await this.candidatesPage.shouldHaveStatus(candidateId, status);
+      }
+
+      logger.test.step('Hiring Workflow', 'workflow', {
+        candidateId,
+        steps: this.steps.map(step => step.action),
+        status
+      });
+
+      return status;
+    });
+  }
+
+  /**
+   * Add a candidate and run every step against it
+   * @param candidate - Candidate to add, assigned to a vacancy
+   * @returns Candidate id and final status
+   */
+  async runFor(candidate: Candidate): Promise<{ candidateId: string; status: CandidateStatus }> {
+    if (!candidate.vacancy) {
+      throw new Error('A candidate needs a vacancy to move through the hiring pipeline');
+    }
+
+    const candidateId = await this.candidatesPage.addCandidate(candidate);
+    const status = await this.run(candidateId);
+
+    return { candidateId, status };
+  }
+
+  /**
+   * Status of the candidate before the first step
+   * @param candidateId - Candidate id
+   * @returns Current status
+   */
+  private async currentStatus(candidateId: string): Promise<CandidateStatus> {
+    await this.candidatesPage.openCandidate(candidateId);
+    return await this.candidatesPage.getStatus();
+  }
+}
@@ -0,0 +1,450 @@
+import type { JsonPathNode } from '../types/index.js';
+
+// One selector inside a path segment
+type Selector =
+  | { kind: 'name'; name: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' }
+  | { kind: 'slice'; start?: number; end?: number; step: number }
+  | { kind: 'filter'; expression: string };
+
+// `.x` / `[..]` select children, `..x` selects among the node and all its descendants
+interface Segment {
+  descendant: boolean;
+  selectors: Selector[];
+}
+
+// Token of a filter expression
+type FilterToken =
+  | { kind: 'path'; text: string }
+  | { kind: 'value'; value: unknown }
+  | { kind: 'op'; text: string };
+
+/**
+ * JSONPath queries over plain JSON values
+ * Supports `$`, `.name`, `['name']`, `[0]`, `[-1]`, `[*]`, `.*`, unions `[0,2]`, slices `[1:3]`,
+ * recursive descent `..name` and filters `[?(@.status == 'Active' && @.age >= 18)]`.
+ * Filter operators: `==`, `!=`, `<`, `<=`, `>`, `>=`, `=~` (regex literal), `!`, `&&`, `||` and existence (`@.name`).
+ */
+export class JsonPath {
+  private static readonly parsed = new Map<string, Segment[]>();
+
+  /**
+   * Find every node a path selects
+   * @param document - JSON value to query
+   * @param path - JSONPath starting with `$`
+   * @returns Matching nodes with their normalized paths, in document order
+   */
+  static query(document: unknown, path: string): JsonPathNode[] {
+    let nodes: JsonPathNode[] = [{ path: '$', value: document }];
+
+    for (const segment of JsonPath.parse(path)) {
+      const candidates = segment.descendant ? nodes.flatMap(node => JsonPath.descendants(node)) : nodes;
+      nodes = candidates.flatMap(node => segment.selectors.flatMap(selector => JsonPath.select(node, selector)));
+    }
+
+    return nodes;
+  }
+
+  /**
+   * Get the values a path selects
+   * @param document - JSON value to query
+   * @param path - JSONPath starting with `$`
+   * @returns Matching values
+   */
+  static values(document: unknown, path: string): unknown[] {
+    return JsonPath.query(document, path).map(node => node.value);
+  }
+
+  /**
+   * Check if a path can select at most one node (no wildcard, union, slice, filter or descent)
+   * @param path - JSONPath
+   * @returns True for a definite path
+   */
+  static isDefinite(path: string): boolean {
+    return JsonPath.parse(path).every(segment =>
+      !segment.descendant &&
+      segment.selectors.length === 1 &&
+      (segment.selectors[0].kind === 'name' || segment.selectors[0].kind === 'index')
+    );
+  }
+
+  /**
+   * Normalized path of a child
+   * @param parent - Parent path
+   * @param key - Property name or array index
+   * @returns Child path, e.g. `$.data[0]['first name']`
+   */
+  static childPath(parent: string, key: string | number): string {
+    if (typeof key === 'number') {
+      return `${parent}[${key}]`;
+    }
+
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? `${parent}.${key}` : `${parent}['${key.replace(/'/g, "\\'")}']`;
+  }
+
+  /**
+   * Parse a path into segments, cached per path
+   * @param path - JSONPath
+   * @returns Segments
+   */
+  private static parse(path: string): Segment[] {
+    const cached = JsonPath.parsed.get(path);
+
+    if (cached) {
+      return cached;
+    }
+
+    if (!path.startsWith('$')) {
+      throw new Error(`Invalid JSONPath '${path}': it has to start with '$'`);
+    }
+
+    const segments: Segment[] = [];
+    let position = 1;
+
+    while (position < path.length) {
+      const descendant = path.startsWith('..', position);
+
+      if (descendant || path[position] === '.') {
+        position += descendant ? 2 : 1;
+
+        if (path[position] === '[') {
+          const end = JsonPath.findClosingBracket(path, position);
+          segments.push({ descendant, selectors: JsonPath.parseBracket(path.slice(position + 1, end), path) });
+          position = end + 1;
+          continue;
+        }
+
+        const name = path.slice(position).match(/^(\*|[^.[\]\s]+)/)?.[0];
+
+        if (!name) {
+          throw new Error(`Invalid JSONPath '${path}': expected a name at position ${position}`);
+        }
+
+        segments.push({ descendant, selectors: [name === '*' ? { kind: 'wildcard' } : { kind: 'name', name }] });
+        position += name.length;
+      } else if (path[position] === '[') {
+        const end = JsonPath.findClosingBracket(path, position);
+        segments.push({ descendant: false, selectors: JsonPath.parseBracket(path.slice(position + 1, end), path) });
+        position = end + 1;
+      } else {
+        throw new Error(`Invalid JSONPath '${path}': unexpected '${path[position]}' at position ${position}`);
+      }
+    }
+
+    JsonPath.parsed.set(path, segments);
+    return segments;
+  }
+
+  /**
+   * Find the bracket closing the one at a position, skipping quoted text, regex literals and nested brackets
+   * @param text - Text to scan
+   * @param start - Position of the opening bracket
+   * @returns Position of the closing bracket
+   */
+  private static findClosingBracket(text: string, start: number): number {
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+
+      if (quote) {
+        if (char === '\\') {
+          i++;
+        } else if (char === quote) {
+          quote = null;
+        }
+      } else if (char === "'" || char === '"') {
+        quote = char;
+      } else if (char === '/' && /=~\s*$/.test(text.slice(start, i))) {
+        quote = '/';
+      } else if (char === '[' || char === '(') {
+        depth++;
+      } else if (char === ']' || char === ')') {
+        depth--;
+
+        if (depth === 0) {
+          return i;
+        }
+      }
+    }
+
+    throw new Error(`Invalid JSONPath '${text}': unclosed bracket at position ${start}`);
+  }
+
+  /**
+   * Parse the content of a bracket
+   * @param content - Text between the brackets
+   * @param path - Whole path, for error messages
+   * @returns Selectors
+   */
+  private static parseBracket(content: string, path: string): Selector[] {
+    const trimmed = content.trim();
+
+    if (trimmed === '*') {
+      return [{ kind: 'wildcard' }];
+    }
+
+    if (trimmed.startsWith('?')) {
+      const expression = trimmed.slice(1).trim();
+      return [{ kind: 'filter', expression: expression.startsWith('(') && expression.endsWith(')') ? expression.slice(1, -1) : expression }];
+    }
+
+    return JsonPath.splitTopLevel(trimmed, ',').map(part => {
+      const item = part.trim();
+      const quoted = item.match(/^(['"])(.*)\1$/);
+
+      if (quoted) {
+        return { kind: 'name', name: quoted[2].replace(/\\(.)/g, '$1') };
+      }
+
+      if (/^-?\d+$/.test(item)) {
+        return { kind: 'index', index: parseInt(item) };
+      }
+
+      const slice = item.match(/^(-?\d*):(-?\d*)(?::(-?\d+))?$/);
+
+      if (slice) {
+        return {
+          kind: 'slice',
+          start: slice[1] ? parseInt(slice[1]) : undefined,
+          end: slice[2] ? parseInt(slice[2]) : undefined,
+          step: slice[3] ? parseInt(slice[3]) : 1
+        };
+      }
+
+      throw new Error(`Invalid JSONPath '${path}': unsupported selector '[${item}]'`);
+    });
+  }
+
+  /**
+   * Split text on a separator outside of quotes
+   * @param text - Text to split
+   * @param separator - Separator character
+   * @returns Parts
+   */
+  private static splitTopLevel(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let quote: string | null = null;
+    let current = '';
+
+    for (const char of text) {
+      if (quote) {
+        quote = char === quote ? null : quote;
+      } else if (char === "'" || char === '"') {
+        quote = char;
+      } else if (char === separator) {
+        parts.push(current);
+        current = '';
+        continue;
+      }
+
+      current += char;
+    }
+
+    return [...parts, current];
+  }
+
+  /**
+   * Get a node and all its descendants, in document order
+   * @param node - Starting node
+   * @returns Node followed by its descendants
+   */
+  private static descendants(node: JsonPathNode): JsonPathNode[] {
+    return [node, ...JsonPath.children(node).flatMap(child => JsonPath.descendants(child))];
+  }
+
+  /**
+   * Get the direct children of a node
+   * @param node - Parent node
+   * @returns Array items or object properties
+   */
+  private static children(node: JsonPathNode): JsonPathNode[] {
+    if (Array.isArray(node.value)) {
+      return node.value.map((value, index) => ({ path: JsonPath.childPath(node.path, index), value }));
+    }
+
+    if (node.value && typeof node.value === 'object') {
+      return Object.entries(node.value).map(([key, value]) => ({ path: JsonPath.childPath(node.path, key), value }));
+    }
+
+    return [];
+  }
+
+  /**
+   * Apply a selector to the children of a node
+   * @param node - Parent node
+   * @param selector - Selector
+   * @returns Selected children
+   */
+  private static select(node: JsonPathNode, selector: Selector): JsonPathNode[] {
+    const value = node.value;
+
+    switch (selector.kind) {
+      case 'name':
+        return value && typeof value === 'object' && !Array.isArray(value) && Object.prototype.hasOwnProperty.call(value, selector.name)
+          ? [{ path: JsonPath.childPath(node.path, selector.name), value: (value as Record<string, unknown>)[selector.name] }]
+          : [];
+      case 'index': {
+        if (!Array.isArray(value)) {
+          return [];
+        }
+
+        const index = selector.index < 0 ? value.length + selector.index : selector.index;
+        return index >= 0 && index < value.length ? [{ path: JsonPath.childPath(node.path, index), value: value[index] }] : [];
+      }
+      case 'wildcard':
+        return JsonPath.children(node);
+      case 'slice': {
+        if (!Array.isArray(value) || selector.step === 0) {
+          return [];
+        }
+
+        // Bounds clamp to [0, length] going forward and to [-1, length - 1] in reverse, so a reverse slice reaches index 0
+        const [lowest, highest] = selector.step > 0 ? [0, value.length] : [-1, value.length - 1];
+        const normalize = (bound: number) => Math.min(Math.max(bound < 0 ? value.length + bound : bound, lowest), highest);
+        const start = selector.start === undefined ? (selector.step > 0 ? lowest : highest) : normalize(selector.start);
+        const end = selector.end === undefined ? (selector.step > 0 ? highest : lowest) : normalize(selector.end);
+        const selected: JsonPathNode[] = [];
+
+        for (let i = start; selector.step > 0 ? i < end : i > end; i += selector.step) {
+          selected.push({ path: JsonPath.childPath(node.path, i), value: value[i] });
+        }
+
+        return selected;
+      }
+      case 'filter':
+        return JsonPath.children(node).filter(child => Boolean(JsonPath.evaluateFilter(selector.expression, child.value)));
+    }
+  }
+
+  /**
+   * Evaluate a filter expression against a candidate
+   * @param expression - Expression without the surrounding `?()`
+   * @param current - Value bound to `@`
+   * @returns Expression result
+   */
+  private static evaluateFilter(expression: string, current: unknown): unknown {
+    const tokens = JsonPath.tokenizeFilter(expression);
+    let position = 0;
+
+    const peek = () => tokens[position];
+    const isOp = (text: string) => peek()?.kind === 'op' && (peek() as { text: string }).text === text;
+
+    const operand = (): unknown => {
+      const token = tokens[position++];
+
+      if (!token) {
+        throw new Error(`Invalid JSONPath filter '${expression}': unexpected end`);
+      }
+
+      if (token.kind === 'op' && token.text === '(') {
+        const result = or();
+        position++;
+        return result;
+      }
+
+      if (token.kind === 'op' && token.text === '!') {
+        return !operand();
+      }
+
+      if (token.kind === 'path') {
+        const nodes = JsonPath.query(current, `$${token.text.slice(1)}`);
+        return nodes.length > 0 ? nodes[0].value : undefined;
+      }
+
+      if (token.kind === 'value') {
+        return token.value;
+      }
+
+      throw new Error(`Invalid JSONPath filter '${expression}': unexpected '${token.text}'`);
+    };
+
+    const comparison = (): unknown => {
+      const left = operand();
+      const token = peek();
+
+      if (token?.kind !== 'op' || !['==', '!=', '<', '<=', '>', '>=', '=~'].includes(token.text)) {
+        return left;
+      }
+
+      position++;
+      const right = operand();
+
+      switch (token.text) {
+        case '==': return JSON.stringify(left) === JSON.stringify(right);
+        case '!=': return JSON.stringify(left) !== JSON.stringify(right);
+        case '<': return (left as number) < (right as number);
+        case '<=': return (left as number) <= (right as number);
+        case '>': return (left as number) > (right as number);
+        case '>=': return (left as number) >= (right as number);
+        default: return right instanceof RegExp && typeof left === 'string' && right.test(left);
+      }
+    };
+
+    const and = (): unknown => {
+      let result = comparison();
+
+      while (isOp('&&')) {
+        position++;
+        const right = comparison();
+        result = Boolean(result) && Boolean(right);
+      }
+
+      return result;
+    };
+
+    const or = (): unknown => {
+      let result = and();
+
+      while (isOp('||')) {
+        position++;
+        const right = and();
+        result = Boolean(result) || Boolean(right);
+      }
+
+      return result;
+    };
+
+    return or();
+  }
+
+  /**
+   * Split a filter expression into tokens
+   * @param expression - Filter expression
+   * @returns Tokens
+   */
+  private static tokenizeFilter(expression: string): FilterToken[] {
+    const tokens: FilterToken[] = [];
+    const pattern = /\s*(?:(@(?:\.[\w$]+|\[[^\]]*\])*)|('(?:\\.|[^'])*'|"(?:\\.|[^"])*")|(\/(?:\\.|[^/])+\/[gimsuy]*)|(-?\d+(?:\.\d+)?)|(true|false|null)\b|(==|!=|<=|>=|=~|&&|\|\||[<>!()]))/y;
+
+    while (pattern.lastIndex < expression.trimEnd().length) {
+      const start = pattern.lastIndex;
+      const match = pattern.exec(expression);
+
+      if (!match) {
+        throw new Error(`Invalid JSONPath filter '${expression}': unexpected text at position ${start}`);
+      }
+
+      const [, path, text, regex, number, literal, op] = match;
+
+      if (path) {
+        tokens.push({ kind: 'path', text: path });
+      } else if (text) {
+        tokens.push({ kind: 'value', value: text.slice(1, -1).replace(/\\(.)/g, '$1') });
+      } else if (regex) {
+        const lastSlash = regex.lastIndexOf('/');
+        tokens.push({ kind: 'value', value: new RegExp(regex.slice(1, lastSlash), regex.slice(lastSlash + 1)) });
+      } else if (number) {
+        tokens.push({ kind: 'value', value: parseFloat(number) });
+      } else if (literal) {
+        tokens.push({ kind: 'value', value: JSON.parse(literal) });
+      } else {
+        tokens.push({ kind: 'op', text: op });
+      }
+    }
+
+    return tokens;
+  }
+}
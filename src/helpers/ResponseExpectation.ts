@@ -0,0 +1,158 @@
+import { AllureHelper } from './AllureHelper.js';
+import { JsonPath } from './JsonPath.js';
+import { ValueMatcher, compareValues, describeExpected } from './ResponseMatchers.js';
+import logger from '../config/logger.js';
+import type { ApiResponse, HttpStatusClass, MatcherMismatch } from '../types/index.js';
+
+/**
+ * Fluent assertions on an API response
+ * Bodies are queried with JSONPath and matched partially; expected values may hold matchers
+ * (`anyString()`, `matches(/EMP\d+/)`, `containing([...])`, `every(...)`) and regular expressions.
+ * A failing assertion lists every mismatch with its path, attaches that diff and the body to Allure and throws.
+ *
+ * @example
+ * apiHelper.expectResponse(response)
+ *   .toHaveStatusClass('2xx')
+ *   .toHaveHeader('content-type', /json/)
+ *   .toHaveJsonPath('$.data[?(@.lastName == "Doe")].employeeId', every(matches(/^EMP\d+$/)));
+ */
+export class ResponseExpectation<T = any> {
+  private readonly response: ApiResponse<T>;
+  private readonly allure: AllureHelper;
+  private logger = logger;
+
+  constructor(response: ApiResponse<T>, allure: AllureHelper = new AllureHelper()) {
+    this.response = response;
+    this.allure = allure;
+  }
+
+  /**
+   * Assert the exact status code
+   * @param status - Expected status code
+   */
+  toHaveStatus(status: number): this {
+    const mismatches: MatcherMismatch[] = this.response.status === status
+      ? []
+      : [{ path: 'status', expected: String(status), received: this.describeStatus() }];
+
+    return this.verify(`Response status is ${status}`, mismatches);
+  }
+
+  /**
+   * Assert the class of the status code
+   * @param statusClass - Expected class, e.g. "2xx"
+   */
+  toHaveStatusClass(statusClass: HttpStatusClass): this {
+    const mismatches: MatcherMismatch[] = `${Math.floor(this.response.status / 100)}xx` === statusClass
+      ? []
+      : [{ path: 'status', expected: statusClass, received: this.describeStatus() }];
+
+    return this.verify(`Response status is ${statusClass}`, mismatches);
+  }
+
+  /**
+   * Assert that a header is present and, optionally, matches
+   * @param name - Header name, case-insensitive
+   * @param expected - Expected value, regular expression or matcher
+   */
+  toHaveHeader(name: string, expected?: string | RegExp | ValueMatcher): this {
+    const headerName = Object.keys(this.response.headers).find(key => key.toLowerCase() === name.toLowerCase());
+    const path = `headers['${name.toLowerCase()}']`;
+    const mismatches: MatcherMismatch[] = [];
+
+    if (headerName === undefined) {
+      mismatches.push({ path, expected: expected === undefined ? 'present' : describeExpected(expected), received: 'missing' });
+    } else if (expected !== undefined) {
+      compareValues(this.response.headers[headerName], expected, path, mismatches);
+    }
+
+    return this.verify(`Response header '${name}'`, mismatches);
+  }
+
+  /**
+   * Assert that the body matches an expected value
+   * Objects match partially, so only the listed properties are checked
+   * @param expected - Expected body, matcher or partial object
+   */
+  toMatchObject(expected: unknown): this {
+    const mismatches: MatcherMismatch[] = [];
+    compareValues(this.response.body, expected, '$', mismatches);
+
+    return this.verify('Response body matches', mismatches);
+  }
+
+  /**
+   * Assert that a JSONPath selects something and, optionally, that it matches
+   * A definite path (e.g. `$.data.firstName`) is matched as a single value; any other path
+   * (wildcards, filters, recursive descent, unions, slices) is matched as the array of its selections
+   * @param path - JSONPath starting with `$`
+   * @param expected - Expected value, matcher or partial object
+   */
+  toHaveJsonPath(path: string, expected?: unknown): this {
+    const nodes = JsonPath.query(this.response.body, path);
+    const mismatches: MatcherMismatch[] = [];
+
+    if (nodes.length === 0) {
+      mismatches.push({ path, expected: expected === undefined ? 'at least one match' : describeExpected(expected), received: 'no match' });
+    } else if (expected !== undefined && JsonPath.isDefinite(path)) {
+      compareValues(nodes[0].value, expected, nodes[0].path, mismatches);
+    } else if (expected !== undefined) {
+      compareValues(nodes.map(node => node.value), expected, path, mismatches);
+
+      // Report items of the selection under their own location, e.g. $.data[3].employeeId
+      for (const mismatch of mismatches) {
+        const item = mismatch.path.slice(path.length).match(/^\[(\d+)\](.*)$/);
+
+        if (mismatch.path.startsWith(path) && item && nodes[Number(item[1])]) {
+          mismatch.path = `${nodes[Number(item[1])].path}${item[2]}`;
+        }
+      }
+    }
+
+    return this.verify(`Response JSONPath ${path}`, mismatches);
+  }
+
+  /**
+   * Get the values a JSONPath selects in the body
+   * @param path - JSONPath starting with `$`
+   * @returns Selected values
+   */
+  query<V = unknown>(path: string): V[] {
+    return JsonPath.values(this.response.body, path) as V[];
+  }
+
+  /**
+   * Status code with its text, as shown in the diff
+   */
+  private describeStatus(): string {
+    return `${this.response.status} ${this.response.statusText}`.trim();
+  }
+
+  /**
+   * Pass or fail an assertion
+   * @param description - Assertion description
+   * @param mismatches - Mismatches found
+   */
+  private verify(description: string, mismatches: MatcherMismatch[]): this {
+    if (mismatches.length === 0) {
+      this.logger.debug(`${description}: passed`);
+      this.allure.addStep(`${description}: passed`);
+      return this;
+    }
+
+    const diff = mismatches
+      .map(mismatch => `- ${mismatch.path}\n    expected: ${mismatch.expected}\n    received: ${mismatch.received}`)
+      .join('\n');
+
+    this.logger.error(`${description}: failed`, { mismatches });
+    this.allure.addStep(`${description}: failed`, 'failed');
+    this.allure.attachText('Response Matcher Diff', diff);
+    this.allure.attachJSON('Response Under Test', {
+      status: this.response.status,
+      headers: this.response.headers,
+      body: this.response.body
+    });
+
+    throw new Error(`${description}: ${mismatches.length} mismatch(es) in ${this.response.status} response\n${diff}`);
+  }
+}
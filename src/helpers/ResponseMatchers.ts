@@ -0,0 +1,262 @@
+import { JsonPath } from './JsonPath.js';
+import type { MatcherMismatch } from '../types/index.js';
+
+/**
+ * Base class of the asymmetric matchers used in expected values
+ * A matcher decides on its own whether a value matches and reports mismatches under the path it is given
+ */
+export abstract class ValueMatcher {
+  /**
+   * Describe what the matcher expects, as shown in the diff
+   */
+  abstract describe(): string;
+
+  /**
+   * Match a value, collecting mismatches
+   * @param actual - Received value
+   * @param path - JSONPath of the value
+   * @param mismatches - Collected mismatches
+   */
+  abstract match(actual: unknown, path: string, mismatches: MatcherMismatch[]): void;
+
+  /**
+   * Report the received value as not matching this matcher
+   * @param actual - Received value
+   * @param path - JSONPath of the value
+   * @param mismatches - Collected mismatches
+   */
+  protected mismatch(actual: unknown, path: string, mismatches: MatcherMismatch[]): void {
+    mismatches.push({ path, expected: this.describe(), received: formatValue(actual) });
+  }
+}
+
+// Matches values by predicate, e.g. on their type
+class PredicateMatcher extends ValueMatcher {
+  private readonly description: string;
+  private readonly predicate: (actual: unknown) => boolean;
+
+  constructor(description: string, predicate: (actual: unknown) => boolean) {
+    super();
+    this.description = description;
+    this.predicate = predicate;
+  }
+
+  describe(): string {
+    return this.description;
+  }
+
+  match(actual: unknown, path: string, mismatches: MatcherMismatch[]): void {
+    if (!this.predicate(actual)) {
+      this.mismatch(actual, path, mismatches);
+    }
+  }
+}
+
+// Matches arrays holding a match for every expected item, in any order
+class ContainingMatcher extends ValueMatcher {
+  private readonly items: unknown[];
+
+  constructor(items: unknown[]) {
+    super();
+    this.items = items;
+  }
+
+  describe(): string {
+    return `array containing [${this.items.map(item => describeExpected(item)).join(', ')}]`;
+  }
+
+  match(actual: unknown, path: string, mismatches: MatcherMismatch[]): void {
+    if (!Array.isArray(actual)) {
+      this.mismatch(actual, path, mismatches);
+      return;
+    }
+
+    for (const item of this.items) {
+      if (!actual.some(element => isMatch(element, item))) {
+        mismatches.push({ path, expected: `array containing ${describeExpected(item)}`, received: formatValue(actual) });
+      }
+    }
+  }
+}
+
+// Matches arrays whose every item matches, reporting each failing item under its own path
+class EveryMatcher extends ValueMatcher {
+  private readonly expected: unknown;
+
+  constructor(expected: unknown) {
+    super();
+    this.expected = expected;
+  }
+
+  describe(): string {
+    return `array where every item is ${describeExpected(this.expected)}`;
+  }
+
+  match(actual: unknown, path: string, mismatches: MatcherMismatch[]): void {
+    if (!Array.isArray(actual)) {
+      this.mismatch(actual, path, mismatches);
+      return;
+    }
+
+    actual.forEach((item, index) => compareValues(item, this.expected, JsonPath.childPath(path, index), mismatches));
+  }
+}
+
+/**
+ * Format a value for the diff, shortening long payloads
+ * @param value - Value
+ * @returns Printable value
+ */
+export function formatValue(value: unknown): string {
+  if (value === undefined) {
+    return 'undefined';
+  }
+
+  if (value instanceof RegExp) {
+    return value.toString();
+  }
+
+  // Matchers nested in expected objects print as <description>
+  const text = JSON.stringify(value, (_key, item) =>
+    item instanceof ValueMatcher ? `<${item.describe()}>` : item instanceof RegExp ? item.toString() : item
+  ) ?? String(value);
+  return text.length > 200 ? `${text.slice(0, 197)}...` : text;
+}
+
+/**
+ * Describe an expected value, matcher or not
+ * @param expected - Expected value
+ * @returns Printable description
+ */
+export function describeExpected(expected: unknown): string {
+  if (expected instanceof ValueMatcher) {
+    return expected.describe();
+  }
+
+  if (expected instanceof RegExp) {
+    return `string matching ${expected}`;
+  }
+
+  return formatValue(expected);
+}
+
+/**
+ * Compare a value with an expected value, collecting every mismatch
+ * Objects match partially: properties that are not expected are ignored.
+ * Arrays match item by item and have to be of the same length; use `containing` or `every` otherwise.
+ * Regular expressions match strings, matchers decide for themselves.
+ * @param actual - Received value
+ * @param expected - Expected value, matcher or partial object
+ * @param path - JSONPath of the value
+ * @param mismatches - Collected mismatches
+ */
+export function compareValues(actual: unknown, expected: unknown, path: string, mismatches: MatcherMismatch[]): void {
+  if (expected instanceof ValueMatcher) {
+    expected.match(actual, path, mismatches);
+    return;
+  }
+
+  if (expected instanceof RegExp) {
+    matches(expected).match(actual, path, mismatches);
+    return;
+  }
+
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual) || actual.length !== expected.length) {
+      mismatches.push({ path, expected: `array of ${expected.length} items`, received: formatValue(actual) });
+      return;
+    }
+
+    expected.forEach((item, index) => compareValues(actual[index], item, JsonPath.childPath(path, index), mismatches));
+    return;
+  }
+
+  if (expected !== null && typeof expected === 'object') {
+    if (actual === null || typeof actual !== 'object' || Array.isArray(actual)) {
+      mismatches.push({ path, expected: 'object', received: formatValue(actual) });
+      return;
+    }
+
+    for (const [key, value] of Object.entries(expected)) {
+      const childPath = JsonPath.childPath(path, key);
+
+      if (!(key in actual) && value !== undefined) {
+        mismatches.push({ path: childPath, expected: describeExpected(value), received: 'missing' });
+      } else {
+        compareValues((actual as Record<string, unknown>)[key], value, childPath, mismatches);
+      }
+    }
+    return;
+  }
+
+  if (!Object.is(actual, expected)) {
+    mismatches.push({ path, expected: formatValue(expected), received: formatValue(actual) });
+  }
+}
+
+/**
+ * Check if a value matches an expected value
+ * @param actual - Received value
+ * @param expected - Expected value, matcher or partial object
+ * @returns True when there is no mismatch
+ */
+export function isMatch(actual: unknown, expected: unknown): boolean {
+  const mismatches: MatcherMismatch[] = [];
+  compareValues(actual, expected, '$', mismatches);
+  return mismatches.length === 0;
+}
+
+/**
+ * Match any value but undefined
+ */
+export function anything(): ValueMatcher {
+  return new PredicateMatcher('anything', actual => actual !== undefined);
+}
+
+/**
+ * Match any string
+ */
+export function anyString(): ValueMatcher {
+  return new PredicateMatcher('any string', actual => typeof actual === 'string');
+}
+
+/**
+ * Match any number
+ */
+export function anyNumber(): ValueMatcher {
+  return new PredicateMatcher('any number', actual => typeof actual === 'number' && !Number.isNaN(actual));
+}
+
+/**
+ * Match any boolean
+ */
+export function anyBoolean(): ValueMatcher {
+  return new PredicateMatcher('any boolean', actual => typeof actual === 'boolean');
+}
+
+/**
+ * Match strings against a regular expression
+ * @param pattern - Regular expression, e.g. /EMP\d+/
+ */
+export function matches(pattern: RegExp): ValueMatcher {
+  return new PredicateMatcher(`string matching ${pattern}`, actual => {
+    pattern.lastIndex = 0;
+    return typeof actual === 'string' && pattern.test(actual);
+  });
+}
+
+/**
+ * Match arrays that contain a match for each expected item, in any order
+ * @param items - Expected items, matchers or partial objects
+ */
+export function containing(items: unknown[]): ValueMatcher {
+  return new ContainingMatcher(items);
+}
+
+/**
+ * Match arrays whose every item matches
+ * @param expected - Expected item, matcher or partial object
+ */
+export function every(expected: unknown): ValueMatcher {
+  return new EveryMatcher(expected);
+}
@@ -0,0 +1,306 @@
+import fs from 'fs/promises';
+import path from 'path';
+import logger from '../config/logger.js';
+import type { JsonSchema, JsonSchemaFormat, JsonSchemaType, SchemaViolation } from '../types/index.js';
+
+/**
+ * JSON Schema registry and validator
+ * Schemas live in test-data/schemas as `<name>.json` and may `$ref` each other by name
+ * ("employee-ref") or their own definitions ("#/definitions/date").
+ * Covers the draft-07 keywords the registry uses and reports every violation, not just the first.
+ */
+export class SchemaValidator {
+  static readonly SCHEMA_DIR = path.join('test-data', 'schemas');
+
+  private static readonly schemas = new Map<string, JsonSchema>();
+
+  private static readonly formats: Record<JsonSchemaFormat, RegExp> = {
+    'date': /^\d{4}-\d{2}-\d{2}$/,
+    'date-time': /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/,
+    'time': /^\d{2}:\d{2}(:\d{2})?$/,
+    'email': /^[^\s@]+@[^\s@]+$/
+  };
+
+  /**
+   * Load a schema and every schema it references
+   * @param name - Schema name, the file name without `.json`
+   * @returns Schema
+   */
+  static async load(name: string): Promise<JsonSchema> {
+    const schemaName = SchemaValidator.toSchemaName(name);
+    const cached = SchemaValidator.schemas.get(schemaName);
+
+    if (cached) {
+      return cached;
+    }
+
+    const schemaPath = path.join(SchemaValidator.SCHEMA_DIR, `${schemaName}.json`);
+    let schema: JsonSchema;
+
+    try {
+      schema = JSON.parse(await fs.readFile(schemaPath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to load schema '${schemaName}' from ${schemaPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    SchemaValidator.schemas.set(schemaName, schema);
+
+    for (const ref of SchemaValidator.collectRefs(schema)) {
+      await SchemaValidator.load(ref);
+    }
+
+    logger.debug('Schema loaded', { schemaName, schemaPath });
+    return schema;
+  }
+
+  /**
+   * Validate a value against a registered schema
+   * @param name - Schema name
+   * @param value - Value to validate
+   * @param pointer - JSON pointer of the value inside the payload, prefixed to every violation
+   * @returns Every violation found, empty when the value is valid
+   */
+  static async validate(name: string, value: unknown, pointer: string = ''): Promise<SchemaViolation[]> {
+    const schema = await SchemaValidator.load(name);
+    const violations: SchemaViolation[] = [];
+
+    SchemaValidator.check(schema, schema, value, pointer, violations);
+    return violations;
+  }
+
+  /**
+   * Get the value at a JSON pointer
+   * @param value - Document
+   * @param pointer - JSON pointer, e.g. "/data/0/firstName"
+   * @returns Value or undefined if the pointer does not resolve
+   */
+  static resolvePointer(value: unknown, pointer: string): unknown {
+    return pointer
+      .split('/')
+      .slice(1)
+      .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce<unknown>((current, token) => (current as Record<string, unknown> | undefined)?.[token], value);
+  }
+
+  /**
+   * Registry name of a `$ref` or schema name
+   * @param ref - "employee", "employee.json" or "./employee.json"
+   * @returns Schema name
+   */
+  private static toSchemaName(ref: string): string {
+    return path.basename(ref).replace(/\.json$/, '');
+  }
+
+  /**
+   * Get the registry schemas a schema references
+   * @param schema - Schema to walk
+   * @returns Referenced schema names
+   */
+  private static collectRefs(schema: unknown): string[] {
+    if (!schema || typeof schema !== 'object') {
+      return [];
+    }
+
+    const refs = Object.entries(schema).flatMap(([key, child]) =>
+      key === '$ref' && typeof child === 'string' && !child.startsWith('#')
+        ? [SchemaValidator.toSchemaName(child.split('#')[0])]
+        : SchemaValidator.collectRefs(child)
+    );
+
+    return [...new Set(refs)];
+  }
+
+  /**
+   * Resolve a `$ref` to its schema and the root schema its own local refs resolve against
+   * @param ref - Reference
+   * @param root - Root schema of the referring schema
+   * @returns Referenced schema and its root
+   */
+  private static resolveRef(ref: string, root: JsonSchema): { schema: JsonSchema; root: JsonSchema } {
+    const [file, fragment = ''] = ref.split('#');
+    const refRoot = file ? SchemaValidator.schemas.get(SchemaValidator.toSchemaName(file)) : root;
+    const schema = refRoot && SchemaValidator.resolvePointer(refRoot, fragment);
+
+    if (!refRoot || !schema) {
+      throw new Error(`Unresolved schema reference '${ref}'`);
+    }
+
+    return { schema: schema as JsonSchema, root: refRoot };
+  }
+
+  /**
+   * JSON Schema type of a value
+   * @param value - Value
+   * @returns Type name, "integer" for whole numbers
+   */
+  private static typeOf(value: unknown): JsonSchemaType {
+    if (value === null) {
+      return 'null';
+    }
+
+    if (Array.isArray(value)) {
+      return 'array';
+    }
+
+    if (typeof value === 'number') {
+      return Number.isInteger(value) ? 'integer' : 'number';
+    }
+
+    return typeof value as JsonSchemaType;
+  }
+
+  /**
+   * Check a value against a schema, collecting violations
+   * @param schema - Schema to check against
+   * @param root - Root schema for local refs
+   * @param value - Value to check
+   * @param pointer - JSON pointer of the value
+   * @param violations - Collected violations
+   */
+  private static check(
+    schema: JsonSchema,
+    root: JsonSchema,
+    value: unknown,
+    pointer: string,
+    violations: SchemaViolation[]
+  ): void {
+    const report = (keyword: string, message: string) => violations.push({ pointer: pointer || '/', keyword, message });
+
+    if (schema.$ref) {
+      const resolved = SchemaValidator.resolveRef(schema.$ref, root);
+      SchemaValidator.check(resolved.schema, resolved.root, value, pointer, violations);
+      return;
+    }
+
+    const actualType = SchemaValidator.typeOf(value);
+
+    if (schema.type) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+      const matches = types.includes(actualType) || (actualType === 'integer' && types.includes('number'));
+
+      if (!matches) {
+        report('type', `expected ${types.join(' or ')} but got ${actualType}`);
+        return;
+      }
+    }
+
+    if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+      report('enum', `expected one of ${JSON.stringify(schema.enum)} but got ${JSON.stringify(value)}`);
+    }
+
+    if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+      report('const', `expected ${JSON.stringify(schema.const)} but got ${JSON.stringify(value)}`);
+    }
+
+    if (typeof value === 'string') {
+      SchemaValidator.checkString(schema, value, report);
+    }
+
+    if (typeof value === 'number') {
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        report('minimum', `expected at least ${schema.minimum} but got ${value}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        report('maximum', `expected at most ${schema.maximum} but got ${value}`);
+      }
+    }
+
+    if (Array.isArray(value)) {
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        report('minItems', `expected at least ${schema.minItems} items but got ${value.length}`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        report('maxItems', `expected at most ${schema.maxItems} items but got ${value.length}`);
+      }
+      if (schema.items) {
+        value.forEach((item, index) => SchemaValidator.check(schema.items!, root, item, `${pointer}/${index}`, violations));
+      }
+    }
+
+    if (actualType === 'object') {
+      SchemaValidator.checkObject(schema, root, value as Record<string, unknown>, pointer, violations, report);
+    }
+
+    for (const subschema of schema.allOf ?? []) {
+      SchemaValidator.check(subschema, root, value, pointer, violations);
+    }
+
+    if (schema.anyOf || schema.oneOf) {
+      const options = (schema.anyOf ?? schema.oneOf)!;
+      const matching = options.filter(option => {
+        const optionViolations: SchemaViolation[] = [];
+        SchemaValidator.check(option, root, value, pointer, optionViolations);
+        return optionViolations.length === 0;
+      }).length;
+
+      if (schema.anyOf && matching === 0) {
+        report('anyOf', 'does not match any of the allowed schemas');
+      }
+      if (schema.oneOf && matching !== 1) {
+        report('oneOf', `expected to match exactly one schema but matched ${matching}`);
+      }
+    }
+  }
+
+  /**
+   * Check the string keywords of a schema
+   * @param schema - Schema
+   * @param value - String value
+   * @param report - Violation reporter
+   */
+  private static checkString(schema: JsonSchema, value: string, report: (keyword: string, message: string) => void): void {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      report('minLength', `expected at least ${schema.minLength} characters but got ${value.length}`);
+    }
+
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      report('maxLength', `expected at most ${schema.maxLength} characters but got ${value.length}`);
+    }
+
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      report('pattern', `${JSON.stringify(value)} does not match /${schema.pattern}/`);
+    }
+
+    if (schema.format && SchemaValidator.formats[schema.format] && !SchemaValidator.formats[schema.format].test(value)) {
+      report('format', `${JSON.stringify(value)} is not a valid ${schema.format}`);
+    }
+  }
+
+  /**
+   * Check the object keywords of a schema
+   * @param schema - Schema
+   * @param root - Root schema for local refs
+   * @param value - Object value
+   * @param pointer - JSON pointer of the object
+   * @param violations - Collected violations
+   * @param report - Violation reporter for the object itself
+   */
+  private static checkObject(
+    schema: JsonSchema,
+    root: JsonSchema,
+    value: Record<string, unknown>,
+    pointer: string,
+    violations: SchemaViolation[],
+    report: (keyword: string, message: string) => void
+  ): void {
+    const properties = schema.properties ?? {};
+
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) {
+        report('required', `missing required property '${key}'`);
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(value)) {
+      const propertyPointer = `${pointer}/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+
+      if (properties[key]) {
+        SchemaValidator.check(properties[key], root, propertyValue, propertyPointer, violations);
+      } else if (schema.additionalProperties === false) {
+        violations.push({ pointer: propertyPointer, keyword: 'additionalProperties', message: `unexpected property '${key}'` });
+      } else if (typeof schema.additionalProperties === 'object') {
+        SchemaValidator.check(schema.additionalProperties, root, propertyValue, propertyPointer, violations);
+      }
+    }
+  }
+}
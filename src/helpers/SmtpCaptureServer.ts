@@ -0,0 +1,406 @@
+import net from 'net';
+import logger from '../config/logger.js';
+import type { CapturedEmail } from '../types/index.js';
+
+// Decoded MIME part: lower-cased headers and decoded body
+interface MimePart {
+  headers: Record<string, string>;
+  body: string;
+}
+
+// State of one SMTP connection
+interface SmtpSession {
+  buffer: string;
+  from: string;
+  to: string[];
+  data: string[] | null;
+  authStep: 'username' | 'password' | null;
+}
+
+/**
+ * In-process SMTP capture server
+ * Accepts every message a locally configured OrangeHRM sends (Admin > Configuration > Email Configuration,
+ * "SMTP" with no authentication or TLS, host and port pointing at this server) and keeps it in memory.
+ * No mail is ever relayed.
+ */
+export class SmtpCaptureServer {
+  private server: net.Server | null = null;
+  private readonly sockets = new Set<net.Socket>();
+  private readonly emails: CapturedEmail[] = [];
+  private readonly hostname = 'smtp-capture.local';
+  private readonly port: number;
+  private readonly host: string;
+
+  /**
+   * @param port - Port to listen on, 0 picks a free one
+   * @param host - Interface to listen on; loopback by default so the server is not exposed to the network,
+   * widen it (e.g. 0.0.0.0) only when OrangeHRM runs on another host or in a container
+   */
+  constructor(port: number = 2525, host: string = '127.0.0.1') {
+    this.port = port;
+    this.host = host;
+  }
+
+  /**
+   * Start listening
+   * @returns Port the server listens on
+   */
+  async start(): Promise<number> {
+    if (this.server) {
+      return this.listeningPort;
+    }
+
+    const server = net.createServer(socket => this.handleConnection(socket));
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    logger.info('SMTP capture server started', { host: this.host, port: this.listeningPort });
+
+    return this.listeningPort;
+  }
+
+  /**
+   * Stop listening and drop open connections
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = null;
+
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    logger.info('SMTP capture server stopped', { captured: this.emails.length });
+  }
+
+  /**
+   * Port the server listens on
+   */
+  get listeningPort(): number {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : this.port;
+  }
+
+  /**
+   * Get every captured email, oldest first
+   * @returns Captured emails
+   */
+  getEmails(): CapturedEmail[] {
+    return [...this.emails];
+  }
+
+  /**
+   * Forget every captured email
+   */
+  clear(): void {
+    this.emails.length = 0;
+  }
+
+  /**
+   * Wait for an email to arrive
+   * @param predicate - Condition the email has to meet
+   * @param timeout - Timeout in milliseconds
+   * @returns First matching email
+   */
+  async waitForEmail(predicate: (email: CapturedEmail) => boolean, timeout: number = 30000): Promise<CapturedEmail> {
+    const deadline = Date.now() + timeout;
+
+    while (Date.now() < deadline) {
+      const email = this.emails.find(predicate);
+
+      if (email) {
+        return email;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+
+    throw new Error(`No matching email captured within ${timeout}ms (${this.emails.length} captured)`);
+  }
+
+  /**
+   * Wait for an email sent to a recipient
+   * @param recipient - Recipient address, case insensitive
+   * @param timeout - Timeout in milliseconds
+   * @returns First email sent to the recipient
+   */
+  async waitForEmailTo(recipient: string, timeout?: number): Promise<CapturedEmail> {
+    const address = recipient.toLowerCase();
+    return await this.waitForEmail(email => email.to.some(to => to.toLowerCase() === address), timeout);
+  }
+
+  /**
+   * Get the links of an email, HTML anchors first and then links written out in the text body
+   * @param email - Captured email
+   * @returns Unique absolute links in order of appearance
+   */
+  static extractLinks(email: CapturedEmail): string[] {
+    const htmlLinks = [...(email.html ?? '').matchAll(/href=["']([^"']+)["']/gi)].map(match => match[1]);
+    // Punctuation that ends the sentence around a link written out in text is not part of it
+    const textLinks = [...email.text.matchAll(/https?:\/\/[^\s<>"']+/g)].map(match => match[0].replace(/[.,;:!?)\]]+$/, ''));
+
+    const links = [...htmlLinks, ...textLinks]
+      .map(link => link.replace(/&amp;/g, '&'))
+      .filter(link => /^https?:\/\//.test(link));
+
+    return [...new Set(links)];
+  }
+
+  /**
+   * Serve one SMTP connection
+   * @param socket - Client socket
+   */
+  private handleConnection(socket: net.Socket): void {
+    const session: SmtpSession = { buffer: '', from: '', to: [], data: null, authStep: null };
+
+    this.sockets.add(socket);
+    socket.setEncoding('utf-8');
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', error => logger.debug('SMTP capture connection error', { error: error.message }));
+    socket.on('data', (chunk: string) => {
+      session.buffer += chunk;
+
+      let index: number;
+      while ((index = session.buffer.indexOf('\r\n')) !== -1) {
+        const line = session.buffer.slice(0, index);
+        session.buffer = session.buffer.slice(index + 2);
+        this.handleLine(socket, session, line);
+      }
+    });
+
+    this.reply(socket, 220, `${this.hostname} ESMTP capture ready`);
+  }
+
+  /**
+   * Handle one line of an SMTP conversation
+   * @param socket - Client socket
+   * @param session - Connection state
+   * @param line - Line without its CRLF
+   */
+  private handleLine(socket: net.Socket, session: SmtpSession, line: string): void {
+    if (session.data) {
+      if (line === '.') {
+        this.capture(session);
+        session.data = null;
+        this.reply(socket, 250, 'Message captured');
+      } else {
+        // Undo dot-stuffing (RFC 5321 section 4.5.2)
+        session.data.push(line.startsWith('..') ? line.slice(1) : line);
+      }
+      return;
+    }
+
+    if (session.authStep) {
+      session.authStep = session.authStep === 'username' ? 'password' : null;
+      this.reply(socket, session.authStep ? 334 : 235, session.authStep ? 'UGFzc3dvcmQ6' : 'Authentication accepted');
+      return;
+    }
+
+    const [command, ...args] = line.split(' ');
+    const argument = args.join(' ');
+
+    switch (command.toUpperCase()) {
+      case 'EHLO':
+        socket.write(`250-${this.hostname}\r\n250-8BITMIME\r\n250-AUTH PLAIN LOGIN\r\n250 SMTPUTF8\r\n`);
+        break;
+      case 'HELO':
+        this.reply(socket, 250, this.hostname);
+        break;
+      case 'AUTH':
+        // Any credentials are accepted; only the prompts for credentials not sent with AUTH are answered
+        if (args.length > 1) {
+          session.authStep = args[0].toUpperCase() === 'LOGIN' ? 'password' : null;
+        } else {
+          session.authStep = args[0]?.toUpperCase() === 'LOGIN' ? 'username' : 'password';
+        }
+
+        if (session.authStep) {
+          this.reply(socket, 334, session.authStep === 'username' ? 'VXNlcm5hbWU6' : 'UGFzc3dvcmQ6');
+        } else {
+          this.reply(socket, 235, 'Authentication accepted');
+        }
+        break;
+      case 'MAIL':
+        session.from = SmtpCaptureServer.parsePath(argument);
+        session.to = [];
+        this.reply(socket, 250, 'OK');
+        break;
+      case 'RCPT':
+        session.to.push(SmtpCaptureServer.parsePath(argument));
+        this.reply(socket, 250, 'OK');
+        break;
+      case 'DATA':
+        session.data = [];
+        this.reply(socket, 354, 'End data with <CR><LF>.<CR><LF>');
+        break;
+      case 'RSET':
+        session.from = '';
+        session.to = [];
+        this.reply(socket, 250, 'OK');
+        break;
+      case 'NOOP':
+        this.reply(socket, 250, 'OK');
+        break;
+      case 'QUIT':
+        this.reply(socket, 221, 'Bye');
+        socket.end();
+        break;
+      default:
+        this.reply(socket, 502, 'Command not implemented');
+    }
+  }
+
+  /**
+   * Write an SMTP reply
+   * @param socket - Client socket
+   * @param code - Reply code
+   * @param text - Reply text
+   */
+  private reply(socket: net.Socket, code: number, text: string): void {
+    socket.write(`${code} ${text}\r\n`);
+  }
+
+  /**
+   * Store the message of a finished DATA command
+   * @param session - Connection state
+   */
+  private capture(session: SmtpSession): void {
+    const raw = session.data!.join('\r\n');
+    const message = SmtpCaptureServer.parsePart(raw);
+    const parts = SmtpCaptureServer.flattenParts(message);
+    const textPart = parts.find(part => (part.headers['content-type'] ?? 'text/plain').startsWith('text/plain'));
+    const htmlPart = parts.find(part => (part.headers['content-type'] ?? '').startsWith('text/html'));
+
+    const email: CapturedEmail = {
+      from: session.from,
+      to: [...session.to],
+      subject: SmtpCaptureServer.decodeHeader(message.headers['subject'] ?? ''),
+      headers: message.headers,
+      text: textPart?.body ?? (htmlPart ? htmlPart.body.replace(/<[^>]+>/g, ' ') : ''),
+      html: htmlPart?.body,
+      raw,
+      receivedAt: new Date()
+    };
+
+    this.emails.push(email);
+    logger.info('Email captured', { from: email.from, to: email.to, subject: email.subject });
+  }
+
+  /**
+   * Get the address of a MAIL FROM or RCPT TO argument
+   * @param argument - Command argument, e.g. "FROM:<admin@example.com> SIZE=100"
+   * @returns Address
+   */
+  private static parsePath(argument: string): string {
+    const match = argument.match(/<([^>]*)>/);
+    return match ? match[1] : argument.replace(/^(FROM|TO):/i, '').trim();
+  }
+
+  /**
+   * Split a MIME entity into headers and decoded body
+   * @param raw - Raw entity with CRLF line endings
+   * @returns Parsed part
+   */
+  private static parsePart(raw: string): MimePart {
+    const separator = raw.indexOf('\r\n\r\n');
+    const headerBlock = separator === -1 ? raw : raw.slice(0, separator);
+    const body = separator === -1 ? '' : raw.slice(separator + 4);
+    const headers: Record<string, string> = {};
+
+    // Unfold continuation lines before splitting the headers
+    for (const line of headerBlock.replace(/\r\n[ \t]+/g, ' ').split('\r\n')) {
+      const colon = line.indexOf(':');
+
+      if (colon > 0) {
+        headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+      }
+    }
+
+    return { headers, body: SmtpCaptureServer.decodeBody(body, headers['content-transfer-encoding']) };
+  }
+
+  /**
+   * Get the leaf parts of a message, descending into multipart bodies
+   * @param part - Parsed message or part
+   * @returns Leaf parts
+   */
+  private static flattenParts(part: MimePart): MimePart[] {
+    const boundary = (part.headers['content-type'] ?? '').match(/boundary="?([^";]+)"?/i)?.[1];
+
+    if (!boundary) {
+      return [part];
+    }
+
+    return part.body
+      .split(`--${boundary}`)
+      .slice(1)
+      .filter(section => !section.startsWith('--'))
+      .map(section => SmtpCaptureServer.parsePart(section.replace(/^\r\n/, '')))
+      .flatMap(child => SmtpCaptureServer.flattenParts(child));
+  }
+
+  /**
+   * Decode a body by its Content-Transfer-Encoding
+   * @param body - Encoded body
+   * @param encoding - Transfer encoding header value
+   * @returns Decoded body
+   */
+  private static decodeBody(body: string, encoding: string = ''): string {
+    switch (encoding.toLowerCase()) {
+      case 'base64':
+        return Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('utf-8');
+      case 'quoted-printable':
+        return SmtpCaptureServer.decodeQuotedPrintable(body);
+      default:
+        return body;
+    }
+  }
+
+  /**
+   * Decode quoted-printable text
+   * @param text - Encoded text
+   * @returns Decoded text
+   */
+  private static decodeQuotedPrintable(text: string): string {
+    const unfolded = text.replace(/=\r\n/g, '');
+    const bytes: number[] = [];
+
+    for (let i = 0; i < unfolded.length; i++) {
+      const hex = unfolded.slice(i + 1, i + 3);
+
+      if (unfolded[i] === '=' && /^[0-9A-F]{2}$/i.test(hex)) {
+        bytes.push(parseInt(hex, 16));
+        i += 2;
+      } else {
+        bytes.push(...Buffer.from(unfolded[i], 'utf-8'));
+      }
+    }
+
+    return Buffer.from(bytes).toString('utf-8');
+  }
+
+  /**
+   * Decode RFC 2047 encoded words of a header, e.g. "=?UTF-8?B?...?="
+   * @param value - Header value
+   * @returns Decoded value
+   */
+  private static decodeHeader(value: string): string {
+    return value.replace(/=\?[^?]+\?([BQ])\?([^?]*)\?=/gi, (_, encoding: string, text: string) =>
+      encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64').toString('utf-8')
+        : SmtpCaptureServer.decodeQuotedPrintable(text.replace(/_/g, ' '))
+    );
+  }
+}
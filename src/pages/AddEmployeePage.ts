@@ -0,0 +1,125 @@
+import { Page } from '@playwright/test';
+import { BasePage } from './BasePage.js';
+import { EmployeeDetailsPage } from './EmployeeDetailsPage.js';
+import logger from '../config/logger.js';
+import type { Employee } from '../types/index.js';
+
+/**
+ * PIM Add Employee Page Object for OrangeHRM
+ * Creates an employee and optionally completes the contact and job tabs
+ */
+export class AddEmployeePage extends BasePage {
+  // Page URL
+  private readonly ADD_EMPLOYEE_URL = '/web/index.php/pim/addEmployee';
+
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    // Form elements
+    firstNameInput: 'input[name="firstName"]',
+    middleNameInput: 'input[name="middleName"]',
+    lastNameInput: 'input[name="lastName"]',
+    saveButton: 'button[type="submit"]',
+
+    // Feedback
+    fieldError: '.oxd-input-field-error-message'
+  };
+
+  constructor(page: Page) {
+    super(page);
+
+    logger.debug('AddEmployeePage initialized');
+  }
+
+  /**
+   * Navigate to add employee page
+   */
+  async open(): Promise<void> {
+    await this.allure.timedStep('Navigate to Add Employee Page', async () => {
+      await this.navigateTo(this.ADD_EMPLOYEE_URL);
+      await this.waitForElement(this.selectors.firstNameInput);
+
+      logger.test.step('Navigate to Add Employee', 'navigation', {
+        url: `${this.baseURL}${this.ADD_EMPLOYEE_URL}`
+      });
+    });
+  }
+
+  /**
+   * Fill the add employee form
+   * @param employee - Employee data
+   */
+  async fillForm(employee: Employee): Promise<void> {
+    await this.allure.timedStep('Fill Add Employee Form', async () => {
+      await this.fill(this.selectors.firstNameInput, employee.firstName);
+      await this.fill(this.selectors.middleNameInput, employee.middleName || '');
+      await this.fill(this.selectors.lastNameInput, employee.lastName);
+
+      // Employee Id is pre-filled with the next free id; override it only when given
+      if (employee.employeeId) {
+        await this.formGroup('Employee Id').fill(employee.employeeId);
+      }
+
+      this.allure.attachJSON('Employee', employee);
+    });
+  }
+
+  /**
+   * Save the new employee
+   * @returns Employee number (internal id) of the created employee
+   */
+  async save(): Promise<string> {
+    return await this.allure.timedStep('Save New Employee', async () => {
+      await this.click(this.selectors.saveButton);
+      await this.page.waitForURL('**/pim/viewPersonalDetails/empNumber/**', { timeout: this.timeout });
+
+      const match = this.page.url().match(/empNumber\/(\d+)/);
+      if (!match) {
+        throw new Error(`Employee number not found in URL: ${this.page.url()}`);
+      }
+
+      this.allure.addParameter('Employee Number', match[1]);
+      return match[1];
+    });
+  }
+
+  /**
+   * Get field validation errors shown on the form
+   * @returns Error messages
+   */
+  async getFieldErrors(): Promise<string[]> {
+    return await this.getAllText(this.selectors.fieldError);
+  }
+
+  /**
+   * Create an employee and fill the contact and job tabs when data is provided
+   * @param employee - Employee data
+   * @returns Employee number (internal id) of the created employee
+   */
+  async addEmployee(employee: Employee): Promise<string> {
+    return await this.allure.timedStep(`Add Employee: ${employee.firstName} ${employee.lastName}`, async () => {
+      await this.open();
+      await this.fillForm(employee);
+      const empNumber = await this.save();
+
+      const detailsPage = new EmployeeDetailsPage(this.page);
+
+      if (employee.address || employee.phone || employee.email) {
+        await detailsPage.open(empNumber, 'Contact Details');
+        await detailsPage.fillContactDetails(employee);
+      }
+
+      if (employee.jobDetails) {
+        await detailsPage.open(empNumber, 'Job');
+        await detailsPage.fillJobDetails(employee.jobDetails);
+      }
+
+      logger.test.step('Add Employee', 'create', {
+        empNumber,
+        employeeId: employee.employeeId,
+        name: `${employee.firstName} ${employee.lastName}`
+      });
+
+      return empNumber;
+    });
+  }
+}
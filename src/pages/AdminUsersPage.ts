@@ -0,0 +1,430 @@
+import { Page, expect } from '@playwright/test';
+import { BasePage } from './BasePage.js';
+import logger from '../config/logger.js';
+import { OxdCheckbox } from '../components/index.js';
+import type {
+  OxdSortDirection,
+  OxdTableRow,
+  SystemUser,
+  SystemUserRow,
+  SystemUserSearchCriteria,
+  SystemUserStatus
+} from '../types/index.js';
+
+/**
+ * Admin System Users Page Object for OrangeHRM
+ * Handles user search, creation, editing, enabling/disabling and deletion
+ */
+export class AdminUsersPage extends BasePage {
+  // Page URLs
+  private readonly SYSTEM_USERS_URL = '/web/index.php/admin/viewSystemUsers';
+  private readonly SAVE_USER_URL = '/web/index.php/admin/saveSystemUser';
+
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    // Filter form
+    filterForm: '.oxd-table-filter',
+    searchButton: `//div[contains(@class,'oxd-table-filter')]//button[@type='submit']`,
+    resetButton: `//div[contains(@class,'oxd-table-filter')]//button[normalize-space()='Reset']`,
+    addButton: `//button[normalize-space()='Add']`,
+
+    // User form
+    userForm: '.orangehrm-card-container form',
+    saveButton: `//form//button[@type='submit']`,
+    fieldError: '.oxd-input-field-error-message'
+  };
+
+  // Table header text mapped to row properties
+  private readonly columnMap: Record<string, keyof SystemUserRow> = {
+    'Username': 'username',
+    'User Role': 'role',
+    'Employee Name': 'employeeName',
+    'Status': 'status'
+  };
+
+  constructor(page: Page) {
+    super(page);
+
+    logger.debug('AdminUsersPage initialized');
+  }
+
+  /**
+   * Navigate to system users page
+   */
+  async open(): Promise<void> {
+    await this.allure.timedStep('Navigate to System Users Page', async () => {
+      await this.navigateTo(this.SYSTEM_USERS_URL);
+      await this.waitForElement(this.selectors.filterForm);
+      await this.waitForTableLoad();
+
+      logger.test.step('Navigate to System Users', 'navigation', {
+        url: `${this.baseURL}${this.SYSTEM_USERS_URL}`
+      });
+    });
+  }
+
+  /**
+   * Wait until the results table has finished loading
+   */
+  async waitForTableLoad(): Promise<void> {
+    await this.table().waitForLoad();
+  }
+
+  /**
+   * Search users with a combination of filters
+   * Filters of a previous search are reset first, so only the given criteria apply
+   * @param criteria - Search criteria
+   * @returns Parsed result rows
+   */
+  async search(criteria: SystemUserSearchCriteria): Promise<SystemUserRow[]> {
+    return await this.allure.timedStep('Search System Users', async () => {
+      this.allure.attachJSON('Search Criteria', criteria);
+      await this.resetFilters();
+
+      if (criteria.username !== undefined) {
+        await this.formGroup('Username').fill(criteria.username);
+      }
+
+      if (criteria.role) {
+        await this.formGroup('User Role').select().select(criteria.role);
+      }
+
+      if (criteria.employeeName) {
+        await this.formGroup('Employee Name').autocomplete().select(criteria.employeeName);
+      }
+
+      if (criteria.status) {
+        await this.formGroup('Status').select().select(criteria.status);
+      }
+
+      await this.click(this.selectors.searchButton);
+      await this.waitForTableLoad();
+
+      const rows = await this.getRows();
+
+      logger.test.step('Search System Users', 'search', {
+        criteria,
+        resultCount: rows.length
+      });
+
+      return rows;
+    });
+  }
+
+  /**
+   * Search users by username
+   * @param username - Username
+   * @returns Parsed result rows
+   */
+  async searchByUsername(username: string): Promise<SystemUserRow[]> {
+    return await this.search({ username });
+  }
+
+  /**
+   * Search users by role
+   * @param role - User role (Admin or ESS)
+   * @returns Parsed result rows
+   */
+  async searchByRole(role: string): Promise<SystemUserRow[]> {
+    return await this.search({ role });
+  }
+
+  /**
+   * Search users by status
+   * @param status - User status
+   * @returns Parsed result rows
+   */
+  async searchByStatus(status: SystemUserStatus): Promise<SystemUserRow[]> {
+    return await this.search({ status });
+  }
+
+  /**
+   * Reset all filters
+   */
+  async resetFilters(): Promise<void> {
+    await this.allure.timedStep('Reset System User Filters', async () => {
+      await this.click(this.selectors.resetButton);
+      await this.waitForTableLoad();
+    });
+  }
+
+  /**
+   * Parse the visible result rows into typed objects
+   * @returns Result rows
+   */
+  async getRows(): Promise<SystemUserRow[]> {
+    return await this.allure.timedStep('Get System User Rows', async () => {
+      const rows = await this.table().getRows(row => this.toUserRow(row));
+
+      this.allure.attachJSON('System User Rows', rows);
+      logger.test.step('Get System User Rows', 'read', { count: rows.length });
+
+      return rows;
+    });
+  }
+
+  /**
+   * Parse the result rows of every page into typed objects
+   * @returns Result rows of all pages
+   */
+  async getAllRows(): Promise<SystemUserRow[]> {
+    return await this.allure.timedStep('Get All System User Rows', async () => {
+      const rows = await this.table().getAllRows(row => this.toUserRow(row));
+
+      this.allure.attachJSON('System User Rows', rows);
+      logger.test.step('Get All System User Rows', 'read', { count: rows.length });
+
+      return rows;
+    });
+  }
+
+  /**
+   * Sort the results by a column
+   * @param column - Column header (e.g. Username)
+   * @param direction - Sort direction
+   */
+  async sortBy(column: string, direction: OxdSortDirection = 'Ascending'): Promise<void> {
+    await this.table().sortBy(column, direction);
+  }
+
+  /**
+   * Map a header-keyed table row to a system user row
+   * @param row - Table row keyed by header text
+   * @returns System user row
+   */
+  private toUserRow(row: OxdTableRow): SystemUserRow {
+    const userRow: Record<keyof SystemUserRow, string> = {
+      username: '',
+      role: '',
+      employeeName: '',
+      status: ''
+    };
+
+    for (const [header, key] of Object.entries(this.columnMap)) {
+      userRow[key] = row[header] || '';
+    }
+
+    return { ...userRow, status: userRow.status as SystemUserStatus };
+  }
+
+  /**
+   * Get the "(N) Records Found" count
+   * @returns Number of records found, 0 when no records
+   */
+  async getRecordCount(): Promise<number> {
+    return await this.allure.timedStep('Get System User Record Count', async () => {
+      const count = await this.table().getRecordCount();
+
+      this.allure.addParameter('Records Found', count);
+      return count;
+    });
+  }
+
+  /**
+   * Find a user by exact username
+   * @param username - Username
+   * @returns Matching row or undefined
+   */
+  async findUser(username: string): Promise<SystemUserRow | undefined> {
+    const rows = await this.searchByUsername(username);
+    return rows.find(row => row.username === username);
+  }
+
+  /**
+   * Fill the add/edit user form
+   * @param user - User fields to fill, missing fields are left untouched
+   */
+  private async fillUserForm(user: Partial<SystemUser>): Promise<void> {
+    if (user.role) {
+      await this.formGroup('User Role').select().select(user.role);
+    }
+
+    if (user.employeeName) {
+      await this.formGroup('Employee Name').autocomplete().select(user.employeeName);
+    }
+
+    if (user.status) {
+      await this.formGroup('Status').select().select(user.status);
+    }
+
+    if (user.username) {
+      await this.formGroup('Username').fill(user.username);
+    }
+
+    if (user.password) {
+      await this.formGroup('Password').fill(user.password);
+      await this.formGroup('Confirm Password').fill(user.password);
+    }
+  }
+
+  /**
+   * Save the user form and wait for the redirect back to the users list
+   */
+  private async saveUserForm(): Promise<void> {
+    await this.click(this.selectors.saveButton);
+    await this.toast().waitForSuccess();
+    await this.page.waitForURL(`**${this.SYSTEM_USERS_URL}`, { timeout: this.timeout });
+    await this.waitForTableLoad();
+  }
+
+  /**
+   * Get field validation errors shown on the user form
+   * @returns Error messages
+   */
+  async getFieldErrors(): Promise<string[]> {
+    return await this.getAllText(this.selectors.fieldError);
+  }
+
+  /**
+   * Create a user
+   * @param user - User to create
+   */
+  async addUser(user: SystemUser): Promise<void> {
+    await this.allure.timedStep(`Add System User: ${user.username}`, async () => {
+      await this.navigateTo(this.SAVE_USER_URL);
+      await this.waitForElement(this.selectors.userForm);
+
+      await this.fillUserForm(user);
+      await this.saveUserForm();
+
+      this.allure.attachJSON('System User', { ...user, password: '***' });
+      logger.test.step('Add System User', 'create', {
+        username: user.username,
+        role: user.role,
+        employeeName: user.employeeName,
+        status: user.status
+      });
+    });
+  }
+
+  /**
+   * Edit an existing user
+   * @param username - Username of the user to edit
+   * @param changes - Fields to change; a password switches on "Change Password"
+   */
+  async editUser(username: string, changes: Partial<SystemUser>): Promise<void> {
+    await this.allure.timedStep(`Edit System User: ${username}`, async () => {
+      const rows = await this.searchByUsername(username);
+      if (!rows.some(row => row.username === username)) {
+        throw new Error(`User ${username} not found in system users`);
+      }
+
+      await this.table().editRow('Username', username);
+      await this.page.waitForURL(`**${this.SAVE_USER_URL}/**`, { timeout: this.timeout });
+      await this.waitForElement(this.selectors.userForm);
+
+      const { password, ...fields } = changes;
+      await this.fillUserForm(fields);
+
+      if (password) {
+        await OxdCheckbox.byLabel(this.page, 'Yes').check();
+        await this.fillUserForm({ password });
+      }
+
+      await this.saveUserForm();
+
+      this.allure.attachJSON('System User Changes', { ...changes, password: password ? '***' : undefined });
+      logger.test.step('Edit System User', 'update', {
+        username,
+        fields: Object.keys(changes)
+      });
+    });
+  }
+
+  /**
+   * Enable or disable a user
+   * @param username - Username
+   * @param status - New status
+   */
+  async setStatus(username: string, status: SystemUserStatus): Promise<void> {
+    await this.editUser(username, { status });
+  }
+
+  /**
+   * Disable a user
+   * @param username - Username
+   */
+  async disableUser(username: string): Promise<void> {
+    await this.setStatus(username, 'Disabled');
+  }
+
+  /**
+   * Enable a user
+   * @param username - Username
+   */
+  async enableUser(username: string): Promise<void> {
+    await this.setStatus(username, 'Enabled');
+  }
+
+  /**
+   * Delete a user through the row delete action and confirmation dialog
+   * @param username - Username
+   */
+  async deleteUser(username: string): Promise<void> {
+    await this.allure.timedStep(`Delete System User: ${username}`, async () => {
+      const rows = await this.searchByUsername(username);
+      if (!rows.some(row => row.username === username)) {
+        throw new Error(`User ${username} not found in system users`);
+      }
+
+      await this.table().deleteRow('Username', username);
+
+      this.allure.addParameter('Deleted Username', username);
+      logger.test.step('Delete System User', 'delete', { username });
+    });
+  }
+
+  /**
+   * Create a user when missing, otherwise align its role and status
+   * The password of an existing user is left untouched
+   * @param user - Expected user
+   * @returns True if the user was created
+   */
+  async ensureUser(user: SystemUser): Promise<boolean> {
+    return await this.allure.timedStep(`Ensure System User: ${user.username}`, async () => {
+      const existing = await this.findUser(user.username);
+
+      if (!existing) {
+        await this.addUser(user);
+        return true;
+      }
+
+      const changes: Partial<SystemUser> = {};
+      if (existing.role !== user.role) {
+        changes.role = user.role;
+      }
+      if (existing.status !== user.status) {
+        changes.status = user.status;
+      }
+
+      if (Object.keys(changes).length > 0) {
+        await this.editUser(user.username, changes);
+      }
+
+      return false;
+    });
+  }
+
+  // Assertion methods for better test readability
+
+  /**
+   * Assert a user is listed with the expected role and status
+   * @param username - Username
+   * @param expected - Expected role and/or status
+   */
+  async shouldContainUser(username: string, expected: Partial<SystemUserRow> = {}): Promise<void> {
+    const row = await this.findUser(username);
+
+    expect(row, `User ${username} should be listed`).toBeDefined();
+    expect(row).toMatchObject(expected);
+  }
+
+  /**
+   * Assert a user is not listed
+   * @param username - Username
+   */
+  async shouldNotContainUser(username: string): Promise<void> {
+    const row = await this.findUser(username);
+    expect(row, `User ${username} should not be listed`).toBeUndefined();
+  }
+}
@@ -0,0 +1,102 @@
+import { Page } from '@playwright/test';
+import { BasePage } from './BasePage.js';
+import logger from '../config/logger.js';
+import { LeaveRequestForm } from '../components/index.js';
+import type { LeaveRequest } from '../types/index.js';
+
+/**
+ * Leave Apply Page Object for OrangeHRM
+ * Applies leave for the logged-in user and reads their balance per leave type
+ */
+export class ApplyLeavePage extends BasePage {
+  // Page URL
+  private readonly APPLY_LEAVE_URL = '/web/index.php/leave/applyLeave';
+
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    // Form
+    leaveForm: '.orangehrm-card-container form',
+    fieldError: '.oxd-input-field-error-message',
+
+    // Shown instead of the form when the user has no entitlement
+    noLeaveTypes: `//p[contains(normalize-space(),'No Leave Types with Leave Balance')]`
+  };
+
+  constructor(page: Page) {
+    super(page);
+
+    logger.debug('ApplyLeavePage initialized');
+  }
+
+  /**
+   * Leave request form of the page
+   */
+  private get form(): LeaveRequestForm {
+    return LeaveRequestForm.of(this.page);
+  }
+
+  /**
+   * Navigate to apply leave page
+   */
+  async open(): Promise<void> {
+    await this.allure.timedStep('Navigate to Apply Leave Page', async () => {
+      await this.navigateTo(this.APPLY_LEAVE_URL);
+      await this.page.locator(this.selectors.leaveForm)
+        .or(this.page.locator(this.selectors.noLeaveTypes))
+        .first()
+        .waitFor({ state: 'visible', timeout: this.timeout });
+
+      logger.test.step('Navigate to Apply Leave', 'navigation', {
+        url: `${this.baseURL}${this.APPLY_LEAVE_URL}`
+      });
+    });
+  }
+
+  /**
+   * Check if the user has any leave type to apply for
+   * @returns True if the apply form is shown
+   */
+  async hasLeaveTypes(): Promise<boolean> {
+    return !(await this.isVisible(this.selectors.noLeaveTypes));
+  }
+
+  /**
+   * Get the leave types the user can apply for
+   * @returns Leave type names
+   */
+  async getLeaveTypes(): Promise<string[]> {
+    return await this.form.getLeaveTypes();
+  }
+
+  /**
+   * Get the balance of the logged-in user for a leave type
+   * @param leaveType - Leave type name
+   * @returns Balance in days
+   */
+  async getLeaveBalance(leaveType: string): Promise<number> {
+    return await this.form.getLeaveBalance(leaveType);
+  }
+
+  /**
+   * Apply for leave
+   * @param request - Leave request
+   */
+  async applyLeave(request: LeaveRequest): Promise<void> {
+    await this.allure.timedStep('Apply Leave', async () => {
+      await this.form.fill(request);
+      await this.form.submit();
+      await this.toast().waitForSuccess();
+
+      this.allure.addParameter('Leave Type', request.leaveType);
+      logger.test.step('Apply Leave', 'submit', { leaveType: request.leaveType });
+    });
+  }
+
+  /**
+   * Get the validation messages shown on the form
+   * @returns Field error texts
+   */
+  async getFieldErrors(): Promise<string[]> {
+    return await this.getAllText(this.selectors.fieldError);
+  }
+}
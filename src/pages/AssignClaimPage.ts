@@ -0,0 +1,28 @@
+import { ClaimRequestPage } from './ClaimRequestPage.js';
+import type { AssignClaimRequest } from '../types/index.js';
+
+/**
+ * Assign Claim Page Object for OrangeHRM
+ * Creates claims on behalf of an employee; also the detail screen of "Employee Claims"
+ * where submitted claims are approved, rejected and paid
+ */
+export class AssignClaimPage extends ClaimRequestPage {
+  // Page URL
+  protected readonly CLAIM_URL: string = '/web/index.php/claim/assignClaim';
+
+  /**
+   * Create a claim for an employee
+   * @param claim - Claim data with the employee name
+   * @returns Claim id
+   */
+  async create(claim: AssignClaimRequest): Promise<string> {
+    return await this.allure.timedStep(`Assign Claim: ${claim.employeeName}`, async () => {
+      this.allure.attachJSON('Claim', claim);
+
+      await this.open();
+      await this.formGroup('Employee Name').autocomplete().select(claim.employeeName);
+
+      return await this.createClaim(claim);
+    });
+  }
+}
@@ -0,0 +1,110 @@
+import { Page } from '@playwright/test';
+import { BasePage } from './BasePage.js';
+import logger from '../config/logger.js';
+import { LeaveRequestForm } from '../components/index.js';
+import type { AssignLeaveRequest } from '../types/index.js';
+
+/**
+ * Leave Assign Page Object for OrangeHRM
+ * Assigns leave to an employee and reads their balance per leave type
+ */
+export class AssignLeavePage extends BasePage {
+  // Page URL
+  private readonly ASSIGN_LEAVE_URL = '/web/index.php/leave/assignLeave';
+
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    // Form
+    leaveForm: '.orangehrm-card-container form',
+    fieldError: '.oxd-input-field-error-message',
+
+    // Feedback
+    successToast: '.oxd-toast--success',
+    dialog: '.orangehrm-dialog-popup'
+  };
+
+  constructor(page: Page) {
+    super(page);
+
+    logger.debug('AssignLeavePage initialized');
+  }
+
+  /**
+   * Leave request form of the page
+   */
+  private get form(): LeaveRequestForm {
+    return LeaveRequestForm.of(this.page);
+  }
+
+  /**
+   * Navigate to assign leave page
+   */
+  async open(): Promise<void> {
+    await this.allure.timedStep('Navigate to Assign Leave Page', async () => {
+      await this.navigateTo(this.ASSIGN_LEAVE_URL);
+      await this.waitForElement(this.selectors.leaveForm);
+
+      logger.test.step('Navigate to Assign Leave', 'navigation', {
+        url: `${this.baseURL}${this.ASSIGN_LEAVE_URL}`
+      });
+    });
+  }
+
+  /**
+   * Pick the employee leave is assigned to
+   * @param employeeName - Employee name as typed in the autocomplete
+   */
+  async selectEmployee(employeeName: string): Promise<void> {
+    await this.formGroup('Employee Name').autocomplete().select(employeeName);
+  }
+
+  /**
+   * Get the balance of an employee for a leave type
+   * @param employeeName - Employee name
+   * @param leaveType - Leave type name
+   * @returns Balance in days
+   */
+  async getLeaveBalance(employeeName: string, leaveType: string): Promise<number> {
+    return await this.allure.timedStep(`Get Leave Balance: ${employeeName}`, async () => {
+      await this.selectEmployee(employeeName);
+      return await this.form.getLeaveBalance(leaveType);
+    });
+  }
+
+  /**
+   * Assign leave to an employee
+   * Assigning more than the balance asks for confirmation, which is accepted
+   * @param request - Leave request with the employee name
+   */
+  async assignLeave(request: AssignLeaveRequest): Promise<void> {
+    await this.allure.timedStep(`Assign Leave: ${request.employeeName}`, async () => {
+      await this.selectEmployee(request.employeeName);
+      await this.form.fill(request);
+      await this.form.submit();
+
+      const successToast = this.page.locator(this.selectors.successToast);
+      await successToast.or(this.page.locator(this.selectors.dialog)).first()
+        .waitFor({ state: 'visible', timeout: this.timeout });
+
+      if (!(await successToast.first().isVisible())) {
+        await this.confirmDialog().confirm('Ok');
+        await this.toast().waitForSuccess();
+      }
+
+      this.allure.addParameter('Employee', request.employeeName);
+      this.allure.addParameter('Leave Type', request.leaveType);
+      logger.test.step('Assign Leave', 'submit', {
+        employeeName: request.employeeName,
+        leaveType: request.leaveType
+      });
+    });
+  }
+
+  /**
+   * Get the validation messages shown on the form
+   * @returns Field error texts
+   */
+  async getFieldErrors(): Promise<string[]> {
+    return await this.getAllText(this.selectors.fieldError);
+  }
+}
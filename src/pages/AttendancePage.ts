@@ -0,0 +1,246 @@
+import { Page, expect } from '@playwright/test';
+import { BasePage } from './BasePage.js';
+import logger from '../config/logger.js';
+import type { AttendanceRecord, OxdTableRow } from '../types/index.js';
+
+/**
+ * Time Attendance Page Object for OrangeHRM
+ * Punches in and out at a time set by the test and reads the resulting attendance records
+ * The browser clock is frozen at the punch time while punching, and typed dates and times are read
+ * in the browser's time zone (not Node's), so the form defaults and the typed values agree
+ */
+export class AttendancePage extends BasePage {
+  // Page URLs
+  private readonly PUNCH_IN_URL = '/web/index.php/attendance/punchIn';
+  private readonly PUNCH_OUT_URL = '/web/index.php/attendance/punchOut';
+  private readonly MY_RECORDS_URL = '/web/index.php/attendance/viewMyAttendanceRecord';
+
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    // Punch form
+    punchForm: '.orangehrm-card-container form',
+    punchButton: `//form//button[@type='submit']`,
+
+    // Records
+    filterForm: '.oxd-table-filter',
+    viewButton: `//div[contains(@class,'oxd-table-filter')]//button[@type='submit']`,
+    totalDuration: `//span[starts-with(normalize-space(),'Total Duration')]`
+  };
+
+  // Table header text mapped to record properties
+  private readonly columnMap: Record<string, keyof AttendanceRecord> = {
+    'Punch In': 'punchIn',
+    'Punch In Note': 'punchInNote',
+    'Punch Out': 'punchOut',
+    'Punch Out Note': 'punchOutNote',
+    'Duration (Hours)': 'durationHours'
+  };
+
+  constructor(page: Page) {
+    super(page);
+
+    logger.debug('AttendancePage initialized');
+  }
+
+  /**
+   * Freeze the browser clock at a time
+   * Takes effect on the next navigation as well as on the current page
+   * @param time - Time the browser reports as now
+   */
+  async setClock(time: Date): Promise<void> {
+    await this.page.clock.setFixedTime(time);
+
+    this.allure.addParameter('Browser Clock', time.toISOString());
+    logger.test.step('Set Browser Clock', 'clock', { time: time.toISOString() });
+  }
+
+  /**
+   * Let the browser clock run from the real time again after setClock
+   */
+  async releaseClock(): Promise<void> {
+    const now = new Date();
+    await this.page.clock.setSystemTime(now);
+
+    logger.test.step('Release Browser Clock', 'clock', { time: now.toISOString() });
+  }
+
+  /**
+   * Get the time zone the browser context runs in (`timezoneId` of the Playwright config)
+   * @returns IANA time zone name
+   */
+  async getBrowserTimeZone(): Promise<string> {
+    return await this.page.evaluate(() => Intl.DateTimeFormat().resolvedOptions().timeZone);
+  }
+
+  /**
+   * Format a time the way the time input expects it
+   * @param time - Time to format
+   * @param timeZone - Time zone to read the hours in, Node's when omitted
+   * @returns "hh:mm AM" text
+   */
+  static formatTime(time: Date, timeZone?: string): string {
+    const parts = new Intl.DateTimeFormat('en-US', { hour: '2-digit', minute: '2-digit', hour12: true, timeZone }).formatToParts(time);
+    const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '';
+
+    return `${part('hour')}:${part('minute')} ${part('dayPeriod').toUpperCase()}`;
+  }
+
+  /**
+   * Get the calendar day of a time in a time zone
+   * @param time - Time
+   * @param timeZone - Time zone to read the day in, Node's when omitted
+   * @returns Local midnight of that day, as the date pickers expect
+   */
+  static toCalendarDay(time: Date, timeZone?: string): Date {
+    const [year, month, day] = new Intl.DateTimeFormat('en-CA', { year: 'numeric', month: '2-digit', day: '2-digit', timeZone })
+      .format(time)
+      .split('-')
+      .map(Number);
+
+    return new Date(year, month - 1, day);
+  }
+
+  /**
+   * Punch in at a time
+   * @param time - Punch in time
+   * @param note - Optional note
+   */
+  async punchIn(time: Date, note?: string): Promise<void> {
+    await this.allure.timedStep(`Punch In: ${time.toLocaleString()}`, async () => {
+      await this.setClock(time);
+
+      try {
+        await this.navigateTo(this.PUNCH_IN_URL);
+
+        if (!this.page.url().includes(this.PUNCH_IN_URL)) {
+          throw new Error('Punch in is not available, the user is already punched in');
+        }
+
+        await this.punch(time, note);
+        await this.page.waitForURL(`**${this.PUNCH_OUT_URL}`, { timeout: this.timeout });
+      } finally {
+        await this.releaseClock();
+      }
+
+      logger.test.step('Punch In', 'attendance', { time: time.toISOString(), note });
+    });
+  }
+
+  /**
+   * Punch out at a time
+   * @param time - Punch out time, after the punch in time
+   * @param note - Optional note
+   */
+  async punchOut(time: Date, note?: string): Promise<void> {
+    await this.allure.timedStep(`Punch Out: ${time.toLocaleString()}`, async () => {
+      await this.setClock(time);
+
+      try {
+        await this.navigateTo(this.PUNCH_OUT_URL);
+
+        if (!this.page.url().includes(this.PUNCH_OUT_URL)) {
+          throw new Error('Punch out is not available, the user is not punched in');
+        }
+
+        await this.punch(time, note);
+        await this.page.waitForURL(`**${this.PUNCH_IN_URL}`, { timeout: this.timeout });
+      } finally {
+        await this.releaseClock();
+      }
+
+      logger.test.step('Punch Out', 'attendance', { time: time.toISOString(), note });
+    });
+  }
+
+  /**
+   * Fill and submit the punch form
+   * @param time - Punch time
+   * @param note - Optional note
+   */
+  private async punch(time: Date, note?: string): Promise<void> {
+    await this.waitForElement(this.selectors.punchForm);
+    const timeZone = await this.getBrowserTimeZone();
+
+    await this.formGroup('Date').datePicker().setDate(AttendancePage.toCalendarDay(time, timeZone));
+    await this.formGroup('Time').fill(AttendancePage.formatTime(time, timeZone));
+
+    if (note) {
+      await this.formGroup('Note').fill(note);
+    }
+
+    await this.click(this.selectors.punchButton);
+    await this.toast().waitForSuccess();
+  }
+
+  /**
+   * Read the attendance records of the logged-in user for a day
+   * @param date - Day to read, taken in the browser's time zone like the punch times
+   * @returns Attendance records
+   */
+  async getMyRecords(date: Date): Promise<AttendanceRecord[]> {
+    return await this.allure.timedStep(`Get My Attendance Records: ${date.toDateString()}`, async () => {
+      await this.navigateTo(this.MY_RECORDS_URL);
+      await this.waitForElement(this.selectors.filterForm);
+
+      await this.formGroup('Date').datePicker().setDate(AttendancePage.toCalendarDay(date, await this.getBrowserTimeZone()));
+      await this.click(this.selectors.viewButton);
+
+      const records = await this.table().getRows(row => this.toAttendanceRecord(row));
+
+      this.allure.attachJSON('Attendance Records', records);
+      logger.test.step('Get My Attendance Records', 'read', { count: records.length });
+
+      return records;
+    });
+  }
+
+  /**
+   * Map a header-keyed table row to an attendance record
+   * @param row - Table row keyed by header text
+   * @returns Attendance record
+   */
+  private toAttendanceRecord(row: OxdTableRow): AttendanceRecord {
+    const record: AttendanceRecord = {
+      punchIn: '',
+      punchInNote: '',
+      punchOut: '',
+      punchOutNote: '',
+      durationHours: 0
+    };
+
+    for (const [header, key] of Object.entries(this.columnMap)) {
+      const value = (row[header] ?? '').replace(/\s+/g, ' ').trim();
+
+      if (key === 'durationHours') {
+        record[key] = parseFloat(value) || 0;
+      } else {
+        record[key] = value;
+      }
+    }
+
+    return record;
+  }
+
+  /**
+   * Get the "Total Duration" shown above the records
+   * @returns Total hours of the listed records
+   */
+  async getTotalDuration(): Promise<number> {
+    const text = await this.getText(this.selectors.totalDuration);
+    return parseFloat(text.match(/\d+(\.\d+)?/)?.[0] || '0');
+  }
+
+  // Assertion methods for better test readability
+
+  /**
+   * Assert that a day has a record of the expected duration
+   * @param date - Day of the record
+   * @param hours - Expected duration in hours
+   */
+  async shouldHaveRecordOf(date: Date, hours: number): Promise<void> {
+    const records = await this.getMyRecords(date);
+    const durations = records.map(record => record.durationHours);
+
+    expect(durations, `Attendance durations on ${date.toDateString()}`).toContain(hours);
+  }
+}
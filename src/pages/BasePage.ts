@@ -1,5 +1,6 @@
 import { Page, expect, Locator } from '@playwright/test';
 import { AllureHelper } from '../helpers/AllureHelper.js';
+import { OxdConfirmDialog, OxdFormGroup, OxdTable, OxdToast } from '../components/index.js';
 import logger, { type ExtendedLogger } from '../config/logger';
 import type { 
   ClickOptions, 
@@ -214,6 +215,40 @@ export class BasePage {
     return this.page.locator(selector);
   }
 
+  /**
+   * Get the oxd form group (label, input and field error) for a label
+   * @param label - Exact label text
+   * @param scope - Locator to search in, defaults to the whole page
+   * @returns Form group component
+   */
+  protected formGroup(label: string, scope?: Locator): OxdFormGroup {
+    return OxdFormGroup.byLabel(scope ?? this.page, label);
+  }
+
+  /**
+   * Get the oxd toast container
+   * @returns Toast component
+   */
+  protected toast(): OxdToast {
+    return OxdToast.of(this.page);
+  }
+
+  /**
+   * Get the oxd confirmation dialog
+   * @returns Confirm dialog component
+   */
+  protected confirmDialog(): OxdConfirmDialog {
+    return OxdConfirmDialog.of(this.page);
+  }
+
+  /**
+   * Get the oxd table list of the page
+   * @returns Table component
+   */
+  protected table(): OxdTable {
+    return OxdTable.of(this.page);
+  }
+
   /**
    * Click on an element
    * @param selector - Element selector
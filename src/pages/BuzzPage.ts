@@ -0,0 +1,464 @@
+import { Locator, Page, expect } from '@playwright/test';
+import { BasePage } from './BasePage.js';
+import logger from '../config/logger.js';
+import type { AttachmentFile, BuzzComment, BuzzFeedTab, BuzzPost, BuzzPostType } from '../types/index.js';
+
+/**
+ * Buzz Page Object for OrangeHRM
+ * Creates text, photo and video posts, interacts with posts of the feed and reads the feed
+ * Posts are identified by their text, so tests should post unique text
+ */
+export class BuzzPage extends BasePage {
+  // Page URL
+  private readonly BUZZ_URL = '/web/index.php/buzz/viewBuzz';
+
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    // Composer
+    composer: '.orangehrm-buzz-create-post',
+    composerInput: '.orangehrm-buzz-create-post textarea',
+    composerSubmit: `//div[contains(@class,'orangehrm-buzz-create-post')]//button[@type='submit']`,
+    composerButton: (label: 'Share Photos' | 'Share Video') =>
+      `//div[contains(@class,'orangehrm-buzz-create-post')]//button[normalize-space()='${label}']`,
+
+    // Dialogs (photo, video, share and edit)
+    dialog: '.oxd-dialog-sheet',
+    dialogText: 'textarea',
+    dialogVideoUrl: `textarea[placeholder='Paste Video URL']`,
+    dialogFileInput: 'input[type="file"]',
+    dialogSubmit: `xpath=.//button[@type='submit']`,
+
+    // Feed
+    feedTab: (tab: BuzzFeedTab) =>
+      `//div[contains(@class,'orangehrm-post-filters')]//button[normalize-space()='${tab} Posts']`,
+    loadingSpinner: '.oxd-loading-spinner',
+    post: '.orangehrm-buzz-newsfeed-posts .orangehrm-buzz',
+    postAuthor: '.orangehrm-buzz-post-emp-name',
+    postTime: '.orangehrm-buzz-post-time',
+    postText: '.orangehrm-buzz-post-body-text',
+    postPhoto: '.orangehrm-buzz-photos img',
+    postVideo: 'iframe',
+    postStats: '.orangehrm-buzz-stats-row',
+
+    // Post actions
+    postMenu: '.orangehrm-buzz-post-header-config button',
+    postMenuItem: (item: 'Edit Post' | 'Delete Post') =>
+      `xpath=//ul[contains(@class,'oxd-dropdown-menu')]//li[normalize-space()='${item}']`,
+    likeButton: '#heart-svg',
+    commentButton: '.orangehrm-buzz-post-actions .bi-chat-text-fill',
+    shareButton: '.orangehrm-buzz-post-actions .bi-share-fill',
+
+    // Comments
+    commentInput: '.orangehrm-buzz-comment-add input',
+    comment: '.orangehrm-post-comment',
+    commentAuthor: '.orangehrm-post-comment-employee',
+    commentText: '.orangehrm-post-comment-text'
+  };
+
+  constructor(page: Page) {
+    super(page);
+
+    logger.debug('BuzzPage initialized');
+  }
+
+  /**
+   * Navigate to the Buzz feed
+   */
+  async open(): Promise<void> {
+    await this.allure.timedStep('Navigate to Buzz Page', async () => {
+      await this.navigateTo(this.BUZZ_URL);
+      await this.waitForElement(this.selectors.composer);
+      await this.waitForFeedLoad();
+
+      logger.test.step('Navigate to Buzz', 'navigation', {
+        url: `${this.baseURL}${this.BUZZ_URL}`
+      });
+    });
+  }
+
+  /**
+   * Wait until the feed loader has disappeared
+   */
+  async waitForFeedLoad(): Promise<void> {
+    await this.page.locator(this.selectors.loadingSpinner).first()
+      .waitFor({ state: 'hidden', timeout: this.timeout })
+      .catch(() => undefined);
+  }
+
+  /**
+   * Switch the feed ordering
+   * @param tab - Feed tab
+   */
+  async selectTab(tab: BuzzFeedTab): Promise<void> {
+    await this.allure.timedStep(`Select Buzz Tab: ${tab}`, async () => {
+      await this.click(this.selectors.feedTab(tab));
+      await this.waitForFeedLoad();
+
+      logger.test.step('Select Buzz Tab', 'navigation', { tab });
+    });
+  }
+
+  /**
+   * Create a text post
+   * @param text - Post text
+   */
+  async createPost(text: string): Promise<void> {
+    await this.allure.timedStep('Create Buzz Post', async () => {
+      await this.fill(this.selectors.composerInput, text);
+      await this.click(this.selectors.composerSubmit);
+      await this.toast().waitForSuccess();
+      await this.waitForPost(text);
+
+      logger.test.step('Create Buzz Post', 'create', { type: 'text', text });
+    });
+  }
+
+  /**
+   * Create a photo post
+   * @param text - Post text
+   * @param photos - Images to upload
+   */
+  async createPhotoPost(text: string, photos: AttachmentFile[]): Promise<void> {
+    await this.allure.timedStep('Create Buzz Photo Post', async () => {
+      const dialog = await this.openComposerDialog('Share Photos');
+
+      await dialog.locator(this.selectors.dialogText).first().fill(text, { timeout: this.timeout });
+      await dialog.locator(this.selectors.dialogFileInput).setInputFiles(photos.map(photo => ({
+        name: photo.name,
+        mimeType: photo.mimeType || 'image/png',
+        buffer: Buffer.isBuffer(photo.content) ? photo.content : Buffer.from(photo.content)
+      })));
+
+      await this.submitDialog(dialog);
+      await this.waitForPost(text);
+
+      logger.test.step('Create Buzz Post', 'create', { type: 'photo', text, photos: photos.length });
+    });
+  }
+
+  /**
+   * Create a video post
+   * @param text - Post text
+   * @param videoUrl - Video link (e.g. a YouTube URL)
+   */
+  async createVideoPost(text: string, videoUrl: string): Promise<void> {
+    await this.allure.timedStep('Create Buzz Video Post', async () => {
+      const dialog = await this.openComposerDialog('Share Video');
+
+      await dialog.locator(this.selectors.dialogText).first().fill(text, { timeout: this.timeout });
+      await dialog.locator(this.selectors.dialogVideoUrl).fill(videoUrl, { timeout: this.timeout });
+
+      await this.submitDialog(dialog);
+      await this.waitForPost(text);
+
+      logger.test.step('Create Buzz Post', 'create', { type: 'video', text, videoUrl });
+    });
+  }
+
+  /**
+   * Open a dialog from the composer buttons
+   * @param label - Composer button text
+   * @returns Dialog locator
+   */
+  private async openComposerDialog(label: 'Share Photos' | 'Share Video'): Promise<Locator> {
+    await this.click(this.selectors.composerButton(label));
+    return await this.waitForDialog();
+  }
+
+  /**
+   * Wait for the open dialog
+   * @returns Dialog locator
+   */
+  private async waitForDialog(): Promise<Locator> {
+    const dialog = this.page.locator(this.selectors.dialog).first();
+    await dialog.waitFor({ state: 'visible', timeout: this.timeout });
+
+    return dialog;
+  }
+
+  /**
+   * Submit a dialog and wait for it to close
+   * @param dialog - Dialog locator
+   */
+  private async submitDialog(dialog: Locator): Promise<void> {
+    await dialog.locator(this.selectors.dialogSubmit).click({ timeout: this.timeout });
+    await this.toast().waitForSuccess();
+    await dialog.waitFor({ state: 'hidden', timeout: this.timeout });
+    await this.waitForFeedLoad();
+  }
+
+  /**
+   * Post of the feed with a text
+   * @param text - Post text
+   * @returns Post locator
+   */
+  private post(text: string): Locator {
+    return this.page.locator(this.selectors.post)
+      .filter({ has: this.page.locator(this.selectors.postText, { hasText: text }) })
+      .first();
+  }
+
+  /**
+   * Wait until a post with a text is shown in the feed
+   * @param text - Post text
+   */
+  private async waitForPost(text: string): Promise<void> {
+    await this.post(text).waitFor({ state: 'visible', timeout: this.timeout });
+  }
+
+  /**
+   * Post with a text, failing when it is not in the loaded feed
+   * @param text - Post text
+   * @returns Post locator
+   */
+  private async findPost(text: string): Promise<Locator> {
+    const post = this.post(text);
+
+    if ((await post.count()) === 0) {
+      throw new Error(`Buzz post '${text}' not found in feed`);
+    }
+
+    return post;
+  }
+
+  /**
+   * Like a post, or remove the like when the user already liked it
+   * @param text - Post text
+   */
+  async toggleLike(text: string): Promise<void> {
+    await this.allure.timedStep(`Like Buzz Post: ${text}`, async () => {
+      const post = await this.findPost(text);
+      const likesBefore = (await this.toBuzzPost(post)).likes;
+
+      await post.locator(this.selectors.likeButton).click({ timeout: this.timeout });
+      await expect.poll(async () => (await this.toBuzzPost(post)).likes, { timeout: this.timeout })
+        .not.toBe(likesBefore);
+
+      logger.test.step('Like Buzz Post', 'update', { text });
+    });
+  }
+
+  /**
+   * Comment on a post
+   * @param text - Post text
+   * @param comment - Comment text
+   */
+  async comment(text: string, comment: string): Promise<void> {
+    await this.allure.timedStep(`Comment on Buzz Post: ${text}`, async () => {
+      const post = await this.findPost(text);
+      const commentInput = post.locator(this.selectors.commentInput);
+
+      if (!(await commentInput.isVisible())) {
+        await post.locator(this.selectors.commentButton).click({ timeout: this.timeout });
+      }
+
+      await commentInput.fill(comment, { timeout: this.timeout });
+      await commentInput.press('Enter');
+      await this.toast().waitForSuccess();
+      await post.locator(this.selectors.commentText, { hasText: comment }).first()
+        .waitFor({ state: 'visible', timeout: this.timeout });
+
+      logger.test.step('Comment on Buzz Post', 'create', { text, comment });
+    });
+  }
+
+  /**
+   * Read the comments of a post, opening its comment section when closed
+   * @param text - Post text
+   * @returns Comments
+   */
+  async getComments(text: string): Promise<BuzzComment[]> {
+    const post = await this.findPost(text);
+
+    if (!(await post.locator(this.selectors.commentInput).isVisible())) {
+      await post.locator(this.selectors.commentButton).click({ timeout: this.timeout });
+      await this.waitForFeedLoad();
+    }
+
+    return await this.readComments(post);
+  }
+
+  /**
+   * Share a post to the feed
+   * @param text - Post text
+   * @param shareText - Text of the shared post
+   */
+  async share(text: string, shareText: string): Promise<void> {
+    await this.allure.timedStep(`Share Buzz Post: ${text}`, async () => {
+      const post = await this.findPost(text);
+
+      await post.locator(this.selectors.shareButton).click({ timeout: this.timeout });
+
+      const dialog = await this.waitForDialog();
+      await dialog.locator(this.selectors.dialogText).first().fill(shareText, { timeout: this.timeout });
+
+      await this.submitDialog(dialog);
+      await this.waitForPost(shareText);
+
+      logger.test.step('Share Buzz Post', 'create', { text, shareText });
+    });
+  }
+
+  /**
+   * Choose an item of the "..." menu of a post
+   * @param text - Post text
+   * @param item - Menu item
+   */
+  private async selectPostMenuItem(text: string, item: 'Edit Post' | 'Delete Post'): Promise<void> {
+    const post = await this.findPost(text);
+
+    await post.locator(this.selectors.postMenu).click({ timeout: this.timeout });
+    await this.page.locator(this.selectors.postMenuItem(item)).click({ timeout: this.timeout });
+  }
+
+  /**
+   * Replace the text of a post
+   * @param text - Current post text
+   * @param newText - New post text
+   */
+  async editPost(text: string, newText: string): Promise<void> {
+    await this.allure.timedStep(`Edit Buzz Post: ${text}`, async () => {
+      await this.selectPostMenuItem(text, 'Edit Post');
+
+      const dialog = await this.waitForDialog();
+      await dialog.locator(this.selectors.dialogText).first().fill(newText, { timeout: this.timeout });
+
+      await this.submitDialog(dialog);
+      await this.waitForPost(newText);
+
+      logger.test.step('Edit Buzz Post', 'update', { text, newText });
+    });
+  }
+
+  /**
+   * Delete a post
+   * @param text - Post text
+   */
+  async deletePost(text: string): Promise<void> {
+    await this.allure.timedStep(`Delete Buzz Post: ${text}`, async () => {
+      await this.selectPostMenuItem(text, 'Delete Post');
+      await this.confirmDialog().confirm();
+      await this.toast().waitForSuccess();
+      await this.post(text).waitFor({ state: 'detached', timeout: this.timeout });
+
+      logger.test.step('Delete Buzz Post', 'delete', { text });
+    });
+  }
+
+  /**
+   * Read the loaded feed into typed posts
+   * Comments are only read for posts whose comment section is open
+   * @param limit - Maximum number of posts to read from the top of the feed
+   * @returns Posts in feed order
+   */
+  async getPosts(limit: number = 10): Promise<BuzzPost[]> {
+    return await this.allure.timedStep('Get Buzz Posts', async () => {
+      await this.waitForFeedLoad();
+
+      const postLocators = (await this.page.locator(this.selectors.post).all()).slice(0, limit);
+      const posts: BuzzPost[] = [];
+
+      for (const post of postLocators) {
+        posts.push(await this.toBuzzPost(post));
+      }
+
+      this.allure.attachJSON('Buzz Posts', posts);
+      logger.test.step('Get Buzz Posts', 'read', { count: posts.length });
+
+      return posts;
+    });
+  }
+
+  /**
+   * Read one post of the feed
+   * @param text - Post text
+   * @returns Parsed post
+   */
+  async getPost(text: string): Promise<BuzzPost> {
+    return await this.toBuzzPost(await this.findPost(text));
+  }
+
+  /**
+   * Parse a post card
+   * @param post - Post locator
+   * @returns Parsed post
+   */
+  private async toBuzzPost(post: Locator): Promise<BuzzPost> {
+    const readText = async (selector: string): Promise<string> => {
+      const element = post.locator(selector);
+      return (await element.count()) > 0 ? (await element.first().innerText()).trim() : '';
+    };
+
+    const stats = await readText(this.selectors.postStats);
+    const count = (label: string): number => parseInt(stats.match(new RegExp(`(\\d+)\\s+${label}`))?.[1] || '0');
+
+    let type: BuzzPostType = 'text';
+    if ((await post.locator(this.selectors.postPhoto).count()) > 0) {
+      type = 'photo';
+    } else if ((await post.locator(this.selectors.postVideo).count()) > 0) {
+      type = 'video';
+    }
+
+    return {
+      author: await readText(this.selectors.postAuthor),
+      time: await readText(this.selectors.postTime),
+      text: await readText(this.selectors.postText),
+      type,
+      likes: count('Like'),
+      commentCount: count('Comment'),
+      shares: count('Share'),
+      comments: await this.readComments(post)
+    };
+  }
+
+  /**
+   * Read the comments shown under a post
+   * @param post - Post locator
+   * @returns Comments
+   */
+  private async readComments(post: Locator): Promise<BuzzComment[]> {
+    const comments: BuzzComment[] = [];
+
+    for (const comment of await post.locator(this.selectors.comment).all()) {
+      comments.push({
+        author: (await comment.locator(this.selectors.commentAuthor).first().innerText()).trim(),
+        text: (await comment.locator(this.selectors.commentText).first().innerText()).trim()
+      });
+    }
+
+    return comments;
+  }
+
+  // Assertion methods for better test readability
+
+  /**
+   * Assert that the loaded feed is ordered the way a tab promises
+   * "Most Recent" is checked on post time, the others on like and comment counts
+   * @param tab - Feed tab the feed was loaded with
+   * @param limit - Number of posts from the top of the feed to check
+   */
+  async shouldBeOrderedBy(tab: BuzzFeedTab, limit: number = 10): Promise<void> {
+    const posts = await this.getPosts(limit);
+
+    const sortKey: Record<BuzzFeedTab, (post: BuzzPost) => number> = {
+      'Most Recent': post => new Date(post.time).getTime(),
+      'Most Liked': post => post.likes,
+      'Most Commented': post => post.commentCount
+    };
+
+    const values = posts.map(sortKey[tab]);
+    const sorted = [...values].sort((a, b) => b - a);
+
+    expect(values, `Buzz feed should be ordered by ${tab}`).toEqual(sorted);
+  }
+
+  /**
+   * Assert that a post is in the loaded feed with the expected details
+   * @param text - Post text
+   * @param expected - Expected post properties
+   */
+  async shouldHavePost(text: string, expected: Partial<BuzzPost> = {}): Promise<void> {
+    const post = await this.getPost(text);
+    expect(post).toMatchObject(expected);
+  }
+}
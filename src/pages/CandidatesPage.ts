@@ -0,0 +1,378 @@
+import { Page, expect } from '@playwright/test';
+import { BasePage } from './BasePage.js';
+import { OxdTable } from '../components/index.js';
+import logger from '../config/logger.js';
+import type {
+  Candidate,
+  CandidateAction,
+  CandidateHistoryEntry,
+  CandidateListRow,
+  CandidateSearchCriteria,
+  CandidateStatus,
+  Interview,
+  OxdTableRow
+} from '../types/index.js';
+
+/**
+ * Recruitment Candidates Page Object for OrangeHRM
+ * Searches and adds candidates and moves them through the hiring pipeline from their profile
+ */
+export class CandidatesPage extends BasePage {
+  // Page URLs
+  private readonly CANDIDATES_URL = '/web/index.php/recruitment/viewCandidates';
+  private readonly ADD_CANDIDATE_URL = '/web/index.php/recruitment/addCandidate';
+  private readonly CHANGE_STATUS_URL = '/web/index.php/recruitment/changeCandidateVacancyStatus';
+
+  // Status a candidate reaches after each action
+  static readonly ACTION_RESULTS: Record<CandidateAction, CandidateStatus> = {
+    'Shortlist': 'Shortlisted',
+    'Reject': 'Rejected',
+    'Schedule Interview': 'Interview Scheduled',
+    'Mark Interview Passed': 'Interview Passed',
+    'Mark Interview Failed': 'Interview Failed',
+    'Offer Job': 'Job Offered',
+    'Offer Declined': 'Offer Declined',
+    'Hire': 'Hired'
+  };
+
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    // Filter form
+    filterForm: '.oxd-table-filter',
+    searchButton: `//div[contains(@class,'oxd-table-filter')]//button[@type='submit']`,
+
+    // Candidate form
+    candidateForm: '.orangehrm-card-container form',
+    firstNameInput: 'input[name="firstName"]',
+    middleNameInput: 'input[name="middleName"]',
+    lastNameInput: 'input[name="lastName"]',
+    resumeInput: 'input[type="file"]',
+    saveButton: `//form//button[@type='submit']`,
+    fieldError: '.oxd-input-field-error-message',
+
+    // Candidate profile
+    status: '.orangehrm-recruitment-status',
+    actionButtons: '.orangehrm-recruitment-actions button',
+    actionButton: (action: CandidateAction) =>
+      `//div[contains(@class,'orangehrm-recruitment-actions')]//button[normalize-space()='${action}']`,
+    historySection: `xpath=//h6[normalize-space()='History']/ancestor::div[.//div[contains(@class,'oxd-table')]][1]`
+  };
+
+  // Table header text mapped to row properties
+  private readonly columnMap: Record<string, keyof CandidateListRow> = {
+    'Vacancy': 'vacancy',
+    'Candidate': 'candidate',
+    'Hiring Manager': 'hiringManager',
+    'Date of Application': 'dateOfApplication',
+    'Status': 'status'
+  };
+
+  constructor(page: Page) {
+    super(page);
+
+    logger.debug('CandidatesPage initialized');
+  }
+
+  /**
+   * Navigate to candidates page
+   */
+  async open(): Promise<void> {
+    await this.allure.timedStep('Navigate to Candidates Page', async () => {
+      await this.navigateTo(this.CANDIDATES_URL);
+      await this.waitForElement(this.selectors.filterForm);
+      await this.table().waitForLoad();
+
+      logger.test.step('Navigate to Candidates', 'navigation', {
+        url: `${this.baseURL}${this.CANDIDATES_URL}`
+      });
+    });
+  }
+
+  /**
+   * Search candidates with a combination of filters
+   * @param criteria - Search criteria
+   * @returns Parsed result rows
+   */
+  async search(criteria: CandidateSearchCriteria): Promise<CandidateListRow[]> {
+    return await this.allure.timedStep('Search Candidates', async () => {
+      this.allure.attachJSON('Search Criteria', criteria);
+
+      const dropdowns: Array<[string, string | undefined]> = [
+        ['Job Title', criteria.jobTitle],
+        ['Vacancy', criteria.vacancy],
+        ['Hiring Manager', criteria.hiringManager],
+        ['Status', criteria.status]
+      ];
+
+      for (const [label, value] of dropdowns) {
+        if (value) {
+          await this.formGroup(label).select().select(value);
+        }
+      }
+
+      if (criteria.candidateName) {
+        await this.formGroup('Candidate Name').autocomplete().select(criteria.candidateName);
+      }
+
+      if (criteria.keywords) {
+        await this.formGroup('Keywords').fill(criteria.keywords);
+      }
+
+      await this.click(this.selectors.searchButton);
+      await this.table().waitForLoad();
+
+      const rows = await this.getRows();
+
+      logger.test.step('Search Candidates', 'search', {
+        criteria,
+        resultCount: rows.length
+      });
+
+      return rows;
+    });
+  }
+
+  /**
+   * Parse the visible result rows into typed objects
+   * @returns Result rows
+   */
+  async getRows(): Promise<CandidateListRow[]> {
+    return await this.allure.timedStep('Get Candidate Rows', async () => {
+      const rows = await this.table().getRows(row => this.toCandidateRow(row));
+
+      this.allure.attachJSON('Candidate Rows', rows);
+      return rows;
+    });
+  }
+
+  /**
+   * Map a header-keyed table row to a candidate row
+   * @param row - Table row keyed by header text
+   * @returns Candidate row
+   */
+  private toCandidateRow(row: OxdTableRow): CandidateListRow {
+    const candidateRow = {} as CandidateListRow;
+
+    for (const [header, key] of Object.entries(this.columnMap)) {
+      candidateRow[key] = (row[header] ?? '').replace(/\s+/g, ' ').trim();
+    }
+
+    return candidateRow;
+  }
+
+  /**
+   * Add a candidate, optionally with a resume
+   * @param candidate - Candidate data
+   * @returns Candidate id from the URL of the saved profile
+   */
+  async addCandidate(candidate: Candidate): Promise<string> {
+    return await this.allure.timedStep(`Add Candidate: ${candidate.firstName} ${candidate.lastName}`, async () => {
+      this.allure.attachJSON('Candidate', { ...candidate, resume: candidate.resume?.name });
+
+      await this.navigateTo(this.ADD_CANDIDATE_URL);
+      await this.waitForElement(this.selectors.candidateForm);
+
+      await this.fill(this.selectors.firstNameInput, candidate.firstName);
+      await this.fill(this.selectors.middleNameInput, candidate.middleName || '');
+      await this.fill(this.selectors.lastNameInput, candidate.lastName);
+
+      if (candidate.vacancy) {
+        await this.formGroup('Vacancy').select().select(candidate.vacancy);
+      }
+
+      await this.formGroup('Email').fill(candidate.email);
+
+      const optionalFields: Array<[string, string | undefined]> = [
+        ['Contact Number', candidate.contactNumber],
+        ['Keywords', candidate.keywords],
+        ['Notes', candidate.notes]
+      ];
+
+      for (const [label, value] of optionalFields) {
+        if (value) {
+          await this.formGroup(label).fill(value);
+        }
+      }
+
+      if (candidate.resume) {
+        await this.page.locator(this.selectors.resumeInput).setInputFiles({
+          name: candidate.resume.name,
+          mimeType: candidate.resume.mimeType || 'application/pdf',
+          buffer: Buffer.isBuffer(candidate.resume.content)
+            ? candidate.resume.content
+            : Buffer.from(candidate.resume.content)
+        });
+      }
+
+      await this.click(this.selectors.saveButton);
+      await this.toast().waitForSuccess();
+      await this.page.waitForURL(new RegExp(`${this.ADD_CANDIDATE_URL}/\\d+`), { timeout: this.timeout });
+
+      const candidateId = this.page.url().match(/addCandidate\/(\d+)/)![1];
+
+      this.allure.addParameter('Candidate Id', candidateId);
+      logger.test.step('Add Candidate', 'create', {
+        name: `${candidate.firstName} ${candidate.lastName}`,
+        candidateId
+      });
+
+      return candidateId;
+    });
+  }
+
+  /**
+   * Get the validation messages shown on the candidate form
+   * @returns Field error texts
+   */
+  async getFieldErrors(): Promise<string[]> {
+    return await this.getAllText(this.selectors.fieldError);
+  }
+
+  /**
+   * Navigate to a candidate profile
+   * @param candidateId - Candidate id
+   */
+  async openCandidate(candidateId: string): Promise<void> {
+    await this.allure.timedStep(`Open Candidate: ${candidateId}`, async () => {
+      await this.navigateTo(`${this.ADD_CANDIDATE_URL}/${candidateId}`);
+      await this.waitForElement(this.selectors.status);
+    });
+  }
+
+  /**
+   * Get the status shown on the open candidate profile
+   * @returns Candidate status
+   */
+  async getStatus(): Promise<CandidateStatus> {
+    const text = await this.getText(this.selectors.status);
+    return text.replace(/^\s*Status:\s*/, '').trim() as CandidateStatus;
+  }
+
+  /**
+   * Get the actions offered for the current status of the open candidate profile
+   * @returns Action button texts
+   */
+  async getAvailableActions(): Promise<CandidateAction[]> {
+    const actions = await this.page.locator(this.selectors.actionButtons).allInnerTexts();
+    return actions.map(action => action.trim()) as CandidateAction[];
+  }
+
+  /**
+   * Perform a pipeline action on a candidate
+   * @param candidateId - Candidate id
+   * @param action - Pipeline action
+   * @param details - Notes, or the interview to schedule for "Schedule Interview"
+   * @returns Status the candidate reached
+   */
+  async performAction(candidateId: string, action: CandidateAction, details?: string | Interview): Promise<CandidateStatus> {
+    return await this.allure.timedStep(`${action}: Candidate ${candidateId}`, async () => {
+      await this.openCandidate(candidateId);
+
+      const available = await this.getAvailableActions();
+
+      if (!available.includes(action)) {
+        throw new Error(
+          `Action '${action}' is not available for candidate ${candidateId} ` +
+          `in status '${await this.getStatus()}' (available: ${available.join(', ') || 'none'})`
+        );
+      }
+
+      await this.click(this.selectors.actionButton(action));
+      await this.page.waitForURL(`**${this.CHANGE_STATUS_URL}**`, { timeout: this.timeout });
+      await this.waitForElement(this.selectors.candidateForm);
+
+      if (action === 'Schedule Interview') {
+        if (!details || typeof details === 'string') {
+          throw new Error('Schedule Interview needs interview details');
+        }
+
+        await this.fillInterview(details);
+      } else if (typeof details === 'string') {
+        await this.formGroup('Notes').fill(details);
+      }
+
+      await this.click(this.selectors.saveButton);
+      await this.toast().waitForSuccess();
+      await this.page.waitForURL(new RegExp(`${this.ADD_CANDIDATE_URL}/${candidateId}`), { timeout: this.timeout });
+      await this.waitForElement(this.selectors.status);
+
+      const status = await this.getStatus();
+
+      this.allure.addParameter(`Status after ${action}`, status);
+      logger.test.step(action, 'update', { candidateId, status });
+
+      return status;
+    });
+  }
+
+  /**
+   * Fill the schedule interview form
+   * @param interview - Interview details
+   */
+  private async fillInterview(interview: Interview): Promise<void> {
+    await this.formGroup('Interview Title').fill(interview.title);
+    await this.formGroup('Interviewer').autocomplete().select(interview.interviewer);
+    await this.formGroup('Date').datePicker().setDate(interview.date);
+
+    if (interview.time) {
+      await this.formGroup('Time').fill(interview.time);
+    }
+
+    if (interview.notes) {
+      await this.formGroup('Notes').fill(interview.notes);
+    }
+  }
+
+  /**
+   * Read the status history of a candidate, most recent first
+   * @param candidateId - Candidate id
+   * @returns History entries
+   */
+  async getHistory(candidateId: string): Promise<CandidateHistoryEntry[]> {
+    return await this.allure.timedStep(`Get Candidate History: ${candidateId}`, async () => {
+      await this.openCandidate(candidateId);
+
+      const history = new OxdTable(this.page.locator(this.selectors.historySection).first(), this.timeout);
+      await history.waitForLoad();
+
+      const entries = await history.getRows(row => ({
+        performedDate: row['Performed Date'] ?? '',
+        description: (row['Description'] ?? '').replace(/\s+/g, ' ').trim()
+      }));
+
+      this.allure.attachJSON('Candidate History', entries);
+      logger.test.step('Get Candidate History', 'read', { candidateId, count: entries.length });
+
+      return entries;
+    });
+  }
+
+  /**
+   * Delete a candidate from the current result page
+   * @param candidateName - Candidate name as shown in the list
+   */
+  async deleteCandidate(candidateName: string): Promise<void> {
+    await this.allure.timedStep(`Delete Candidate: ${candidateName}`, async () => {
+      await this.table().deleteRow('Candidate', candidateName);
+
+      logger.test.step('Delete Candidate', 'delete', { candidateName });
+    });
+  }
+
+  // Assertion methods for better test readability
+
+  /**
+   * Assert the status of a candidate and that the status history records it
+   * @param candidateId - Candidate id
+   * @param status - Expected status
+   */
+  async shouldHaveStatus(candidateId: string, status: CandidateStatus): Promise<void> {
+    const history = await this.getHistory(candidateId);
+
+    expect(await this.getStatus(), `Status of candidate ${candidateId}`).toBe(status);
+    expect(
+      history.some(entry => entry.description.toLowerCase().includes(status.toLowerCase())),
+      `History of candidate ${candidateId} should record '${status}'`
+    ).toBeTruthy();
+  }
+}
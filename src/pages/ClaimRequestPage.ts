@@ -0,0 +1,414 @@
+import { Locator, Page, expect } from '@playwright/test';
+import { BasePage } from './BasePage.js';
+import { OxdFormGroup, OxdTable } from '../components/index.js';
+import logger from '../config/logger.js';
+import type {
+  AttachmentFile,
+  AttachmentRow,
+  ClaimAction,
+  ClaimExpense,
+  ClaimExpenseRow,
+  ClaimRequest,
+  ClaimStatus,
+  ClaimTotal,
+  OxdTableRow
+} from '../types/index.js';
+
+/**
+ * Base class of the claim request screens (Submit Claim and Assign Claim)
+ * A claim is created from the header form, then gets expense lines and attachments
+ * and moves through Submit, Approve or Reject, and Pay from the buttons at the bottom
+ */
+export abstract class ClaimRequestPage extends BasePage {
+  // Create URL of the claim screen; a saved claim lives at `${CLAIM_URL}/id/{id}`
+  protected abstract readonly CLAIM_URL: string;
+
+  // Selectors - organized by functionality
+  private readonly claimSelectors = {
+    // Claim header form
+    claimForm: '.orangehrm-card-container form',
+    createButton: `//form//button[@type='submit'][normalize-space()='Create']`,
+
+    // Expenses and attachments sections
+    section: (title: string) =>
+      `xpath=//h6[normalize-space()='${title}']/ancestor::div[.//div[contains(@class,'oxd-table')]][1]`,
+    sectionAddButton: `xpath=.//button[normalize-space()='Add']`,
+    dialog: '.oxd-dialog-sheet',
+    dialogSaveButton: `xpath=.//button[@type='submit']`,
+    fileInput: 'input[type="file"]',
+    totalAmount: `//p[starts-with(normalize-space(),'Total Amount')]`,
+
+    // Claim actions
+    actionButton: (action: ClaimAction) => `//button[normalize-space()='${action}']`
+  };
+
+  // Attachment table header text mapped to row properties
+  private readonly attachmentColumnMap: Record<string, keyof AttachmentRow> = {
+    'File Name': 'fileName',
+    'Description': 'description',
+    'Size': 'size',
+    'Type': 'type',
+    'Date Added': 'dateAdded',
+    'Added By': 'addedBy'
+  };
+
+  constructor(page: Page) {
+    super(page);
+
+    logger.debug(`${this.constructor.name} initialized`);
+  }
+
+  /**
+   * Format an amount the way claim screens show it
+   * @param amount - Amount
+   * @returns Amount with thousands separators and two decimals, e.g. "1,234.50"
+   */
+  static formatAmount(amount: number): string {
+    return amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  }
+
+  /**
+   * Parse an amount shown on a claim screen
+   * @param text - Amount text, with or without separators and currency
+   * @returns Amount, 0 when no number is found
+   */
+  static parseAmount(text: string): number {
+    return parseFloat(text.replace(/[^\d.-]/g, '')) || 0;
+  }
+
+  /**
+   * Navigate to an empty claim form
+   */
+  async open(): Promise<void> {
+    await this.allure.timedStep(`Navigate to ${this.constructor.name}`, async () => {
+      await this.navigateTo(this.CLAIM_URL);
+      await this.waitForElement(this.claimSelectors.claimForm);
+
+      logger.test.step(`Navigate to ${this.constructor.name}`, 'navigation', {
+        url: `${this.baseURL}${this.CLAIM_URL}`
+      });
+    });
+  }
+
+  /**
+   * Navigate to a saved claim
+   * @param claimId - Claim id
+   */
+  async openClaim(claimId: string): Promise<void> {
+    await this.allure.timedStep(`Open Claim: ${claimId}`, async () => {
+      await this.navigateTo(`${this.CLAIM_URL}/id/${claimId}`);
+      await this.waitForElement(this.claimSelectors.claimForm);
+      await this.table().waitForLoad();
+    });
+  }
+
+  /**
+   * Fill the header fields shared by both claim screens, create the claim
+   * and wait for the saved claim screen
+   * @param claim - Claim data
+   * @returns Claim id from the URL of the saved claim
+   */
+  protected async createClaim(claim: ClaimRequest): Promise<string> {
+    await this.formGroup('Event').select().select(claim.event);
+    await this.formGroup('Currency').select().select(claim.currency);
+
+    if (claim.remarks) {
+      await this.formGroup('Remarks').fill(claim.remarks);
+    }
+
+    await this.click(this.claimSelectors.createButton);
+    await this.toast().waitForSuccess();
+    await this.page.waitForURL(new RegExp(`${this.CLAIM_URL}/id/\\d+`), { timeout: this.timeout });
+
+    const claimId = this.page.url().match(/\/id\/(\d+)/)![1];
+
+    this.allure.addParameter('Claim Id', claimId);
+    logger.test.step('Create Claim', 'create', { event: claim.event, currency: claim.currency, claimId });
+
+    return claimId;
+  }
+
+  /**
+   * Get the reference id of the open claim
+   * @returns Reference id
+   */
+  async getReferenceId(): Promise<string> {
+    return await this.formGroup('Reference Id').getValue();
+  }
+
+  /**
+   * Get the status of the open claim
+   * @returns Claim status
+   */
+  async getStatus(): Promise<ClaimStatus> {
+    return (await this.formGroup('Status').getValue()) as ClaimStatus;
+  }
+
+  /**
+   * Table of a section of the open claim
+   * @param title - Section title ("Expenses" or "Attachments")
+   * @returns Table component
+   */
+  private sectionTable(title: string): OxdTable {
+    return new OxdTable(this.page.locator(this.claimSelectors.section(title)).first(), this.timeout);
+  }
+
+  /**
+   * Open the "+ Add" dialog of a section
+   * @param title - Section title
+   * @returns Dialog locator
+   */
+  private async openAddDialog(title: string): Promise<Locator> {
+    await this.sectionTable(title).root.locator(this.claimSelectors.sectionAddButton).first()
+      .click({ timeout: this.timeout });
+
+    const dialog = this.page.locator(this.claimSelectors.dialog).first();
+    await dialog.waitFor({ state: 'visible', timeout: this.timeout });
+
+    return dialog;
+  }
+
+  /**
+   * Save a section dialog and wait for it to close
+   * @param dialog - Dialog locator
+   */
+  private async saveDialog(dialog: Locator): Promise<void> {
+    await dialog.locator(this.claimSelectors.dialogSaveButton).click({ timeout: this.timeout });
+    await this.toast().waitForSuccess();
+    await dialog.waitFor({ state: 'hidden', timeout: this.timeout });
+  }
+
+  /**
+   * Add an expense line to the open claim
+   * @param expense - Expense data
+   */
+  async addExpense(expense: ClaimExpense): Promise<void> {
+    await this.allure.timedStep(`Add Expense: ${expense.expenseType} ${expense.amount}`, async () => {
+      const dialog = await this.openAddDialog('Expenses');
+
+      await OxdFormGroup.byLabel(dialog, 'Expense Type').select().select(expense.expenseType);
+      await OxdFormGroup.byLabel(dialog, 'Date').datePicker().setDate(expense.date);
+      await OxdFormGroup.byLabel(dialog, 'Amount').fill(expense.amount.toFixed(2));
+
+      if (expense.note) {
+        await OxdFormGroup.byLabel(dialog, 'Note').fill(expense.note);
+      }
+
+      await this.saveDialog(dialog);
+      await this.sectionTable('Expenses').waitForLoad();
+
+      logger.test.step('Add Expense', 'create', {
+        expenseType: expense.expenseType,
+        amount: expense.amount
+      });
+    });
+  }
+
+  /**
+   * Add several expense lines to the open claim
+   * @param expenses - Expense data
+   */
+  async addExpenses(expenses: ClaimExpense[]): Promise<void> {
+    for (const expense of expenses) {
+      await this.addExpense(expense);
+    }
+  }
+
+  /**
+   * Read the expense lines of the open claim
+   * @returns Expense rows
+   */
+  async getExpenses(): Promise<ClaimExpenseRow[]> {
+    return await this.allure.timedStep('Get Expenses', async () => {
+      const rows = await this.sectionTable('Expenses').getRows(row => this.toExpenseRow(row));
+
+      this.allure.attachJSON('Expenses', rows);
+      return rows;
+    });
+  }
+
+  /**
+   * Map a header-keyed table row to an expense row
+   * The amount header carries the currency on some versions ("Amount (Euro)")
+   * @param row - Table row keyed by header text
+   * @returns Expense row
+   */
+  private toExpenseRow(row: OxdTableRow): ClaimExpenseRow {
+    const amountHeader = Object.keys(row).find(header => header.startsWith('Amount')) ?? 'Amount';
+
+    return {
+      expenseType: row['Expense Type'] ?? '',
+      date: row['Date'] ?? '',
+      amount: ClaimRequestPage.parseAmount(row[amountHeader] ?? ''),
+      note: row['Note'] ?? ''
+    };
+  }
+
+  /**
+   * Delete an expense line of the open claim
+   * @param expenseType - Expense type of the line
+   */
+  async deleteExpense(expenseType: string): Promise<void> {
+    await this.allure.timedStep(`Delete Expense: ${expenseType}`, async () => {
+      await this.sectionTable('Expenses').deleteRow('Expense Type', expenseType);
+    });
+  }
+
+  /**
+   * Upload an attachment to the open claim
+   * @param file - File name, content and optional MIME type
+   * @param comment - Optional comment
+   */
+  async uploadAttachment(file: AttachmentFile, comment?: string): Promise<void> {
+    await this.allure.timedStep(`Upload Claim Attachment: ${file.name}`, async () => {
+      const dialog = await this.openAddDialog('Attachments');
+
+      await dialog.locator(this.claimSelectors.fileInput).setInputFiles({
+        name: file.name,
+        mimeType: file.mimeType || 'text/plain',
+        buffer: Buffer.isBuffer(file.content) ? file.content : Buffer.from(file.content)
+      });
+
+      if (comment) {
+        await OxdFormGroup.byLabel(dialog, 'Comment').fill(comment);
+      }
+
+      await this.saveDialog(dialog);
+
+      logger.test.step('Upload Claim Attachment', 'upload', { fileName: file.name });
+    });
+  }
+
+  /**
+   * Read the attachments of the open claim
+   * @returns Attachment rows
+   */
+  async getAttachments(): Promise<AttachmentRow[]> {
+    return await this.allure.timedStep('Get Claim Attachments', async () => {
+      const rows = await this.sectionTable('Attachments').getRows(row => {
+        const attachment = {} as AttachmentRow;
+
+        for (const [header, key] of Object.entries(this.attachmentColumnMap)) {
+          attachment[key] = row[header] ?? '';
+        }
+
+        return attachment;
+      });
+
+      this.allure.attachJSON('Claim Attachments', rows);
+      return rows;
+    });
+  }
+
+  /**
+   * Read the "Total Amount (Currency) : 0.00" line of the open claim
+   * @returns Currency, parsed amount and the amount text as shown
+   */
+  async getTotal(): Promise<ClaimTotal> {
+    const line = await this.getText(this.claimSelectors.totalAmount);
+    const match = line.match(/Total Amount\s*\(\s*([^)]+?)\s*\)\s*:?\s*(.*)$/);
+
+    if (!match) {
+      throw new Error(`Unexpected total amount line: '${line}'`);
+    }
+
+    const total: ClaimTotal = {
+      currency: match[1],
+      amount: ClaimRequestPage.parseAmount(match[2]),
+      text: match[2].trim()
+    };
+
+    this.allure.attachJSON('Claim Total', total);
+    return total;
+  }
+
+  /**
+   * Run a claim action from the buttons at the bottom of the open claim
+   * @param action - Claim action
+   * @returns Status after the action
+   */
+  async performAction(action: ClaimAction): Promise<ClaimStatus> {
+    return await this.allure.timedStep(`${action} Claim`, async () => {
+      const button = this.page.locator(this.claimSelectors.actionButton(action));
+
+      if (!(await button.isVisible())) {
+        throw new Error(`Action '${action}' is not available for a claim in status '${await this.getStatus()}'`);
+      }
+
+      await button.click({ timeout: this.timeout });
+      await this.toast().waitForSuccess();
+      await this.waitForElement(this.claimSelectors.claimForm);
+
+      const status = await this.getStatus();
+
+      this.allure.addParameter(`Status after ${action}`, status);
+      logger.test.step(`${action} Claim`, 'update', { status });
+
+      return status;
+    });
+  }
+
+  /**
+   * Submit the open claim
+   * @returns Status after the action
+   */
+  async submit(): Promise<ClaimStatus> {
+    return await this.performAction('Submit');
+  }
+
+  /**
+   * Approve the open claim
+   * @returns Status after the action
+   */
+  async approve(): Promise<ClaimStatus> {
+    return await this.performAction('Approve');
+  }
+
+  /**
+   * Reject the open claim
+   * @returns Status after the action
+   */
+  async reject(): Promise<ClaimStatus> {
+    return await this.performAction('Reject');
+  }
+
+  /**
+   * Pay the open, approved claim
+   * @returns Status after the action
+   */
+  async pay(): Promise<ClaimStatus> {
+    return await this.performAction('Pay');
+  }
+
+  // Assertion methods for better test readability
+
+  /**
+   * Assert the status of the open claim
+   * @param status - Expected status
+   */
+  async shouldHaveStatus(status: ClaimStatus): Promise<void> {
+    expect(await this.getStatus(), 'Claim status').toBe(status);
+  }
+
+  /**
+   * Assert that the total of the open claim is the sum of its expense lines,
+   * shown in the claim currency with the claim screen number format
+   * @param currency - Expected currency name, not checked when omitted
+   */
+  async shouldMatchExpenseTotal(currency?: string): Promise<void> {
+    await this.allure.timedStep('Verify Claim Total Matches Expenses', async () => {
+      const expenses = await this.getExpenses();
+      const total = await this.getTotal();
+
+      // Sum in cents so the float sum of the lines compares exactly
+      const sum = expenses.reduce((cents, expense) => cents + Math.round(expense.amount * 100), 0) / 100;
+
+      expect(total.amount, 'Total amount should equal the sum of the expense lines').toBe(sum);
+      expect(total.text, 'Total amount should use the claim number format').toBe(ClaimRequestPage.formatAmount(sum));
+
+      if (currency) {
+        expect(total.currency, 'Total amount currency').toBe(currency);
+      }
+    });
+  }
+}
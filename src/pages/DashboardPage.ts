@@ -0,0 +1,364 @@
+import { Locator, Page, expect } from '@playwright/test';
+import { BasePage } from './BasePage.js';
+import logger from '../config/logger.js';
+import { TestUtils } from '../utils/testUtils.js';
+import type {
+  ChartSlice,
+  DashboardWidgetName,
+  DashboardWidgetsData,
+  EmployeeOnLeave,
+  PendingAction,
+  TimeAtWork
+} from '../types/index.js';
+
+type ChartWidgetName = 'Employee Distribution by Sub Unit' | 'Employee Distribution by Location';
+
+/**
+ * Dashboard Page Object for OrangeHRM
+ * Reads the widgets shown after login: Time at Work, My Actions, Quick Launch,
+ * Employees on Leave Today and the employee distribution charts
+ */
+export class DashboardPage extends BasePage {
+  // Page URLs
+  private readonly DASHBOARD_URL = '/web/index.php/dashboard/index';
+
+  // Test data
+  private readonly DASHBOARD_WIDGETS_FILE = 'test-data/dashboard-widgets.json';
+
+  // Chart slices are drawn on a canvas, so their values come from the endpoints the charts are built from
+  private readonly CHART_ENDPOINTS: Record<ChartWidgetName, { url: string; key: string }> = {
+    'Employee Distribution by Sub Unit': {
+      url: '/web/index.php/api/v2/dashboard/employees/subunit',
+      key: 'subunit'
+    },
+    'Employee Distribution by Location': {
+      url: '/web/index.php/api/v2/dashboard/employees/locations',
+      key: 'location'
+    }
+  };
+
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    // Widgets
+    widgetGrid: '.orangehrm-dashboard-grid',
+    widget: '.orangehrm-dashboard-widget',
+    widgetName: '.orangehrm-dashboard-widget-name',
+    widgetLoader: '.oxd-loading-spinner',
+
+    // Time at Work
+    attendanceState: '.orangehrm-attendance-card-state',
+    attendanceDetails: '.orangehrm-attendance-card-details',
+    attendanceToday: '.orangehrm-attendance-card-fulltime',
+    attendanceWeek: '.orangehrm-attendance-card-summary-total',
+
+    // My Actions
+    pendingAction: '.orangehrm-todo-list-item',
+
+    // Quick Launch
+    quickLaunchCard: '.orangehrm-quick-launch-card',
+    quickLaunchHeading: '.orangehrm-quick-launch-heading',
+    quickLaunchButton: 'button',
+
+    // Employees on Leave Today
+    leaveCard: '.orangehrm-leave-card',
+
+    // Charts
+    chartLegendItem: '.oxd-chart-legend li'
+  };
+
+  constructor(page: Page) {
+    super(page);
+
+    logger.debug('DashboardPage initialized');
+  }
+
+  /**
+   * Navigate to dashboard page
+   */
+  async open(): Promise<void> {
+    await this.allure.timedStep('Navigate to Dashboard Page', async () => {
+      await this.navigateTo(this.DASHBOARD_URL);
+      await this.waitForWidgetsLoad();
+
+      logger.test.step('Navigate to Dashboard', 'navigation', {
+        url: `${this.baseURL}${this.DASHBOARD_URL}`
+      });
+    });
+  }
+
+  /**
+   * Wait until the widgets are rendered and none of them is still loading
+   */
+  async waitForWidgetsLoad(): Promise<void> {
+    await this.waitForElement(this.selectors.widget);
+    await expect(
+      this.page.locator(this.selectors.widgetGrid).locator(this.selectors.widgetLoader)
+    ).toHaveCount(0, { timeout: this.timeout });
+  }
+
+  /**
+   * Widget container located by its title
+   * @param name - Widget title
+   * @returns Widget locator
+   */
+  private widget(name: DashboardWidgetName): Locator {
+    return this.page.locator(this.selectors.widget).filter({
+      has: this.page.locator(this.selectors.widgetName, { hasText: new RegExp(`^\\s*${name}\\s*$`) })
+    });
+  }
+
+  /**
+   * Get the titles of the widgets shown on the dashboard
+   * @returns Widget titles in display order
+   */
+  async getWidgetNames(): Promise<string[]> {
+    return await this.allure.timedStep('Get Dashboard Widgets', async () => {
+      await this.waitForWidgetsLoad();
+
+      const names = (await this.page.locator(this.selectors.widgetName).allInnerTexts())
+        .map(name => name.trim());
+
+      this.allure.attachJSON('Dashboard Widgets', names);
+      logger.test.step('Get Dashboard Widgets', 'read', { names });
+
+      return names;
+    });
+  }
+
+  /**
+   * Check if a widget is shown on the dashboard
+   * @param name - Widget title
+   * @returns True if the widget is visible
+   */
+  async isWidgetVisible(name: DashboardWidgetName): Promise<boolean> {
+    return await this.widget(name).isVisible();
+  }
+
+  /**
+   * Read the "Time at Work" widget
+   * @returns Punch state, last punch and worked hours for today and this week
+   */
+  async getTimeAtWork(): Promise<TimeAtWork> {
+    return await this.allure.timedStep('Get Time at Work', async () => {
+      const widget = this.widget('Time at Work');
+      await widget.waitFor({ state: 'visible', timeout: this.timeout });
+
+      const readText = async (selector: string): Promise<string> => {
+        const element = widget.locator(selector).first();
+        return (await element.count()) > 0 ? (await element.innerText()).replace(/\s+/g, ' ').trim() : '';
+      };
+
+      const todayTotal = (await readText(this.selectors.attendanceToday)).replace(/\s*Today$/i, '');
+      const weekTotal = await readText(this.selectors.attendanceWeek);
+      const timeAtWork: TimeAtWork = {
+        state: await readText(this.selectors.attendanceState),
+        lastPunch: await readText(this.selectors.attendanceDetails),
+        todayTotal,
+        todayMinutes: DashboardPage.parseDuration(todayTotal),
+        weekTotal,
+        weekMinutes: DashboardPage.parseDuration(weekTotal)
+      };
+
+      this.allure.attachJSON('Time at Work', timeAtWork);
+      logger.test.step('Get Time at Work', 'read', { ...timeAtWork });
+
+      return timeAtWork;
+    });
+  }
+
+  /**
+   * Convert a "3h 25m" duration to minutes
+   * @param duration - Duration text
+   * @returns Duration in minutes (0 when not parseable)
+   */
+  private static parseDuration(duration: string): number {
+    const hours = duration.match(/(\d+)\s*h/)?.[1];
+    const minutes = duration.match(/(\d+)\s*m/)?.[1];
+
+    return parseInt(hours || '0') * 60 + parseInt(minutes || '0');
+  }
+
+  /**
+   * Read the "My Actions" widget
+   * @returns Pending actions with their counts, e.g. "(2) Leave Requests to Approve"
+   */
+  async getPendingActions(): Promise<PendingAction[]> {
+    return await this.allure.timedStep('Get Pending Actions', async () => {
+      const widget = this.widget('My Actions');
+      await widget.waitFor({ state: 'visible', timeout: this.timeout });
+
+      const actions = (await widget.locator(this.selectors.pendingAction).allInnerTexts())
+        .map(text => text.replace(/\s+/g, ' ').trim())
+        .map(text => {
+          const match = text.match(/^\((\d+)\)\s*(.+)$/);
+          return match ? { label: match[2], count: parseInt(match[1]) } : { label: text, count: 0 };
+        });
+
+      this.allure.attachJSON('Pending Actions', actions);
+      logger.test.step('Get Pending Actions', 'read', { count: actions.length });
+
+      return actions;
+    });
+  }
+
+  /**
+   * Follow the link of a pending action
+   * @param label - Action label without the count, e.g. "Leave Requests to Approve"
+   * @returns URL the action leads to
+   */
+  async openPendingAction(label: string): Promise<string> {
+    return await this.allure.timedStep(`Open Pending Action: ${label}`, async () => {
+      const action = this.widget('My Actions')
+        .locator(this.selectors.pendingAction)
+        .filter({ hasText: label });
+
+      await action.first().click({ timeout: this.timeout });
+      await this.page.waitForURL(url => !url.pathname.endsWith(this.DASHBOARD_URL), { timeout: this.timeout });
+      await this.waitForPageLoad();
+
+      const url = await this.getCurrentUrl();
+      logger.test.step('Open Pending Action', 'navigation', { label, url });
+
+      return url;
+    });
+  }
+
+  /**
+   * Read the "Quick Launch" widget
+   * @returns Shortcut names in display order
+   */
+  async getQuickLaunchItems(): Promise<string[]> {
+    return await this.allure.timedStep('Get Quick Launch Items', async () => {
+      const widget = this.widget('Quick Launch');
+      await widget.waitFor({ state: 'visible', timeout: this.timeout });
+
+      const items = (await widget.locator(this.selectors.quickLaunchHeading).allInnerTexts())
+        .map(item => item.trim());
+
+      this.allure.attachJSON('Quick Launch Items', items);
+      logger.test.step('Get Quick Launch Items', 'read', { items });
+
+      return items;
+    });
+  }
+
+  /**
+   * Open a Quick Launch shortcut
+   * @param name - Shortcut name, e.g. "Apply Leave"
+   * @returns URL the shortcut leads to
+   */
+  async openQuickLaunch(name: string): Promise<string> {
+    return await this.allure.timedStep(`Open Quick Launch: ${name}`, async () => {
+      const card = this.widget('Quick Launch')
+        .locator(this.selectors.quickLaunchCard)
+        .filter({ has: this.page.locator(this.selectors.quickLaunchHeading, { hasText: name }) });
+
+      await card.locator(this.selectors.quickLaunchButton).click({ timeout: this.timeout });
+      await this.page.waitForURL(url => !url.pathname.endsWith(this.DASHBOARD_URL), { timeout: this.timeout });
+      await this.waitForPageLoad();
+
+      const url = await this.getCurrentUrl();
+      logger.test.step('Open Quick Launch', 'navigation', { name, url });
+
+      return url;
+    });
+  }
+
+  /**
+   * Read the "Employees on Leave Today" widget
+   * @returns Employees on leave, empty when nobody is on leave
+   */
+  async getEmployeesOnLeave(): Promise<EmployeeOnLeave[]> {
+    return await this.allure.timedStep('Get Employees on Leave Today', async () => {
+      const widget = this.widget('Employees on Leave Today');
+      await widget.waitFor({ state: 'visible', timeout: this.timeout });
+
+      const employees = (await widget.locator(this.selectors.leaveCard).allInnerTexts())
+        .map(text => text.split('\n').map(line => line.trim()).filter(Boolean))
+        .map(([name = '', ...details]) => ({ name, details: details.join(' ') }));
+
+      this.allure.attachJSON('Employees on Leave Today', employees);
+      logger.test.step('Get Employees on Leave Today', 'read', { count: employees.length });
+
+      return employees;
+    });
+  }
+
+  /**
+   * Get the legend labels of a chart widget
+   * @param name - Chart widget title
+   * @returns Legend labels in display order
+   */
+  async getChartLegend(name: ChartWidgetName): Promise<string[]> {
+    const widget = this.widget(name);
+    await widget.waitFor({ state: 'visible', timeout: this.timeout });
+
+    return (await widget.locator(this.selectors.chartLegendItem).allInnerTexts())
+      .map(label => label.trim());
+  }
+
+  /**
+   * Read a chart widget: its legend paired with the value of each slice
+   * @param name - Chart widget title
+   * @returns Slices in legend order
+   */
+  async getChart(name: ChartWidgetName): Promise<ChartSlice[]> {
+    return await this.allure.timedStep(`Get Chart: ${name}`, async () => {
+      const legend = await this.getChartLegend(name);
+      const { url, key } = this.CHART_ENDPOINTS[name];
+
+      // The page request context shares the session cookie of the browser
+      const response = await this.page.request.get(`${this.baseURL}${url}`);
+      expect(response.ok(), `${url} should respond with 2xx`).toBeTruthy();
+
+      const { data, meta } = await response.json();
+      const values: Record<string, number> = {
+        'Unassigned': meta?.unassignedEmployeeCount ?? 0,
+        'Other': meta?.otherEmployeeCount ?? 0
+      };
+
+      for (const entry of data as Array<Record<string, any>>) {
+        values[entry[key].name] = entry.count;
+      }
+
+      const slices = legend.map(label => ({ label, value: values[label] ?? 0 }));
+
+      this.allure.attachJSON(name, slices);
+      logger.test.step('Get Chart', 'read', { name, slices: slices.length });
+
+      return slices;
+    });
+  }
+
+  /**
+   * Load the widgets expected per role
+   * @returns Role to widget names
+   */
+  async loadDashboardWidgets(): Promise<Record<string, DashboardWidgetName[]>> {
+    const data = await TestUtils.loadTestData<DashboardWidgetsData>(this.DASHBOARD_WIDGETS_FILE);
+    return data.dashboardWidgets;
+  }
+
+  // Assertion methods for better test readability
+
+  /**
+   * Verify the dashboard of a role
+   * Exactly the expected widgets must be shown, in any order
+   * @param role - Account role
+   * @param expectedWidgets - Expected widgets, defaults to the role entry of dashboard-widgets.json
+   */
+  async verifyDashboardForRole(role: string, expectedWidgets?: DashboardWidgetName[]): Promise<void> {
+    await this.allure.timedStep(`Verify Dashboard for ${role}`, async () => {
+      const expected = expectedWidgets ?? (await this.loadDashboardWidgets())[role];
+
+      if (!expected) {
+        throw new Error(`No dashboard widgets defined for role '${role}' in ${this.DASHBOARD_WIDGETS_FILE}`);
+      }
+
+      const visible = await this.getWidgetNames();
+      this.allure.attachJSON(`${role} Dashboard`, { expected, visible });
+
+      expect([...visible].sort(), `Dashboard widgets for ${role}`).toEqual([...expected].sort());
+    });
+  }
+}
@@ -0,0 +1,271 @@
+import { Locator, Page, expect } from '@playwright/test';
+import { BasePage } from './BasePage.js';
+import logger from '../config/logger.js';
+import type {
+  DirectoryCard,
+  DirectoryContact,
+  DirectorySearchCriteria,
+  EmployeeListRow
+} from '../types/index.js';
+
+/**
+ * Directory Page Object for OrangeHRM
+ * Searches the employee directory, scrolls until every card is loaded and reads the card details
+ */
+export class DirectoryPage extends BasePage {
+  // Page URL
+  private readonly DIRECTORY_URL = '/web/index.php/directory/viewDirectory';
+
+  // Scroll attempts without new cards before the list is considered complete
+  private readonly MAX_IDLE_SCROLLS = 3;
+
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    // Filter form
+    filterForm: '.oxd-table-filter',
+    searchButton: `//div[contains(@class,'oxd-table-filter')]//button[@type='submit']`,
+    recordsFound: `//span[contains(normalize-space(),'Records Found') or contains(normalize-space(),'Record Found')]`,
+    loadingSpinner: '.oxd-loading-spinner',
+
+    // Cards
+    card: '.orangehrm-directory-card',
+    cardName: '.orangehrm-directory-card-header',
+    cardJobTitle: '.orangehrm-directory-card-subtitle',
+    cardDescription: '.orangehrm-directory-card-description',
+
+    // Detail flyout
+    flyout: '.orangehrm-corporate-directory-sidebar',
+    contactValue: (icon: string) => `xpath=.//i[contains(@class,'${icon}')]/following::p[1]`
+  };
+
+  // Flyout contact icons mapped to contact properties
+  private readonly contactIcons: Record<string, keyof DirectoryContact> = {
+    'bi-telephone': 'workPhone',
+    'bi-phone': 'mobilePhone',
+    'bi-envelope': 'workEmail'
+  };
+
+  constructor(page: Page) {
+    super(page);
+
+    logger.debug('DirectoryPage initialized');
+  }
+
+  /**
+   * Navigate to directory page
+   */
+  async open(): Promise<void> {
+    await this.allure.timedStep('Navigate to Directory Page', async () => {
+      await this.navigateTo(this.DIRECTORY_URL);
+      await this.waitForElement(this.selectors.filterForm);
+      await this.waitForCardsLoad();
+
+      logger.test.step('Navigate to Directory', 'navigation', {
+        url: `${this.baseURL}${this.DIRECTORY_URL}`
+      });
+    });
+  }
+
+  /**
+   * Wait until the card loader has disappeared
+   */
+  async waitForCardsLoad(): Promise<void> {
+    await this.page.locator(this.selectors.loadingSpinner).first()
+      .waitFor({ state: 'hidden', timeout: this.timeout })
+      .catch(() => undefined);
+  }
+
+  /**
+   * Search the directory and read every matching card
+   * @param criteria - Employee name, job title and/or location
+   * @returns Parsed cards of all results
+   */
+  async search(criteria: DirectorySearchCriteria): Promise<DirectoryCard[]> {
+    return await this.allure.timedStep('Search Directory', async () => {
+      this.allure.attachJSON('Search Criteria', criteria);
+
+      if (criteria.employeeName) {
+        await this.formGroup('Employee Name').autocomplete().select(criteria.employeeName);
+      }
+
+      const dropdowns: Array<[string, string | undefined]> = [
+        ['Job Title', criteria.jobTitle],
+        ['Location', criteria.location]
+      ];
+
+      for (const [label, value] of dropdowns) {
+        if (value) {
+          await this.formGroup(label).select().select(value);
+        }
+      }
+
+      await this.click(this.selectors.searchButton);
+      await this.waitForCardsLoad();
+
+      const cards = await this.getAllCards();
+
+      logger.test.step('Search Directory', 'search', {
+        criteria,
+        resultCount: cards.length
+      });
+
+      return cards;
+    });
+  }
+
+  /**
+   * Get the "(N) Records Found" count
+   * @returns Number of records found, undefined when the count is not shown
+   */
+  async getRecordCount(): Promise<number | undefined> {
+    const recordsFound = this.page.locator(this.selectors.recordsFound);
+
+    if ((await recordsFound.count()) === 0) {
+      return undefined;
+    }
+
+    const match = (await recordsFound.first().innerText()).match(/\((\d+)\)/);
+    return match ? parseInt(match[1]) : undefined;
+  }
+
+  /**
+   * Scroll the card list until every card is loaded
+   * Stops when the loaded cards reach the records found, or when scrolling stops adding cards
+   * @returns Number of loaded cards
+   */
+  async loadAllCards(): Promise<number> {
+    return await this.allure.timedStep('Load All Directory Cards', async () => {
+      const cards = this.page.locator(this.selectors.card);
+      const expected = await this.getRecordCount();
+
+      let loaded = await cards.count();
+      let idleScrolls = 0;
+      let scrolls = 0;
+
+      while (loaded > 0 && (expected === undefined || loaded < expected) && idleScrolls < this.MAX_IDLE_SCROLLS) {
+        await cards.last().scrollIntoViewIfNeeded({ timeout: this.timeout });
+        await this.page.mouse.wheel(0, 1000);
+        await this.waitForCardsLoad();
+        scrolls++;
+
+        const count = await cards.count();
+        idleScrolls = count > loaded ? 0 : idleScrolls + 1;
+        loaded = count;
+      }
+
+      this.allure.addParameter('Cards Loaded', loaded);
+      logger.test.step('Load All Directory Cards', 'scroll', { loaded, expected, scrolls });
+
+      return loaded;
+    });
+  }
+
+  /**
+   * Parse the loaded cards into typed objects
+   * @returns Cards loaded so far
+   */
+  async getCards(): Promise<DirectoryCard[]> {
+    const cards: DirectoryCard[] = [];
+
+    for (const card of await this.page.locator(this.selectors.card).all()) {
+      cards.push(await this.toDirectoryCard(card));
+    }
+
+    return cards;
+  }
+
+  /**
+   * Load every card and parse them into typed objects
+   * @returns All cards of the current results
+   */
+  async getAllCards(): Promise<DirectoryCard[]> {
+    return await this.allure.timedStep('Get All Directory Cards', async () => {
+      await this.loadAllCards();
+      const cards = await this.getCards();
+
+      this.allure.attachJSON('Directory Cards', cards);
+      return cards;
+    });
+  }
+
+  /**
+   * Read the name, job title and location of a card
+   * @param card - Card locator
+   * @returns Parsed card
+   */
+  private async toDirectoryCard(card: Locator): Promise<DirectoryCard> {
+    const readText = async (selector: string): Promise<string> => {
+      const element = card.locator(selector);
+      return (await element.count()) > 0 ? (await element.last().innerText()).replace(/\s+/g, ' ').trim() : '';
+    };
+
+    return {
+      name: await readText(this.selectors.cardName),
+      jobTitle: await readText(this.selectors.cardJobTitle),
+      location: await readText(this.selectors.cardDescription)
+    };
+  }
+
+  /**
+   * Open the detail flyout of an employee and read the contact information
+   * @param name - Employee name as shown on the card
+   * @returns Card details with the contact information shown in the flyout
+   */
+  async getContact(name: string): Promise<DirectoryContact> {
+    return await this.allure.timedStep(`Get Directory Contact: ${name}`, async () => {
+      const card = this.page.locator(this.selectors.card)
+        .filter({ has: this.page.locator(this.selectors.cardName, { hasText: name }) })
+        .first();
+
+      if ((await card.count()) === 0) {
+        throw new Error(`Directory card of '${name}' not found`);
+      }
+
+      await card.click({ timeout: this.timeout });
+
+      const flyout = this.page.locator(this.selectors.flyout).first();
+      await flyout.waitFor({ state: 'visible', timeout: this.timeout });
+
+      const contact: DirectoryContact = await this.toDirectoryCard(flyout);
+
+      for (const [icon, key] of Object.entries(this.contactIcons)) {
+        const value = flyout.locator(this.selectors.contactValue(icon));
+
+        if ((await value.count()) > 0) {
+          const text = (await value.first().innerText()).trim();
+
+          if (text) {
+            contact[key] = text;
+          }
+        }
+      }
+
+      this.allure.attachJSON('Directory Contact', contact);
+      logger.test.step('Get Directory Contact', 'read', { name });
+
+      return contact;
+    });
+  }
+
+  // Assertion methods for better test readability
+
+  /**
+   * Assert that every PIM employee record has a directory card with the same name and job title
+   * @param records - PIM employee list rows
+   * @param cards - Directory cards, every card of the current results when omitted
+   */
+  async shouldMatchEmployeeRecords(records: EmployeeListRow[], cards?: DirectoryCard[]): Promise<void> {
+    await this.allure.timedStep('Verify Directory Matches PIM Records', async () => {
+      const directoryCards = cards ?? await this.getAllCards();
+      const normalize = (name: string) => name.replace(/\s+/g, ' ').trim();
+
+      for (const record of records) {
+        const name = normalize(`${record.firstMiddleName} ${record.lastName}`);
+        const card = directoryCards.find(directoryCard => normalize(directoryCard.name) === name);
+
+        expect(card, `${name} should have a directory card`).toBeDefined();
+        expect(card!.jobTitle, `Job title of ${name}`).toBe(record.jobTitle);
+      }
+    });
+  }
+}
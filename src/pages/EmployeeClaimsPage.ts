@@ -0,0 +1,202 @@
+import { Page, expect } from '@playwright/test';
+import { BasePage } from './BasePage.js';
+import { ClaimRequestPage } from './ClaimRequestPage.js';
+import logger from '../config/logger.js';
+import type { ClaimListRow, ClaimSearchCriteria, ClaimStatus, OxdTableRow } from '../types/index.js';
+
+/**
+ * Employee Claims Page Object for OrangeHRM
+ * Searches the claims of all employees and opens their details for approval and payment
+ */
+export class EmployeeClaimsPage extends BasePage {
+  // Page URL, overridden by My Claims which shares the layout
+  protected readonly CLAIM_LIST_URL: string = '/web/index.php/claim/viewAssignClaim';
+
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    // Filter form
+    filterForm: '.oxd-table-filter',
+    searchButton: `//div[contains(@class,'oxd-table-filter')]//button[@type='submit']`,
+
+    // Row actions
+    rowCell: '.oxd-table-cell',
+    viewDetailsButton: `xpath=.//button[normalize-space()='View Details']`
+  };
+
+  // Table header text mapped to row properties
+  private readonly columnMap: Record<string, keyof ClaimListRow> = {
+    'Reference Id': 'referenceId',
+    'Employee Name': 'employeeName',
+    'Event Name': 'eventName',
+    'Description': 'description',
+    'Currency': 'currency',
+    'Submitted Date': 'submittedDate',
+    'Status': 'status',
+    'Amount': 'amount'
+  };
+
+  constructor(page: Page) {
+    super(page);
+
+    logger.debug(`${this.constructor.name} initialized`);
+  }
+
+  /**
+   * Navigate to the claim list
+   */
+  async open(): Promise<void> {
+    await this.allure.timedStep(`Navigate to ${this.constructor.name}`, async () => {
+      await this.navigateTo(this.CLAIM_LIST_URL);
+      await this.waitForElement(this.selectors.filterForm);
+      await this.table().waitForLoad();
+
+      logger.test.step(`Navigate to ${this.constructor.name}`, 'navigation', {
+        url: `${this.baseURL}${this.CLAIM_LIST_URL}`
+      });
+    });
+  }
+
+  /**
+   * Search claims with a combination of filters
+   * @param criteria - Search criteria
+   * @returns Parsed result rows
+   */
+  async search(criteria: ClaimSearchCriteria): Promise<ClaimListRow[]> {
+    return await this.allure.timedStep('Search Claims', async () => {
+      this.allure.attachJSON('Search Criteria', criteria);
+
+      if (criteria.employeeName) {
+        await this.formGroup('Employee Name').autocomplete().select(criteria.employeeName);
+      }
+
+      if (criteria.referenceId) {
+        await this.formGroup('Reference Id').autocomplete().select(criteria.referenceId);
+      }
+
+      const dropdowns: Array<[string, string | undefined]> = [
+        ['Event Name', criteria.eventName],
+        ['Status', criteria.status]
+      ];
+
+      for (const [label, value] of dropdowns) {
+        if (value) {
+          await this.formGroup(label).select().select(value);
+        }
+      }
+
+      if (criteria.fromDate) {
+        await this.formGroup('From Date').datePicker().setDate(criteria.fromDate);
+      }
+
+      if (criteria.toDate) {
+        await this.formGroup('To Date').datePicker().setDate(criteria.toDate);
+      }
+
+      await this.click(this.selectors.searchButton);
+      await this.table().waitForLoad();
+
+      const rows = await this.getRows();
+
+      logger.test.step('Search Claims', 'search', {
+        criteria,
+        resultCount: rows.length
+      });
+
+      return rows;
+    });
+  }
+
+  /**
+   * Parse the visible result rows into typed objects
+   * @returns Result rows
+   */
+  async getRows(): Promise<ClaimListRow[]> {
+    return await this.allure.timedStep('Get Claim Rows', async () => {
+      const rows = await this.table().getRows(row => this.toClaimRow(row));
+
+      this.allure.attachJSON('Claim Rows', rows);
+      return rows;
+    });
+  }
+
+  /**
+   * Map a header-keyed table row to a claim row
+   * @param row - Table row keyed by header text
+   * @returns Claim row
+   */
+  private toClaimRow(row: OxdTableRow): ClaimListRow {
+    const claimRow: ClaimListRow = {
+      referenceId: '',
+      employeeName: '',
+      eventName: '',
+      description: '',
+      currency: '',
+      submittedDate: '',
+      status: '',
+      amount: 0
+    };
+
+    for (const [header, key] of Object.entries(this.columnMap)) {
+      const value = (row[header] ?? '').replace(/\s+/g, ' ').trim();
+
+      if (key === 'amount') {
+        claimRow[key] = ClaimRequestPage.parseAmount(value);
+      } else {
+        claimRow[key] = value;
+      }
+    }
+
+    return claimRow;
+  }
+
+  /**
+   * Find a claim on the current page
+   * @param referenceId - Claim reference id
+   * @returns Parsed row or undefined if not found
+   */
+  async findClaim(referenceId: string): Promise<ClaimListRow | undefined> {
+    const rows = await this.getRows();
+    return rows.find(row => row.referenceId === referenceId);
+  }
+
+  /**
+   * Open the details of a claim on the current page
+   * @param referenceId - Claim reference id
+   * @returns Claim id of the opened claim
+   */
+  async viewDetails(referenceId: string): Promise<string> {
+    return await this.allure.timedStep(`View Claim Details: ${referenceId}`, async () => {
+      const row = this.table().rows.filter({
+        has: this.page.locator(this.selectors.rowCell, { hasText: referenceId })
+      }).first();
+
+      if ((await row.count()) === 0) {
+        throw new Error(`Claim '${referenceId}' not found in list`);
+      }
+
+      await row.locator(this.selectors.viewDetailsButton).click({ timeout: this.timeout });
+      await this.page.waitForURL(/\/id\/\d+/, { timeout: this.timeout });
+
+      return this.page.url().match(/\/id\/(\d+)/)![1];
+    });
+  }
+
+  // Assertion methods for better test readability
+
+  /**
+   * Assert that a claim is listed with a status and amount
+   * @param referenceId - Claim reference id
+   * @param status - Expected status
+   * @param amount - Expected amount, not checked when omitted
+   */
+  async shouldHaveClaim(referenceId: string, status: ClaimStatus, amount?: number): Promise<void> {
+    const claim = await this.findClaim(referenceId);
+
+    expect(claim, `Claim ${referenceId} should be listed`).toBeDefined();
+    expect(claim!.status).toBe(status);
+
+    if (amount !== undefined) {
+      expect(claim!.amount).toBe(amount);
+    }
+  }
+}
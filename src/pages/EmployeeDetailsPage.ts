@@ -0,0 +1,311 @@
+import { Page } from '@playwright/test';
+import { BasePage } from './BasePage.js';
+import logger from '../config/logger.js';
+import type { Address, Employee, JobDetails } from '../types/index.js';
+
+export type EmployeeTab =
+  | 'Personal Details'
+  | 'Contact Details'
+  | 'Emergency Contacts'
+  | 'Dependents'
+  | 'Immigration'
+  | 'Job'
+  | 'Salary'
+  | 'Report-to'
+  | 'Qualifications'
+  | 'Memberships';
+
+/**
+ * PIM Employee Details Page Object for OrangeHRM
+ * Fills and reads the Personal Details, Contact Details and Job tabs of an employee
+ */
+export class EmployeeDetailsPage extends BasePage {
+  // Page URLs per tab
+  private readonly TAB_URLS: Partial<Record<EmployeeTab, string>> = {
+    'Personal Details': '/web/index.php/pim/viewPersonalDetails/empNumber/',
+    'Contact Details': '/web/index.php/pim/contactDetails/empNumber/',
+    'Job': '/web/index.php/pim/viewJobDetails/empNumber/'
+  };
+
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    // Tabs
+    tab: (tab: EmployeeTab) => `//div[contains(@class,'orangehrm-tabs')]//a[normalize-space()='${tab}']`,
+
+    // Personal details
+    firstNameInput: 'input[name="firstName"]',
+    middleNameInput: 'input[name="middleName"]',
+    lastNameInput: 'input[name="lastName"]',
+
+    // First form on the tab (Personal Details and Custom Fields share the page)
+    saveButton: `(//form)[1]//button[@type='submit']`,
+
+    // Feedback
+    loadingSpinner: '.oxd-form-loader'
+  };
+
+  constructor(page: Page) {
+    super(page);
+
+    logger.debug('EmployeeDetailsPage initialized');
+  }
+
+  /**
+   * Get employee number from current URL
+   * @returns Employee number (internal id) or null when not on a details page
+   */
+  getEmpNumber(): string | null {
+    const match = this.page.url().match(/empNumber\/(\d+)/);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Navigate directly to a tab of an employee
+   * @param empNumber - Employee number (internal id from the URL)
+   * @param tab - Tab to open
+   */
+  async open(empNumber: string, tab: EmployeeTab = 'Personal Details'): Promise<void> {
+    await this.allure.timedStep(`Open Employee ${empNumber}: ${tab}`, async () => {
+      const tabUrl = this.TAB_URLS[tab];
+
+      if (tabUrl) {
+        await this.navigateTo(`${tabUrl}${empNumber}`);
+      } else {
+        await this.navigateTo(`${this.TAB_URLS['Personal Details']}${empNumber}`);
+        await this.openTab(tab);
+      }
+
+      await this.waitForFormLoad();
+    });
+  }
+
+  /**
+   * Switch to a tab of the current employee
+   * @param tab - Tab to open
+   */
+  async openTab(tab: EmployeeTab): Promise<void> {
+    await this.allure.timedStep(`Open Employee Tab: ${tab}`, async () => {
+      await this.click(this.selectors.tab(tab));
+      await this.waitForPageLoad();
+      await this.waitForFormLoad();
+
+      logger.test.step('Open Employee Tab', 'navigation', { tab });
+    });
+  }
+
+  /**
+   * Wait until the form loader disappears
+   */
+  async waitForFormLoad(): Promise<void> {
+    await this.page.locator(this.selectors.loadingSpinner).first()
+      .waitFor({ state: 'hidden', timeout: this.timeout })
+      .catch(() => undefined);
+  }
+
+  /**
+   * Fill an input by its label when a value is provided
+   * @param label - Form label of the input
+   * @param value - Value to fill
+   */
+  private async fillIfDefined(label: string, value?: string): Promise<void> {
+    if (value !== undefined) {
+      await this.formGroup(label).fill(value);
+    }
+  }
+
+  /**
+   * Save the current tab and wait for the success toast
+   */
+  async save(): Promise<void> {
+    await this.allure.timedStep('Save Employee Tab', async () => {
+      await this.click(this.selectors.saveButton);
+      await this.toast().waitForSuccess();
+      await this.waitForFormLoad();
+    });
+  }
+
+  /**
+   * Fill and save the Personal Details tab
+   * @param employee - Employee data
+   */
+  async fillPersonalDetails(employee: Employee): Promise<void> {
+    await this.allure.timedStep('Fill Personal Details', async () => {
+      await this.clearAndFill(this.selectors.firstNameInput, employee.firstName);
+      await this.clearAndFill(this.selectors.middleNameInput, employee.middleName || '');
+      await this.clearAndFill(this.selectors.lastNameInput, employee.lastName);
+      await this.fillIfDefined('Employee Id', employee.employeeId);
+
+      await this.save();
+
+      logger.test.step('Fill Personal Details', 'input', {
+        firstName: employee.firstName,
+        lastName: employee.lastName,
+        employeeId: employee.employeeId
+      });
+    });
+  }
+
+  /**
+   * Fill and save the Contact Details tab
+   * @param employee - Employee data with address, phone and email
+   */
+  async fillContactDetails(employee: Employee): Promise<void> {
+    await this.allure.timedStep('Fill Contact Details', async () => {
+      const address: Address = employee.address || {};
+
+      await this.fillIfDefined('Street 1', address.street1);
+      await this.fillIfDefined('Street 2', address.street2);
+      await this.fillIfDefined('City', address.city);
+      await this.fillIfDefined('State/Province', address.state);
+      await this.fillIfDefined('Zip/Postal Code', address.zipCode);
+
+      if (address.country) {
+        await this.formGroup('Country').select().select(address.country);
+      }
+
+      await this.fillIfDefined('Mobile', employee.phone);
+      await this.fillIfDefined('Work Email', employee.email);
+
+      await this.save();
+
+      logger.test.step('Fill Contact Details', 'input', {
+        address,
+        phone: employee.phone,
+        email: employee.email
+      });
+    });
+  }
+
+  /**
+   * Fill and save the Job tab
+   * The supervisor is assigned on the Report-to tab and is not handled here
+   * @param jobDetails - Job details
+   */
+  async fillJobDetails(jobDetails: JobDetails): Promise<void> {
+    await this.allure.timedStep('Fill Job Details', async () => {
+      if (jobDetails.joinedDate) {
+        await this.formGroup('Joined Date').datePicker().setDate(jobDetails.joinedDate);
+      }
+
+      const dropdowns: Array<[string, string | undefined]> = [
+        ['Job Title', jobDetails.jobTitle],
+        ['Sub Unit', jobDetails.department],
+        ['Location', jobDetails.location],
+        ['Employment Status', jobDetails.employmentStatus]
+      ];
+
+      for (const [label, value] of dropdowns) {
+        if (value) {
+          await this.formGroup(label).select().select(value);
+        }
+      }
+
+      await this.save();
+
+      this.allure.attachJSON('Job Details', jobDetails);
+      logger.test.step('Fill Job Details', 'input', { jobDetails });
+    });
+  }
+
+  /**
+   * Fill every tab the employee has data for
+   * @param empNumber - Employee number (internal id from the URL)
+   * @param employee - Employee data
+   */
+  async fillEmployee(empNumber: string, employee: Employee): Promise<void> {
+    await this.allure.timedStep(`Fill Employee: ${employee.firstName} ${employee.lastName}`, async () => {
+      await this.open(empNumber, 'Personal Details');
+      await this.fillPersonalDetails(employee);
+
+      if (employee.address || employee.phone || employee.email) {
+        await this.open(empNumber, 'Contact Details');
+        await this.fillContactDetails(employee);
+      }
+
+      if (employee.jobDetails) {
+        await this.open(empNumber, 'Job');
+        await this.fillJobDetails(employee.jobDetails);
+      }
+    });
+  }
+
+  /**
+   * Read the selected option of a dropdown by its label
+   * @param label - Form label of the dropdown
+   * @returns Selected option text, undefined when nothing is selected
+   */
+  private async getDropdownValue(label: string): Promise<string | undefined> {
+    return await this.formGroup(label).select().getSelected();
+  }
+
+  /**
+   * Read an input by its label
+   * @param label - Form label of the input
+   * @returns Input value, undefined when empty
+   */
+  private async getInputValue(label: string): Promise<string | undefined> {
+    const value = await this.formGroup(label).getValue();
+    return value || undefined;
+  }
+
+  /**
+   * Read the Personal Details tab
+   * @returns Employee names and id
+   */
+  async getPersonalDetails(): Promise<Employee> {
+    return await this.allure.timedStep('Get Personal Details', async () => {
+      const employee: Employee = {
+        firstName: await this.getValue(this.selectors.firstNameInput),
+        middleName: (await this.getValue(this.selectors.middleNameInput)) || undefined,
+        lastName: await this.getValue(this.selectors.lastNameInput),
+        employeeId: await this.getInputValue('Employee Id')
+      };
+
+      this.allure.attachJSON('Personal Details', employee);
+      return employee;
+    });
+  }
+
+  /**
+   * Read the Contact Details tab
+   * @returns Address, mobile phone and work email
+   */
+  async getContactDetails(): Promise<Pick<Employee, 'address' | 'phone' | 'email'>> {
+    return await this.allure.timedStep('Get Contact Details', async () => {
+      const contact = {
+        address: {
+          street1: await this.getInputValue('Street 1'),
+          street2: await this.getInputValue('Street 2'),
+          city: await this.getInputValue('City'),
+          state: await this.getInputValue('State/Province'),
+          zipCode: await this.getInputValue('Zip/Postal Code'),
+          country: await this.getDropdownValue('Country')
+        },
+        phone: await this.getInputValue('Mobile'),
+        email: await this.getInputValue('Work Email')
+      };
+
+      this.allure.attachJSON('Contact Details', contact);
+      return contact;
+    });
+  }
+
+  /**
+   * Read the Job tab
+   * @returns Job details
+   */
+  async getJobDetails(): Promise<JobDetails> {
+    return await this.allure.timedStep('Get Job Details', async () => {
+      const jobDetails: JobDetails = {
+        joinedDate: await this.getInputValue('Joined Date'),
+        jobTitle: await this.getDropdownValue('Job Title'),
+        department: await this.getDropdownValue('Sub Unit'),
+        location: await this.getDropdownValue('Location'),
+        employmentStatus: await this.getDropdownValue('Employment Status')
+      };
+
+      this.allure.attachJSON('Job Details', jobDetails);
+      return jobDetails;
+    });
+  }
+}
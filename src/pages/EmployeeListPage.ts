@@ -0,0 +1,310 @@
+import { Page, expect } from '@playwright/test';
+import { BasePage } from './BasePage.js';
+import logger from '../config/logger.js';
+import type {
+  Employee,
+  EmployeeListRow,
+  EmployeeSearchCriteria,
+  OxdSortDirection,
+  OxdTableRow
+} from '../types/index.js';
+
+/**
+ * PIM Employee List Page Object for OrangeHRM
+ * Handles employee search, result parsing and deletion
+ */
+export class EmployeeListPage extends BasePage {
+  // Page URL
+  private readonly EMPLOYEE_LIST_URL = '/web/index.php/pim/viewEmployeeList';
+
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    // Filter form
+    filterForm: '.oxd-table-filter',
+    searchButton: `//div[contains(@class,'oxd-table-filter')]//button[@type='submit']`,
+    resetButton: `//div[contains(@class,'oxd-table-filter')]//button[normalize-space()='Reset']`,
+    addButton: `//button[normalize-space()='Add']`,
+
+    // Row elements
+    rowCell: '.oxd-table-cell'
+  };
+
+  // Table header text mapped to row properties
+  private readonly columnMap: Record<string, keyof EmployeeListRow> = {
+    'Id': 'id',
+    'First (& Middle) Name': 'firstMiddleName',
+    'Last Name': 'lastName',
+    'Job Title': 'jobTitle',
+    'Employment Status': 'employmentStatus',
+    'Sub Unit': 'subUnit',
+    'Supervisor': 'supervisor'
+  };
+
+  constructor(page: Page) {
+    super(page);
+
+    logger.debug('EmployeeListPage initialized');
+  }
+
+  /**
+   * Navigate to employee list page
+   */
+  async open(): Promise<void> {
+    await this.allure.timedStep('Navigate to Employee List Page', async () => {
+      await this.navigateTo(this.EMPLOYEE_LIST_URL);
+      await this.waitForElement(this.selectors.filterForm);
+      await this.waitForTableLoad();
+
+      logger.test.step('Navigate to Employee List', 'navigation', {
+        url: `${this.baseURL}${this.EMPLOYEE_LIST_URL}`
+      });
+    });
+  }
+
+  /**
+   * Wait until the results table has finished loading
+   */
+  async waitForTableLoad(): Promise<void> {
+    await this.table().waitForLoad();
+  }
+
+  /**
+   * Search employees with a combination of filters
+   * Filters of a previous search are reset first, so only the given criteria apply
+   * @param criteria - Search criteria
+   * @returns Parsed result rows
+   */
+  async search(criteria: EmployeeSearchCriteria): Promise<EmployeeListRow[]> {
+    return await this.allure.timedStep('Search Employees', async () => {
+      this.allure.attachJSON('Search Criteria', criteria);
+      await this.resetFilters();
+
+      if (criteria.name !== undefined) {
+        // Partial names are allowed, so the hints are awaited but none is picked
+        await this.formGroup('Employee Name').autocomplete().type(criteria.name);
+      }
+
+      if (criteria.employeeId !== undefined) {
+        await this.formGroup('Employee Id').fill(criteria.employeeId);
+      }
+
+      const dropdowns: Array<[string, string | undefined]> = [
+        ['Employment Status', criteria.employmentStatus],
+        ['Include', criteria.include],
+        ['Job Title', criteria.jobTitle],
+        ['Sub Unit', criteria.subUnit]
+      ];
+
+      for (const [label, value] of dropdowns) {
+        if (value) {
+          await this.formGroup(label).select().select(value);
+        }
+      }
+
+      await this.click(this.selectors.searchButton);
+      await this.waitForTableLoad();
+
+      const rows = await this.getRows();
+
+      logger.test.step('Search Employees', 'search', {
+        criteria,
+        resultCount: rows.length
+      });
+
+      return rows;
+    });
+  }
+
+  /**
+   * Search employees by name
+   * @param name - Employee first, middle or last name
+   * @returns Parsed result rows
+   */
+  async searchByName(name: string): Promise<EmployeeListRow[]> {
+    return await this.search({ name });
+  }
+
+  /**
+   * Search employees by employee id
+   * @param employeeId - Employee id
+   * @returns Parsed result rows
+   */
+  async searchById(employeeId: string): Promise<EmployeeListRow[]> {
+    return await this.search({ employeeId });
+  }
+
+  /**
+   * Search employees by employment status
+   * @param employmentStatus - Employment status (e.g. Full-Time Permanent)
+   * @returns Parsed result rows
+   */
+  async searchByStatus(employmentStatus: string): Promise<EmployeeListRow[]> {
+    return await this.search({ employmentStatus });
+  }
+
+  /**
+   * Reset all filters
+   */
+  async resetFilters(): Promise<void> {
+    await this.allure.timedStep('Reset Employee Filters', async () => {
+      await this.click(this.selectors.resetButton);
+      await this.waitForTableLoad();
+    });
+  }
+
+  /**
+   * Parse the visible result rows into typed objects
+   * @returns Result rows
+   */
+  async getRows(): Promise<EmployeeListRow[]> {
+    return await this.allure.timedStep('Get Employee Rows', async () => {
+      const rows = await this.table().getRows(row => this.toEmployeeRow(row));
+
+      this.allure.attachJSON('Employee Rows', rows);
+      logger.test.step('Get Employee Rows', 'read', { count: rows.length });
+
+      return rows;
+    });
+  }
+
+  /**
+   * Parse the result rows of every page into typed objects
+   * @returns Result rows of all pages
+   */
+  async getAllRows(): Promise<EmployeeListRow[]> {
+    return await this.allure.timedStep('Get All Employee Rows', async () => {
+      const rows = await this.table().getAllRows(row => this.toEmployeeRow(row));
+
+      this.allure.attachJSON('Employee Rows', rows);
+      logger.test.step('Get All Employee Rows', 'read', { count: rows.length });
+
+      return rows;
+    });
+  }
+
+  /**
+   * Sort the results by a column
+   * @param column - Column header (e.g. Last Name)
+   * @param direction - Sort direction
+   */
+  async sortBy(column: string, direction: OxdSortDirection = 'Ascending'): Promise<void> {
+    await this.table().sortBy(column, direction);
+  }
+
+  /**
+   * Map a header-keyed table row to an employee row
+   * @param row - Table row keyed by header text
+   * @returns Employee row
+   */
+  private toEmployeeRow(row: OxdTableRow): EmployeeListRow {
+    const employeeRow: EmployeeListRow = {
+      id: '',
+      firstMiddleName: '',
+      lastName: '',
+      jobTitle: '',
+      employmentStatus: '',
+      subUnit: '',
+      supervisor: ''
+    };
+
+    for (const [header, key] of Object.entries(this.columnMap)) {
+      employeeRow[key] = row[header] || '';
+    }
+
+    return employeeRow;
+  }
+
+  /**
+   * Get the "(N) Records Found" count
+   * @returns Number of records found, 0 when no records
+   */
+  async getRecordCount(): Promise<number> {
+    return await this.allure.timedStep('Get Employee Record Count', async () => {
+      const count = await this.table().getRecordCount();
+
+      this.allure.addParameter('Records Found', count);
+      return count;
+    });
+  }
+
+  /**
+   * Find a row by employee id in the current results
+   * @param employeeId - Employee id
+   * @returns Matching row or undefined
+   */
+  async findRowById(employeeId: string): Promise<EmployeeListRow | undefined> {
+    const rows = await this.getRows();
+    return rows.find(row => row.id === employeeId);
+  }
+
+  /**
+   * Open an employee's details by clicking the result row
+   * @param employeeId - Employee id
+   */
+  async openEmployee(employeeId: string): Promise<void> {
+    await this.allure.timedStep(`Open Employee: ${employeeId}`, async () => {
+      await this.searchById(employeeId);
+
+      const row = await this.table().getRow('Id', employeeId);
+      await row.locator(this.selectors.rowCell).nth(2).click({ timeout: this.timeout });
+      await this.page.waitForURL('**/pim/viewPersonalDetails/empNumber/**');
+      await this.waitForPageLoad();
+    });
+  }
+
+  /**
+   * Delete an employee through the row delete action and confirmation dialog
+   * @param employeeId - Employee id
+   */
+  async deleteEmployee(employeeId: string): Promise<void> {
+    await this.allure.timedStep(`Delete Employee: ${employeeId}`, async () => {
+      const rows = await this.searchById(employeeId);
+      if (!rows.some(row => row.id === employeeId)) {
+        throw new Error(`Employee ${employeeId} not found in employee list`);
+      }
+
+      await this.table().deleteRow('Id', employeeId);
+
+      this.allure.addParameter('Deleted Employee Id', employeeId);
+      logger.test.step('Delete Employee', 'delete', { employeeId });
+    });
+  }
+
+  /**
+   * Click the Add button to open the Add Employee form
+   */
+  async clickAdd(): Promise<void> {
+    await this.allure.timedStep('Click Add Employee', async () => {
+      await this.click(this.selectors.addButton);
+      await this.page.waitForURL('**/pim/addEmployee');
+    });
+  }
+
+  // Assertion methods for better test readability
+
+  /**
+   * Assert an employee is listed with matching names
+   * @param employee - Expected employee
+   */
+  async shouldContainEmployee(employee: Employee): Promise<void> {
+    if (!employee.employeeId) {
+      throw new Error('Employee id is required to look up the employee list');
+    }
+
+    const rows = await this.searchById(employee.employeeId);
+    const row = rows.find(r => r.id === employee.employeeId);
+
+    expect(row, `Employee ${employee.employeeId} should be listed`).toBeDefined();
+    expect(row!.firstMiddleName).toBe([employee.firstName, employee.middleName].filter(Boolean).join(' '));
+    expect(row!.lastName).toBe(employee.lastName);
+  }
+
+  /**
+   * Assert an employee is not listed
+   * @param employeeId - Employee id
+   */
+  async shouldNotContainEmployee(employeeId: string): Promise<void> {
+    const rows = await this.searchById(employeeId);
+    expect(rows.some(row => row.id === employeeId)).toBe(false);
+  }
+}
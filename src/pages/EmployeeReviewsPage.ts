@@ -0,0 +1,10 @@
+import { ReviewListPage } from './ReviewListPage.js';
+
+/**
+ * Employee Reviews Page Object for OrangeHRM
+ * Reviews the logged-in user is the reviewer of, where "Evaluate" opens the supervisor evaluation
+ */
+export class EmployeeReviewsPage extends ReviewListPage {
+  // Page URL
+  protected readonly REVIEW_LIST_URL: string = '/web/index.php/performance/searchEvaluatePerformanceReview';
+}
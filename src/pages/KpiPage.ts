@@ -0,0 +1,202 @@
+import { Page, expect } from '@playwright/test';
+import { BasePage } from './BasePage.js';
+import logger from '../config/logger.js';
+import type { Kpi, KpiListRow, OxdTableRow } from '../types/index.js';
+
+/**
+ * Performance KPIs Page Object for OrangeHRM
+ * Configures the Key Performance Indicators a review of a job title is rated on
+ */
+export class KpiPage extends BasePage {
+  // Page URLs
+  private readonly KPI_LIST_URL = '/web/index.php/performance/searchKpi';
+  private readonly SAVE_KPI_URL = '/web/index.php/performance/saveKpi';
+
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    // Filter form
+    filterForm: '.oxd-table-filter',
+    searchButton: `//div[contains(@class,'oxd-table-filter')]//button[@type='submit']`,
+
+    // KPI form
+    kpiForm: '.orangehrm-card-container form',
+    saveButton: `//form//button[@type='submit']`,
+    fieldError: '.oxd-input-field-error-message'
+  };
+
+  // Table header text mapped to row properties
+  private readonly columnMap: Record<string, keyof KpiListRow> = {
+    'Key Performance Indicator': 'indicator',
+    'Job Title': 'jobTitle',
+    'Min Rate': 'minRate',
+    'Max Rate': 'maxRate',
+    'Is Default': 'isDefault'
+  };
+
+  constructor(page: Page) {
+    super(page);
+
+    logger.debug('KpiPage initialized');
+  }
+
+  /**
+   * Navigate to the KPI list
+   */
+  async open(): Promise<void> {
+    await this.allure.timedStep('Navigate to KPIs Page', async () => {
+      await this.navigateTo(this.KPI_LIST_URL);
+      await this.waitForElement(this.selectors.filterForm);
+      await this.table().waitForLoad();
+
+      logger.test.step('Navigate to KPIs', 'navigation', {
+        url: `${this.baseURL}${this.KPI_LIST_URL}`
+      });
+    });
+  }
+
+  /**
+   * Search the KPIs of a job title
+   * @param jobTitle - Job title
+   * @returns Parsed result rows
+   */
+  async search(jobTitle: string): Promise<KpiListRow[]> {
+    return await this.allure.timedStep(`Search KPIs: ${jobTitle}`, async () => {
+      await this.formGroup('Job Title').select().select(jobTitle);
+      await this.click(this.selectors.searchButton);
+      await this.table().waitForLoad();
+
+      const rows = await this.getAllRows();
+
+      logger.test.step('Search KPIs', 'search', { jobTitle, resultCount: rows.length });
+
+      return rows;
+    });
+  }
+
+  /**
+   * Parse the result rows of every page into typed objects
+   * @returns Result rows
+   */
+  async getAllRows(): Promise<KpiListRow[]> {
+    return await this.allure.timedStep('Get KPI Rows', async () => {
+      const rows = await this.table().getAllRows(row => this.toKpiRow(row));
+
+      this.allure.attachJSON('KPI Rows', rows);
+      return rows;
+    });
+  }
+
+  /**
+   * Map a header-keyed table row to a KPI row
+   * @param row - Table row keyed by header text
+   * @returns KPI row
+   */
+  private toKpiRow(row: OxdTableRow): KpiListRow {
+    const kpiRow: KpiListRow = {
+      indicator: '',
+      jobTitle: '',
+      minRate: 0,
+      maxRate: 0,
+      isDefault: false
+    };
+
+    for (const [header, key] of Object.entries(this.columnMap)) {
+      const value = (row[header] ?? '').trim();
+
+      if (key === 'minRate' || key === 'maxRate') {
+        kpiRow[key] = parseFloat(value) || 0;
+      } else if (key === 'isDefault') {
+        kpiRow[key] = value === 'Yes';
+      } else {
+        kpiRow[key] = value;
+      }
+    }
+
+    return kpiRow;
+  }
+
+  /**
+   * Add a KPI for a job title
+   * @param kpi - KPI data, the form defaults apply to omitted ratings
+   */
+  async addKpi(kpi: Kpi): Promise<void> {
+    await this.allure.timedStep(`Add KPI: ${kpi.indicator}`, async () => {
+      this.allure.attachJSON('KPI', kpi);
+
+      await this.navigateTo(this.SAVE_KPI_URL);
+      await this.waitForElement(this.selectors.kpiForm);
+
+      await this.formGroup('Key Performance Indicator').fill(kpi.indicator);
+      await this.formGroup('Job Title').select().select(kpi.jobTitle);
+
+      if (kpi.minRating !== undefined) {
+        await this.formGroup('Minimum Rating').fill(kpi.minRating.toString());
+      }
+
+      if (kpi.maxRating !== undefined) {
+        await this.formGroup('Maximum Rating').fill(kpi.maxRating.toString());
+      }
+
+      if (kpi.isDefault !== undefined) {
+        await this.formGroup('Make Default Scale').checkbox().setChecked(kpi.isDefault);
+      }
+
+      await this.click(this.selectors.saveButton);
+      await this.toast().waitForSuccess();
+      await this.page.waitForURL(`**${this.KPI_LIST_URL}`, { timeout: this.timeout });
+
+      logger.test.step('Add KPI', 'create', { indicator: kpi.indicator, jobTitle: kpi.jobTitle });
+    });
+  }
+
+  /**
+   * Add the KPIs of a job title that are not configured yet
+   * @param kpis - KPIs, typically all for one job title
+   */
+  async ensureKpis(kpis: Kpi[]): Promise<void> {
+    await this.allure.timedStep('Ensure KPIs', async () => {
+      for (const kpi of kpis) {
+        await this.open();
+        const existing = await this.search(kpi.jobTitle);
+
+        if (!existing.some(row => row.indicator === kpi.indicator)) {
+          await this.addKpi(kpi);
+        }
+      }
+    });
+  }
+
+  /**
+   * Get the validation messages shown on the KPI form
+   * @returns Field error texts
+   */
+  async getFieldErrors(): Promise<string[]> {
+    return await this.getAllText(this.selectors.fieldError);
+  }
+
+  /**
+   * Delete a KPI from the current result page
+   * @param indicator - Key performance indicator
+   */
+  async deleteKpi(indicator: string): Promise<void> {
+    await this.allure.timedStep(`Delete KPI: ${indicator}`, async () => {
+      await this.table().deleteRow('Key Performance Indicator', indicator);
+
+      logger.test.step('Delete KPI', 'delete', { indicator });
+    });
+  }
+
+  // Assertion methods for better test readability
+
+  /**
+   * Assert that a job title has a KPI
+   * @param jobTitle - Job title
+   * @param indicator - Key performance indicator
+   */
+  async shouldHaveKpi(jobTitle: string, indicator: string): Promise<void> {
+    await this.open();
+    const indicators = (await this.search(jobTitle)).map(row => row.indicator);
+
+    expect(indicators, `KPIs of ${jobTitle}`).toContain(indicator);
+  }
+}
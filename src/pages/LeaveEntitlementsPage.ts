@@ -0,0 +1,214 @@
+import { Page } from '@playwright/test';
+import { BasePage } from './BasePage.js';
+import logger from '../config/logger.js';
+import type { LeaveEntitlement, LeaveEntitlementRow, OxdTableRow } from '../types/index.js';
+
+/**
+ * Leave Entitlements Page Object for OrangeHRM
+ * Adds entitlements and reads them per employee, leave type and leave period
+ */
+export class LeaveEntitlementsPage extends BasePage {
+  // Page URLs
+  private readonly ADD_ENTITLEMENT_URL = '/web/index.php/leave/addLeaveEntitlement';
+  private readonly VIEW_ENTITLEMENTS_URL = '/web/index.php/leave/viewLeaveEntitlements';
+  private readonly MY_ENTITLEMENTS_URL = '/web/index.php/leave/viewMyLeaveEntitlements';
+
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    // Add form
+    entitlementForm: '.orangehrm-card-container form',
+    saveButton: `//form//button[@type='submit']`,
+    fieldError: '.oxd-input-field-error-message',
+
+    // Entitlement list
+    filterForm: '.oxd-table-filter',
+    searchButton: `//div[contains(@class,'oxd-table-filter')]//button[@type='submit']`,
+    totalDays: `//div[contains(@class,'orangehrm-horizontal-padding')]//span[starts-with(normalize-space(),'Total')]`
+  };
+
+  // Table header text mapped to row properties
+  private readonly columnMap: Record<string, keyof LeaveEntitlementRow> = {
+    'Leave Type': 'leaveType',
+    'Entitlement Type': 'entitlementType',
+    'Valid From': 'validFrom',
+    'Valid To': 'validTo',
+    'Days': 'days'
+  };
+
+  constructor(page: Page) {
+    super(page);
+
+    logger.debug('LeaveEntitlementsPage initialized');
+  }
+
+  /**
+   * Navigate to add entitlement page
+   */
+  async openAdd(): Promise<void> {
+    await this.allure.timedStep('Navigate to Add Entitlement Page', async () => {
+      await this.navigateTo(this.ADD_ENTITLEMENT_URL);
+      await this.waitForElement(this.selectors.entitlementForm);
+
+      logger.test.step('Navigate to Add Entitlement', 'navigation', {
+        url: `${this.baseURL}${this.ADD_ENTITLEMENT_URL}`
+      });
+    });
+  }
+
+  /**
+   * Navigate to employee entitlements page
+   */
+  async openView(): Promise<void> {
+    await this.allure.timedStep('Navigate to Employee Entitlements Page', async () => {
+      await this.navigateTo(this.VIEW_ENTITLEMENTS_URL);
+      await this.waitForElement(this.selectors.filterForm);
+
+      logger.test.step('Navigate to Employee Entitlements', 'navigation', {
+        url: `${this.baseURL}${this.VIEW_ENTITLEMENTS_URL}`
+      });
+    });
+  }
+
+  /**
+   * Navigate to the entitlements of the logged-in user
+   */
+  async openMyEntitlements(): Promise<void> {
+    await this.allure.timedStep('Navigate to My Entitlements Page', async () => {
+      await this.navigateTo(this.MY_ENTITLEMENTS_URL);
+      await this.waitForElement(this.selectors.filterForm);
+      await this.table().waitForLoad();
+
+      logger.test.step('Navigate to My Entitlements', 'navigation', {
+        url: `${this.baseURL}${this.MY_ENTITLEMENTS_URL}`
+      });
+    });
+  }
+
+  /**
+   * Add an entitlement to an individual employee
+   * Adding to an existing entitlement asks for confirmation, which is accepted
+   * @param entitlement - Entitlement to add
+   */
+  async addEntitlement(entitlement: LeaveEntitlement): Promise<void> {
+    await this.allure.timedStep(`Add Entitlement: ${entitlement.employeeName}`, async () => {
+      this.allure.attachJSON('Leave Entitlement', entitlement);
+
+      await this.formGroup('Employee Name').autocomplete().select(entitlement.employeeName);
+      await this.formGroup('Leave Type').select().select(entitlement.leaveType);
+
+      if (entitlement.leavePeriod) {
+        await this.formGroup('Leave Period').select().select(entitlement.leavePeriod);
+      }
+
+      await this.formGroup('Entitlement').fill(entitlement.entitlement.toString());
+      await this.click(this.selectors.saveButton);
+
+      await this.confirmDialog().confirm('Confirm');
+      await this.toast().waitForSuccess();
+      await this.page.waitForURL(`**${this.VIEW_ENTITLEMENTS_URL}**`, { timeout: this.timeout });
+      await this.table().waitForLoad();
+
+      logger.test.step('Add Entitlement', 'create', {
+        employeeName: entitlement.employeeName,
+        leaveType: entitlement.leaveType,
+        entitlement: entitlement.entitlement
+      });
+    });
+  }
+
+  /**
+   * Get the validation messages shown on the add form
+   * @returns Field error texts
+   */
+  async getFieldErrors(): Promise<string[]> {
+    return await this.getAllText(this.selectors.fieldError);
+  }
+
+  /**
+   * Search the entitlements of an employee
+   * @param employeeName - Employee name
+   * @param leaveType - Leave type, all types when omitted
+   * @param leavePeriod - Leave period, the current period when omitted
+   * @returns Entitlement rows
+   */
+  async searchEntitlements(employeeName: string, leaveType?: string, leavePeriod?: string): Promise<LeaveEntitlementRow[]> {
+    return await this.allure.timedStep(`Search Entitlements: ${employeeName}`, async () => {
+      await this.formGroup('Employee Name').autocomplete().select(employeeName);
+
+      if (leaveType) {
+        await this.formGroup('Leave Type').select().select(leaveType);
+      }
+
+      if (leavePeriod) {
+        await this.formGroup('Leave Period').select().select(leavePeriod);
+      }
+
+      await this.click(this.selectors.searchButton);
+
+      const rows = await this.getRows();
+
+      logger.test.step('Search Entitlements', 'search', {
+        employeeName,
+        leaveType,
+        resultCount: rows.length
+      });
+
+      return rows;
+    });
+  }
+
+  /**
+   * Parse the visible entitlement rows into typed objects
+   * @returns Entitlement rows
+   */
+  async getRows(): Promise<LeaveEntitlementRow[]> {
+    return await this.allure.timedStep('Get Entitlement Rows', async () => {
+      const rows = await this.table().getRows(row => this.toEntitlementRow(row));
+
+      this.allure.attachJSON('Entitlement Rows', rows);
+      return rows;
+    });
+  }
+
+  /**
+   * Map a header-keyed table row to an entitlement row
+   * @param row - Table row keyed by header text
+   * @returns Entitlement row
+   */
+  private toEntitlementRow(row: OxdTableRow): LeaveEntitlementRow {
+    const entitlementRow: LeaveEntitlementRow = {
+      leaveType: '',
+      entitlementType: '',
+      validFrom: '',
+      validTo: '',
+      days: 0
+    };
+
+    for (const [header, key] of Object.entries(this.columnMap)) {
+      const value = row[header] ?? '';
+
+      if (key === 'days') {
+        entitlementRow[key] = parseFloat(value) || 0;
+      } else {
+        entitlementRow[key] = value;
+      }
+    }
+
+    return entitlementRow;
+  }
+
+  /**
+   * Get the "Total N Day(s)" shown above the entitlement list
+   * @returns Total entitled days
+   */
+  async getTotalEntitlement(): Promise<number> {
+    await this.table().waitForLoad();
+
+    if (!(await this.elementExists(this.selectors.totalDays))) {
+      return 0;
+    }
+
+    const text = await this.getText(this.selectors.totalDays);
+    return parseFloat(text.match(/\d+(\.\d+)?/)?.[0] || '0');
+  }
+}
@@ -0,0 +1,313 @@
+import { Locator, Page, expect } from '@playwright/test';
+import { BasePage } from './BasePage.js';
+import logger from '../config/logger.js';
+import type {
+  LeaveAction,
+  LeaveListRow,
+  LeaveSearchCriteria,
+  LeaveStatus,
+  OxdTableRow
+} from '../types/index.js';
+
+/**
+ * Leave List Page Object for OrangeHRM
+ * Searches leave requests of all employees and approves, rejects or cancels them
+ */
+export class LeaveListPage extends BasePage {
+  // Page URL, overridden by the My Leave list which shares the layout
+  protected readonly LEAVE_LIST_URL: string = '/web/index.php/leave/viewLeaveList';
+
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    // Filter form
+    filterForm: '.oxd-table-filter',
+    searchButton: `//div[contains(@class,'oxd-table-filter')]//button[@type='submit']`,
+    resetButton: `//div[contains(@class,'oxd-table-filter')]//button[normalize-space()='Reset']`,
+    statusChipRemove: '.oxd-chip .oxd-icon',
+
+    // Row actions
+    rowCell: '.oxd-table-cell',
+    actionButton: (action: LeaveAction) => `xpath=.//button[normalize-space()='${action}']`,
+    moreActions: '.bi-three-dots-vertical',
+    moreActionsItem: (action: LeaveAction) =>
+      `xpath=//ul[contains(@class,'oxd-dropdown-menu')]//p[normalize-space()='${action} Leave']`
+  };
+
+  // Table header text mapped to row properties
+  private readonly columnMap: Record<string, keyof LeaveListRow> = {
+    'Date': 'date',
+    'Employee Name': 'employeeName',
+    'Leave Type': 'leaveType',
+    'Leave Balance (Days)': 'leaveBalance',
+    'Number of Days': 'numberOfDays',
+    'Status': 'status',
+    'Comments': 'comments'
+  };
+
+  constructor(page: Page) {
+    super(page);
+
+    logger.debug(`${this.constructor.name} initialized`);
+  }
+
+  /**
+   * Navigate to the leave list
+   */
+  async open(): Promise<void> {
+    await this.allure.timedStep('Navigate to Leave List Page', async () => {
+      await this.navigateTo(this.LEAVE_LIST_URL);
+      await this.waitForElement(this.selectors.filterForm);
+      await this.waitForTableLoad();
+
+      logger.test.step('Navigate to Leave List', 'navigation', {
+        url: `${this.baseURL}${this.LEAVE_LIST_URL}`
+      });
+    });
+  }
+
+  /**
+   * Wait until the results table has finished loading
+   */
+  async waitForTableLoad(): Promise<void> {
+    await this.table().waitForLoad();
+  }
+
+  /**
+   * Search leave requests with a combination of filters
+   * Statuses replace the default "Pending Approval" filter when given
+   * @param criteria - Search criteria
+   * @returns Parsed result rows
+   */
+  async search(criteria: LeaveSearchCriteria): Promise<LeaveListRow[]> {
+    return await this.allure.timedStep('Search Leave Requests', async () => {
+      this.allure.attachJSON('Search Criteria', criteria);
+
+      if (criteria.fromDate) {
+        await this.formGroup('From Date').datePicker().setDate(criteria.fromDate);
+      }
+
+      if (criteria.toDate) {
+        await this.formGroup('To Date').datePicker().setDate(criteria.toDate);
+      }
+
+      if (criteria.statuses) {
+        await this.setStatuses(criteria.statuses);
+      }
+
+      if (criteria.employeeName) {
+        await this.formGroup('Employee Name').autocomplete().select(criteria.employeeName);
+      }
+
+      const dropdowns: Array<[string, string | undefined]> = [
+        ['Leave Type', criteria.leaveType],
+        ['Sub Unit', criteria.subUnit]
+      ];
+
+      for (const [label, value] of dropdowns) {
+        if (value) {
+          await this.formGroup(label).select().select(value);
+        }
+      }
+
+      await this.click(this.selectors.searchButton);
+      await this.waitForTableLoad();
+
+      const rows = await this.getRows();
+
+      logger.test.step('Search Leave Requests', 'search', {
+        criteria,
+        resultCount: rows.length
+      });
+
+      return rows;
+    });
+  }
+
+  /**
+   * Replace the statuses of the "Show Leave with Status" filter
+   * @param statuses - Statuses to show
+   */
+  private async setStatuses(statuses: LeaveStatus[]): Promise<void> {
+    const statusGroup = this.formGroup('Show Leave with Status');
+    const removeIcons = statusGroup.root.locator(this.selectors.statusChipRemove);
+
+    while ((await removeIcons.count()) > 0) {
+      await removeIcons.first().click({ timeout: this.timeout });
+    }
+
+    for (const status of statuses) {
+      await statusGroup.select().select(status);
+    }
+  }
+
+  /**
+   * Reset all filters
+   */
+  async resetFilters(): Promise<void> {
+    await this.allure.timedStep('Reset Leave Filters', async () => {
+      await this.click(this.selectors.resetButton);
+      await this.waitForTableLoad();
+    });
+  }
+
+  /**
+   * Parse the visible result rows into typed objects
+   * @returns Result rows
+   */
+  async getRows(): Promise<LeaveListRow[]> {
+    return await this.allure.timedStep('Get Leave Rows', async () => {
+      const rows = await this.table().getRows(row => this.toLeaveRow(row));
+
+      this.allure.attachJSON('Leave Rows', rows);
+      logger.test.step('Get Leave Rows', 'read', { count: rows.length });
+
+      return rows;
+    });
+  }
+
+  /**
+   * Parse the result rows of every page into typed objects
+   * @returns Result rows of all pages
+   */
+  async getAllRows(): Promise<LeaveListRow[]> {
+    return await this.allure.timedStep('Get All Leave Rows', async () => {
+      const rows = await this.table().getAllRows(row => this.toLeaveRow(row));
+
+      this.allure.attachJSON('Leave Rows', rows);
+      logger.test.step('Get All Leave Rows', 'read', { count: rows.length });
+
+      return rows;
+    });
+  }
+
+  /**
+   * Map a header-keyed table row to a leave row
+   * @param row - Table row keyed by header text
+   * @returns Leave row
+   */
+  private toLeaveRow(row: OxdTableRow): LeaveListRow {
+    const leaveRow: LeaveListRow = {
+      date: '',
+      employeeName: '',
+      leaveType: '',
+      leaveBalance: 0,
+      numberOfDays: 0,
+      status: '',
+      comments: ''
+    };
+
+    for (const [header, key] of Object.entries(this.columnMap)) {
+      const value = (row[header] ?? '').replace(/\s+/g, ' ').trim();
+
+      if (key === 'leaveBalance' || key === 'numberOfDays') {
+        leaveRow[key] = parseFloat(value) || 0;
+      } else {
+        leaveRow[key] = value;
+      }
+    }
+
+    return leaveRow;
+  }
+
+  /**
+   * Find a leave request on the current page
+   * @param employeeName - Employee name as shown in the list
+   * @param date - Date cell text (e.g. "2025-01-15" or "2025-01-15 to 2025-01-17"), any date when omitted
+   * @returns Parsed row or undefined if not found
+   */
+  async findLeave(employeeName: string, date?: string): Promise<LeaveListRow | undefined> {
+    const rows = await this.getRows();
+    return rows.find(row => row.employeeName === employeeName && (!date || row.date === date));
+  }
+
+  /**
+   * Row of a leave request on the current page
+   * @param employeeName - Employee name as shown in the list
+   * @param date - Date cell text, any date when omitted
+   * @returns Row locator
+   */
+  private leaveRow(employeeName: string, date?: string): Locator {
+    let row = this.table().rows.filter({
+      has: this.page.locator(this.selectors.rowCell, { hasText: employeeName })
+    });
+
+    if (date) {
+      row = row.filter({ has: this.page.locator(this.selectors.rowCell, { hasText: date }) });
+    }
+
+    return row.first();
+  }
+
+  /**
+   * Approve, reject or cancel a leave request
+   * Uses the inline button, or the "..." menu when the action is not shown inline
+   * @param action - Leave action
+   * @param employeeName - Employee name as shown in the list
+   * @param date - Date cell text, any date when omitted
+   */
+  async performAction(action: LeaveAction, employeeName: string, date?: string): Promise<void> {
+    await this.allure.timedStep(`${action} Leave: ${employeeName}`, async () => {
+      const row = this.leaveRow(employeeName, date);
+
+      if ((await row.count()) === 0) {
+        throw new Error(`Leave request of '${employeeName}'${date ? ` on ${date}` : ''} not found in list`);
+      }
+
+      const actionButton = row.locator(this.selectors.actionButton(action));
+
+      if ((await actionButton.count()) > 0) {
+        await actionButton.click({ timeout: this.timeout });
+      } else {
+        await row.locator(this.selectors.moreActions).click({ timeout: this.timeout });
+        await this.page.locator(this.selectors.moreActionsItem(action)).click({ timeout: this.timeout });
+      }
+
+      await this.toast().waitForSuccess();
+      await this.waitForTableLoad();
+
+      logger.test.step(`${action} Leave`, 'update', { employeeName, date });
+    });
+  }
+
+  /**
+   * Approve a leave request
+   * @param employeeName - Employee name as shown in the list
+   * @param date - Date cell text, any date when omitted
+   */
+  async approveLeave(employeeName: string, date?: string): Promise<void> {
+    await this.performAction('Approve', employeeName, date);
+  }
+
+  /**
+   * Reject a leave request
+   * @param employeeName - Employee name as shown in the list
+   * @param date - Date cell text, any date when omitted
+   */
+  async rejectLeave(employeeName: string, date?: string): Promise<void> {
+    await this.performAction('Reject', employeeName, date);
+  }
+
+  /**
+   * Cancel a leave request
+   * @param employeeName - Employee name as shown in the list
+   * @param date - Date cell text, any date when omitted
+   */
+  async cancelLeave(employeeName: string, date?: string): Promise<void> {
+    await this.performAction('Cancel', employeeName, date);
+  }
+
+  // Assertion methods for better test readability
+
+  /**
+   * Assert that a leave request has a status
+   * @param employeeName - Employee name as shown in the list
+   * @param status - Expected status (the status cell also shows the day count, e.g. "Scheduled (1.00)")
+   * @param date - Date cell text, any date when omitted
+   */
+  async shouldHaveStatus(employeeName: string, status: LeaveStatus, date?: string): Promise<void> {
+    const leave = await this.findLeave(employeeName, date);
+
+    expect(leave, `Leave request of ${employeeName} should be listed`).toBeDefined();
+    expect(leave!.status).toContain(status);
+  }
+}
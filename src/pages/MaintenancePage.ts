@@ -0,0 +1,285 @@
+import { Page, expect } from '@playwright/test';
+import fs from 'fs/promises';
+import path from 'path';
+import { BasePage } from './BasePage.js';
+import logger from '../config/logger.js';
+import { configManager } from '../config/configManager.js';
+import { TestUtils } from '../utils/testUtils.js';
+import type { AccessRecordsDownload, OxdTableRow, PurgeCandidateRow } from '../types/index.js';
+
+/**
+ * Maintenance Page Object for OrangeHRM
+ * Passes the "Administrator Access" password prompt, purges past employee and candidate records
+ * and downloads the personal data of an employee from Access Records
+ */
+export class MaintenancePage extends BasePage {
+  // Page URLs
+  private readonly PURGE_EMPLOYEE_URL = '/web/index.php/maintenance/purgeEmployee';
+  private readonly PURGE_CANDIDATE_URL = '/web/index.php/maintenance/purgeCandidateData';
+  private readonly ACCESS_RECORDS_URL = '/web/index.php/maintenance/accessEmployeeData';
+
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    // Administrator Access prompt
+    adminAccessForm: `//h6[normalize-space()='Administrator Access']/ancestor::div[contains(@class,'orangehrm-card-container')]`,
+    passwordInput: 'input[name="password"]',
+    confirmButton: `//button[@type='submit'][normalize-space()='Confirm']`,
+
+    // Search forms
+    searchForm: '.orangehrm-card-container form',
+    searchButton: `//form//button[@type='submit'][normalize-space()='Search']`,
+    employeeCard: '.orangehrm-employee-card, .orangehrm-purge-employee',
+    actionButton: (text: 'Purge' | 'Purge All' | 'Download') => `//button[normalize-space()='${text}']`,
+    fieldError: '.oxd-input-field-error-message'
+  };
+
+  // Candidate table header text mapped to row properties
+  private readonly candidateColumnMap: Record<string, keyof PurgeCandidateRow> = {
+    'Vacancy': 'vacancy',
+    'Candidate': 'candidate',
+    'Date of Application': 'dateOfApplication',
+    'Status': 'status'
+  };
+
+  constructor(page: Page) {
+    super(page);
+
+    logger.debug('MaintenancePage initialized');
+  }
+
+  /**
+   * Navigate to a Maintenance screen, passing the password prompt when it is shown
+   * @param url - Maintenance screen URL
+   */
+  private async openScreen(url: string): Promise<void> {
+    await this.navigateTo(url);
+    await this.waitForPageLoad();
+
+    if (await this.isVisible(this.selectors.adminAccessForm)) {
+      await this.verifyAdminAccess();
+      await this.navigateTo(url);
+    }
+
+    await this.waitForElement(this.selectors.searchForm);
+  }
+
+  /**
+   * Re-enter the configured password on the "Administrator Access" prompt
+   */
+  async verifyAdminAccess(): Promise<void> {
+    await this.allure.timedStep('Verify Administrator Access', async () => {
+      await this.fill(this.selectors.passwordInput, configManager.get('PASSWORD'));
+      await this.click(this.selectors.confirmButton);
+      await this.waitForElementToBeHidden(this.selectors.adminAccessForm);
+
+      logger.test.step('Verify Administrator Access', 'authentication', {
+        username: configManager.get('USERNAME')
+      });
+    });
+  }
+
+  /**
+   * Navigate to Purge Employee Records
+   */
+  async openPurgeEmployees(): Promise<void> {
+    await this.allure.timedStep('Navigate to Purge Employee Records', async () => {
+      await this.openScreen(this.PURGE_EMPLOYEE_URL);
+
+      logger.test.step('Navigate to Purge Employee Records', 'navigation', {
+        url: `${this.baseURL}${this.PURGE_EMPLOYEE_URL}`
+      });
+    });
+  }
+
+  /**
+   * Navigate to Purge Candidate Records
+   */
+  async openPurgeCandidates(): Promise<void> {
+    await this.allure.timedStep('Navigate to Purge Candidate Records', async () => {
+      await this.openScreen(this.PURGE_CANDIDATE_URL);
+
+      logger.test.step('Navigate to Purge Candidate Records', 'navigation', {
+        url: `${this.baseURL}${this.PURGE_CANDIDATE_URL}`
+      });
+    });
+  }
+
+  /**
+   * Navigate to Access Records
+   */
+  async openAccessRecords(): Promise<void> {
+    await this.allure.timedStep('Navigate to Access Records', async () => {
+      await this.openScreen(this.ACCESS_RECORDS_URL);
+
+      logger.test.step('Navigate to Access Records', 'navigation', {
+        url: `${this.baseURL}${this.ACCESS_RECORDS_URL}`
+      });
+    });
+  }
+
+  /**
+   * Get the past employees the "Past Employee" field suggests for a name
+   * @param name - Name or part of it
+   * @returns Suggested employee names
+   */
+  async searchPastEmployees(name: string): Promise<string[]> {
+    return await this.allure.timedStep(`Search Past Employees: ${name}`, async () => {
+      const suggestions = await this.formGroup('Past Employee').autocomplete().getSuggestions(name);
+
+      this.allure.attachJSON('Past Employees', suggestions);
+      logger.test.step('Search Past Employees', 'search', { name, resultCount: suggestions.length });
+
+      return suggestions;
+    });
+  }
+
+  /**
+   * Select an employee in a search form and show their details card
+   * @param label - Employee field label
+   * @param employeeName - Employee name as suggested
+   */
+  private async selectEmployee(label: string, employeeName: string): Promise<void> {
+    await this.formGroup(label).autocomplete().select(employeeName);
+    await this.click(this.selectors.searchButton);
+    await this.waitForElement(this.selectors.employeeCard);
+  }
+
+  /**
+   * Purge every record of a past employee
+   * @param employeeName - Past employee name as suggested
+   */
+  async purgeEmployee(employeeName: string): Promise<void> {
+    await this.allure.timedStep(`Purge Employee: ${employeeName}`, async () => {
+      await this.selectEmployee('Past Employee', employeeName);
+
+      await this.click(this.selectors.actionButton('Purge'));
+      await this.confirmDialog().confirm('Yes, Purge');
+      await this.toast().waitForSuccess();
+
+      logger.test.step('Purge Employee', 'delete', { employeeName });
+    });
+  }
+
+  /**
+   * List the candidates of a vacancy that can be purged
+   * @param vacancy - Vacancy name as suggested
+   * @returns Candidate rows
+   */
+  async searchCandidates(vacancy: string): Promise<PurgeCandidateRow[]> {
+    return await this.allure.timedStep(`Search Candidates to Purge: ${vacancy}`, async () => {
+      await this.formGroup('Vacancy').autocomplete().select(vacancy);
+      await this.click(this.selectors.searchButton);
+
+      const rows = await this.table().getRows(row => this.toCandidateRow(row));
+
+      this.allure.attachJSON('Candidates', rows);
+      logger.test.step('Search Candidates to Purge', 'search', { vacancy, resultCount: rows.length });
+
+      return rows;
+    });
+  }
+
+  /**
+   * Map a header-keyed table row to a candidate row
+   * @param row - Table row keyed by header text
+   * @returns Candidate row
+   */
+  private toCandidateRow(row: OxdTableRow): PurgeCandidateRow {
+    const candidateRow = {} as PurgeCandidateRow;
+
+    for (const [header, key] of Object.entries(this.candidateColumnMap)) {
+      candidateRow[key] = (row[header] ?? '').trim();
+    }
+
+    return candidateRow;
+  }
+
+  /**
+   * Purge every candidate of a vacancy
+   * @param vacancy - Vacancy name as suggested
+   * @returns Number of purged candidates
+   */
+  async purgeCandidates(vacancy: string): Promise<number> {
+    return await this.allure.timedStep(`Purge Candidates: ${vacancy}`, async () => {
+      const candidates = await this.searchCandidates(vacancy);
+
+      if (candidates.length === 0) {
+        logger.test.step('Purge Candidates', 'skip', { vacancy });
+        return 0;
+      }
+
+      await this.click(this.selectors.actionButton('Purge All'));
+      await this.confirmDialog().confirm('Yes, Purge');
+      await this.toast().waitForSuccess();
+
+      logger.test.step('Purge Candidates', 'delete', { vacancy, count: candidates.length });
+
+      return candidates.length;
+    });
+  }
+
+  /**
+   * Download and parse the personal data of an employee from Access Records
+   * @param employeeName - Employee name as suggested
+   * @returns Downloaded file and its parsed contents
+   */
+  async downloadAccessRecords(employeeName: string): Promise<AccessRecordsDownload> {
+    return await this.allure.timedStep(`Download Access Records: ${employeeName}`, async () => {
+      await this.selectEmployee('Employee Name', employeeName);
+
+      const filePath = await TestUtils.handleDownload(this.page, async () => {
+        await this.click(this.selectors.actionButton('Download'));
+      });
+
+      const content = await fs.readFile(filePath, 'utf-8');
+      let data: Record<string, unknown>;
+
+      try {
+        data = JSON.parse(content);
+      } catch (error) {
+        throw new Error(`Access Records download '${filePath}' is not valid JSON: ${(error as Error).message}`);
+      }
+
+      const download: AccessRecordsDownload = { filePath, fileName: path.basename(filePath), data };
+
+      this.allure.attachJSON('Access Records', data);
+      logger.test.step('Download Access Records', 'download', { employeeName, fileName: download.fileName });
+
+      return download;
+    });
+  }
+
+  /**
+   * Get the validation messages shown on the current form
+   * @returns Field error texts
+   */
+  async getFieldErrors(): Promise<string[]> {
+    return await this.getAllText(this.selectors.fieldError);
+  }
+
+  // Assertion methods for better test readability
+
+  /**
+   * Assert that a past employee is no longer suggested for purging
+   * @param employeeName - Employee name
+   */
+  async shouldNotHavePastEmployee(employeeName: string): Promise<void> {
+    const suggestions = await this.searchPastEmployees(employeeName);
+    expect(suggestions, `${employeeName} should no longer be a past employee`).not.toContain(employeeName);
+  }
+
+  /**
+   * Assert that downloaded personal data belongs to an employee
+   * The names are looked up anywhere in the file since its sections differ between versions
+   * @param download - Parsed Access Records download
+   * @param firstName - Expected first name
+   * @param lastName - Expected last name
+   */
+  async shouldContainPersonalData(download: AccessRecordsDownload, firstName: string, lastName: string): Promise<void> {
+    const content = JSON.stringify(download.data);
+
+    expect(Object.keys(download.data).length, 'Access Records download should not be empty').toBeGreaterThan(0);
+    expect(content, `Access Records should contain the first name ${firstName}`).toContain(firstName);
+    expect(content, `Access Records should contain the last name ${lastName}`).toContain(lastName);
+  }
+}
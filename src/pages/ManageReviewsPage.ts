@@ -0,0 +1,50 @@
+import { ReviewListPage } from './ReviewListPage.js';
+import logger from '../config/logger.js';
+import type { PerformanceReview } from '../types/index.js';
+
+/**
+ * Manage Performance Reviews Page Object for OrangeHRM
+ * Lists the reviews of all employees and creates new ones
+ */
+export class ManageReviewsPage extends ReviewListPage {
+  // Page URLs
+  protected readonly REVIEW_LIST_URL: string = '/web/index.php/performance/searchPerformanceReview';
+  private readonly ADD_REVIEW_URL = '/web/index.php/performance/addPerformanceReview';
+
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    // Review form
+    reviewForm: '.orangehrm-card-container form',
+    formButton: (text: 'Save' | 'Activate') => `//form//button[normalize-space()='${text}']`
+  };
+
+  /**
+   * Create a review for an employee
+   * @param review - Employee, reviewer, review period and due date
+   * @param activate - Activate the review so the employee and reviewer can evaluate it, otherwise it stays Inactive
+   */
+  async createReview(review: PerformanceReview, activate: boolean = true): Promise<void> {
+    await this.allure.timedStep(`Create Review: ${review.employeeName}`, async () => {
+      this.allure.attachJSON('Review', review);
+
+      await this.navigateTo(this.ADD_REVIEW_URL);
+      await this.waitForElement(this.selectors.reviewForm);
+
+      await this.formGroup('Employee Name').autocomplete().select(review.employeeName);
+      await this.formGroup('Supervisor Reviewer').autocomplete().select(review.reviewer);
+      await this.formGroup('From Date').datePicker().setDate(review.startDate);
+      await this.formGroup('To Date').datePicker().setDate(review.endDate);
+      await this.formGroup('Due Date').datePicker().setDate(review.dueDate);
+
+      await this.click(this.selectors.formButton(activate ? 'Activate' : 'Save'));
+      await this.toast().waitForSuccess();
+      await this.page.waitForURL(`**${this.REVIEW_LIST_URL}`, { timeout: this.timeout });
+
+      logger.test.step('Create Review', 'create', {
+        employeeName: review.employeeName,
+        reviewer: review.reviewer,
+        activated: activate
+      });
+    });
+  }
+}
@@ -0,0 +1,10 @@
+import { EmployeeClaimsPage } from './EmployeeClaimsPage.js';
+
+/**
+ * My Claims Page Object for OrangeHRM
+ * Same list as Employee Claims restricted to the logged-in user, without the employee filter
+ */
+export class MyClaimsPage extends EmployeeClaimsPage {
+  // Page URL
+  protected readonly CLAIM_LIST_URL: string = '/web/index.php/claim/viewClaim';
+}
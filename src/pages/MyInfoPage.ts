@@ -0,0 +1,76 @@
+import { Page } from '@playwright/test';
+import { BasePage } from './BasePage.js';
+import logger from '../config/logger.js';
+import { PersonalDetailsTab } from './myInfo/PersonalDetailsTab.js';
+import { ContactDetailsTab } from './myInfo/ContactDetailsTab.js';
+import { EmergencyContactsTab } from './myInfo/EmergencyContactsTab.js';
+import { DependentsTab } from './myInfo/DependentsTab.js';
+import { ImmigrationTab } from './myInfo/ImmigrationTab.js';
+import { JobTab } from './myInfo/JobTab.js';
+import { SalaryTab } from './myInfo/SalaryTab.js';
+import { ReportToTab } from './myInfo/ReportToTab.js';
+import { QualificationsTab } from './myInfo/QualificationsTab.js';
+import type { MyInfoTab } from './myInfo/MyInfoTab.js';
+
+/**
+ * My Info Page Object for OrangeHRM
+ * Exposes one sub-object per tab; each reads and saves its own data and handles the tab attachments
+ * Pass an employee number to use the same tabs on another employee as Admin
+ */
+export class MyInfoPage extends BasePage {
+  // Tabs
+  readonly personalDetails: PersonalDetailsTab;
+  readonly contactDetails: ContactDetailsTab;
+  readonly emergencyContacts: EmergencyContactsTab;
+  readonly dependents: DependentsTab;
+  readonly immigration: ImmigrationTab;
+  readonly job: JobTab;
+  readonly salary: SalaryTab;
+  readonly reportTo: ReportToTab;
+  readonly qualifications: QualificationsTab;
+
+  /**
+   * @param page - Page instance
+   * @param empNumber - Employee number, the logged-in user when omitted
+   */
+  constructor(page: Page, empNumber?: string) {
+    super(page);
+
+    this.personalDetails = new PersonalDetailsTab(page, empNumber);
+    this.contactDetails = new ContactDetailsTab(page, empNumber);
+    this.emergencyContacts = new EmergencyContactsTab(page, empNumber);
+    this.dependents = new DependentsTab(page, empNumber);
+    this.immigration = new ImmigrationTab(page, empNumber);
+    this.job = new JobTab(page, empNumber);
+    this.salary = new SalaryTab(page, empNumber);
+    this.reportTo = new ReportToTab(page, empNumber);
+    this.qualifications = new QualificationsTab(page, empNumber);
+
+    logger.debug('MyInfoPage initialized');
+  }
+
+  /**
+   * Every tab in menu order
+   * @returns Tab sub-objects
+   */
+  get tabs(): MyInfoTab[] {
+    return [
+      this.personalDetails,
+      this.contactDetails,
+      this.emergencyContacts,
+      this.dependents,
+      this.immigration,
+      this.job,
+      this.salary,
+      this.reportTo,
+      this.qualifications
+    ];
+  }
+
+  /**
+   * Navigate to My Info (Personal Details of the logged-in user)
+   */
+  async open(): Promise<void> {
+    await this.personalDetails.open();
+  }
+}
@@ -0,0 +1,10 @@
+import { LeaveListPage } from './LeaveListPage.js';
+
+/**
+ * My Leave Page Object for OrangeHRM
+ * Same list as Leave List restricted to the logged-in user, where the only action is Cancel
+ */
+export class MyLeavePage extends LeaveListPage {
+  // Page URL
+  protected readonly LEAVE_LIST_URL: string = '/web/index.php/leave/viewMyLeaveList';
+}
@@ -0,0 +1,10 @@
+import { ReviewListPage } from './ReviewListPage.js';
+
+/**
+ * My Reviews Page Object for OrangeHRM
+ * Reviews of the logged-in user, where "Evaluate" opens the self-evaluation
+ */
+export class MyReviewsPage extends ReviewListPage {
+  // Page URL
+  protected readonly REVIEW_LIST_URL: string = '/web/index.php/performance/myPerformanceReview';
+}
@@ -1,15 +1,13 @@
 import { BasePage } from "./BasePage";
 import { Page, expect } from "@playwright/test";
 import logger from "../config/logger.js";
+import { MENU_ITEMS, getMenuItem } from "../config/menuItems.js";
+import { TestUtils } from "../utils/testUtils.js";
+import type { MenuItem, MenuItemName, NavigationOptions, NavigationOptionsData } from "../types/index.js";
 
 export class Nav extends BasePage {
-  // Page URL
-  private readonly ADMIN_URL = "/web/index.php/admin/viewSystemUsers";
-  private readonly PIM_URL = "/web/index.php/pim/viewEmployeeList";
-  private readonly RECRUITMENT_URL = "/web/index.php/recruitment/viewCandidates";
-  private readonly PERFORMANCE_URL = "/web/index.php/performance/searchEvaluatePerformanceReview";
-  private readonly DIRECTORY_URL = "/web/index.php/directory/viewDirectory";
-  private readonly CLAIM_URL = "/web/index.php/claim/viewAssignClaim";
+  // Test data
+  private readonly NAV_OPTIONS_FILE = "test-data/nav-options.json";
 
   // Selectors - organized by functionality
   private readonly selectors = {
@@ -19,13 +17,11 @@ export class Nav extends BasePage {
     // Search
     searchField: `//*[@class='oxd-main-menu-search']/input`,
 
-    // Navigation Page
-    admin: `//*[text() = 'Admin']/parent::*`,
-    pim: `//*[text() = 'PIM']/parent::*`,
-    recruitment: `//*[text() = 'Recruitment']/parent::*`,
-    performance: `//*[text() = 'Performance']/parent::*`,
-    directory: `//*[text() = 'Directory']/parent::*`,
-    claim: `//*[text() = 'Claim']/parent::*`,
+    // Main menu
+    mainMenu: ".oxd-main-menu",
+    menuItemNames: ".oxd-main-menu-item--name",
+    menuItem: (label: string) =>
+      `//a[contains(@class,'oxd-main-menu-item')][.//span[normalize-space()='${label}']]`,
   };
 
   constructor(page: Page) {
@@ -35,101 +31,86 @@ export class Nav extends BasePage {
   }
 
   /**
-   * Navigate to login page
-   * @param waitForLoad - Whether to wait for page load completion
+   * Resolve a menu item from its name or registry entry
+   * @param menuItem - Menu item or its name
+   * @returns Menu item
    */
-  async navigateToAdmin(waitForLoad: boolean = true): Promise<void> {
-    await this.allure.timedStep("Navigate to Admin Page", async () => {
-      await this.click(this.selectors.admin);
+  private resolve(menuItem: MenuItem | MenuItemName): MenuItem {
+    return typeof menuItem === "string" ? getMenuItem(menuItem) : menuItem;
+  }
 
-      if (waitForLoad) {
-        await this.waitForPageLoad();
-      }
+  /**
+   * Navigate to a module through the main menu
+   * A plain URL keeps the BasePage behaviour of navigating directly
+   * @param target - Menu item, its name, or a URL
+   * @param options - Whether to wait for the module to load (menu item) or navigation options (URL)
+   */
+  async navigateTo(url: string, options?: NavigationOptions): Promise<void>;
+  async navigateTo(menuItem: MenuItem | MenuItemName, waitForLoad?: boolean): Promise<void>;
+  async navigateTo(target: MenuItem | string, options: NavigationOptions | boolean = {}): Promise<void> {
+    if (typeof target === "string" && !(target in MENU_ITEMS)) {
+      await super.navigateTo(target, typeof options === "boolean" ? {} : options);
+      return;
+    }
 
-      this.allure.addParameter("Admin URL", `${this.baseURL}${this.ADMIN_URL}`);
-      logger.test.step("Navigate to Login", "navigation", {
-        url: `${this.baseURL}${this.ADMIN_URL}`,
-      });
-    });
-  }
+    const item = this.resolve(target as MenuItem | MenuItemName);
+    const waitForLoad = options !== false;
 
-  async navigateToPIM(waitForLoad: boolean = true): Promise<void> {
-    await this.allure.timedStep("Navigate to PIM Page", async () => {
-      await this.click(this.selectors.pim);
+    await this.allure.timedStep(`Navigate to ${item.label} Page`, async () => {
+      await this.click(this.selectors.menuItem(item.label));
 
       if (waitForLoad) {
+        // Module links redirect to the default screen of the module, so only the module segment is checked
+        const moduleSegment = `/${item.url.split("/")[3]}/`;
+        await this.page.waitForURL(url => url.pathname.includes(moduleSegment), { timeout: this.timeout });
         await this.waitForPageLoad();
       }
 
-      this.allure.addParameter("PIM URL", `${this.baseURL}${this.PIM_URL}`);
-      logger.test.step("Navigate to PIM", "navigation", {
-        url: `${this.baseURL}${this.PIM_URL}`,
+      this.allure.addParameter(`${item.label} URL`, `${this.baseURL}${item.url}`);
+      logger.test.step(`Navigate to ${item.label}`, "navigation", {
+        url: `${this.baseURL}${item.url}`,
       });
     });
   }
 
-  async navigateToRecruitment(waitForLoad: boolean = true): Promise<void> {
-    await this.allure.timedStep("Navigate to Recruiment Page", async () => {
-      await this.click(this.selectors.recruitment);
+  async navigateToAdmin(waitForLoad: boolean = true): Promise<void> {
+    await this.navigateTo(MENU_ITEMS.Admin, waitForLoad);
+  }
 
-      if (waitForLoad) {
-        await this.waitForPageLoad();
-      }
+  async navigateToPIM(waitForLoad: boolean = true): Promise<void> {
+    await this.navigateTo(MENU_ITEMS.PIM, waitForLoad);
+  }
 
-      this.allure.addParameter("Recruiment URL", `${this.baseURL}${this.RECRUITMENT_URL}`);
-      logger.test.step("Navigate to Recruiment", "navigation", {
-        url: `${this.baseURL}${this.RECRUITMENT_URL}`,
-      });
-    });
+  async navigateToLeave(waitForLoad: boolean = true): Promise<void> {
+    await this.navigateTo(MENU_ITEMS.Leave, waitForLoad);
   }
 
-  async navigateToPerformance(waitForLoad: boolean = true): Promise<void> {
-    await this.allure.timedStep("Navigate to Performance Page", async () => {
-      await this.click(this.selectors.performance);
+  async navigateToRecruitment(waitForLoad: boolean = true): Promise<void> {
+    await this.navigateTo(MENU_ITEMS.Recruitment, waitForLoad);
+  }
 
-      if (waitForLoad) {
-        await this.waitForPageLoad();
-      }
+  async navigateToMyInfo(waitForLoad: boolean = true): Promise<void> {
+    await this.navigateTo(MENU_ITEMS["My Info"], waitForLoad);
+  }
 
-      this.allure.addParameter("Performance URL", `${this.baseURL}${this.PERFORMANCE_URL}`);
-      logger.test.step("Navigate to Performance", "navigation", {
-        url: `${this.baseURL}${this.PERFORMANCE_URL}`,
-      });
-    });
+  async navigateToPerformance(waitForLoad: boolean = true): Promise<void> {
+    await this.navigateTo(MENU_ITEMS.Performance, waitForLoad);
   }
 
   async navigateToDirectory(waitForLoad: boolean = true): Promise<void> {
-    await this.allure.timedStep("Navigate to Directory Page", async () => {
-      await this.click(this.selectors.directory);
-
-      if (waitForLoad) {
-        await this.waitForPageLoad();
-      }
-
-      this.allure.addParameter("Directory URL", `${this.baseURL}${this.DIRECTORY_URL}`);
-      logger.test.step("Navigate to Directory", "navigation", {
-        url: `${this.baseURL}${this.DIRECTORY_URL}`,
-      });
-    });
+    await this.navigateTo(MENU_ITEMS.Directory, waitForLoad);
   }
 
   async navigateToClaim(waitForLoad: boolean = true): Promise<void> {
-    await this.allure.timedStep("Navigate to Claim Page", async () => {
-      await this.click(this.selectors.claim);
-
-      if (waitForLoad) {
-        await this.waitForPageLoad();
-      }
+    await this.navigateTo(MENU_ITEMS.Claim, waitForLoad);
+  }
 
-      this.allure.addParameter("Claim URL", `${this.baseURL}${this.CLAIM_URL}`);
-      logger.test.step("Navigate to Claim", "navigation", {
-        url: `${this.baseURL}${this.CLAIM_URL}`,
-      });
-    });
+  async navigateToBuzz(waitForLoad: boolean = true): Promise<void> {
+    await this.navigateTo(MENU_ITEMS.Buzz, waitForLoad);
   }
 
   async enterSearch(value: string): Promise<void> {
-    await this.allure.timedStep("Navigate to Claim Page", async () => {
+    await this.allure.timedStep("Enter Nav Search", async () => {
         await this.fill(this.selectors.searchField, value)
 
         logger.test.step("Enter Nav Search", "Enter Text", {
@@ -138,65 +119,77 @@ export class Nav extends BasePage {
     });
   }
 
-  async isAdminOptionDisplay(): Promise<Boolean>{
-    return await this.allure.timedStep('Check if Admin Option display', async () => {
-      return await this.elementExists(this.selectors.admin)
-    });
-  }
+  /**
+   * Check if a menu item is shown in the main menu
+   * @param name - Menu item name
+   * @returns True if the menu item is visible
+   */
+  async isMenuItemVisible(name: MenuItemName): Promise<boolean> {
+    return await this.allure.timedStep(`Check if ${name} Option display`, async () => {
+      await this.waitForElement(this.selectors.mainMenu);
+      const isVisible = await this.isVisible(this.selectors.menuItem(getMenuItem(name).label));
 
-  async isPIMOptionDisplay(): Promise<Boolean>{
-    return await this.allure.timedStep('Check if PIM Option display', async () => {
-      return await this.elementExists(this.selectors.pim)
+      this.allure.addParameter(`${name} Visible`, isVisible);
+      return isVisible;
     });
   }
 
-  async isPerformanceOptionDisplay(): Promise<Boolean>{
-    return await this.allure.timedStep('Check if Performance Option display', async () => {
-      return await this.elementExists(this.selectors.performance)
-    });
-  }
+  /**
+   * Get the menu items currently shown in the main menu
+   * @returns Visible menu items in menu order
+   */
+  async getVisibleMenuItems(): Promise<MenuItem[]> {
+    return await this.allure.timedStep("Get Visible Menu Items", async () => {
+      await this.waitForElement(this.selectors.mainMenu);
 
-  async isRecruitmentOptionDisplay(): Promise<Boolean>{
-    return await this.allure.timedStep('Check if Recruitment Option display', async () => {
-      return await this.elementExists(this.selectors.recruitment)
-    });
-  }
+      const labels = (await this.page.locator(this.selectors.menuItemNames).allInnerTexts())
+        .map(label => label.trim());
+      const menuItems = Object.values(MENU_ITEMS).filter(item => labels.includes(item.label));
+
+      this.allure.attachJSON("Visible Menu Items", menuItems.map(item => item.name));
+      logger.test.step("Get Visible Menu Items", "read", { labels });
 
-  async isDirectoryOptionDisplay(): Promise<Boolean>{
-    return await this.allure.timedStep('Check if Directory Option display', async () => {
-      return await this.elementExists(this.selectors.directory)
+      return menuItems;
     });
   }
 
-  async isClaimOptionDisplay(): Promise<Boolean>{
-    return await this.allure.timedStep('Check if Claim Option display', async () => {
-      return await this.elementExists(this.selectors.claim)
-    });
+  /**
+   * Load the menu items expected per role
+   * @returns Role to menu item names
+   */
+  async loadNavigationOptions(): Promise<Record<string, MenuItemName[]>> {
+    const data = await TestUtils.loadTestData<NavigationOptionsData>(this.NAV_OPTIONS_FILE);
+    return data.navigationOptions;
   }
 
-  /** For Demo reason, we only choose some of the nav bar */
-  // Admin permission
-  async verifyNavAdmin(): Promise<void> {
-    await this.allure.timedStep("Verify Navigation tab for Admin", async () => {
-      await Promise.all([
-        this.waitForElement(this.selectors.admin),
-        this.waitForElement(this.selectors.pim),
-        this.waitForElement(this.selectors.performance),
-        this.waitForElement(this.selectors.directory),
-        this.waitForElement(this.selectors.claim),
-        this.waitForElement(this.selectors.recruitment),
-      ])
-    })
-  }
-
-  // Admin permission
-  async verifyNavESS(): Promise<void> {
-    await this.allure.timedStep("Verify Navigation tab for Admin", async () => {
-      await Promise.all([
-        this.waitForElement(this.selectors.performance),
-        this.waitForElement(this.selectors.directory),
-        this.waitForElement(this.selectors.claim),
-      ])
-    })
+  /**
+   * Verify the main menu of a role
+   * Every expected item must be visible and no item restricted to other roles may be shown
+   * @param role - Account role
+   * @param expectedItems - Expected menu items, defaults to the role entry of nav-options.json
+   */
+  async verifyNavForRole(role: string, expectedItems?: MenuItemName[]): Promise<void> {
+    await this.allure.timedStep(`Verify Navigation tab for ${role}`, async () => {
+      const expected = expectedItems ?? (await this.loadNavigationOptions())[role];
+
+      if (!expected) {
+        throw new Error(`No navigation options defined for role '${role}' in ${this.NAV_OPTIONS_FILE}`);
+      }
+
+      const visible = (await this.getVisibleMenuItems()).map(item => item.name);
+      const forbidden = Object.values(MENU_ITEMS)
+        .filter(item => !item.roles.includes(role))
+        .map(item => item.name);
+
+      this.allure.attachJSON(`${role} Navigation`, { expected, visible, forbidden });
+
+      for (const name of expected) {
+        expect(visible, `${name} should be visible for ${role}`).toContain(name);
+      }
+
+      for (const name of forbidden) {
+        expect(visible, `${name} should not be visible for ${role}`).not.toContain(name);
+      }
+    });
   }
 }
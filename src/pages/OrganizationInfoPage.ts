@@ -0,0 +1,113 @@
+import { Page } from '@playwright/test';
+import { BasePage } from './BasePage.js';
+import logger from '../config/logger.js';
+import type { OrganizationInfo } from '../types/index.js';
+
+/**
+ * Organization General Information Page Object for OrangeHRM
+ * A single read-only form that becomes editable through the "Edit" switch
+ */
+export class OrganizationInfoPage extends BasePage {
+  // Page URL
+  private readonly ORGANIZATION_INFO_URL = '/web/index.php/admin/viewOrganizationGeneralInformation';
+
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    form: '.orangehrm-card-container form',
+    editSwitch: '.oxd-switch-input',
+    saveButton: `//form//button[@type='submit']`,
+    formLoader: '.oxd-form-loader'
+  };
+
+  // Form labels mapped to organization info properties
+  private readonly inputFields: Array<[string, keyof OrganizationInfo]> = [
+    ['Organization Name', 'organizationName'],
+    ['Registration Number', 'registrationNumber'],
+    ['Tax ID', 'taxId'],
+    ['Phone', 'phone'],
+    ['Fax', 'fax'],
+    ['Email', 'email'],
+    ['Address Street 1', 'street1'],
+    ['Address Street 2', 'street2'],
+    ['City', 'city'],
+    ['State/Province', 'state'],
+    ['Zip/Postal Code', 'zipCode'],
+    ['Notes', 'notes']
+  ];
+
+  constructor(page: Page) {
+    super(page);
+
+    logger.debug('OrganizationInfoPage initialized');
+  }
+
+  /**
+   * Navigate to the general information form
+   */
+  async open(): Promise<void> {
+    await this.allure.timedStep('Navigate to Organization General Information', async () => {
+      await this.navigateTo(this.ORGANIZATION_INFO_URL);
+      await this.waitForElement(this.selectors.form);
+      await this.waitForElementToBeHidden(this.selectors.formLoader);
+
+      logger.test.step('Navigate to Organization General Information', 'navigation', {
+        url: `${this.baseURL}${this.ORGANIZATION_INFO_URL}`
+      });
+    });
+  }
+
+  /**
+   * Read the general information
+   * @returns Organization info, empty fields left out
+   */
+  async read(): Promise<OrganizationInfo> {
+    return await this.allure.timedStep('Read Organization General Information', async () => {
+      const info: OrganizationInfo = {};
+
+      for (const [label, key] of this.inputFields) {
+        const value = await this.formGroup(label).getValue();
+
+        if (value) {
+          info[key] = value;
+        }
+      }
+
+      const country = await this.formGroup('Country').select().getSelected();
+      if (country) {
+        info.country = country;
+      }
+
+      this.allure.attachJSON('Organization Info', info);
+      return info;
+    });
+  }
+
+  /**
+   * Switch the form to edit mode and save the given fields
+   * @param info - Fields to change, others are kept
+   */
+  async save(info: OrganizationInfo): Promise<void> {
+    await this.allure.timedStep('Save Organization General Information', async () => {
+      this.allure.attachJSON('Organization Info', info);
+
+      await this.click(this.selectors.editSwitch);
+
+      for (const [label, key] of this.inputFields) {
+        const value = info[key];
+
+        if (value !== undefined) {
+          await this.formGroup(label).fill(value);
+        }
+      }
+
+      if (info.country) {
+        await this.formGroup('Country').select().select(info.country);
+      }
+
+      await this.click(this.selectors.saveButton);
+      await this.toast().waitForSuccess();
+
+      logger.test.step('Save Organization General Information', 'update', { fields: Object.keys(info) });
+    });
+  }
+}
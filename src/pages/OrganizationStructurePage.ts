@@ -0,0 +1,252 @@
+import { Locator, Page, expect } from '@playwright/test';
+import { BasePage } from './BasePage.js';
+import { OxdFormGroup } from '../components/index.js';
+import logger from '../config/logger.js';
+import type { OrgUnit, OrgUnitNode } from '../types/index.js';
+
+/**
+ * Organization Structure Page Object for OrangeHRM
+ * Reads the unit tree and adds, renames and deletes units once the "Edit" switch is on
+ */
+export class OrganizationStructurePage extends BasePage {
+  // Page URL
+  private readonly STRUCTURE_URL = '/web/index.php/admin/viewCompanyStructure';
+
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    // Tree
+    tree: '.oxd-tree',
+    node: 'li.oxd-tree-node',
+    nodeName: '.org-name',
+    collapsedToggle: `xpath=//div[contains(@class,'oxd-tree-node-toggle')]//i[contains(@class,'bi-chevron-right')]`,
+    nodeContent: (name: string) =>
+      `xpath=//div[contains(@class,'oxd-tree-node-content')][.//*[contains(@class,'org-name')][normalize-space()='${name}']]`,
+    editSwitch: '.oxd-switch-input',
+
+    // Node actions in edit mode
+    nodeAction: {
+      add: '.bi-plus',
+      edit: '.bi-pencil-fill',
+      delete: '.bi-trash'
+    },
+
+    // Unit dialog
+    dialog: '.oxd-dialog-sheet',
+    dialogSaveButton: `xpath=.//button[@type='submit']`
+  };
+
+  constructor(page: Page) {
+    super(page);
+
+    logger.debug('OrganizationStructurePage initialized');
+  }
+
+  /**
+   * Navigate to the organization structure
+   */
+  async open(): Promise<void> {
+    await this.allure.timedStep('Navigate to Organization Structure', async () => {
+      await this.navigateTo(this.STRUCTURE_URL);
+      await this.waitForElement(this.selectors.tree);
+
+      logger.test.step('Navigate to Organization Structure', 'navigation', {
+        url: `${this.baseURL}${this.STRUCTURE_URL}`
+      });
+    });
+  }
+
+  /**
+   * Turn the edit mode on or off
+   * @param enabled - Whether node actions should be shown
+   */
+  async setEditMode(enabled: boolean): Promise<void> {
+    const switchInput = this.page.locator(this.selectors.editSwitch).first();
+    const isEnabled = (await switchInput.getAttribute('class'))?.includes('--active') ?? false;
+
+    if (isEnabled !== enabled) {
+      await switchInput.click({ timeout: this.timeout });
+    }
+  }
+
+  /**
+   * Expand every collapsed node
+   */
+  async expandAll(): Promise<void> {
+    const collapsed = this.page.locator(this.selectors.collapsedToggle);
+
+    while ((await collapsed.count()) > 0) {
+      await collapsed.first().click({ timeout: this.timeout });
+    }
+  }
+
+  /**
+   * Read the whole unit tree
+   * @returns Root node with its nested children
+   */
+  async getTree(): Promise<OrgUnitNode> {
+    return await this.allure.timedStep('Get Organization Tree', async () => {
+      await this.expandAll();
+
+      const tree = await this.page.locator(this.selectors.tree).first().evaluate(
+        (treeElement, { nodeSelector, nameSelector }) => {
+          type TreeNode = { name: string; children: TreeNode[] };
+
+          const toNode = (element: Element): TreeNode => ({
+            name: element.querySelector(nameSelector)?.textContent?.trim() ?? '',
+            children: Array.from(element.querySelectorAll(`:scope > ul > ${nodeSelector}`)).map(toNode)
+          });
+
+          return toNode(treeElement.querySelector(nodeSelector)!);
+        },
+        { nodeSelector: this.selectors.node, nameSelector: this.selectors.nodeName }
+      );
+
+      this.allure.attachJSON('Organization Tree', tree);
+      return tree;
+    });
+  }
+
+  /**
+   * Find a unit in a tree
+   * @param tree - Tree or subtree to search
+   * @param name - Unit name
+   * @returns Unit node or undefined if not found
+   */
+  static findUnit(tree: OrgUnitNode, name: string): OrgUnitNode | undefined {
+    if (tree.name === name) {
+      return tree;
+    }
+
+    for (const child of tree.children) {
+      const unit = OrganizationStructurePage.findUnit(child, name);
+
+      if (unit) {
+        return unit;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Content row of a unit, with its name and edit-mode actions
+   * @param name - Unit name
+   * @returns Node content locator
+   */
+  private nodeContent(name: string): Locator {
+    return this.page.locator(this.selectors.nodeContent(name)).first();
+  }
+
+  /**
+   * Click an edit-mode action of a unit
+   * @param name - Unit name
+   * @param action - Node action
+   */
+  private async clickNodeAction(name: string, action: 'add' | 'edit' | 'delete'): Promise<void> {
+    await this.setEditMode(true);
+    await this.expandAll();
+
+    const node = this.nodeContent(name);
+
+    if ((await node.count()) === 0) {
+      throw new Error(`Organization unit '${name}' not found`);
+    }
+
+    await node.locator(this.selectors.nodeAction[action]).first().click({ timeout: this.timeout });
+  }
+
+  /**
+   * Fill and save the unit dialog
+   * @param unit - Unit fields to set
+   */
+  private async saveUnitDialog(unit: Partial<OrgUnit>): Promise<void> {
+    const dialog = this.page.locator(this.selectors.dialog).first();
+    await dialog.waitFor({ state: 'visible', timeout: this.timeout });
+
+    const fields: Array<[string, string | undefined]> = [
+      ['Unit Id', unit.unitId],
+      ['Name', unit.name],
+      ['Description', unit.description]
+    ];
+
+    for (const [label, value] of fields) {
+      if (value !== undefined) {
+        await OxdFormGroup.byLabel(dialog, label).fill(value);
+      }
+    }
+
+    await dialog.locator(this.selectors.dialogSaveButton).click({ timeout: this.timeout });
+    await this.toast().waitForSuccess();
+    await dialog.waitFor({ state: 'hidden', timeout: this.timeout });
+  }
+
+  /**
+   * Add a unit under a parent unit
+   * @param parentName - Parent unit name (the organization name for a top-level unit)
+   * @param unit - New unit
+   */
+  async addUnit(parentName: string, unit: OrgUnit): Promise<void> {
+    await this.allure.timedStep(`Add Organization Unit: ${unit.name}`, async () => {
+      await this.clickNodeAction(parentName, 'add');
+      await this.saveUnitDialog(unit);
+
+      logger.test.step('Add Organization Unit', 'create', { parentName, name: unit.name });
+    });
+  }
+
+  /**
+   * Change the fields of a unit
+   * @param name - Current unit name
+   * @param unit - Fields to change
+   */
+  async editUnit(name: string, unit: Partial<OrgUnit>): Promise<void> {
+    await this.allure.timedStep(`Edit Organization Unit: ${name}`, async () => {
+      await this.clickNodeAction(name, 'edit');
+      await this.saveUnitDialog(unit);
+
+      logger.test.step('Edit Organization Unit', 'update', { name, ...unit });
+    });
+  }
+
+  /**
+   * Delete a unit and its sub-units
+   * @param name - Unit name
+   */
+  async deleteUnit(name: string): Promise<void> {
+    await this.allure.timedStep(`Delete Organization Unit: ${name}`, async () => {
+      await this.clickNodeAction(name, 'delete');
+      await this.confirmDialog().confirm();
+      await this.toast().waitForSuccess();
+
+      logger.test.step('Delete Organization Unit', 'delete', { name });
+    });
+  }
+
+  /**
+   * Delete a unit if it exists, for test cleanup
+   * @param name - Unit name
+   * @returns True if the unit was deleted
+   */
+  async deleteUnitIfExists(name: string): Promise<boolean> {
+    if (!OrganizationStructurePage.findUnit(await this.getTree(), name)) {
+      return false;
+    }
+
+    await this.deleteUnit(name);
+    return true;
+  }
+
+  // Assertion methods for better test readability
+
+  /**
+   * Assert that a unit sits directly under a parent unit
+   * @param parentName - Parent unit name
+   * @param name - Unit name
+   */
+  async shouldHaveUnit(parentName: string, name: string): Promise<void> {
+    const parent = OrganizationStructurePage.findUnit(await this.getTree(), parentName);
+
+    expect(parent, `Organization unit ${parentName} should exist`).toBeDefined();
+    expect(parent!.children.map(child => child.name), `Sub-units of ${parentName}`).toContain(name);
+  }
+}
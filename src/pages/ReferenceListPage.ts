@@ -0,0 +1,225 @@
+import { Page, expect } from '@playwright/test';
+import { BasePage } from './BasePage.js';
+import { getReferenceList } from '../config/referenceLists.js';
+import logger from '../config/logger.js';
+import type { ReferenceField, ReferenceItem, ReferenceList, ReferenceListName } from '../types/index.js';
+
+/**
+ * Admin reference data list Page Object for OrangeHRM
+ * One object per list (Job Titles, Skills, Locations, ...) that adds, edits and deletes items
+ * through the shared "+ Add" list and save form layout
+ */
+export class ReferenceListPage extends BasePage {
+  readonly list: ReferenceList;
+
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    // List
+    addButton: `//div[contains(@class,'orangehrm-header-container')]//button[normalize-space()='Add']`,
+
+    // Save form
+    form: '.orangehrm-card-container form',
+    saveButton: `//form//button[@type='submit']`,
+    fieldError: '.oxd-input-field-error-message'
+  };
+
+  /**
+   * @param page - Page instance
+   * @param name - Reference list name
+   */
+  constructor(page: Page, name: ReferenceListName) {
+    super(page);
+    this.list = getReferenceList(name);
+
+    logger.debug(`ReferenceListPage initialized: ${name}`);
+  }
+
+  /**
+   * Navigate to the list
+   */
+  async open(): Promise<void> {
+    await this.allure.timedStep(`Navigate to ${this.list.name}`, async () => {
+      await this.navigateTo(this.list.url);
+      await this.table().waitForLoad();
+
+      logger.test.step(`Navigate to ${this.list.name}`, 'navigation', {
+        url: `${this.baseURL}${this.list.url}`
+      });
+    });
+  }
+
+  /**
+   * Get the names of every item of the list
+   * @returns Item names
+   */
+  async getNames(): Promise<string[]> {
+    return await this.allure.timedStep(`Get ${this.list.name}`, async () => {
+      const rows = await this.table().getAllRows();
+      const names = rows.map(row => (row[this.list.nameColumn] ?? '').trim());
+
+      this.allure.attachJSON(this.list.name, names);
+      return names;
+    });
+  }
+
+  /**
+   * Check if the list has an item
+   * @param name - Item name
+   * @returns True if the item is listed
+   */
+  async exists(name: string): Promise<boolean> {
+    await this.open();
+    return (await this.getNames()).includes(name);
+  }
+
+  /**
+   * Add an item
+   * @param item - Item name and any other form fields
+   */
+  async add(item: ReferenceItem): Promise<void> {
+    await this.allure.timedStep(`Add to ${this.list.name}: ${item.name}`, async () => {
+      this.allure.attachJSON('Reference Item', item);
+
+      await this.open();
+      await this.click(this.selectors.addButton);
+      await this.waitForElement(this.selectors.form);
+
+      await this.fillForm(item);
+      await this.save();
+
+      logger.test.step(`Add to ${this.list.name}`, 'create', { name: item.name });
+    });
+  }
+
+  /**
+   * Add an item unless it is already listed
+   * @param item - Item name and any other form fields
+   * @returns True if the item was added
+   */
+  async ensure(item: ReferenceItem): Promise<boolean> {
+    if (await this.exists(item.name)) {
+      logger.test.step(`Ensure ${this.list.name}`, 'skip', { name: item.name });
+      return false;
+    }
+
+    await this.add(item);
+    return true;
+  }
+
+  /**
+   * Edit an item
+   * @param name - Current item name
+   * @param item - New item name and any other form fields to change
+   */
+  async edit(name: string, item: ReferenceItem): Promise<void> {
+    await this.allure.timedStep(`Edit ${this.list.name}: ${name}`, async () => {
+      await this.open();
+      await this.table().editRow(this.list.nameColumn, name);
+      await this.waitForElement(this.selectors.form);
+
+      await this.fillForm(item);
+      await this.save();
+
+      logger.test.step(`Edit ${this.list.name}`, 'update', { name, newName: item.name });
+    });
+  }
+
+  /**
+   * Delete an item
+   * @param name - Item name
+   */
+  async delete(name: string): Promise<void> {
+    await this.allure.timedStep(`Delete ${this.list.name}: ${name}`, async () => {
+      await this.open();
+      await this.table().deleteRow(this.list.nameColumn, name);
+
+      logger.test.step(`Delete ${this.list.name}`, 'delete', { name });
+    });
+  }
+
+  /**
+   * Delete an item if it is listed, for test cleanup
+   * @param name - Item name
+   * @returns True if the item was deleted
+   */
+  async deleteIfExists(name: string): Promise<boolean> {
+    if (!(await this.exists(name))) {
+      return false;
+    }
+
+    await this.table().deleteRow(this.list.nameColumn, name);
+    logger.test.step(`Delete ${this.list.name}`, 'delete', { name });
+
+    return true;
+  }
+
+  /**
+   * Fill the save form
+   * @param item - Item name and any other form fields
+   */
+  private async fillForm(item: ReferenceItem): Promise<void> {
+    await this.formGroup(this.list.nameLabel).fill(item.name);
+
+    for (const field of item.fields ?? []) {
+      await this.fillField(field);
+    }
+  }
+
+  /**
+   * Fill one form field by its type
+   * @param field - Field label, value and type
+   */
+  private async fillField(field: ReferenceField): Promise<void> {
+    const group = this.formGroup(field.label);
+
+    switch (field.type ?? 'input') {
+      case 'select':
+        await group.select().select(field.value);
+        break;
+      case 'autocomplete':
+        await group.autocomplete().select(field.value);
+        break;
+      case 'date':
+        await group.datePicker().setDate(field.value);
+        break;
+      default:
+        await group.fill(field.value);
+    }
+  }
+
+  /**
+   * Save the form and go back to the list
+   * Most forms return to the list by themselves, Pay Grades stays on the saved grade instead
+   */
+  private async save(): Promise<void> {
+    await this.click(this.selectors.saveButton);
+    await this.toast().waitForSuccess();
+    await this.open();
+  }
+
+  /**
+   * Get the validation messages shown on the save form
+   * @returns Field error texts
+   */
+  async getFieldErrors(): Promise<string[]> {
+    return await this.getAllText(this.selectors.fieldError);
+  }
+
+  // Assertion methods for better test readability
+
+  /**
+   * Assert that the list has an item
+   * @param name - Item name
+   */
+  async shouldContain(name: string): Promise<void> {
+    expect(await this.exists(name), `${this.list.name} should contain ${name}`).toBeTruthy();
+  }
+
+  /**
+   * Assert that the list does not have an item
+   * @param name - Item name
+   */
+  async shouldNotContain(name: string): Promise<void> {
+    expect(await this.exists(name), `${this.list.name} should not contain ${name}`).toBeFalsy();
+  }
+}
@@ -0,0 +1,142 @@
+import { Page, expect } from '@playwright/test';
+import { BasePage } from './BasePage.js';
+import logger from '../config/logger.js';
+
+/**
+ * Reset Password Page Object for OrangeHRM
+ * Covers the "Forgot your password?" request form, its confirmation screen
+ * and the new password form opened from the emailed reset link
+ */
+export class ResetPasswordPage extends BasePage {
+  // Page URLs
+  private readonly REQUEST_RESET_URL = '/web/index.php/auth/requestPasswordResetCode';
+  private readonly RESET_SENT_PATH = '/auth/sendPasswordReset';
+  private readonly LOGIN_PATH = '/auth/login';
+
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    // Request and new password forms
+    form: '.orangehrm-forgot-password-container form',
+    usernameInput: '[name="username"]',
+    resetButton: `//button[@type='submit'][normalize-space()='Reset Password']`,
+    cancelButton: `//button[normalize-space()='Cancel']`,
+
+    // Confirmation screen
+    title: '.orangehrm-forgot-password-title',
+
+    // New password form
+    saveButton: `//button[@type='submit'][normalize-space()='Save']`,
+    fieldError: '.oxd-input-field-error-message'
+  };
+
+  // Expected text content
+  private readonly expectedTexts = {
+    resetSent: 'Reset Password link sent successfully'
+  };
+
+  constructor(page: Page) {
+    super(page);
+
+    logger.debug('ResetPasswordPage initialized');
+  }
+
+  /**
+   * Navigate to the reset password request form
+   */
+  async open(): Promise<void> {
+    await this.allure.timedStep('Navigate to Reset Password', async () => {
+      await this.navigateTo(this.REQUEST_RESET_URL);
+      await this.waitForElement(this.selectors.form);
+
+      logger.test.step('Navigate to Reset Password', 'navigation', {
+        url: `${this.baseURL}${this.REQUEST_RESET_URL}`
+      });
+    });
+  }
+
+  /**
+   * Submit a username on the request form
+   * @param username - Username to send the reset link for
+   */
+  async requestReset(username: string): Promise<void> {
+    await this.allure.timedStep(`Request Password Reset: ${username}`, async () => {
+      await this.waitForElement(this.selectors.form);
+      await this.fill(this.selectors.usernameInput, username);
+      await this.click(this.selectors.resetButton);
+
+      logger.test.step('Request Password Reset', 'submit', { username });
+    });
+  }
+
+  /**
+   * Leave the request form for the login page
+   */
+  async cancel(): Promise<void> {
+    await this.allure.timedStep('Cancel Password Reset', async () => {
+      await this.click(this.selectors.cancelButton);
+      await this.page.waitForURL(`**${this.LOGIN_PATH}`, { timeout: this.timeout });
+    });
+  }
+
+  /**
+   * Get the title of the current reset password screen
+   * @returns Title text
+   */
+  async getTitle(): Promise<string> {
+    return (await this.getText(this.selectors.title)).trim();
+  }
+
+  /**
+   * Open the reset link of a reset email
+   * @param link - Absolute reset link
+   */
+  async openResetLink(link: string): Promise<void> {
+    await this.allure.timedStep('Open Password Reset Link', async () => {
+      await this.page.goto(link);
+      await this.waitForElement(this.selectors.form);
+
+      logger.test.step('Open Password Reset Link', 'navigation', { url: link });
+    });
+  }
+
+  /**
+   * Save a new password on the form opened from the reset link
+   * @param password - New password
+   * @param confirmation - Confirmation, defaults to the same password
+   */
+  async setNewPassword(password: string, confirmation: string = password): Promise<void> {
+    await this.allure.timedStep('Set New Password', async () => {
+      await this.formGroup('New Password').fill(password);
+      await this.formGroup('Confirm Password').fill(confirmation);
+      await this.click(this.selectors.saveButton);
+
+      logger.test.step('Set New Password', 'submit', { confirmed: password === confirmation });
+    });
+  }
+
+  /**
+   * Get the validation messages shown on the current form
+   * @returns Field error texts
+   */
+  async getFieldErrors(): Promise<string[]> {
+    return await this.getAllText(this.selectors.fieldError);
+  }
+
+  // Assertion methods for better test readability
+
+  /**
+   * Assert that the reset link was reported as sent
+   */
+  async shouldShowResetSent(): Promise<void> {
+    await expect(this.page).toHaveURL(new RegExp(`${this.RESET_SENT_PATH}$`), { timeout: this.timeout });
+    expect(await this.getTitle()).toBe(this.expectedTexts.resetSent);
+  }
+
+  /**
+   * Assert that the new password was saved and the login page is shown
+   */
+  async shouldBeReset(): Promise<void> {
+    await expect(this.page, 'Saving the new password should lead to the login page')
+      .toHaveURL(new RegExp(`${this.LOGIN_PATH}$`), { timeout: this.timeout });
+  }
+}
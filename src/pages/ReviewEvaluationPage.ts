@@ -0,0 +1,164 @@
+import { Locator, Page } from '@playwright/test';
+import { BasePage } from './BasePage.js';
+import logger from '../config/logger.js';
+import type { FinalEvaluation, KpiRating } from '../types/index.js';
+
+/**
+ * Performance Review Evaluation Page Object for OrangeHRM
+ * Works on the evaluation screen opened from a review list: the employee fills the self-evaluation,
+ * the reviewer rates the same KPIs and finalizes the review
+ * Only the fields of the logged-in user's side of the review are editable, so every lookup
+ * targets enabled inputs
+ */
+export class ReviewEvaluationPage extends BasePage {
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    // KPI ratings
+    kpiName: '.orangehrm-evaluation-grid .oxd-text--p',
+    kpiRow: (kpi: string) =>
+      `xpath=//div[contains(@class,'oxd-grid-')][.//*[normalize-space()='${kpi}']][.//input[not(@disabled)]]`,
+    ratingInput: 'input:not([disabled])',
+    commentInput: 'textarea:not([disabled])',
+
+    // Comments and final evaluation
+    editableField: (label: string) =>
+      `xpath=//label[normalize-space()='${label}']/ancestor::div[contains(@class,'oxd-input-group')][1]` +
+      `//*[self::input or self::textarea][not(@disabled)]`,
+
+    // Actions
+    actionButton: (action: 'Save' | 'Complete') => `//button[normalize-space()='${action}']`
+  };
+
+  constructor(page: Page) {
+    super(page);
+
+    logger.debug('ReviewEvaluationPage initialized');
+  }
+
+  /**
+   * Get the KPIs the review is rated on
+   * @returns KPI names
+   */
+  async getKpis(): Promise<string[]> {
+    return await this.getAllText(this.selectors.kpiName);
+  }
+
+  /**
+   * Editable row of a KPI
+   * @param kpi - KPI name
+   * @returns Row locator
+   */
+  private kpiRow(kpi: string): Locator {
+    // The innermost grid holding the KPI name and an enabled input is the row itself
+    return this.page.locator(this.selectors.kpiRow(kpi)).last();
+  }
+
+  /**
+   * Rate KPIs on the logged-in user's side of the review
+   * @param ratings - Rating and optional comment per KPI
+   */
+  async rateKpis(ratings: KpiRating[]): Promise<void> {
+    await this.allure.timedStep('Rate KPIs', async () => {
+      this.allure.attachJSON('KPI Ratings', ratings);
+
+      for (const { kpi, rating, comment } of ratings) {
+        const row = this.kpiRow(kpi);
+
+        if ((await row.count()) === 0) {
+          throw new Error(`KPI '${kpi}' is not editable on this review`);
+        }
+
+        await row.locator(this.selectors.ratingInput).first().fill(rating.toString(), { timeout: this.timeout });
+
+        if (comment) {
+          await row.locator(this.selectors.commentInput).first().fill(comment, { timeout: this.timeout });
+        }
+      }
+
+      logger.test.step('Rate KPIs', 'update', { count: ratings.length });
+    });
+  }
+
+  /**
+   * Fill an editable field of the evaluation by label
+   * @param label - Field label
+   * @param value - Value to fill
+   */
+  private async fillField(label: string, value: string): Promise<void> {
+    await this.page.locator(this.selectors.editableField(label)).first().fill(value, { timeout: this.timeout });
+  }
+
+  /**
+   * Fill the general comment of the logged-in user's side of the review
+   * @param comment - General comment
+   */
+  async setGeneralComment(comment: string): Promise<void> {
+    await this.fillField('General Comment', comment);
+  }
+
+  /**
+   * Save the evaluation as a draft
+   */
+  async save(): Promise<void> {
+    await this.allure.timedStep('Save Evaluation', async () => {
+      await this.click(this.selectors.actionButton('Save'));
+      await this.toast().waitForSuccess();
+
+      logger.test.step('Save Evaluation', 'update', {});
+    });
+  }
+
+  /**
+   * Complete the evaluation, confirming that it becomes read-only
+   */
+  async complete(): Promise<void> {
+    await this.allure.timedStep('Complete Evaluation', async () => {
+      await this.click(this.selectors.actionButton('Complete'));
+      await this.confirmDialog().confirm('Yes, Confirm');
+      await this.toast().waitForSuccess();
+
+      logger.test.step('Complete Evaluation', 'update', {});
+    });
+  }
+
+  /**
+   * Complete the self-evaluation as the employee
+   * @param ratings - Rating and optional comment per KPI
+   * @param generalComment - Optional general comment
+   */
+  async selfEvaluate(ratings: KpiRating[], generalComment?: string): Promise<void> {
+    await this.allure.timedStep('Self-Evaluate', async () => {
+      await this.rateKpis(ratings);
+
+      if (generalComment) {
+        await this.setGeneralComment(generalComment);
+      }
+
+      await this.complete();
+    });
+  }
+
+  /**
+   * Rate the KPIs as the reviewer and finalize the review
+   * @param ratings - Rating and optional comment per KPI
+   * @param final - Final rating, comments and completed date (today when omitted)
+   */
+  async finalize(ratings: KpiRating[], final: FinalEvaluation): Promise<void> {
+    await this.allure.timedStep('Finalize Review', async () => {
+      this.allure.attachJSON('Final Evaluation', final);
+
+      await this.rateKpis(ratings);
+
+      await this.formGroup('Completed Date').datePicker().setDate(final.completedDate ?? new Date());
+      await this.fillField('Final Rating', final.rating.toString());
+
+      if (final.comments) {
+        await this.fillField('Final Comments', final.comments);
+      }
+
+      await this.complete();
+
+      logger.test.step('Finalize Review', 'update', { finalRating: final.rating });
+    });
+  }
+}
@@ -0,0 +1,198 @@
+import { Page, expect } from '@playwright/test';
+import { BasePage } from './BasePage.js';
+import logger from '../config/logger.js';
+import type { OxdTableRow, ReviewListRow, ReviewSearchCriteria, ReviewStatus } from '../types/index.js';
+
+/**
+ * Base class of the performance review lists (Manage Reviews, Employee Reviews and My Reviews)
+ * The lists share the filter form, the columns they have in common and the row buttons
+ * ("View" or "Evaluate") that open a review
+ */
+export abstract class ReviewListPage extends BasePage {
+  protected abstract readonly REVIEW_LIST_URL: string;
+
+  // Selectors - organized by functionality
+  private readonly listSelectors = {
+    // Filter form
+    filterForm: '.oxd-table-filter',
+    searchButton: `//div[contains(@class,'oxd-table-filter')]//button[@type='submit']`,
+
+    // Row actions
+    rowCell: '.oxd-table-cell',
+    openButton: `xpath=.//button[normalize-space()='Evaluate' or normalize-space()='View']`
+  };
+
+  // Table header text mapped to row properties, absent columns stay empty
+  private readonly columnMap: Record<string, keyof ReviewListRow> = {
+    'Employee': 'employee',
+    'Job Title': 'jobTitle',
+    'Sub Unit': 'subUnit',
+    'Review Period': 'reviewPeriod',
+    'Due Date': 'dueDate',
+    'Reviewer': 'reviewer',
+    'Review Status': 'status'
+  };
+
+  constructor(page: Page) {
+    super(page);
+
+    logger.debug(`${this.constructor.name} initialized`);
+  }
+
+  /**
+   * Navigate to the review list
+   */
+  async open(): Promise<void> {
+    await this.allure.timedStep(`Navigate to ${this.constructor.name}`, async () => {
+      await this.navigateTo(this.REVIEW_LIST_URL);
+      await this.table().waitForLoad();
+
+      logger.test.step(`Navigate to ${this.constructor.name}`, 'navigation', {
+        url: `${this.baseURL}${this.REVIEW_LIST_URL}`
+      });
+    });
+  }
+
+  /**
+   * Search reviews with a combination of filters
+   * @param criteria - Search criteria
+   * @returns Parsed result rows
+   */
+  async search(criteria: ReviewSearchCriteria): Promise<ReviewListRow[]> {
+    return await this.allure.timedStep('Search Reviews', async () => {
+      this.allure.attachJSON('Search Criteria', criteria);
+
+      await this.waitForElement(this.listSelectors.filterForm);
+
+      if (criteria.employeeName) {
+        await this.formGroup('Employee Name').autocomplete().select(criteria.employeeName);
+      }
+
+      const dropdowns: Array<[string, string | undefined]> = [
+        ['Job Title', criteria.jobTitle],
+        ['Sub Unit', criteria.subUnit],
+        ['Review Status', criteria.status]
+      ];
+
+      for (const [label, value] of dropdowns) {
+        if (value) {
+          await this.formGroup(label).select().select(value);
+        }
+      }
+
+      if (criteria.fromDate) {
+        await this.formGroup('From Date').datePicker().setDate(criteria.fromDate);
+      }
+
+      if (criteria.toDate) {
+        await this.formGroup('To Date').datePicker().setDate(criteria.toDate);
+      }
+
+      await this.click(this.listSelectors.searchButton);
+      await this.table().waitForLoad();
+
+      const rows = await this.getRows();
+
+      logger.test.step('Search Reviews', 'search', {
+        criteria,
+        resultCount: rows.length
+      });
+
+      return rows;
+    });
+  }
+
+  /**
+   * Parse the visible result rows into typed objects
+   * @returns Result rows
+   */
+  async getRows(): Promise<ReviewListRow[]> {
+    return await this.allure.timedStep('Get Review Rows', async () => {
+      const rows = await this.table().getRows(row => this.toReviewRow(row));
+
+      this.allure.attachJSON('Review Rows', rows);
+      return rows;
+    });
+  }
+
+  /**
+   * Map a header-keyed table row to a review row
+   * @param row - Table row keyed by header text
+   * @returns Review row
+   */
+  private toReviewRow(row: OxdTableRow): ReviewListRow {
+    const reviewRow = {} as ReviewListRow;
+
+    for (const [header, key] of Object.entries(this.columnMap)) {
+      reviewRow[key] = (row[header] ?? '').replace(/\s+/g, ' ').trim();
+    }
+
+    return reviewRow;
+  }
+
+  /**
+   * Find the review of an employee on the current page
+   * @param employeeName - Employee name as shown in the list, the only review when omitted (My Reviews)
+   * @returns Parsed row or undefined if not found
+   */
+  async findReview(employeeName?: string): Promise<ReviewListRow | undefined> {
+    const rows = await this.getRows();
+    return employeeName ? rows.find(row => row.employee === employeeName) : rows[0];
+  }
+
+  /**
+   * Open a review from its row button ("Evaluate" when the user can still rate it, "View" otherwise)
+   * @param employeeName - Employee name as shown in the list, the first review when omitted
+   * @returns Review id from the URL of the evaluation screen
+   */
+  async openReview(employeeName?: string): Promise<string> {
+    return await this.allure.timedStep(`Open Review${employeeName ? `: ${employeeName}` : ''}`, async () => {
+      let row = this.table().rows;
+
+      if (employeeName) {
+        row = row.filter({ has: this.page.locator(this.listSelectors.rowCell, { hasText: employeeName }) });
+      }
+
+      if ((await row.count()) === 0) {
+        throw new Error(`Review${employeeName ? ` of '${employeeName}'` : ''} not found in list`);
+      }
+
+      await row.first().locator(this.listSelectors.openButton).first().click({ timeout: this.timeout });
+      await this.page.waitForURL(/\/id\/\d+/, { timeout: this.timeout });
+
+      const reviewId = this.page.url().match(/\/id\/(\d+)/)![1];
+      logger.test.step('Open Review', 'navigation', { employeeName, reviewId });
+
+      return reviewId;
+    });
+  }
+
+  /**
+   * Get the status of the review of an employee on the current page
+   * @param employeeName - Employee name, the first review when omitted
+   * @returns Review status
+   */
+  async getStatus(employeeName?: string): Promise<ReviewStatus> {
+    const review = await this.findReview(employeeName);
+
+    if (!review) {
+      throw new Error(`Review${employeeName ? ` of '${employeeName}'` : ''} not found in list`);
+    }
+
+    return review.status as ReviewStatus;
+  }
+
+  // Assertion methods for better test readability
+
+  /**
+   * Assert the status of the review of an employee
+   * @param status - Expected status
+   * @param employeeName - Employee name, the first review when omitted
+   */
+  async shouldHaveStatus(status: ReviewStatus, employeeName?: string): Promise<void> {
+    const review = await this.findReview(employeeName);
+
+    expect(review, `Review${employeeName ? ` of ${employeeName}` : ''} should be listed`).toBeDefined();
+    expect(review!.status).toBe(status);
+  }
+}
@@ -0,0 +1,25 @@
+import { ClaimRequestPage } from './ClaimRequestPage.js';
+import type { ClaimRequest } from '../types/index.js';
+
+/**
+ * Submit Claim Page Object for OrangeHRM
+ * Creates and submits claims of the logged-in user; also the detail screen of "My Claims"
+ */
+export class SubmitClaimPage extends ClaimRequestPage {
+  // Page URL
+  protected readonly CLAIM_URL: string = '/web/index.php/claim/submitClaim';
+
+  /**
+   * Create a claim for the logged-in user
+   * @param claim - Claim data
+   * @returns Claim id
+   */
+  async create(claim: ClaimRequest): Promise<string> {
+    return await this.allure.timedStep(`Create Claim: ${claim.event}`, async () => {
+      this.allure.attachJSON('Claim', claim);
+
+      await this.open();
+      return await this.createClaim(claim);
+    });
+  }
+}
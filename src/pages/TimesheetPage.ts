@@ -0,0 +1,404 @@
+import { Locator, Page, expect } from '@playwright/test';
+import { BasePage } from './BasePage.js';
+import logger from '../config/logger.js';
+import { OxdAutocomplete, OxdDatePicker, OxdSelect } from '../components/index.js';
+import type { TimesheetEntry, TimesheetRow, TimesheetStatus, TimesheetTotals } from '../types/index.js';
+
+/**
+ * Time Timesheet Page Object for OrangeHRM
+ * Opens the timesheet of a week (own or an employee's), fills project/activity rows with hours per day,
+ * submits it and approves or rejects it as supervisor
+ */
+export class TimesheetPage extends BasePage {
+  // Page URLs
+  private readonly MY_TIMESHEET_URL = '/web/index.php/time/viewMyTimesheet';
+  private readonly EMPLOYEE_TIMESHEETS_URL = '/web/index.php/time/viewEmployeeTimesheet';
+  private readonly EDIT_TIMESHEET_URL = '/web/index.php/time/editTimesheet';
+
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    // Header
+    timesheet: '.orangehrm-timesheet',
+    periodPicker: '.orangehrm-timesheet-header .oxd-date-input',
+    createButton: `//button[normalize-space()='Create Timesheet']`,
+    status: `//div[contains(@class,'orangehrm-timesheet-footer')]//p[starts-with(normalize-space(),'Status:')]`,
+
+    // Table
+    headers: '.orangehrm-timesheet-table thead th',
+    rows: '.orangehrm-timesheet-table tbody tr',
+    cell: 'td',
+    loader: '.oxd-form-loader',
+
+    // Edit mode
+    editableRow: `.orangehrm-timesheet-table tbody tr:has(.oxd-autocomplete-wrapper)`,
+    addRowButton: `//button[normalize-space()='Add Row']`,
+
+    // Actions
+    actionButton: (action: string) => `//button[normalize-space()='${action}']`,
+    commentInput: '.orangehrm-timesheet-footer textarea',
+
+    // Employee timesheets
+    viewButton: `//form//button[@type='submit']`
+  };
+
+  constructor(page: Page) {
+    super(page);
+
+    logger.debug('TimesheetPage initialized');
+  }
+
+  /**
+   * Open the timesheet of the logged-in user for the week of a date
+   * A timesheet is created for the week when none exists yet
+   * @param weekDate - Any date in the week, the current week when omitted
+   */
+  async openMyTimesheet(weekDate?: Date): Promise<void> {
+    await this.allure.timedStep('Navigate to My Timesheet Page', async () => {
+      await this.navigateTo(this.MY_TIMESHEET_URL);
+      await this.waitForTimesheet();
+
+      if (weekDate) {
+        await this.selectWeek(weekDate);
+      }
+
+      if (await this.isVisible(this.selectors.createButton)) {
+        await this.click(this.selectors.createButton);
+        await this.waitForTimesheet();
+      }
+
+      logger.test.step('Navigate to My Timesheet', 'navigation', {
+        url: `${this.baseURL}${this.MY_TIMESHEET_URL}`,
+        week: weekDate?.toDateString()
+      });
+    });
+  }
+
+  /**
+   * Open the timesheet of an employee as their supervisor or an admin
+   * @param employeeName - Employee name
+   * @param weekDate - Any date in the week, the current week when omitted
+   */
+  async openEmployeeTimesheet(employeeName: string, weekDate?: Date): Promise<void> {
+    await this.allure.timedStep(`Navigate to Timesheet of ${employeeName}`, async () => {
+      await this.navigateTo(this.EMPLOYEE_TIMESHEETS_URL);
+      await this.formGroup('Employee Name').autocomplete().select(employeeName);
+
+      if (weekDate) {
+        await this.formGroup('Date').datePicker().setDate(weekDate);
+      }
+
+      await this.click(this.selectors.viewButton);
+      await this.waitForTimesheet();
+
+      logger.test.step('Navigate to Employee Timesheet', 'navigation', {
+        employeeName,
+        week: weekDate?.toDateString()
+      });
+    });
+  }
+
+  /**
+   * Wait until the timesheet has finished loading
+   */
+  async waitForTimesheet(): Promise<void> {
+    await this.waitForElement(this.selectors.timesheet);
+    await this.page.locator(this.selectors.loader).first()
+      .waitFor({ state: 'hidden', timeout: this.timeout })
+      .catch(() => undefined);
+  }
+
+  /**
+   * Switch to the week of a date through the Timesheet Period picker
+   * @param weekDate - Any date in the week
+   */
+  async selectWeek(weekDate: Date): Promise<void> {
+    await new OxdDatePicker(this.page.locator(this.selectors.periodPicker), this.timeout).setDate(weekDate);
+    await this.waitForTimesheet();
+  }
+
+  /**
+   * Get the status shown under the timesheet
+   * @returns Timesheet status
+   */
+  async getStatus(): Promise<TimesheetStatus> {
+    const text = await this.getText(this.selectors.status);
+    return text.replace('Status:', '').trim() as TimesheetStatus;
+  }
+
+  /**
+   * Switch to edit mode
+   */
+  async edit(): Promise<void> {
+    await this.allure.timedStep('Edit Timesheet', async () => {
+      await this.click(this.selectors.actionButton('Edit'));
+      await this.page.waitForURL(`**${this.EDIT_TIMESHEET_URL}/**`, { timeout: this.timeout });
+      await this.waitForElement(this.selectors.editableRow);
+    });
+  }
+
+  /**
+   * Fill a project/activity row with hours, using the first empty row or a new one
+   * @param entry - Project, activity and hours per day
+   */
+  async addRow(entry: TimesheetEntry): Promise<void> {
+    await this.allure.timedStep(`Add Timesheet Row: ${entry.project}`, async () => {
+      const row = await this.emptyRow();
+
+      await new OxdAutocomplete(row.locator(this.selectors.cell).nth(0), this.timeout).select(entry.project);
+      await new OxdSelect(row.locator(this.selectors.cell).nth(1), this.timeout).select(entry.activity);
+      await this.enterHours(row, entry.hours);
+
+      logger.test.step('Add Timesheet Row', 'input', {
+        project: entry.project,
+        activity: entry.activity,
+        hours: entry.hours
+      });
+    });
+  }
+
+  /**
+   * First edit row without a project, adding one when every row is taken
+   * @returns Row locator
+   */
+  private async emptyRow(): Promise<Locator> {
+    const rows = this.page.locator(this.selectors.editableRow);
+
+    for (const row of await rows.all()) {
+      if (!(await row.locator('input').first().inputValue())) {
+        return row;
+      }
+    }
+
+    await this.click(this.selectors.addRowButton);
+    return rows.last();
+  }
+
+  /**
+   * Type the hours of each day of a row
+   * @param row - Edit row
+   * @param hours - Hours in day order, 0 leaves the day empty
+   */
+  private async enterHours(row: Locator, hours: number[]): Promise<void> {
+    // Day cells follow the project and activity cells
+    const cells = row.locator(this.selectors.cell);
+
+    for (let day = 0; day < hours.length; day++) {
+      await cells.nth(day + 2).locator('input').fill(
+        hours[day] ? TimesheetPage.formatHours(hours[day]) : '',
+        { timeout: this.timeout }
+      );
+    }
+  }
+
+  /**
+   * Save the edited timesheet and return to the view
+   */
+  async save(): Promise<void> {
+    await this.allure.timedStep('Save Timesheet', async () => {
+      await this.click(this.selectors.actionButton('Save'));
+      await this.toast().waitForSuccess();
+      await this.waitForTimesheet();
+    });
+  }
+
+  /**
+   * Edit the timesheet, add rows and save
+   * @param entries - Rows to add
+   */
+  async fillTimesheet(entries: TimesheetEntry[]): Promise<void> {
+    await this.allure.timedStep('Fill Timesheet', async () => {
+      this.allure.attachJSON('Timesheet Entries', entries);
+
+      await this.edit();
+
+      for (const entry of entries) {
+        await this.addRow(entry);
+      }
+
+      await this.save();
+    });
+  }
+
+  /**
+   * Submit the timesheet for approval
+   */
+  async submit(): Promise<void> {
+    await this.allure.timedStep('Submit Timesheet', async () => {
+      await this.click(this.selectors.actionButton('Submit'));
+      await this.toast().waitForSuccess();
+      await this.waitForTimesheet();
+
+      logger.test.step('Submit Timesheet', 'submit', { status: await this.getStatus() });
+    });
+  }
+
+  /**
+   * Approve the submitted timesheet as supervisor
+   * @param comment - Optional comment
+   */
+  async approve(comment?: string): Promise<void> {
+    await this.review('Approve', comment);
+  }
+
+  /**
+   * Reject the submitted timesheet as supervisor
+   * @param comment - Reason shown to the employee
+   */
+  async reject(comment: string): Promise<void> {
+    await this.review('Reject', comment);
+  }
+
+  /**
+   * Approve or reject with an optional comment
+   * @param action - Approve or Reject
+   * @param comment - Optional comment
+   */
+  private async review(action: 'Approve' | 'Reject', comment?: string): Promise<void> {
+    await this.allure.timedStep(`${action} Timesheet`, async () => {
+      if (comment) {
+        await this.fill(this.selectors.commentInput, comment);
+      }
+
+      await this.click(this.selectors.actionButton(action));
+      await this.toast().waitForSuccess();
+      await this.waitForTimesheet();
+
+      logger.test.step(`${action} Timesheet`, 'review', { comment });
+    });
+  }
+
+  /**
+   * Get the day headers of the week
+   * @returns Day headers, e.g. "Mon 13"
+   */
+  async getDays(): Promise<string[]> {
+    const headers = (await this.page.locator(this.selectors.headers).allInnerTexts())
+      .map(header => header.replace(/\s+/g, ' ').trim());
+
+    // Project, activity and total columns surround the days
+    return headers.slice(2, -1);
+  }
+
+  /**
+   * Read the rows of the timesheet view
+   * @returns Project/activity rows with hours and row total
+   */
+  async getRows(): Promise<TimesheetRow[]> {
+    return await this.allure.timedStep('Get Timesheet Rows', async () => {
+      const rows = (await this.readTable()).filter(cells => cells[0] !== 'Total');
+      const timesheetRows = rows.map(cells => ({
+        project: cells[0],
+        activity: cells[1],
+        hours: cells.slice(2, -1).map(TimesheetPage.parseHours),
+        total: TimesheetPage.parseHours(cells[cells.length - 1])
+      }));
+
+      this.allure.attachJSON('Timesheet Rows', timesheetRows);
+      return timesheetRows;
+    });
+  }
+
+  /**
+   * Read the "Total" row of the timesheet view
+   * @returns Totals per day and for the week
+   */
+  async getTotals(): Promise<TimesheetTotals> {
+    return await this.allure.timedStep('Get Timesheet Totals', async () => {
+      const totalRow = (await this.readTable()).find(cells => cells[0] === 'Total');
+
+      if (!totalRow) {
+        throw new Error('Total row not found in timesheet');
+      }
+
+      // The Total label spans the project and activity columns
+      const values = totalRow.slice(1).map(TimesheetPage.parseHours);
+      const totals: TimesheetTotals = {
+        daily: values.slice(0, -1),
+        weekly: values[values.length - 1]
+      };
+
+      this.allure.attachJSON('Timesheet Totals', totals);
+      logger.test.step('Get Timesheet Totals', 'read', { ...totals });
+
+      return totals;
+    });
+  }
+
+  /**
+   * Read the cell texts of the view table
+   * @returns Cell texts per row
+   */
+  private async readTable(): Promise<string[][]> {
+    await this.waitForTimesheet();
+
+    const rows: string[][] = [];
+
+    for (const row of await this.page.locator(this.selectors.rows).all()) {
+      const cells = (await row.locator(this.selectors.cell).allInnerTexts())
+        .map(cell => cell.replace(/\s+/g, ' ').trim());
+
+      if (cells.some(Boolean)) {
+        rows.push(cells);
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Format hours the way the timesheet shows them
+   * @param hours - Hours as a number
+   * @returns "h:mm" text
+   */
+  static formatHours(hours: number): string {
+    const minutes = Math.round(hours * 60);
+    return `${Math.floor(minutes / 60)}:${(minutes % 60).toString().padStart(2, '0')}`;
+  }
+
+  /**
+   * Parse hours shown as "h:mm" or as a decimal
+   * @param text - Cell text
+   * @returns Hours as a number, 0 when empty
+   */
+  static parseHours(text: string): number {
+    const [hours, minutes] = text.split(':');
+
+    if (minutes !== undefined) {
+      return (parseInt(hours) || 0) + (parseInt(minutes) || 0) / 60;
+    }
+
+    return parseFloat(text) || 0;
+  }
+
+  // Assertion methods for better test readability
+
+  /**
+   * Assert that the daily and weekly totals match the hours that were entered
+   * @param entries - Entered rows
+   */
+  async shouldMatchTotals(entries: TimesheetEntry[]): Promise<void> {
+    await this.allure.timedStep('Verify Timesheet Totals', async () => {
+      const dayCount = (await this.getDays()).length;
+      const expectedDaily = Array.from({ length: dayCount }, (_, day) =>
+        entries.reduce((sum, entry) => sum + (entry.hours[day] || 0), 0)
+      );
+      const expectedWeekly = expectedDaily.reduce((sum, hours) => sum + hours, 0);
+
+      const totals = await this.getTotals();
+      this.allure.attachJSON('Expected Totals', { daily: expectedDaily, weekly: expectedWeekly });
+
+      expectedDaily.forEach((hours, day) => {
+        expect(totals.daily[day], `Total of day ${day + 1}`).toBeCloseTo(hours, 2);
+      });
+      expect(totals.weekly, 'Weekly total').toBeCloseTo(expectedWeekly, 2);
+    });
+  }
+
+  /**
+   * Assert the timesheet status
+   * @param status - Expected status
+   */
+  async shouldHaveStatus(status: TimesheetStatus): Promise<void> {
+    expect(await this.getStatus()).toBe(status);
+  }
+}
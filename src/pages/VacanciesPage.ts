@@ -0,0 +1,187 @@
+import { Page, expect } from '@playwright/test';
+import { BasePage } from './BasePage.js';
+import logger from '../config/logger.js';
+import type { OxdTableRow, Vacancy, VacancyListRow } from '../types/index.js';
+
+/**
+ * Recruitment Vacancies Page Object for OrangeHRM
+ * Handles vacancy search, creation and deletion
+ */
+export class VacanciesPage extends BasePage {
+  // Page URLs
+  private readonly VACANCIES_URL = '/web/index.php/recruitment/viewJobVacancy';
+  private readonly ADD_VACANCY_URL = '/web/index.php/recruitment/addJobVacancy';
+
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    // Filter form
+    filterForm: '.oxd-table-filter',
+    searchButton: `//div[contains(@class,'oxd-table-filter')]//button[@type='submit']`,
+
+    // Vacancy form
+    vacancyForm: '.orangehrm-card-container form',
+    saveButton: `//form//button[@type='submit']`,
+    fieldError: '.oxd-input-field-error-message'
+  };
+
+  // Table header text mapped to row properties
+  private readonly columnMap: Record<string, keyof VacancyListRow> = {
+    'Vacancy': 'vacancy',
+    'Job Title': 'jobTitle',
+    'Hiring Manager': 'hiringManager',
+    'Status': 'status'
+  };
+
+  constructor(page: Page) {
+    super(page);
+
+    logger.debug('VacanciesPage initialized');
+  }
+
+  /**
+   * Navigate to vacancies page
+   */
+  async open(): Promise<void> {
+    await this.allure.timedStep('Navigate to Vacancies Page', async () => {
+      await this.navigateTo(this.VACANCIES_URL);
+      await this.waitForElement(this.selectors.filterForm);
+      await this.table().waitForLoad();
+
+      logger.test.step('Navigate to Vacancies', 'navigation', {
+        url: `${this.baseURL}${this.VACANCIES_URL}`
+      });
+    });
+  }
+
+  /**
+   * Search vacancies
+   * @param criteria - Job title, vacancy, hiring manager and/or status
+   * @returns Parsed result rows
+   */
+  async search(criteria: Partial<VacancyListRow>): Promise<VacancyListRow[]> {
+    return await this.allure.timedStep('Search Vacancies', async () => {
+      this.allure.attachJSON('Search Criteria', criteria);
+
+      const dropdowns: Array<[string, string | undefined]> = [
+        ['Job Title', criteria.jobTitle],
+        ['Vacancy', criteria.vacancy],
+        ['Hiring Manager', criteria.hiringManager],
+        ['Status', criteria.status]
+      ];
+
+      for (const [label, value] of dropdowns) {
+        if (value) {
+          await this.formGroup(label).select().select(value);
+        }
+      }
+
+      await this.click(this.selectors.searchButton);
+
+      const rows = await this.getRows();
+
+      logger.test.step('Search Vacancies', 'search', {
+        criteria,
+        resultCount: rows.length
+      });
+
+      return rows;
+    });
+  }
+
+  /**
+   * Parse the visible result rows into typed objects
+   * @returns Result rows
+   */
+  async getRows(): Promise<VacancyListRow[]> {
+    return await this.allure.timedStep('Get Vacancy Rows', async () => {
+      const rows = await this.table().getRows(row => this.toVacancyRow(row));
+
+      this.allure.attachJSON('Vacancy Rows', rows);
+      return rows;
+    });
+  }
+
+  /**
+   * Map a header-keyed table row to a vacancy row
+   * @param row - Table row keyed by header text
+   * @returns Vacancy row
+   */
+  private toVacancyRow(row: OxdTableRow): VacancyListRow {
+    const vacancyRow = {} as VacancyListRow;
+
+    for (const [header, key] of Object.entries(this.columnMap)) {
+      vacancyRow[key] = row[header] ?? '';
+    }
+
+    return vacancyRow;
+  }
+
+  /**
+   * Create a vacancy
+   * @param vacancy - Vacancy data
+   * @returns Vacancy id from the URL of the saved vacancy
+   */
+  async createVacancy(vacancy: Vacancy): Promise<string> {
+    return await this.allure.timedStep(`Create Vacancy: ${vacancy.name}`, async () => {
+      this.allure.attachJSON('Vacancy', vacancy);
+
+      await this.navigateTo(this.ADD_VACANCY_URL);
+      await this.waitForElement(this.selectors.vacancyForm);
+
+      await this.formGroup('Vacancy Name').fill(vacancy.name);
+      await this.formGroup('Job Title').select().select(vacancy.jobTitle);
+
+      if (vacancy.description) {
+        await this.formGroup('Description').fill(vacancy.description);
+      }
+
+      await this.formGroup('Hiring Manager').autocomplete().select(vacancy.hiringManager);
+
+      if (vacancy.positions !== undefined) {
+        await this.formGroup('Number of Positions').fill(vacancy.positions.toString());
+      }
+
+      await this.click(this.selectors.saveButton);
+      await this.toast().waitForSuccess();
+      await this.page.waitForURL(new RegExp(`${this.ADD_VACANCY_URL}/\\d+`), { timeout: this.timeout });
+
+      const vacancyId = this.page.url().match(/addJobVacancy\/(\d+)/)![1];
+
+      this.allure.addParameter('Vacancy Id', vacancyId);
+      logger.test.step('Create Vacancy', 'create', { name: vacancy.name, vacancyId });
+
+      return vacancyId;
+    });
+  }
+
+  /**
+   * Get the validation messages shown on the vacancy form
+   * @returns Field error texts
+   */
+  async getFieldErrors(): Promise<string[]> {
+    return await this.getAllText(this.selectors.fieldError);
+  }
+
+  /**
+   * Delete a vacancy from the current result page
+   * @param name - Vacancy name
+   */
+  async deleteVacancy(name: string): Promise<void> {
+    await this.allure.timedStep(`Delete Vacancy: ${name}`, async () => {
+      await this.table().deleteRow('Vacancy', name);
+
+      logger.test.step('Delete Vacancy', 'delete', { name });
+    });
+  }
+
+  // Assertion methods for better test readability
+
+  /**
+   * Assert a vacancy is listed on the current result page
+   * @param name - Vacancy name
+   */
+  async shouldContainVacancy(name: string): Promise<void> {
+    const vacancies = (await this.getRows()).map(row => row.vacancy);
+    expect(vacancies, `Vacancy ${name} should be listed`).toContain(name);
+  }
+}
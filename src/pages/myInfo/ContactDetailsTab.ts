@@ -0,0 +1,86 @@
+import { Locator } from '@playwright/test';
+import { MyInfoTab } from './MyInfoTab.js';
+import type { EmployeeTab } from '../EmployeeDetailsPage.js';
+import type { Address, ContactDetails } from '../../types/index.js';
+
+/**
+ * Contact Details tab of My Info
+ */
+export class ContactDetailsTab extends MyInfoTab {
+  readonly tab: EmployeeTab = 'Contact Details';
+  protected readonly TAB_URL = '/web/index.php/pim/contactDetails/empNumber/';
+
+  // Address and phone labels mapped to their fields
+  private readonly addressLabels: Array<[string, keyof Address]> = [
+    ['Street 1', 'street1'],
+    ['Street 2', 'street2'],
+    ['City', 'city'],
+    ['State/Province', 'state'],
+    ['Zip/Postal Code', 'zipCode']
+  ];
+
+  private readonly contactLabels: Array<[string, keyof Omit<ContactDetails, 'address'>]> = [
+    ['Home', 'homePhone'],
+    ['Mobile', 'phone'],
+    ['Work', 'workPhone'],
+    ['Work Email', 'email'],
+    ['Other Email', 'otherEmail']
+  ];
+
+  /**
+   * Contact details form
+   */
+  private get form(): Locator {
+    return this.formOf('Street 1');
+  }
+
+  /**
+   * Read the tab
+   * @returns Address, phones and emails
+   */
+  async read(): Promise<ContactDetails> {
+    return await this.allure.timedStep('Get Contact Details', async () => {
+      const form = this.form;
+      const address: Address = {};
+      const details: ContactDetails = { address };
+
+      for (const [label, key] of this.addressLabels) {
+        address[key] = await this.readInput(form, label);
+      }
+
+      address.country = await this.readSelect(form, 'Country');
+
+      for (const [label, key] of this.contactLabels) {
+        details[key] = await this.readInput(form, label);
+      }
+
+      this.allure.attachJSON('Contact Details', details);
+      return details;
+    });
+  }
+
+  /**
+   * Change and save the tab
+   * @param details - Fields to change, the others are left as they are
+   */
+  async save(details: ContactDetails): Promise<void> {
+    await this.allure.timedStep('Save Contact Details', async () => {
+      const form = this.form;
+      const address = details.address || {};
+
+      for (const [label, key] of this.addressLabels) {
+        await this.fillIfDefined(form, label, address[key]);
+      }
+
+      await this.selectIfDefined(form, 'Country', address.country);
+
+      for (const [label, key] of this.contactLabels) {
+        await this.fillIfDefined(form, label, details[key]);
+      }
+
+      await this.submit(form);
+
+      this.allure.attachJSON('Saved Contact Details', details);
+    });
+  }
+}
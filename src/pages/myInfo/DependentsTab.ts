@@ -0,0 +1,59 @@
+import { MyInfoTab } from './MyInfoTab.js';
+import type { EmployeeTab } from '../EmployeeDetailsPage.js';
+import type { Dependent } from '../../types/index.js';
+
+/**
+ * Dependents tab of My Info
+ */
+export class DependentsTab extends MyInfoTab {
+  readonly tab: EmployeeTab = 'Dependents';
+  protected readonly TAB_URL = '/web/index.php/pim/viewDependents/empNumber/';
+
+  // List section
+  private readonly SECTION = 'Assigned Dependents';
+
+  /**
+   * Read the dependents
+   * Dependents with an "Other" relationship are listed with the specified relationship
+   * @returns Dependents
+   */
+  async read(): Promise<Dependent[]> {
+    return await this.readSection(this.SECTION, row => {
+      const relationship = row['Relationship'] ?? '';
+
+      return relationship === 'Child'
+        ? { name: row['Name'] ?? '', relationship, dateOfBirth: row['Date of Birth'] || undefined }
+        : {
+          name: row['Name'] ?? '',
+          relationship: 'Other',
+          relationshipOther: relationship,
+          dateOfBirth: row['Date of Birth'] || undefined
+        };
+    });
+  }
+
+  /**
+   * Add a dependent
+   * @param dependent - Dependent
+   */
+  async add(dependent: Dependent): Promise<void> {
+    await this.addRecord(this.SECTION, 'Relationship', async form => {
+      await this.fillIfDefined(form, 'Name', dependent.name);
+      await this.selectIfDefined(form, 'Relationship', dependent.relationship);
+
+      if (dependent.relationship === 'Other') {
+        await this.fillIfDefined(form, 'Please Specify', dependent.relationshipOther);
+      }
+
+      await this.dateIfDefined(form, 'Date of Birth', dependent.dateOfBirth);
+    });
+  }
+
+  /**
+   * Delete a dependent
+   * @param name - Dependent name
+   */
+  async delete(name: string): Promise<void> {
+    await this.deleteRecord(this.SECTION, 'Name', name);
+  }
+}
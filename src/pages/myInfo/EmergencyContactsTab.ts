@@ -0,0 +1,50 @@
+import { MyInfoTab } from './MyInfoTab.js';
+import type { EmployeeTab } from '../EmployeeDetailsPage.js';
+import type { EmergencyContact } from '../../types/index.js';
+
+/**
+ * Emergency Contacts tab of My Info
+ */
+export class EmergencyContactsTab extends MyInfoTab {
+  readonly tab: EmployeeTab = 'Emergency Contacts';
+  protected readonly TAB_URL = '/web/index.php/pim/viewEmergencyContacts/empNumber/';
+
+  // List section
+  private readonly SECTION = 'Assigned Emergency Contacts';
+
+  /**
+   * Read the emergency contacts
+   * @returns Emergency contacts
+   */
+  async read(): Promise<EmergencyContact[]> {
+    return await this.readSection(this.SECTION, row => ({
+      name: row['Name'] ?? '',
+      relationship: row['Relationship'] ?? '',
+      homePhone: row['Home Telephone'] || undefined,
+      mobile: row['Mobile'] || undefined,
+      workPhone: row['Work Telephone'] || undefined
+    }));
+  }
+
+  /**
+   * Add an emergency contact
+   * @param contact - Emergency contact
+   */
+  async add(contact: EmergencyContact): Promise<void> {
+    await this.addRecord(this.SECTION, 'Relationship', async form => {
+      await this.fillIfDefined(form, 'Name', contact.name);
+      await this.fillIfDefined(form, 'Relationship', contact.relationship);
+      await this.fillIfDefined(form, 'Home Telephone', contact.homePhone);
+      await this.fillIfDefined(form, 'Mobile', contact.mobile);
+      await this.fillIfDefined(form, 'Work Telephone', contact.workPhone);
+    });
+  }
+
+  /**
+   * Delete an emergency contact
+   * @param name - Contact name
+   */
+  async delete(name: string): Promise<void> {
+    await this.deleteRecord(this.SECTION, 'Name', name);
+  }
+}
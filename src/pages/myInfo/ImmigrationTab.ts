@@ -0,0 +1,62 @@
+import { MyInfoTab } from './MyInfoTab.js';
+import type { EmployeeTab } from '../EmployeeDetailsPage.js';
+import type { ImmigrationRecord } from '../../types/index.js';
+
+/**
+ * Immigration tab of My Info
+ */
+export class ImmigrationTab extends MyInfoTab {
+  readonly tab: EmployeeTab = 'Immigration';
+  protected readonly TAB_URL = '/web/index.php/pim/viewImmigration/empNumber/';
+
+  // List section
+  private readonly SECTION = 'Assigned Immigration Records';
+
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    documentRadio: (document: ImmigrationRecord['document']) =>
+      `xpath=.//label[normalize-space()='${document}']//input[@type='radio']`
+  };
+
+  /**
+   * Read the immigration records
+   * Only the listed columns are read; open a record for the remaining fields
+   * @returns Immigration records
+   */
+  async read(): Promise<ImmigrationRecord[]> {
+    return await this.readSection(this.SECTION, row => ({
+      document: (row['Document'] ?? '') as ImmigrationRecord['document'],
+      number: row['Number'] ?? '',
+      issuedBy: row['Issued By'] || undefined,
+      issuedDate: row['Issued Date'] || undefined,
+      expiryDate: row['Expiry Date'] || undefined
+    }));
+  }
+
+  /**
+   * Add an immigration record
+   * @param record - Passport or visa record
+   */
+  async add(record: ImmigrationRecord): Promise<void> {
+    await this.addRecord(this.SECTION, 'Eligible Status', async form => {
+      // The radio input is hidden behind its styled label
+      await form.locator(this.selectors.documentRadio(record.document)).check({ force: true, timeout: this.timeout });
+
+      await this.fillIfDefined(form, 'Number', record.number);
+      await this.dateIfDefined(form, 'Issued Date', record.issuedDate);
+      await this.dateIfDefined(form, 'Expiry Date', record.expiryDate);
+      await this.fillIfDefined(form, 'Eligible Status', record.eligibleStatus);
+      await this.selectIfDefined(form, 'Issued By', record.issuedBy);
+      await this.dateIfDefined(form, 'Eligible Review Date', record.eligibleReviewDate);
+      await this.fillIfDefined(form, 'Comments', record.comments);
+    });
+  }
+
+  /**
+   * Delete an immigration record
+   * @param number - Document number
+   */
+  async delete(number: string): Promise<void> {
+    await this.deleteRecord(this.SECTION, 'Number', number);
+  }
+}
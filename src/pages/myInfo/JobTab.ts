@@ -0,0 +1,69 @@
+import { Locator } from '@playwright/test';
+import { MyInfoTab } from './MyInfoTab.js';
+import type { EmployeeTab } from '../EmployeeDetailsPage.js';
+import type { JobDetails } from '../../types/index.js';
+
+/**
+ * Job tab of My Info
+ * Read-only for ESS users; saving needs an Admin session
+ */
+export class JobTab extends MyInfoTab {
+  readonly tab: EmployeeTab = 'Job';
+  protected readonly TAB_URL = '/web/index.php/pim/viewJobDetails/empNumber/';
+
+  // Dropdown labels mapped to job detail fields
+  private readonly dropdownLabels: Array<[string, keyof JobDetails]> = [
+    ['Job Title', 'jobTitle'],
+    ['Sub Unit', 'department'],
+    ['Location', 'location'],
+    ['Employment Status', 'employmentStatus']
+  ];
+
+  /**
+   * Job details form
+   */
+  private get form(): Locator {
+    return this.formOf('Joined Date');
+  }
+
+  /**
+   * Read the tab
+   * @returns Job details
+   */
+  async read(): Promise<JobDetails> {
+    return await this.allure.timedStep('Get Job Details', async () => {
+      const form = this.form;
+      const jobDetails: JobDetails = {
+        joinedDate: await this.readInput(form, 'Joined Date')
+      };
+
+      for (const [label, key] of this.dropdownLabels) {
+        jobDetails[key] = await this.readSelect(form, label);
+      }
+
+      this.allure.attachJSON('Job Details', jobDetails);
+      return jobDetails;
+    });
+  }
+
+  /**
+   * Change and save the tab
+   * The supervisor is assigned on the Report-to tab and is not handled here
+   * @param jobDetails - Fields to change, the others are left as they are
+   */
+  async save(jobDetails: JobDetails): Promise<void> {
+    await this.allure.timedStep('Save Job Details', async () => {
+      const form = this.form;
+
+      await this.dateIfDefined(form, 'Joined Date', jobDetails.joinedDate);
+
+      for (const [label, key] of this.dropdownLabels) {
+        await this.selectIfDefined(form, label, jobDetails[key]);
+      }
+
+      await this.submit(form);
+
+      this.allure.attachJSON('Saved Job Details', jobDetails);
+    });
+  }
+}
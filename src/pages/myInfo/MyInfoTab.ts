@@ -0,0 +1,332 @@
+import { Locator, Page, expect } from '@playwright/test';
+import fs from 'fs/promises';
+import { BasePage } from '../BasePage.js';
+import { OxdFormGroup, OxdTable } from '../../components/index.js';
+import { TestUtils } from '../../utils/testUtils.js';
+import type { EmployeeTab } from '../EmployeeDetailsPage.js';
+import type { AttachmentFile, AttachmentRow, OxdTableRow } from '../../types/index.js';
+
+/**
+ * Base class of the My Info tabs
+ * Every tab has a URL per employee, optional list sections ("Assigned ...") with an add form,
+ * and an Attachments section at the bottom
+ */
+export abstract class MyInfoTab extends BasePage {
+  // Landing page of My Info, redirects to the Personal Details of the logged-in user
+  private readonly MY_DETAILS_URL = '/web/index.php/pim/viewMyDetails';
+
+  abstract readonly tab: EmployeeTab;
+  protected abstract readonly TAB_URL: string;
+
+  // Selectors - organized by functionality
+  private readonly tabSelectors = {
+    // Tab
+    formLoader: '.oxd-form-loader',
+
+    // List sections
+    section: (title: string) =>
+      `xpath=//h6[normalize-space()='${title}']/ancestor::div[.//div[contains(@class,'oxd-table')]][1]`,
+    sectionAddButton: `xpath=.//button[normalize-space()='Add']`,
+    formOf: (label: string) => {
+      const literal = label.includes("'") ? `"${label}"` : `'${label}'`;
+      return `xpath=//label[normalize-space()=${literal}]/ancestor::form[1]`;
+    },
+    submitButton: `xpath=.//button[@type='submit']`,
+
+    // Attachments
+    attachments: '.orangehrm-attachment',
+    fileInput: 'input[type="file"]'
+  };
+
+  // Attachment table header text mapped to row properties
+  private readonly attachmentColumnMap: Record<string, keyof AttachmentRow> = {
+    'File Name': 'fileName',
+    'Description': 'description',
+    'Size': 'size',
+    'Type': 'type',
+    'Date Added': 'dateAdded',
+    'Added By': 'addedBy'
+  };
+
+  // Employee the tab belongs to, resolved from My Info when not given
+  protected empNumber?: string;
+
+  /**
+   * @param page - Page instance
+   * @param empNumber - Employee number, the logged-in user when omitted
+   */
+  constructor(page: Page, empNumber?: string) {
+    super(page);
+    this.empNumber = empNumber;
+  }
+
+  /**
+   * Navigate to the tab
+   */
+  async open(): Promise<void> {
+    await this.allure.timedStep(`Navigate to My Info: ${this.tab}`, async () => {
+      const empNumber = await this.resolveEmpNumber();
+
+      await this.navigateTo(`${this.TAB_URL}${empNumber}`);
+      await this.waitForFormLoad();
+
+      this.logger.test.step(`Navigate to ${this.tab}`, 'navigation', {
+        url: `${this.baseURL}${this.TAB_URL}${empNumber}`
+      });
+    });
+  }
+
+  /**
+   * Employee number of the tab, looked up through My Info when not given
+   * @returns Employee number
+   */
+  async resolveEmpNumber(): Promise<string> {
+    if (!this.empNumber) {
+      await this.navigateTo(this.MY_DETAILS_URL);
+      await this.page.waitForURL(/empNumber\/\d+/, { timeout: this.timeout });
+      this.empNumber = this.page.url().match(/empNumber\/(\d+)/)![1];
+    }
+
+    return this.empNumber;
+  }
+
+  /**
+   * Wait until every form loader of the tab disappears
+   */
+  async waitForFormLoad(): Promise<void> {
+    await expect(this.page.locator(this.tabSelectors.formLoader)).toHaveCount(0, { timeout: this.timeout });
+  }
+
+  /**
+   * Form holding a field
+   * @param label - Label of a field unique to the form
+   * @returns Form locator
+   */
+  protected formOf(label: string): Locator {
+    return this.page.locator(this.tabSelectors.formOf(label)).first();
+  }
+
+  /**
+   * Fill an input of a form when a value is provided
+   * @param form - Form locator
+   * @param label - Field label
+   * @param value - Value to fill
+   */
+  protected async fillIfDefined(form: Locator, label: string, value?: string | number): Promise<void> {
+    if (value !== undefined) {
+      await OxdFormGroup.byLabel(form, label).fill(value.toString());
+    }
+  }
+
+  /**
+   * Select a dropdown option of a form when a value is provided
+   * @param form - Form locator
+   * @param label - Field label
+   * @param value - Option text
+   */
+  protected async selectIfDefined(form: Locator, label: string, value?: string): Promise<void> {
+    if (value) {
+      await OxdFormGroup.byLabel(form, label).select().select(value);
+    }
+  }
+
+  /**
+   * Set a date of a form when a value is provided
+   * @param form - Form locator
+   * @param label - Field label
+   * @param value - Date in the input format
+   */
+  protected async dateIfDefined(form: Locator, label: string, value?: string): Promise<void> {
+    if (value) {
+      await OxdFormGroup.byLabel(form, label).datePicker().setDate(value);
+    }
+  }
+
+  /**
+   * Read an input of a form
+   * @param form - Form locator
+   * @param label - Field label
+   * @returns Input value, undefined when empty
+   */
+  protected async readInput(form: Locator, label: string): Promise<string | undefined> {
+    return (await OxdFormGroup.byLabel(form, label).getValue()) || undefined;
+  }
+
+  /**
+   * Read a dropdown of a form
+   * @param form - Form locator
+   * @param label - Field label
+   * @returns Selected option, undefined when nothing is selected
+   */
+  protected async readSelect(form: Locator, label: string): Promise<string | undefined> {
+    return await OxdFormGroup.byLabel(form, label).select().getSelected();
+  }
+
+  /**
+   * Submit a form and wait for the success toast
+   * @param form - Form locator
+   */
+  protected async submit(form: Locator): Promise<void> {
+    await form.locator(this.tabSelectors.submitButton).click({ timeout: this.timeout });
+    await this.toast().waitForSuccess();
+    await this.waitForFormLoad();
+  }
+
+  /**
+   * Table of a list section
+   * @param title - Section title, e.g. "Assigned Emergency Contacts"
+   * @returns Table component
+   */
+  protected sectionTable(title: string): OxdTable {
+    return new OxdTable(this.page.locator(this.tabSelectors.section(title)).first(), this.timeout);
+  }
+
+  /**
+   * Read the rows of a list section
+   * @param title - Section title
+   * @param mapRow - Mapper from header-keyed cells to a typed row
+   * @returns Rows
+   */
+  protected async readSection<T>(title: string, mapRow: (row: OxdTableRow) => T): Promise<T[]> {
+    return await this.allure.timedStep(`Read ${title}`, async () => {
+      await this.waitForFormLoad();
+
+      const rows = await this.sectionTable(title).getRows(mapRow);
+      this.allure.attachJSON(title, rows);
+
+      return rows;
+    });
+  }
+
+  /**
+   * Add a record to a list section through its "+ Add" form
+   * @param title - Section title
+   * @param firstLabel - Label of a field unique to the add form
+   * @param fillForm - Fills the add form
+   */
+  protected async addRecord(title: string, firstLabel: string, fillForm: (form: Locator) => Promise<void>): Promise<void> {
+    await this.allure.timedStep(`Add to ${title}`, async () => {
+      await this.sectionTable(title).root.locator(this.tabSelectors.sectionAddButton).first()
+        .click({ timeout: this.timeout });
+
+      const form = this.formOf(firstLabel);
+      await form.waitFor({ state: 'visible', timeout: this.timeout });
+
+      await fillForm(form);
+      await this.submit(form);
+
+      this.logger.test.step(`Add to ${title}`, 'create', { tab: this.tab });
+    });
+  }
+
+  /**
+   * Delete a record of a list section
+   * @param title - Section title
+   * @param column - Header text used to find the row
+   * @param value - Cell text used to find the row
+   */
+  protected async deleteRecord(title: string, column: string, value: string): Promise<void> {
+    await this.sectionTable(title).deleteRow(column, value);
+    await this.waitForFormLoad();
+  }
+
+  /**
+   * Attachments table of the tab
+   */
+  private attachmentsTable(): OxdTable {
+    return new OxdTable(this.page.locator(this.tabSelectors.attachments).first(), this.timeout);
+  }
+
+  /**
+   * Upload an attachment
+   * @param file - File name, content and optional MIME type
+   * @param comment - Optional comment
+   */
+  async uploadAttachment(file: AttachmentFile, comment?: string): Promise<void> {
+    await this.allure.timedStep(`Upload Attachment: ${file.name}`, async () => {
+      const attachments = this.attachmentsTable().root;
+
+      await attachments.locator(this.tabSelectors.sectionAddButton).first().click({ timeout: this.timeout });
+      await attachments.locator(this.tabSelectors.fileInput).setInputFiles({
+        name: file.name,
+        mimeType: file.mimeType || 'text/plain',
+        buffer: Buffer.isBuffer(file.content) ? file.content : Buffer.from(file.content)
+      });
+
+      const form = attachments.locator('form').first();
+      await this.fillIfDefined(form, 'Comment', comment);
+      await this.submit(form);
+
+      this.logger.test.step('Upload Attachment', 'upload', { tab: this.tab, fileName: file.name });
+    });
+  }
+
+  /**
+   * Read the attachments of the tab
+   * @returns Attachment rows
+   */
+  async getAttachments(): Promise<AttachmentRow[]> {
+    return await this.allure.timedStep('Get Attachments', async () => {
+      await this.waitForFormLoad();
+
+      const rows = await this.attachmentsTable().getRows(row => {
+        const attachment = {} as AttachmentRow;
+
+        for (const [header, key] of Object.entries(this.attachmentColumnMap)) {
+          attachment[key] = row[header] ?? '';
+        }
+
+        return attachment;
+      });
+
+      this.allure.attachJSON('Attachments', rows);
+      return rows;
+    });
+  }
+
+  /**
+   * Download an attachment
+   * @param fileName - Attachment file name
+   * @returns Path of the downloaded file
+   */
+  async downloadAttachment(fileName: string): Promise<string> {
+    return await this.allure.timedStep(`Download Attachment: ${fileName}`, async () => {
+      return await TestUtils.handleDownload(this.page, async () => {
+        await this.attachmentsTable().clickRowAction('File Name', fileName, 'download');
+      });
+    });
+  }
+
+  /**
+   * Delete an attachment
+   * @param fileName - Attachment file name
+   */
+  async deleteAttachment(fileName: string): Promise<void> {
+    await this.allure.timedStep(`Delete Attachment: ${fileName}`, async () => {
+      await this.attachmentsTable().deleteRow('File Name', fileName);
+      await this.waitForFormLoad();
+    });
+  }
+
+  // Assertion methods for better test readability
+
+  /**
+   * Upload a file, download it again and assert the content survived the round trip
+   * @param file - File to upload
+   * @param comment - Optional comment
+   */
+  async verifyAttachmentRoundTrip(file: AttachmentFile, comment?: string): Promise<void> {
+    await this.allure.timedStep(`Verify Attachment Round Trip: ${file.name}`, async () => {
+      await this.uploadAttachment(file, comment);
+
+      const fileNames = (await this.getAttachments()).map(attachment => attachment.fileName);
+      expect(fileNames, `${file.name} should be listed on ${this.tab}`).toContain(file.name);
+
+      const downloadPath = await this.downloadAttachment(file.name);
+      const downloaded = await fs.readFile(downloadPath);
+      const expected = Buffer.isBuffer(file.content) ? file.content : Buffer.from(file.content);
+
+      expect(downloaded.equals(expected), `Downloaded ${file.name} should match the uploaded content`).toBeTruthy();
+    });
+  }
+}
@@ -0,0 +1,101 @@
+import { Locator } from '@playwright/test';
+import { MyInfoTab } from './MyInfoTab.js';
+import type { EmployeeTab } from '../EmployeeDetailsPage.js';
+import type { Gender, PersonalDetails } from '../../types/index.js';
+
+/**
+ * Personal Details tab of My Info
+ */
+export class PersonalDetailsTab extends MyInfoTab {
+  readonly tab: EmployeeTab = 'Personal Details';
+  protected readonly TAB_URL = '/web/index.php/pim/viewPersonalDetails/empNumber/';
+
+  // Selectors - organized by functionality
+  private readonly selectors = {
+    // Name inputs share the "Employee Full Name" label
+    firstNameInput: 'input[name="firstName"]',
+    middleNameInput: 'input[name="middleName"]',
+    lastNameInput: 'input[name="lastName"]',
+    genderRadio: (gender: Gender) =>
+      `xpath=.//label[normalize-space()='${gender}']//input[@type='radio']`
+  };
+
+  /**
+   * Personal details form (the Custom Fields form follows it on the same tab)
+   */
+  private get form(): Locator {
+    return this.formOf('Other Id');
+  }
+
+  /**
+   * Read the tab
+   * @returns Personal details
+   */
+  async read(): Promise<PersonalDetails> {
+    return await this.allure.timedStep('Get Personal Details', async () => {
+      const form = this.form;
+      let gender: Gender | undefined;
+
+      for (const option of ['Male', 'Female'] as Gender[]) {
+        if (await form.locator(this.selectors.genderRadio(option)).isChecked()) {
+          gender = option;
+        }
+      }
+
+      const details: PersonalDetails = {
+        firstName: await form.locator(this.selectors.firstNameInput).inputValue(),
+        middleName: (await form.locator(this.selectors.middleNameInput).inputValue()) || undefined,
+        lastName: await form.locator(this.selectors.lastNameInput).inputValue(),
+        employeeId: await this.readInput(form, 'Employee Id'),
+        otherId: await this.readInput(form, 'Other Id'),
+        driversLicenseNumber: await this.readInput(form, "Driver's License Number"),
+        licenseExpiryDate: await this.readInput(form, 'License Expiry Date'),
+        nationality: await this.readSelect(form, 'Nationality'),
+        maritalStatus: await this.readSelect(form, 'Marital Status'),
+        dateOfBirth: await this.readInput(form, 'Date of Birth'),
+        gender
+      };
+
+      this.allure.attachJSON('Personal Details', details);
+      return details;
+    });
+  }
+
+  /**
+   * Change and save the tab
+   * @param details - Fields to change, the others are left as they are
+   */
+  async save(details: Partial<PersonalDetails>): Promise<void> {
+    await this.allure.timedStep('Save Personal Details', async () => {
+      const form = this.form;
+      const names: Array<[string, string | undefined]> = [
+        [this.selectors.firstNameInput, details.firstName],
+        [this.selectors.middleNameInput, details.middleName],
+        [this.selectors.lastNameInput, details.lastName]
+      ];
+
+      for (const [selector, value] of names) {
+        if (value !== undefined) {
+          await form.locator(selector).fill(value, { timeout: this.timeout });
+        }
+      }
+
+      await this.fillIfDefined(form, 'Employee Id', details.employeeId);
+      await this.fillIfDefined(form, 'Other Id', details.otherId);
+      await this.fillIfDefined(form, "Driver's License Number", details.driversLicenseNumber);
+      await this.dateIfDefined(form, 'License Expiry Date', details.licenseExpiryDate);
+      await this.selectIfDefined(form, 'Nationality', details.nationality);
+      await this.selectIfDefined(form, 'Marital Status', details.maritalStatus);
+      await this.dateIfDefined(form, 'Date of Birth', details.dateOfBirth);
+
+      if (details.gender) {
+        // The radio input is hidden behind its styled label
+        await form.locator(this.selectors.genderRadio(details.gender)).check({ force: true, timeout: this.timeout });
+      }
+
+      await this.submit(form);
+
+      this.allure.attachJSON('Saved Personal Details', details);
+    });
+  }
+}
@@ -0,0 +1,139 @@
+import { MyInfoTab } from './MyInfoTab.js';
+import type { EmployeeTab } from '../EmployeeDetailsPage.js';
+import type {
+  EducationRecord,
+  LanguageRecord,
+  LicenseRecord,
+  Qualifications,
+  SkillRecord,
+  WorkExperience
+} from '../../types/index.js';
+
+/**
+ * Qualifications tab of My Info
+ * Work experience, education, skills, languages and licenses each have their own list section
+ */
+export class QualificationsTab extends MyInfoTab {
+  readonly tab: EmployeeTab = 'Qualifications';
+  protected readonly TAB_URL = '/web/index.php/pim/viewQualifications/empNumber/';
+
+  // List sections
+  private readonly SECTIONS = {
+    workExperience: 'Work Experience',
+    education: 'Education',
+    skills: 'Skills',
+    languages: 'Languages',
+    licenses: 'License'
+  };
+
+  /**
+   * Read every section of the tab
+   * @returns Qualifications
+   */
+  async read(): Promise<Qualifications> {
+    return {
+      workExperience: await this.readSection(this.SECTIONS.workExperience, row => ({
+        company: row['Company'] ?? '',
+        jobTitle: row['Job Title'] ?? '',
+        from: row['From'] || undefined,
+        to: row['To'] || undefined,
+        comment: row['Comment'] || undefined
+      })),
+      education: await this.readSection(this.SECTIONS.education, row => ({
+        level: row['Level'] ?? '',
+        year: row['Year'] || undefined,
+        score: row['GPA/Score'] || undefined
+      })),
+      skills: await this.readSection(this.SECTIONS.skills, row => ({
+        skill: row['Skill'] ?? '',
+        yearsOfExperience: row['Years of Experience'] ? parseInt(row['Years of Experience']) : undefined
+      })),
+      languages: await this.readSection(this.SECTIONS.languages, row => ({
+        language: row['Language'] ?? '',
+        fluency: row['Fluency'] ?? '',
+        competency: row['Competency'] ?? '',
+        comments: row['Comments'] || undefined
+      })),
+      licenses: await this.readSection(this.SECTIONS.licenses, row => ({
+        licenseType: row['License Type'] ?? '',
+        issuedDate: row['Issued Date'] || undefined,
+        expiryDate: row['Expiry Date'] || undefined
+      }))
+    };
+  }
+
+  /**
+   * Add a work experience
+   * @param experience - Work experience
+   */
+  async addWorkExperience(experience: WorkExperience): Promise<void> {
+    await this.addRecord(this.SECTIONS.workExperience, 'Company', async form => {
+      await this.fillIfDefined(form, 'Company', experience.company);
+      await this.fillIfDefined(form, 'Job Title', experience.jobTitle);
+      await this.dateIfDefined(form, 'From', experience.from);
+      await this.dateIfDefined(form, 'To', experience.to);
+      await this.fillIfDefined(form, 'Comment', experience.comment);
+    });
+  }
+
+  /**
+   * Add an education
+   * @param education - Education record
+   */
+  async addEducation(education: EducationRecord): Promise<void> {
+    await this.addRecord(this.SECTIONS.education, 'Institute', async form => {
+      await this.selectIfDefined(form, 'Level', education.level);
+      await this.fillIfDefined(form, 'Institute', education.institute);
+      await this.fillIfDefined(form, 'Year', education.year);
+      await this.fillIfDefined(form, 'GPA/Score', education.score);
+    });
+  }
+
+  /**
+   * Add a skill
+   * @param skill - Skill record
+   */
+  async addSkill(skill: SkillRecord): Promise<void> {
+    await this.addRecord(this.SECTIONS.skills, 'Years of Experience', async form => {
+      await this.selectIfDefined(form, 'Skill', skill.skill);
+      await this.fillIfDefined(form, 'Years of Experience', skill.yearsOfExperience);
+      await this.fillIfDefined(form, 'Comments', skill.comments);
+    });
+  }
+
+  /**
+   * Add a language
+   * @param language - Language record
+   */
+  async addLanguage(language: LanguageRecord): Promise<void> {
+    await this.addRecord(this.SECTIONS.languages, 'Fluency', async form => {
+      await this.selectIfDefined(form, 'Language', language.language);
+      await this.selectIfDefined(form, 'Fluency', language.fluency);
+      await this.selectIfDefined(form, 'Competency', language.competency);
+      await this.fillIfDefined(form, 'Comments', language.comments);
+    });
+  }
+
+  /**
+   * Add a license
+   * @param license - License record
+   */
+  async addLicense(license: LicenseRecord): Promise<void> {
+    await this.addRecord(this.SECTIONS.licenses, 'License Number', async form => {
+      await this.selectIfDefined(form, 'License Type', license.licenseType);
+      await this.fillIfDefined(form, 'License Number', license.licenseNumber);
+      await this.dateIfDefined(form, 'Issued Date', license.issuedDate);
+      await this.dateIfDefined(form, 'Expiry Date', license.expiryDate);
+    });
+  }
+
+  /**
+   * Delete a record of a section
+   * @param section - Section key
+   * @param column - Header text used to find the row
+   * @param value - Cell text used to find the row
+   */
+  async delete(section: keyof Qualifications, column: string, value: string): Promise<void> {
+    await this.deleteRecord(this.SECTIONS[section], column, value);
+  }
+}
@@ -0,0 +1,84 @@
+import { OxdFormGroup } from '../../components/index.js';
+import { MyInfoTab } from './MyInfoTab.js';
+import type { EmployeeTab } from '../EmployeeDetailsPage.js';
+import type { OxdTableRow, ReportTo, ReportToEntry } from '../../types/index.js';
+
+/**
+ * Report-to tab of My Info
+ * Read-only for ESS users; assigning supervisors and subordinates needs an Admin session
+ */
+export class ReportToTab extends MyInfoTab {
+  readonly tab: EmployeeTab = 'Report-to';
+  protected readonly TAB_URL = '/web/index.php/pim/viewReportToDetails/empNumber/';
+
+  // List sections
+  private readonly SUPERVISORS = 'Assigned Supervisors';
+  private readonly SUBORDINATES = 'Assigned Subordinates';
+
+  /**
+   * Map a header-keyed table row to a report-to entry
+   * @param row - Table row keyed by header text
+   * @returns Report-to entry
+   */
+  private toEntry(row: OxdTableRow): ReportToEntry {
+    return {
+      name: row['Name'] ?? '',
+      reportingMethod: row['Reporting Method'] ?? ''
+    };
+  }
+
+  /**
+   * Read the supervisors and subordinates
+   * @returns Report-to lists
+   */
+  async read(): Promise<ReportTo> {
+    return {
+      supervisors: await this.readSection(this.SUPERVISORS, row => this.toEntry(row)),
+      subordinates: await this.readSection(this.SUBORDINATES, row => this.toEntry(row))
+    };
+  }
+
+  /**
+   * Assign a supervisor
+   * @param entry - Supervisor name and reporting method
+   */
+  async addSupervisor(entry: ReportToEntry): Promise<void> {
+    await this.addEntry(this.SUPERVISORS, entry);
+  }
+
+  /**
+   * Assign a subordinate
+   * @param entry - Subordinate name and reporting method
+   */
+  async addSubordinate(entry: ReportToEntry): Promise<void> {
+    await this.addEntry(this.SUBORDINATES, entry);
+  }
+
+  /**
+   * Fill the shared supervisor/subordinate form of a section
+   * @param section - Section title
+   * @param entry - Employee name and reporting method
+   */
+  private async addEntry(section: string, entry: ReportToEntry): Promise<void> {
+    await this.addRecord(section, 'Reporting Method', async form => {
+      await OxdFormGroup.byLabel(form, 'Name').autocomplete().select(entry.name);
+      await this.selectIfDefined(form, 'Reporting Method', entry.reportingMethod);
+    });
+  }
+
+  /**
+   * Remove a supervisor
+   * @param name - Supervisor name
+   */
+  async deleteSupervisor(name: string): Promise<void> {
+    await this.deleteRecord(this.SUPERVISORS, 'Name', name);
+  }
+
+  /**
+   * Remove a subordinate
+   * @param name - Subordinate name
+   */
+  async deleteSubordinate(name: string): Promise<void> {
+    await this.deleteRecord(this.SUBORDINATES, 'Name', name);
+  }
+}
@@ -0,0 +1,51 @@
+import { MyInfoTab } from './MyInfoTab.js';
+import type { EmployeeTab } from '../EmployeeDetailsPage.js';
+import type { SalaryComponent } from '../../types/index.js';
+
+/**
+ * Salary tab of My Info
+ * Read-only for ESS users; adding components needs an Admin session
+ */
+export class SalaryTab extends MyInfoTab {
+  readonly tab: EmployeeTab = 'Salary';
+  protected readonly TAB_URL = '/web/index.php/pim/viewSalaryList/empNumber/';
+
+  // List section
+  private readonly SECTION = 'Assigned Salary Components';
+
+  /**
+   * Read the salary components
+   * @returns Salary components
+   */
+  async read(): Promise<SalaryComponent[]> {
+    return await this.readSection(this.SECTION, row => ({
+      name: row['Salary Component'] ?? '',
+      payFrequency: row['Pay Frequency'] || undefined,
+      currency: row['Currency'] ?? '',
+      amount: parseFloat((row['Amount'] ?? '').replace(/,/g, '')) || 0
+    }));
+  }
+
+  /**
+   * Add a salary component
+   * @param component - Salary component
+   */
+  async add(component: SalaryComponent): Promise<void> {
+    await this.addRecord(this.SECTION, 'Salary Component', async form => {
+      await this.fillIfDefined(form, 'Salary Component', component.name);
+      await this.selectIfDefined(form, 'Pay Grade', component.payGrade);
+      await this.selectIfDefined(form, 'Pay Frequency', component.payFrequency);
+      await this.selectIfDefined(form, 'Currency', component.currency);
+      await this.fillIfDefined(form, 'Amount', component.amount);
+      await this.fillIfDefined(form, 'Comments', component.comments);
+    });
+  }
+
+  /**
+   * Delete a salary component
+   * @param name - Salary component name
+   */
+  async delete(name: string): Promise<void> {
+    await this.deleteRecord(this.SECTION, 'Salary Component', name);
+  }
+}
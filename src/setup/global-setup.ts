@@ -4,6 +4,7 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import dotenv from 'dotenv';
 import logger from '../config/logger.js';
+import { AuthHelper } from '../helpers/AuthHelper.js';
 import type { Environment } from '../types/index.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -14,7 +15,7 @@ dotenv.config();
 
 /**
  * Global setup function that runs before all tests
- * Optimized for OAuth applications - no stored authentication
+ * Logs in once per active test account and caches the storage state per role
  * @param config - Playwright full configuration
  */
 async function globalSetup(config: FullConfig): Promise<void> {
@@ -52,6 +53,12 @@ async function globalSetup(config: FullConfig): Promise<void> {
     // 8. Setup test environment info
     await setupTestEnvironmentInfo();
 
+    // 9. Make sure the non-Admin test accounts exist with the expected status
+    await provisionTestAccounts();
+
+    // 10. Build authenticated storage state per role
+    await setupAuthenticatedStorageStates();
+
     const setupEndTime = Date.now();
     const setupDuration = setupEndTime - setupStartTime;
 
@@ -549,6 +556,63 @@ async function setupTestEnvironmentInfo(): Promise<void> {
   });
 }
 
+/**
+ * Create missing test accounts and align their status with test-accounts.json
+ */
+async function provisionTestAccounts(): Promise<void> {
+  logger.info('👥 Provisioning test accounts');
+
+  const browser = await chromium.launch({ headless: true });
+
+  try {
+    const created = await AuthHelper.provisionTestAccounts(browser);
+    logger.info('✅ Test accounts ready', { created });
+  } catch (error) {
+    // Existing accounts keep working; only missing or mis-toggled accounts are affected
+    logger.warn('Failed to provision test accounts', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  } finally {
+    await browser.close();
+  }
+}
+
+/**
+ * Log in once per active account and save a storage state file per role
+ */
+async function setupAuthenticatedStorageStates(): Promise<void> {
+  logger.info('🔐 Building authenticated storage states');
+
+  const accounts = await AuthHelper.getActiveAccounts();
+  const browser = await chromium.launch({ headless: true });
+  const results: Array<{ role: string; username: string; saved: boolean }> = [];
+
+  try {
+    for (const account of accounts) {
+      try {
+        await AuthHelper.createStorageState(browser, account);
+        results.push({ role: account.role, username: account.username, saved: true });
+      } catch (error) {
+        results.push({ role: account.role, username: account.username, saved: false });
+
+        // Tests for this role will retry the login through AuthHelper.ensureStorageState
+        logger.warn(`Failed to build storage state for role ${account.role}`, {
+          username: account.username,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  } finally {
+    await browser.close();
+  }
+
+  logger.info('✅ Authenticated storage states ready', {
+    directory: AuthHelper.STORAGE_STATE_DIR,
+    saved: results.filter(r => r.saved).length,
+    results
+  });
+}
+
 /**
  * Emergency cleanup on setup failure
  */
@@ -38,6 +38,26 @@ export interface Environment {
     headers?: Record<string, string>;
     params?: Record<string, any>;
     timeout?: number;
+    retry?: Partial<RetryPolicy>;
+  }
+  
+  // Retry types
+  export interface RetryPolicy {
+    maxAttempts: number;
+    baseDelay: number;
+    maxDelay: number;
+    jitter: number;
+    retryOnStatus: number[];
+    retryOnNetworkError: boolean;
+    retryNonIdempotent: boolean;
+    respectRetryAfter: boolean;
+  }
+  
+  export interface BackoffOptions {
+    maxDelay?: number;
+    jitter?: number;
+    shouldRetry?: (error: Error, attempt: number) => boolean;
+    getDelay?: (error: Error, attempt: number) => number | undefined;
   }
   
   // Form data types
@@ -141,12 +161,977 @@ export interface Environment {
     joinedDate?: string;
   }
   
+  // My Info types
+  export type Gender = 'Male' | 'Female';
+  
+  export interface PersonalDetails extends Pick<Employee, 'firstName' | 'middleName' | 'lastName' | 'employeeId'> {
+    otherId?: string;
+    driversLicenseNumber?: string;
+    licenseExpiryDate?: string;
+    nationality?: string;
+    maritalStatus?: string;
+    dateOfBirth?: string;
+    gender?: Gender;
+  }
+  
+  // `phone` is the mobile number and `email` the work email, as on Employee
+  export interface ContactDetails extends Pick<Employee, 'address' | 'phone' | 'email'> {
+    homePhone?: string;
+    workPhone?: string;
+    otherEmail?: string;
+  }
+  
+  export interface EmergencyContact {
+    name: string;
+    relationship: string;
+    homePhone?: string;
+    mobile?: string;
+    workPhone?: string;
+  }
+  
+  export interface Dependent {
+    name: string;
+    relationship: 'Child' | 'Other';
+    relationshipOther?: string;
+    dateOfBirth?: string;
+  }
+  
+  export interface ImmigrationRecord {
+    document: 'Passport' | 'Visa';
+    number: string;
+    issuedDate?: string;
+    expiryDate?: string;
+    eligibleStatus?: string;
+    issuedBy?: string;
+    eligibleReviewDate?: string;
+    comments?: string;
+  }
+  
+  export interface SalaryComponent {
+    name: string;
+    payGrade?: string;
+    payFrequency?: string;
+    currency: string;
+    amount: number;
+    comments?: string;
+  }
+  
+  export interface ReportToEntry {
+    name: string;
+    reportingMethod: string;
+  }
+  
+  export interface ReportTo {
+    supervisors: ReportToEntry[];
+    subordinates: ReportToEntry[];
+  }
+  
+  export interface WorkExperience {
+    company: string;
+    jobTitle: string;
+    from?: string;
+    to?: string;
+    comment?: string;
+  }
+  
+  export interface EducationRecord {
+    level: string;
+    institute?: string;
+    year?: string;
+    score?: string;
+  }
+  
+  export interface SkillRecord {
+    skill: string;
+    yearsOfExperience?: number;
+    comments?: string;
+  }
+  
+  export interface LanguageRecord {
+    language: string;
+    fluency: string;
+    competency: string;
+    comments?: string;
+  }
+  
+  export interface LicenseRecord {
+    licenseType: string;
+    licenseNumber?: string;
+    issuedDate?: string;
+    expiryDate?: string;
+  }
+  
+  export interface Qualifications {
+    workExperience: WorkExperience[];
+    education: EducationRecord[];
+    skills: SkillRecord[];
+    languages: LanguageRecord[];
+    licenses: LicenseRecord[];
+  }
+  
+  export interface AttachmentFile {
+    name: string;
+    content: string | Buffer;
+    mimeType?: string;
+  }
+  
+  export interface AttachmentRow {
+    fileName: string;
+    description: string;
+    size: string;
+    type: string;
+    dateAdded: string;
+    addedBy: string;
+  }
+  
+  // PIM employee list types
+  export type EmployeeInclude = 'Current Employees Only' | 'Current and Past Employees' | 'Past Employees Only';
+  
+  export interface EmployeeSearchCriteria {
+    name?: string;
+    employeeId?: string;
+    employmentStatus?: string;
+    include?: EmployeeInclude;
+    jobTitle?: string;
+    subUnit?: string;
+  }
+  
+  export interface EmployeeListRow {
+    id: string;
+    firstMiddleName: string;
+    lastName: string;
+    jobTitle: string;
+    employmentStatus: string;
+    subUnit: string;
+    supervisor: string;
+  }
+  
   // User credentials types
   export interface UserCredentials {
     username: string;
     password: string;
     role?: string;
   }
+
+  // Test account types (test-data/test-accounts.json)
+  export interface TestAccount extends UserCredentials {
+    role: string;
+    description?: string;
+    active: boolean;
+    employeeName?: string;
+  }
+  
+  export interface TestAccountsData {
+    accounts: TestAccount[];
+  }
+  
+  // Admin system user types
+  export type SystemUserStatus = 'Enabled' | 'Disabled';
+  
+  export interface SystemUser extends UserCredentials {
+    role: string;
+    employeeName: string;
+    status: SystemUserStatus;
+  }
+  
+  export interface SystemUserRow extends Omit<UserCredentials, 'password'> {
+    role: string;
+    employeeName: string;
+    status: SystemUserStatus;
+  }
+  
+  export interface SystemUserSearchCriteria {
+    username?: string;
+    role?: string;
+    employeeName?: string;
+    status?: SystemUserStatus;
+  }
+  
+  // Oxd component types
+  export type OxdToastType = 'success' | 'error' | 'info' | 'warn';
+  
+  export type OxdTableRow = Record<string, string>;
+  
+  export type OxdSortDirection = 'Ascending' | 'Descending';
+  
+  export type OxdRowAction = 'edit' | 'delete' | 'view' | 'download';
+  
+  // Top bar types
+  export type UserDropdownItem = 'About' | 'Support' | 'Change Password' | 'Logout';
+  
+  export interface AboutInfo {
+    companyName: string;
+    version: string;
+    versionNumber: string;
+    activeEmployees: number;
+    terminatedEmployees: number;
+  }
+  
+  // Dashboard types
+  export type DashboardWidgetName =
+    | 'Time at Work'
+    | 'My Actions'
+    | 'Quick Launch'
+    | 'Buzz Latest Posts'
+    | 'Employees on Leave Today'
+    | 'Employee Distribution by Sub Unit'
+    | 'Employee Distribution by Location';
+  
+  export interface TimeAtWork {
+    state: string;
+    lastPunch: string;
+    todayTotal: string;
+    todayMinutes: number;
+    weekTotal: string;
+    weekMinutes: number;
+  }
+  
+  export interface PendingAction {
+    label: string;
+    count: number;
+  }
+  
+  export interface EmployeeOnLeave {
+    name: string;
+    details: string;
+  }
+  
+  export interface ChartSlice {
+    label: string;
+    value: number;
+  }
+  
+  // Role to expected dashboard widgets (test-data/dashboard-widgets.json)
+  export interface DashboardWidgetsData {
+    dashboardWidgets: Record<string, DashboardWidgetName[]>;
+  }
+  
+  // Leave types
+  export type LeaveStatus = 'Rejected' | 'Cancelled' | 'Pending Approval' | 'Scheduled' | 'Taken';
+  
+  export type LeavePartialDays = 'None' | 'All Days' | 'Start Day Only' | 'End Day Only' | 'Start and End Day';
+  
+  export type LeaveDurationType = 'Full Day' | 'Half Day - Morning' | 'Half Day - Afternoon' | 'Specify Time';
+  
+  export type LeaveAction = 'Approve' | 'Reject' | 'Cancel';
+  
+  export interface LeaveDuration {
+    type: LeaveDurationType;
+    from?: string;
+    to?: string;
+  }
+  
+  export interface LeaveRequest {
+    leaveType: string;
+    fromDate: Date | string;
+    toDate?: Date | string;
+    partialDays?: LeavePartialDays;
+    duration?: LeaveDuration;
+    endDuration?: LeaveDuration;
+    comment?: string;
+  }
+  
+  export interface AssignLeaveRequest extends LeaveRequest {
+    employeeName: string;
+  }
+  
+  export interface LeaveSearchCriteria {
+    fromDate?: Date | string;
+    toDate?: Date | string;
+    statuses?: LeaveStatus[];
+    leaveType?: string;
+    employeeName?: string;
+    subUnit?: string;
+  }
+  
+  export interface LeaveListRow {
+    date: string;
+    employeeName: string;
+    leaveType: string;
+    leaveBalance: number;
+    numberOfDays: number;
+    status: string;
+    comments: string;
+  }
+  
+  export interface LeaveEntitlement {
+    employeeName: string;
+    leaveType: string;
+    leavePeriod?: string;
+    entitlement: number;
+  }
+  
+  export interface LeaveEntitlementRow {
+    leaveType: string;
+    entitlementType: string;
+    validFrom: string;
+    validTo: string;
+    days: number;
+  }
+  
+  // Time types
+  export type TimesheetStatus = 'Not Submitted' | 'Submitted' | 'Approved' | 'Rejected';
+  
+  // Hours are in the day order of the timesheet columns; missing days are left empty
+  export interface TimesheetEntry {
+    project: string;
+    activity: string;
+    hours: number[];
+  }
+  
+  export interface TimesheetRow extends TimesheetEntry {
+    total: number;
+  }
+  
+  export interface TimesheetTotals {
+    daily: number[];
+    weekly: number;
+  }
+  
+  export interface AttendanceRecord {
+    punchIn: string;
+    punchInNote: string;
+    punchOut: string;
+    punchOutNote: string;
+    durationHours: number;
+  }
+  
+  // Recruitment types
+  export type CandidateStatus =
+    | 'Application Initiated'
+    | 'Shortlisted'
+    | 'Rejected'
+    | 'Interview Scheduled'
+    | 'Interview Passed'
+    | 'Interview Failed'
+    | 'Job Offered'
+    | 'Offer Declined'
+    | 'Hired';
+  
+  export type CandidateAction =
+    | 'Shortlist'
+    | 'Reject'
+    | 'Schedule Interview'
+    | 'Mark Interview Passed'
+    | 'Mark Interview Failed'
+    | 'Offer Job'
+    | 'Offer Declined'
+    | 'Hire';
+  
+  export interface Vacancy {
+    name: string;
+    jobTitle: string;
+    hiringManager: string;
+    description?: string;
+    positions?: number;
+  }
+  
+  export interface VacancyListRow {
+    vacancy: string;
+    jobTitle: string;
+    hiringManager: string;
+    status: string;
+  }
+  
+  export interface Candidate {
+    firstName: string;
+    middleName?: string;
+    lastName: string;
+    email: string;
+    vacancy?: string;
+    contactNumber?: string;
+    keywords?: string;
+    notes?: string;
+    resume?: AttachmentFile;
+  }
+  
+  export interface CandidateSearchCriteria {
+    jobTitle?: string;
+    vacancy?: string;
+    hiringManager?: string;
+    status?: CandidateStatus;
+    candidateName?: string;
+    keywords?: string;
+  }
+  
+  export interface CandidateListRow {
+    vacancy: string;
+    candidate: string;
+    hiringManager: string;
+    dateOfApplication: string;
+    status: string;
+  }
+  
+  export interface Interview {
+    title: string;
+    interviewer: string;
+    date: Date | string;
+    time?: string;
+    notes?: string;
+  }
+  
+  export interface CandidateHistoryEntry {
+    performedDate: string;
+    description: string;
+  }
+  
+  export interface HiringStep {
+    action: CandidateAction;
+    details?: string | Interview;
+  }
+  
+  // Claim types
+  export type ClaimStatus = 'Initiated' | 'Submitted' | 'Approved' | 'Rejected' | 'Cancelled' | 'Paid';
+  
+  export type ClaimAction = 'Submit' | 'Approve' | 'Reject' | 'Pay' | 'Cancel';
+  
+  export interface ClaimRequest {
+    event: string;
+    currency: string;
+    remarks?: string;
+  }
+  
+  export interface AssignClaimRequest extends ClaimRequest {
+    employeeName: string;
+  }
+  
+  export interface ClaimExpense {
+    expenseType: string;
+    date: Date | string;
+    amount: number;
+    note?: string;
+  }
+  
+  export interface ClaimExpenseRow {
+    expenseType: string;
+    date: string;
+    amount: number;
+    note: string;
+  }
+  
+  export interface ClaimTotal {
+    currency: string;
+    amount: number;
+    text: string;
+  }
+  
+  export interface ClaimSearchCriteria {
+    employeeName?: string;
+    referenceId?: string;
+    eventName?: string;
+    status?: ClaimStatus;
+    fromDate?: Date | string;
+    toDate?: Date | string;
+  }
+  
+  export interface ClaimListRow {
+    referenceId: string;
+    employeeName: string;
+    eventName: string;
+    description: string;
+    currency: string;
+    submittedDate: string;
+    status: string;
+    amount: number;
+  }
+  
+  // Performance types
+  export type ReviewStatus = 'Inactive' | 'Activated' | 'In Progress' | 'Completed';
+  
+  export interface Kpi {
+    indicator: string;
+    jobTitle: string;
+    minRating?: number;
+    maxRating?: number;
+    isDefault?: boolean;
+  }
+  
+  export interface KpiListRow {
+    indicator: string;
+    jobTitle: string;
+    minRate: number;
+    maxRate: number;
+    isDefault: boolean;
+  }
+  
+  export interface PerformanceReview {
+    employeeName: string;
+    reviewer: string;
+    startDate: Date | string;
+    endDate: Date | string;
+    dueDate: Date | string;
+  }
+  
+  export interface ReviewSearchCriteria {
+    employeeName?: string;
+    jobTitle?: string;
+    subUnit?: string;
+    status?: ReviewStatus;
+    fromDate?: Date | string;
+    toDate?: Date | string;
+  }
+  
+  export interface ReviewListRow {
+    employee: string;
+    jobTitle: string;
+    subUnit: string;
+    reviewPeriod: string;
+    dueDate: string;
+    reviewer: string;
+    status: string;
+  }
+  
+  export interface KpiRating {
+    kpi: string;
+    rating: number;
+    comment?: string;
+  }
+  
+  export interface FinalEvaluation {
+    rating: number;
+    comments?: string;
+    completedDate?: Date | string;
+  }
+  
+  // Directory types
+  export interface DirectorySearchCriteria {
+    employeeName?: string;
+    jobTitle?: string;
+    location?: string;
+  }
+  
+  export interface DirectoryCard {
+    name: string;
+    jobTitle: string;
+    location: string;
+  }
+  
+  export interface DirectoryContact extends DirectoryCard {
+    workPhone?: string;
+    mobilePhone?: string;
+    workEmail?: string;
+  }
+  
+  // Buzz types
+  export type BuzzFeedTab = 'Most Recent' | 'Most Liked' | 'Most Commented';
+  
+  export type BuzzPostType = 'text' | 'photo' | 'video';
+  
+  export interface BuzzComment {
+    author: string;
+    text: string;
+  }
+  
+  export interface BuzzPost {
+    author: string;
+    time: string;
+    text: string;
+    type: BuzzPostType;
+    likes: number;
+    commentCount: number;
+    shares: number;
+    comments: BuzzComment[];
+  }
+  
+  // Admin reference data types
+  export type ReferenceListName =
+    | 'Job Titles'
+    | 'Pay Grades'
+    | 'Employment Status'
+    | 'Job Categories'
+    | 'Work Shifts'
+    | 'Locations'
+    | 'Skills'
+    | 'Education'
+    | 'Licenses'
+    | 'Languages'
+    | 'Memberships';
+  
+  export interface ReferenceList {
+    name: ReferenceListName;
+    url: string;
+    nameColumn: string;
+    nameLabel: string;
+  }
+  
+  export type ReferenceFieldType = 'input' | 'select' | 'autocomplete' | 'date';
+  
+  export interface ReferenceField {
+    label: string;
+    value: string;
+    type?: ReferenceFieldType;
+  }
+  
+  export interface ReferenceItem {
+    name: string;
+    fields?: ReferenceField[];
+  }
+  
+  export interface OrganizationInfo {
+    organizationName?: string;
+    registrationNumber?: string;
+    taxId?: string;
+    phone?: string;
+    fax?: string;
+    email?: string;
+    street1?: string;
+    street2?: string;
+    city?: string;
+    state?: string;
+    zipCode?: string;
+    country?: string;
+    notes?: string;
+  }
+  
+  export interface OrgUnit {
+    name: string;
+    unitId?: string;
+    description?: string;
+  }
+  
+  export interface OrgUnitNode {
+    name: string;
+    children: OrgUnitNode[];
+  }
+  
+  // Maintenance types
+  export interface PurgeCandidateRow {
+    vacancy: string;
+    candidate: string;
+    dateOfApplication: string;
+    status: string;
+  }
+  
+  export interface AccessRecordsDownload {
+    filePath: string;
+    fileName: string;
+    data: Record<string, unknown>;
+  }
+  
+  // Email capture types
+  export interface CapturedEmail {
+    from: string;
+    to: string[];
+    subject: string;
+    headers: Record<string, string>;
+    text: string;
+    html?: string;
+    raw: string;
+    receivedAt: Date;
+  }
+  
+  export interface SmtpCaptureConfig {
+    enabled: boolean;
+    host: string;
+    port: number;
+  }
+  
+  // OrangeHRM REST API (v2) types
+  export interface ApiPagination {
+    limit?: number;
+    offset?: number;
+  }
+  
+  export interface ApiSorting {
+    sortField?: string;
+    sortOrder?: 'ASC' | 'DESC';
+  }
+  
+  // Every v2 endpoint wraps its payload in { data, meta, rels }
+  export interface ApiEnvelope<T> {
+    data: T;
+    meta: { total?: number; [key: string]: unknown };
+    rels: unknown[];
+  }
+  
+  export interface ApiListResult<T> {
+    data: T[];
+    total: number;
+    limit: number;
+    offset: number;
+  }
+  
+  export type ApiIncludeEmployees = 'onlyCurrent' | 'onlyPast' | 'currentAndPast';
+  
+  export interface ApiNamedRef {
+    id: number;
+    name: string;
+  }
+  
+  export interface ApiEmployeeRef {
+    empNumber: number;
+    employeeId: string | null;
+    firstName: string;
+    middleName: string;
+    lastName: string;
+    terminationId: number | null;
+  }
+  
+  export interface ApiEmployee extends ApiEmployeeRef {
+    jobTitle: { id: number; title: string; isDeleted: boolean } | null;
+    subunit: ApiNamedRef | null;
+    empStatus: ApiNamedRef | null;
+    supervisors?: ApiEmployeeRef[];
+  }
+  
+  export interface ApiEmployeeFilters extends ApiPagination, ApiSorting {
+    nameOrId?: string;
+    employeeId?: string;
+    empStatusId?: number;
+    jobTitleId?: number;
+    subunitId?: number;
+    includeEmployees?: ApiIncludeEmployees;
+  }
+  
+  export interface ApiCreateEmployeeRequest {
+    firstName: string;
+    middleName?: string;
+    lastName: string;
+    employeeId?: string;
+  }
+  
+  export interface ApiPersonalDetailsRequest {
+    firstName: string;
+    middleName?: string;
+    lastName: string;
+    employeeId?: string;
+    otherId?: string;
+    drivingLicenseNo?: string;
+    drivingLicenseExpiredDate?: string | null;
+    gender?: 1 | 2 | null;
+    maritalStatus?: string | null;
+    birthday?: string | null;
+    nationalityId?: number | null;
+  }
+  
+  export interface ApiTerminationRequest {
+    terminationReasonId: number;
+    date: string;
+    note?: string;
+  }
+  
+  export interface ApiTermination {
+    id: number;
+    terminationReason: ApiNamedRef;
+    date: string;
+    note: string | null;
+  }
+  
+  export interface ApiUserRole {
+    id: number;
+    name: string;
+    displayName: string;
+  }
+  
+  export interface ApiUser {
+    id: number;
+    userName: string;
+    deleted: boolean;
+    status: boolean;
+    employee: ApiEmployeeRef;
+    userRole: ApiUserRole;
+  }
+  
+  export interface ApiUserFilters extends ApiPagination, ApiSorting {
+    username?: string;
+    userRoleId?: number;
+    empNumber?: number;
+    status?: boolean;
+  }
+  
+  export interface ApiCreateUserRequest {
+    username: string;
+    password: string;
+    status: boolean;
+    userRoleId: number;
+    empNumber: number;
+  }
+  
+  export interface ApiUpdateUserRequest {
+    username: string;
+    status: boolean;
+    userRoleId: number;
+    empNumber: number;
+    changePassword: boolean;
+    password?: string;
+  }
+  
+  export type ApiLeaveRequestAction = 'APPROVE' | 'REJECT' | 'CANCEL';
+  
+  export type ApiLeaveDurationType = 'full_day' | 'half_day_morning' | 'half_day_afternoon' | 'specify_time';
+  
+  export interface ApiLeaveRequest {
+    id: number;
+    employee: ApiEmployeeRef;
+    leaveType: { id: number; name: string; deleted: boolean };
+    dates: {
+      fromDate: string;
+      toDate: string | null;
+      durationType: { id: number; type: ApiLeaveDurationType } | null;
+      startTime: string | null;
+      endTime: string | null;
+    };
+    noOfDays: number;
+    leaveBreakdown: Array<{ id: number; name: LeaveStatus; lengthDays: number }>;
+    lastComment: { id: number; comment: string; date: string; time: string } | null;
+  }
+  
+  export interface ApiLeaveRequestFilters extends ApiPagination, ApiSorting {
+    fromDate: string;
+    toDate: string;
+    statuses?: LeaveStatus[];
+    leaveTypeId?: number;
+    empNumber?: number;
+    subunitId?: number;
+    includeEmployees?: ApiIncludeEmployees;
+  }
+  
+  export interface ApiCreateLeaveRequest {
+    leaveTypeId: number;
+    fromDate: string;
+    toDate: string;
+    comment?: string;
+    duration?: { type: ApiLeaveDurationType; fromTime?: string; toTime?: string };
+  }
+  
+  export interface ApiJobTitle {
+    id: number;
+    title: string;
+    description: string | null;
+    note: string | null;
+    jobSpecification: { id: number; filename: string; fileType: string; fileSize: number } | null;
+  }
+  
+  export interface ApiJobTitleFilters extends ApiPagination, ApiSorting {}
+  
+  export interface ApiJobTitleRequest {
+    title: string;
+    description?: string;
+    note?: string;
+  }
+  
+  export interface ApiCandidate {
+    id: number;
+    firstName: string;
+    middleName: string | null;
+    lastName: string;
+    email: string;
+    contactNumber: string | null;
+    keywords: string | null;
+    comment: string | null;
+    dateOfApplication: string;
+    consentToKeepData: boolean;
+    vacancy: { id: number; name: string; status: boolean } | null;
+    status: { id: number; label: string } | null;
+    hasAttachment: boolean;
+  }
+  
+  export interface ApiCandidateFilters extends ApiPagination, ApiSorting {
+    jobTitleId?: number;
+    vacancyId?: number;
+    hiringManagerId?: number;
+    status?: number;
+    candidateId?: number;
+    keywords?: string;
+    fromDate?: string;
+    toDate?: string;
+    methodOfApplication?: 1 | 2;
+  }
+  
+  export interface ApiCreateCandidateRequest {
+    firstName: string;
+    middleName?: string;
+    lastName: string;
+    email: string;
+    contactNumber?: string;
+    keywords?: string;
+    comment?: string;
+    dateOfApplication?: string;
+    consentToKeepData?: boolean;
+    vacancyId?: number;
+  }
+  
+  export type ApiClaimAction = 'SUBMIT' | 'APPROVE' | 'REJECT' | 'CANCEL' | 'PAY';
+  
+  export interface ApiClaimRequest {
+    id: number;
+    referenceId: string;
+    claimEvent: ApiNamedRef;
+    currencyType: { id: string; name: string };
+    description: string | null;
+    status: string;
+    submittedDate: string | null;
+    amount?: number;
+    employee?: ApiEmployeeRef;
+  }
+  
+  export interface ApiClaimFilters extends ApiPagination, ApiSorting {
+    referenceId?: string;
+    eventId?: number;
+    status?: string;
+    fromDate?: string;
+    toDate?: string;
+    empNumber?: number;
+    includeEmployees?: ApiIncludeEmployees;
+  }
+  
+  export interface ApiCreateClaimRequest {
+    claimEventId: number;
+    currencyId: string;
+    remarks?: string;
+  }
+  
+  // JSON Schema types (test-data/schemas), the draft-07 subset SchemaValidator understands
+  export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  
+  export type JsonSchemaFormat = 'date' | 'date-time' | 'time' | 'email';
+  
+  export interface JsonSchema {
+    $schema?: string;
+    $id?: string;
+    $ref?: string;
+    title?: string;
+    description?: string;
+    type?: JsonSchemaType | JsonSchemaType[];
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+    enum?: unknown[];
+    const?: unknown;
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    format?: JsonSchemaFormat;
+    allOf?: JsonSchema[];
+    anyOf?: JsonSchema[];
+    oneOf?: JsonSchema[];
+    definitions?: Record<string, JsonSchema>;
+  }
+  
+  export interface SchemaViolation {
+    pointer: string;
+    keyword: string;
+    message: string;
+  }
+  
+  // Response matcher types
+  export interface JsonPathNode {
+    path: string;
+    value: unknown;
+  }
+  
+  export type HttpStatusClass = '1xx' | '2xx' | '3xx' | '4xx' | '5xx';
+  
+  export interface MatcherMismatch {
+    path: string;
+    expected: string;
+    received: string;
+  }
   
   // Navigation types
   export interface NavigationOptions {
@@ -155,6 +1140,32 @@ export interface Environment {
     referer?: string;
   }
   
+  export type MenuItemName =
+    | 'Admin'
+    | 'PIM'
+    | 'Leave'
+    | 'Time'
+    | 'Recruitment'
+    | 'My Info'
+    | 'Performance'
+    | 'Dashboard'
+    | 'Directory'
+    | 'Maintenance'
+    | 'Claim'
+    | 'Buzz';
+  
+  export interface MenuItem {
+    name: MenuItemName;
+    label: string;
+    url: string;
+    roles: string[];
+  }
+  
+  // Role to expected menu items (test-data/nav-options.json)
+  export interface NavigationOptionsData {
+    navigationOptions: Record<string, MenuItemName[]>;
+  }
+  
   // Allure types
   export interface AllureStepOptions {
     name: string;
@@ -3,6 +3,7 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import { Browser, BrowserContext, Page } from '@playwright/test';
 import logger from '../config/logger.js';
+import type { BackoffOptions, Employee } from '../types/index.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -128,7 +129,7 @@ export class TestUtils {
    * @param overrides - Optional data overrides
    * @returns Employee test data
    */
-  static generateEmployeeData(overrides: any = {}): any {
+  static generateEmployeeData(overrides: Partial<Employee> = {}): Employee {
     const randomId = this.generateRandomString(6);
     return {
       firstName: `Test${randomId}`,
@@ -377,29 +378,33 @@ export class TestUtils {
 
   /**
    * Retry function with exponential backoff
-   * @param fn - Function to retry
-   * @param maxRetries - Maximum number of retries
+   * @param fn - Function to retry, called with the attempt number
+   * @param maxRetries - Maximum number of attempts
    * @param baseDelay - Base delay in milliseconds
+   * @param options - Delay cap, jitter (fraction of the delay added at random), which errors to retry
+   * and a delay override such as a Retry-After header
    * @returns Result of the function
    */
   static async retryWithBackoff<T>(
-    fn: () => Promise<T>,
+    fn: (attempt: number) => Promise<T>,
     maxRetries: number = 3,
-    baseDelay: number = 1000
+    baseDelay: number = 1000,
+    options: BackoffOptions = {}
   ): Promise<T> {
     let lastError: Error;
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
-        return await fn();
+        return await fn(attempt);
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
         
-        if (attempt === maxRetries) {
+        if (attempt === maxRetries || (options.shouldRetry && !options.shouldRetry(lastError, attempt))) {
           break;
         }
 
-        const delay = baseDelay * Math.pow(2, attempt - 1);
+        const backoff = Math.min(baseDelay * Math.pow(2, attempt - 1), options.maxDelay ?? Infinity);
+        const delay = options.getDelay?.(lastError, attempt) ?? Math.round(backoff + Math.random() * backoff * (options.jitter ?? 0));
         logger.debug(`Retry attempt ${attempt}/${maxRetries} failed, waiting ${delay}ms`, {
           error: lastError.message
         });
@@ -411,6 +416,29 @@ export class TestUtils {
     throw lastError!;
   }
 
+  /**
+   * Run cleanup actions without throwing, so a failing cleanup in a `finally` block cannot hide the error of the test
+   * Every action runs even when an earlier one fails
+   * @param actions - Cleanup actions, run in order
+   * @returns Messages of the actions that failed, empty when all succeeded
+   */
+  static async runCleanup(...actions: Array<() => Promise<unknown>>): Promise<string[]> {
+    const errors: string[] = [];
+
+    for (const action of actions) {
+      try {
+        await action();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+
+        logger.warn('Cleanup action failed', { error: message });
+        errors.push(message);
+      }
+    }
+
+    return errors;
+  }
+
   /**
    * Extract error details from various error types
    * @param error - Error object
@@ -487,7 +515,7 @@ export class TestUtils {
   } {
     return {
       baseUrl: process.env.BASE_URL || 'https://opensource-demo.orangehrmlive.com',
-      apiBaseUrl: process.env.API_BASE_URL || 'https://opensource-demo.orangehrmlive.com/web/api/v1',
+      apiBaseUrl: process.env.API_BASE_URL || 'https://opensource-demo.orangehrmlive.com/web/index.php/api/v2',
       browser: process.env.BROWSER || 'chromium',
       headless: process.env.HEADLESS === 'true',
       timeout: parseInt(process.env.TIMEOUT || '30000'),
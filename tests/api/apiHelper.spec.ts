@@ -0,0 +1,172 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { expect, test } from "../../src/fixtures";
+import { OrangeHrmApi } from "../../src/api";
+import { ApiHelper } from "../../src/helpers/ApiHelper";
+
+// Base path of the OrangeHRM v2 API, served here by a local stub
+const API_PATH = "/web/index.php/api/v2";
+
+type StubHandler = (req: http.IncomingMessage, res: http.ServerResponse) => void;
+
+const respondJson = (res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { "content-type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+};
+
+test.describe("ApiHelper against a local stub @api", () => {
+  let server: http.Server;
+  let requests: string[];
+  let cookieHeaders: Array<string | undefined>;
+  let handler: StubHandler;
+  let apiHelper: ApiHelper;
+
+  test.beforeEach(async ({ allure }) => {
+    allure.setFeature("API Client");
+    allure.setEpic("REST API");
+
+    requests = [];
+    cookieHeaders = [];
+    handler = (_req, res) => respondJson(res, 200, { data: [], meta: { total: 0 }, rels: [] });
+    server = http.createServer((req, res) => {
+      requests.push(`${req.method} ${req.url}`);
+      cookieHeaders.push(req.headers.cookie);
+      handler(req, res);
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+
+    apiHelper = new ApiHelper(`http://127.0.0.1:${(server.address() as AddressInfo).port}${API_PATH}`);
+    await apiHelper.init();
+  });
+
+  test.afterEach(async () => {
+    await apiHelper.dispose();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test("Endpoints are sent under the API base path @regression", async ({ allure }) => {
+    allure.setStory("URL Resolution");
+    allure.setSeverity("critical");
+    allure.setTestCaseId("ApiHelper_1");
+    allure.setDescription("Verify that endpoints with and without a leading slash keep the /web/index.php/api/v2 base path");
+
+    await apiHelper.get("/pim/employees?limit=1");
+    await apiHelper.get("admin/users");
+    await new OrangeHrmApi(apiHelper).employees.list({ limit: 5 });
+
+    expect(requests).toEqual([
+      `GET ${API_PATH}/pim/employees?limit=1`,
+      `GET ${API_PATH}/admin/users`,
+      `GET ${API_PATH}/pim/employees?limit=5&offset=0`
+    ]);
+  });
+
+  test("Session cookie of a browser storage state is sent to the API @regression", async ({ allure }) => {
+    allure.setStory("Session Bridge");
+    allure.setSeverity("critical");
+    allure.setTestCaseId("ApiHelper_2");
+    allure.setDescription("Verify that the OrangeHRM session cookie, scoped to /web, reaches endpoints under the API base path");
+
+    const { port } = server.address() as AddressInfo;
+    const sessionHelper = new ApiHelper(`http://127.0.0.1:${port}${API_PATH}`);
+    await sessionHelper.init({
+      storageState: {
+        cookies: [{
+          name: "orangehrm",
+          value: "browser-session",
+          domain: "127.0.0.1",
+          path: "/web",
+          expires: -1,
+          httpOnly: true,
+          secure: false,
+          sameSite: "Lax"
+        }],
+        origins: []
+      }
+    });
+
+    try {
+      await sessionHelper.get("/admin/job-titles");
+    } finally {
+      await sessionHelper.dispose();
+    }
+
+    expect(requests).toEqual([`GET ${API_PATH}/admin/job-titles`]);
+    expect(cookieHeaders).toEqual(["orangehrm=browser-session"]);
+  });
+
+  test.describe("Retries", () => {
+    test.beforeEach(async ({ allure }) => {
+      allure.setStory("Retry Policy");
+      apiHelper.setRetryPolicy({ maxAttempts: 3, baseDelay: 50, jitter: 0 });
+    });
+
+    test("Retryable status is retried after the Retry-After delay until it succeeds @regression", async ({ allure }) => {
+      allure.setSeverity("critical");
+      allure.setTestCaseId("ApiHelper_3");
+      allure.setDescription("Verify that two 503 responses with Retry-After: 1 are retried and the third attempt is returned");
+
+      handler = (_req, res) => (requests.length < 3
+        ? respondJson(res, 503, { error: "busy" }, { "retry-after": "1" })
+        : respondJson(res, 200, { data: [], meta: { total: 0 }, rels: [] }));
+
+      const startTime = Date.now();
+      const response = await apiHelper.get("/pim/employees");
+
+      expect(response.status).toBe(200);
+      expect(requests).toHaveLength(3);
+      expect(Date.now() - startTime).toBeGreaterThanOrEqual(2000);
+    });
+
+    test("Last attempt returns a status that is still retryable @regression", async ({ allure }) => {
+      allure.setSeverity("normal");
+      allure.setTestCaseId("ApiHelper_4");
+      allure.setDescription("Verify that a constant 429 is sent maxAttempts times and then returned for the caller to validate");
+
+      handler = (_req, res) => respondJson(res, 429, { error: "slow down" });
+
+      const response = await apiHelper.get("/pim/employees");
+
+      expect(response.status).toBe(429);
+      expect(requests).toHaveLength(3);
+    });
+
+    test("POST is sent once unless non-idempotent retries are enabled @regression", async ({ allure }) => {
+      allure.setSeverity("critical");
+      allure.setTestCaseId("ApiHelper_5");
+      allure.setDescription("Verify that a failing POST is not repeated by default and is repeated when the request opts in");
+
+      handler = (_req, res) => respondJson(res, 503, { error: "busy" });
+
+      expect((await apiHelper.post("/admin/job-titles", { title: "Once" })).status).toBe(503);
+      expect(requests).toEqual([`POST ${API_PATH}/admin/job-titles`]);
+
+      requests = [];
+      const response = await apiHelper.post("/admin/job-titles", { title: "Twice" }, { retry: { retryNonIdempotent: true, maxAttempts: 2 } });
+
+      expect(response.status).toBe(503);
+      expect(requests).toHaveLength(2);
+    });
+
+    test("Only transport errors are retried @regression", async ({ allure }) => {
+      allure.setSeverity("normal");
+      allure.setTestCaseId("ApiHelper_6");
+      allure.setDescription("Verify that a dropped connection is retried while a request that cannot be sent fails on its first attempt");
+
+      handler = (req, res) => (requests.length === 1
+        ? req.socket.destroy()
+        : respondJson(res, 200, { data: [], meta: { total: 0 }, rels: [] }));
+
+      expect((await apiHelper.get("/pim/employees")).status).toBe(200);
+      expect(requests).toHaveLength(2);
+
+      apiHelper.setRetryPolicy({ baseDelay: 5000 });
+      const startTime = Date.now();
+
+      await expect(apiHelper.get("/pim/employees", { headers: { "X-Invalid": "line\nbreak" } }))
+        .rejects.toThrow(/GET request to .* failed: .*Invalid character in header content/);
+      expect(Date.now() - startTime).toBeLessThan(5000);
+      expect(requests).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import { expect, test } from "../../src/fixtures";
+import { TestUtils } from "../../src/utils/testUtils";
+
+test.describe("Employees API @api", () => {
+  test.use({ role: "Admin" });
+
+  test.beforeEach(async ({ allure }) => {
+    allure.setFeature("PIM API");
+    allure.setEpic("REST API");
+  });
+
+  test("Employee created through the API can be listed, paged and deleted @regression", async ({ orangeHrmApi, allure }) => {
+    allure.setStory("Employees");
+    allure.setSeverity("normal");
+    allure.setTestCaseId("EmployeesApi_1");
+    allure.setDescription("Verify that the v2 employees endpoints create, filter, page and delete employees with the UI session");
+
+    const employeeId = `API${TestUtils.generateRandomString(5)}`;
+    const created = await orangeHrmApi.employees.create({ firstName: "Api", lastName: employeeId, employeeId });
+
+    try {
+      expect(await orangeHrmApi.employees.findByEmployeeId(employeeId)).toMatchObject({ empNumber: created.empNumber });
+      expect((await orangeHrmApi.employees.get(created.empNumber)).lastName).toBe(employeeId);
+
+      const firstPage = await orangeHrmApi.employees.list({ limit: 1 });
+      expect(firstPage.data).toHaveLength(1);
+      expect(firstPage.total).toBeGreaterThanOrEqual(1);
+    } finally {
+      expect(await orangeHrmApi.employees.delete([created.empNumber])).toContain(created.empNumber);
+    }
+  });
+});
@@ -0,0 +1,37 @@
+import { expect, test } from "../../src/fixtures";
+import { JsonPath } from "../../src/helpers/JsonPath";
+
+const store = {
+  store: {
+    book: [
+      { title: "Sayings of the Century", price: 8.95 },
+      { title: "Sword of Honour", price: 12.99 },
+      { title: "Moby Dick", price: 8.99 },
+      { title: "The Lord of the Rings", price: 22.99 }
+    ]
+  }
+};
+
+const titles = (path: string) => JsonPath.values(store, path).map(book => (book as { title: string }).title);
+
+test.describe("JSONPath queries @api", () => {
+  test.beforeEach(async ({ allure }) => {
+    allure.setFeature("Response Matchers");
+    allure.setEpic("REST API");
+  });
+
+  test("Reverse slices include the first element and stay within the array @regression", async ({ allure }) => {
+    allure.setStory("JSONPath");
+    allure.setSeverity("normal");
+    allure.setTestCaseId("JsonPath_1");
+    allure.setDescription("Verify that negative-step slices walk down to index 0 and clamp out-of-range bounds");
+
+    expect(titles("$..book[::-1]")).toEqual(["The Lord of the Rings", "Moby Dick", "Sword of Honour", "Sayings of the Century"]);
+    expect(JsonPath.query(store, "$.store.book[::-2]").map(node => node.path)).toEqual(["$.store.book[3]", "$.store.book[1]"]);
+    expect(titles("$..book[10::-1]")).toHaveLength(4);
+    expect(titles("$..book[2:0:-1]")).toEqual(["Moby Dick", "Sword of Honour"]);
+    expect(titles("$..book[-1:-3:-1]")).toEqual(["The Lord of the Rings", "Moby Dick"]);
+    expect(titles("$..book[1:3]")).toEqual(["Sword of Honour", "Moby Dick"]);
+    expect(titles("$..book[::0]")).toEqual([]);
+  });
+});
@@ -0,0 +1,35 @@
+import { test } from "../../src/fixtures";
+import { ApiHelper } from "../../src/helpers/ApiHelper";
+import { anyNumber, anyString, containing, every, matches } from "../../src/helpers/ResponseMatchers";
+
+test.describe("Response matchers @api", () => {
+  test.use({ role: "Admin" });
+
+  test.beforeEach(async ({ allure }) => {
+    allure.setFeature("Response Matchers");
+    allure.setEpic("REST API");
+  });
+
+  test("Employee list can be asserted with JSONPath queries and partial matching @regression", async ({ page, allure }) => {
+    allure.setStory("Employees");
+    allure.setSeverity("normal");
+    allure.setTestCaseId("ResponseMatchers_1");
+    allure.setDescription("Verify status class, header, JSONPath and partial matching assertions on a live v2 list response");
+
+    const apiHelper = await ApiHelper.fromBrowserContext(page.context());
+
+    try {
+      const response = await apiHelper.get("/pim/employees?limit=5&offset=0");
+
+      apiHelper.expectResponse(response)
+        .toHaveStatusClass("2xx")
+        .toHaveHeader("content-type", /json/)
+        .toHaveJsonPath("$.meta.total", anyNumber())
+        .toHaveJsonPath("$.data[*].empNumber", every(anyNumber()))
+        .toHaveJsonPath("$.data[?(@.employeeId != '')].employeeId", every(matches(/^\S+$/)))
+        .toMatchObject({ data: containing([{ empNumber: anyNumber(), firstName: anyString(), lastName: anyString() }]) });
+    } finally {
+      await apiHelper.dispose();
+    }
+  });
+});
@@ -0,0 +1,50 @@
+import { expect, test } from "../../src/fixtures";
+import { ApiHelper } from "../../src/helpers/ApiHelper";
+import { SchemaValidator } from "../../src/helpers/SchemaValidator";
+import { ApiResponse } from "../../src/types";
+
+test.describe("Schema Validation @api", () => {
+  test.beforeEach(async ({ allure }) => {
+    allure.setFeature("Schema Validation");
+    allure.setEpic("REST API");
+  });
+
+  test("Broken employee list reports every violation by JSON pointer @regression", async ({ allure }, testInfo) => {
+    allure.setStory("Schema Registry");
+    allure.setSeverity("critical");
+    allure.setTestCaseId("SchemaValidator_1");
+    allure.setDescription("Verify that a payload breaking the employee-list schema fails with pointed violations and attaches schema, payload and violations");
+
+    const response: ApiResponse = {
+      status: 200,
+      statusText: "OK",
+      headers: { "content-type": "application/json" },
+      body: {
+        data: [
+          { empNumber: 7, firstName: "Linda", lastName: "Anderson", employeeId: "0001" },
+          { empNumber: "8", firstName: "Peter", employeeId: 2, jobTitle: { id: 1 } }
+        ],
+        meta: { total: -1 }
+      },
+      responseTime: 0
+    };
+
+    const violations = await SchemaValidator.validate("employee-list", response.body);
+    expect(violations.map(violation => [violation.pointer, violation.keyword])).toEqual(expect.arrayContaining([
+      ["/data/1/empNumber", "type"],
+      ["/data/1/employeeId", "type"],
+      ["/data/1/jobTitle", "required"],
+      ["/data/1", "required"],
+      ["/meta/total", "minimum"]
+    ]));
+    expect(violations).toHaveLength(5);
+
+    await expect(new ApiHelper().validateSchema(response, "employee-list"))
+      .rejects.toThrow(/does not match schema 'employee-list' \(5 violations\):[\s\S]*\/data\/1\/empNumber: expected integer but got string/);
+
+    await expect.poll(() => testInfo.attachments.map(attachment => attachment.name))
+      .toEqual(expect.arrayContaining(["Schema: employee-list", "Failing Payload", "Schema Violations"]));
+    const attached = testInfo.attachments.find(attachment => attachment.name === "Schema Violations");
+    expect(JSON.parse(attached!.body!.toString())).toEqual(violations);
+  });
+});
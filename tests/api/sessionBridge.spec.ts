@@ -0,0 +1,32 @@
+import { test } from "../../src/fixtures";
+import { TestUtils } from "../../src/utils/testUtils";
+
+test.describe("Shared API and browser session @api", () => {
+  test.use({ role: "Admin" });
+
+  test.beforeEach(async ({ allure }) => {
+    allure.setFeature("Session Bridge");
+    allure.setEpic("REST API");
+  });
+
+  test("Job title created through the API shows up in the UI of the same session @regression", async ({
+    orangeHrmApi,
+    referenceList,
+    allure
+  }) => {
+    allure.setStory("API to UI");
+    allure.setSeverity("normal");
+    allure.setTestCaseId("SessionBridge_1");
+    allure.setDescription("Verify that data created with the browser session cookie is visible in the UI without logging in again");
+
+    const title = `API Title ${TestUtils.generateRandomString(5)}`;
+    const jobTitle = await orangeHrmApi.jobTitles.create({ title, description: "Created through the REST API" });
+    await orangeHrmApi.syncSession();
+
+    try {
+      await referenceList("Job Titles").shouldContain(title);
+    } finally {
+      await orangeHrmApi.jobTitles.delete([jobTitle.id]);
+    }
+  });
+});
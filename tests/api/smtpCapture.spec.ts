@@ -0,0 +1,156 @@
+import net from "net";
+import { expect, test } from "../../src/fixtures";
+import { SmtpCaptureServer } from "../../src/helpers/SmtpCaptureServer";
+
+const RESET_LINK = "https://hrm.local/web/index.php/auth/resetPassword/token/abc123";
+
+const base64Lines = (text: string) => Buffer.from(text, "utf-8").toString("base64").match(/.{1,76}/g)!.join("\r\n");
+
+/**
+ * Run an SMTP conversation, sending each item once the reply to the previous one has arrived
+ * A message body is sent as one item ending with the "." line
+ */
+const converse = async (port: number, items: string[]): Promise<string[]> => {
+  const socket = net.connect(port, "127.0.0.1");
+  const replies: string[] = [];
+  let pending = "";
+
+  socket.setEncoding("utf-8");
+
+  const nextReply = () => new Promise<string>((resolve, reject) => {
+    const onData = (chunk: string) => {
+      pending += chunk;
+      // Multi-line replies continue with "250-" and end with "250 "
+      const reply = pending.match(/^(?:\d{3}-[^\r]*\r\n)*\d{3} [^\r]*\r\n/)?.[0];
+
+      if (reply) {
+        pending = pending.slice(reply.length);
+        socket.off("data", onData);
+        socket.off("error", reject);
+        resolve(reply.trim());
+      }
+    };
+
+    socket.on("data", onData);
+    socket.once("error", reject);
+    onData("");
+  });
+
+  replies.push(await nextReply());
+
+  for (const item of items) {
+    socket.write(`${item}\r\n`);
+    replies.push(await nextReply());
+  }
+
+  socket.end();
+  return replies;
+};
+
+test.describe("SMTP capture server @api", () => {
+  let smtpServer: SmtpCaptureServer;
+  let port: number;
+
+  test.beforeEach(async ({ allure }) => {
+    allure.setFeature("Email Capture");
+    allure.setEpic("Test Infrastructure");
+
+    smtpServer = new SmtpCaptureServer(0);
+    port = await smtpServer.start();
+  });
+
+  test.afterEach(async () => {
+    await smtpServer.stop();
+  });
+
+  test("Multipart message with encoded parts is decoded and its links extracted @regression", async ({ allure }) => {
+    allure.setStory("MIME Parsing");
+    allure.setSeverity("critical");
+    allure.setTestCaseId("SmtpCapture_1");
+    allure.setDescription("Verify that a multipart/alternative message with quoted-printable text, base64 HTML and an encoded subject is captured decoded");
+
+    const html = `<p>Bonjour José</p><a href="${RESET_LINK}?lang=fr&amp;source=mail">Réinitialiser</a>`;
+    const message = [
+      "From: OrangeHRM <admin@hrm.local>",
+      "To: jose@example.com",
+      `Subject: =?UTF-8?B?${Buffer.from("Réinitialiser le mot de passe", "utf-8").toString("base64")}?=`,
+      "MIME-Version: 1.0",
+      "Content-Type: multipart/alternative;",
+      "\tboundary=\"=_part_1\"",
+      "",
+      "--=_part_1",
+      "Content-Type: text/plain; charset=utf-8",
+      "Content-Transfer-Encoding: quoted-printable",
+      "",
+      "Bonjour Jos=C3=A9,",
+      "Reset your password here: https://hrm.local/web/index.php/auth/resetPass=",
+      "word/token/abc123",
+      "..signature",
+      "--=_part_1",
+      "Content-Type: text/html; charset=utf-8",
+      "Content-Transfer-Encoding: base64",
+      "",
+      base64Lines(html),
+      "--=_part_1--",
+      "."
+    ].join("\r\n");
+
+    const replies = await converse(port, [
+      "EHLO client.local",
+      "MAIL FROM:<admin@hrm.local> SIZE=2048",
+      "RCPT TO:<jose@example.com>",
+      "RCPT TO:<hr@example.com>",
+      "DATA",
+      message,
+      "QUIT"
+    ]);
+
+    expect(replies.map(reply => reply.slice(0, 3))).toEqual(["220", "250", "250", "250", "250", "354", "250", "221"]);
+
+    const email = await smtpServer.waitForEmailTo("JOSE@example.com", 5000);
+
+    expect(email).toMatchObject({
+      from: "admin@hrm.local",
+      to: ["jose@example.com", "hr@example.com"],
+      subject: "Réinitialiser le mot de passe",
+      html
+    });
+    expect(email.headers["content-type"]).toBe("multipart/alternative; boundary=\"=_part_1\"");
+    expect(email.text).toBe(`Bonjour José,\r\nReset your password here: ${RESET_LINK}\r\n.signature\r\n`);
+    expect(SmtpCaptureServer.extractLinks(email)).toEqual([`${RESET_LINK}?lang=fr&source=mail`, RESET_LINK]);
+  });
+
+  test("Single part base64 message is captured after AUTH LOGIN @regression", async ({ allure }) => {
+    allure.setStory("SMTP Conversation");
+    allure.setSeverity("normal");
+    allure.setTestCaseId("SmtpCapture_2");
+    allure.setDescription("Verify that credentials are accepted, a base64 text body is decoded and a link in plain text is extracted");
+
+    const text = `Your account was created.\nLog in at ${RESET_LINK}.`;
+    const replies = await converse(port, [
+      "HELO client.local",
+      "AUTH LOGIN",
+      Buffer.from("mailer").toString("base64"),
+      Buffer.from("secret").toString("base64"),
+      "MAIL FROM:<admin@hrm.local>",
+      "RCPT TO:<new.user@example.com>",
+      "DATA",
+      [
+        "Subject: Welcome",
+        "Content-Type: text/plain; charset=utf-8",
+        "Content-Transfer-Encoding: base64",
+        "",
+        base64Lines(text),
+        "."
+      ].join("\r\n")
+    ]);
+
+    expect(replies.map(reply => reply.slice(0, 3))).toEqual(["220", "250", "334", "334", "235", "250", "250", "354", "250"]);
+
+    const [email] = smtpServer.getEmails();
+
+    expect(email).toMatchObject({ to: ["new.user@example.com"], subject: "Welcome", text });
+    expect(email.html).toBeUndefined();
+    expect(SmtpCaptureServer.extractLinks(email)).toEqual([RESET_LINK]);
+  });
+});
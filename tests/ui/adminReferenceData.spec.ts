@@ -0,0 +1,50 @@
+import { test } from "../../src/fixtures";
+import { TestUtils } from "../../src/utils/testUtils";
+
+test.describe("Admin Reference Data Feature @ui", () => {
+  test.use({ role: "Admin" });
+
+  test.beforeEach(async ({ allure }) => {
+    allure.setFeature("Admin Reference Data");
+    allure.setEpic("Core Functionality");
+  });
+
+  test("Skill is added, renamed and deleted @regression", async ({ referenceList, allure }) => {
+    allure.setStory("Reference Lists");
+    allure.setSeverity("normal");
+    allure.setTestCaseId("AdminReference_1");
+    allure.setDescription("Verify that a reference list item can be created, renamed and cleaned up");
+
+    const suffix = TestUtils.generateRandomString(6);
+    const skills = referenceList("Skills");
+
+    await skills.add({ name: `Skill ${suffix}`, fields: [{ label: "Description", value: "Created by tests" }] });
+    await skills.shouldContain(`Skill ${suffix}`);
+
+    await skills.edit(`Skill ${suffix}`, { name: `Renamed Skill ${suffix}` });
+    await skills.shouldContain(`Renamed Skill ${suffix}`);
+
+    await skills.delete(`Renamed Skill ${suffix}`);
+    await skills.shouldNotContain(`Renamed Skill ${suffix}`);
+  });
+
+  test("Organization unit is added under the organization and deleted @regression", async ({
+    organizationStructurePage,
+    allure
+  }) => {
+    allure.setStory("Organization Structure");
+    allure.setSeverity("normal");
+    allure.setTestCaseId("AdminReference_2");
+    allure.setDescription("Verify that a unit added to the organization tree shows under its parent and can be removed");
+
+    const unitName = `Unit ${TestUtils.generateRandomString(6)}`;
+
+    await organizationStructurePage.open();
+    const organization = (await organizationStructurePage.getTree()).name;
+
+    await organizationStructurePage.addUnit(organization, { name: unitName, description: "Created by tests" });
+    await organizationStructurePage.shouldHaveUnit(organization, unitName);
+
+    await organizationStructurePage.deleteUnit(unitName);
+  });
+});
@@ -0,0 +1,93 @@
+import { expect, test } from "../../src/fixtures";
+import { AuthHelper } from "../../src/helpers/AuthHelper";
+import { TestUtils } from "../../src/utils/testUtils";
+
+test.describe("Admin User Management @ui", () => {
+  test.use({ role: "Admin" });
+
+  test.beforeEach(async ({ allure }) => {
+    allure.setFeature("User Management");
+    allure.setEpic("Administration");
+  });
+
+  test("System user can be added, filtered, edited, disabled and deleted @regression", async ({
+    addEmployeePage,
+    employeeListPage,
+    adminUsersPage,
+    allure
+  }) => {
+    allure.setStory("System Users");
+    allure.setSeverity("critical");
+    allure.setTestCaseId("AdminUsers_1");
+    allure.setDescription("Verify the system user lifecycle and that username, role and status filters find the user");
+
+    const employee = TestUtils.generateEmployeeData();
+    const employeeName = `${employee.firstName} ${employee.lastName}`;
+    const username = `user${TestUtils.generateRandomString(6).toLowerCase()}`;
+    let userDeleted = false;
+
+    await addEmployeePage.addEmployee(employee);
+
+    try {
+      await adminUsersPage.open();
+      await adminUsersPage.addUser({
+        username,
+        password: `Pw${TestUtils.generateRandomString(6)}1!`,
+        role: "ESS",
+        employeeName,
+        status: "Enabled"
+      });
+      await adminUsersPage.shouldContainUser(username, { role: "ESS", employeeName, status: "Enabled" });
+
+      const byRole = await adminUsersPage.search({ username, role: "ESS" });
+      expect(byRole.map(row => row.username)).toEqual([username]);
+      expect(await adminUsersPage.search({ username, role: "Admin" })).toHaveLength(0);
+
+      await adminUsersPage.editUser(username, { role: "Admin" });
+      await adminUsersPage.shouldContainUser(username, { role: "Admin" });
+
+      await adminUsersPage.disableUser(username);
+      await adminUsersPage.shouldContainUser(username, { status: "Disabled" });
+      const disabled = await adminUsersPage.search({ username, status: "Disabled" });
+      expect(disabled.map(row => row.username)).toEqual([username]);
+      expect(await adminUsersPage.search({ username, status: "Enabled" })).toHaveLength(0);
+
+      await adminUsersPage.deleteUser(username);
+      userDeleted = true;
+      await adminUsersPage.shouldNotContainUser(username);
+    } finally {
+      const cleanupErrors = await TestUtils.runCleanup(
+        async () => {
+          if (!userDeleted) {
+            await adminUsersPage.open();
+
+            if (await adminUsersPage.findUser(username)) {
+              await adminUsersPage.deleteUser(username);
+            }
+          }
+        },
+        async () => {
+          await employeeListPage.open();
+          await employeeListPage.deleteEmployee(employee.employeeId!);
+        }
+      );
+
+      expect.soft(cleanupErrors, "Cleanup should not fail").toEqual([]);
+    }
+  });
+
+  test("A search does not keep the filters of the previous search @regression", async ({ adminUsersPage, allure }) => {
+    allure.setStory("System Users");
+    allure.setSeverity("normal");
+    allure.setTestCaseId("AdminUsers_2");
+    allure.setDescription("Verify that a username search after a role-filtered search with no results finds the user again");
+
+    const admin = await AuthHelper.getAccountForRole("Admin");
+
+    await adminUsersPage.open();
+    expect(await adminUsersPage.search({ username: admin.username, role: "ESS" })).toHaveLength(0);
+
+    const byUsername = await adminUsersPage.searchByUsername(admin.username);
+    expect(byUsername.map(row => row.username)).toEqual([admin.username]);
+  });
+});
@@ -0,0 +1,47 @@
+import { test } from "../../src/fixtures";
+import { TestUtils } from "../../src/utils/testUtils";
+
+test.describe("Buzz Feature @ui", () => {
+  test.use({ role: "ESS" });
+
+  test.beforeEach(async ({ buzzPage, allure }) => {
+    allure.setFeature("Buzz");
+    allure.setEpic("Core Functionality");
+
+    await buzzPage.open();
+  });
+
+  test("Post is liked, commented, edited and deleted @regression", async ({ buzzPage, allure }) => {
+    allure.setStory("Buzz Posts");
+    allure.setSeverity("normal");
+    allure.setTestCaseId("Buzz_1");
+    allure.setDescription("Verify the like count, comments and text of a post through its lifecycle");
+
+    const suffix = TestUtils.generateRandomString(6);
+    const text = `Buzz post ${suffix}`;
+    const editedText = `Edited buzz post ${suffix}`;
+
+    await buzzPage.createPost(text);
+    await buzzPage.shouldHavePost(text, { type: "text", likes: 0, commentCount: 0 });
+
+    await buzzPage.toggleLike(text);
+    await buzzPage.comment(text, `Comment ${suffix}`);
+    await buzzPage.shouldHavePost(text, { likes: 1, commentCount: 1 });
+
+    await buzzPage.editPost(text, editedText);
+    await buzzPage.deletePost(editedText);
+  });
+
+  test("Feed tabs order posts by likes and comments", async ({ buzzPage, allure }) => {
+    allure.setStory("Buzz Feed");
+    allure.setSeverity("minor");
+    allure.setTestCaseId("Buzz_2");
+    allure.setDescription("Verify that the Most Liked and Most Commented tabs order the feed by their counts");
+
+    await buzzPage.selectTab("Most Liked");
+    await buzzPage.shouldBeOrderedBy("Most Liked");
+
+    await buzzPage.selectTab("Most Commented");
+    await buzzPage.shouldBeOrderedBy("Most Commented");
+  });
+});
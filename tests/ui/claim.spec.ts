@@ -0,0 +1,55 @@
+import { test } from "../../src/fixtures";
+import { SubmitClaimPage } from "../../src/pages/SubmitClaimPage";
+import { TestUtils } from "../../src/utils/testUtils";
+
+const EVENT = "Travel Allowance";
+const CURRENCY = "Euro";
+
+test.describe("Claim Feature @ui", () => {
+  // Admin approves and pays what the ESS user submits
+  test.use({ role: "Admin" });
+
+  test.beforeEach(async ({ allure }) => {
+    allure.setFeature("Claim");
+    allure.setEpic("Core Functionality");
+  });
+
+  test("Submitted claim totals its expenses and is approved and paid @regression", async ({
+    asRole,
+    employeeClaimsPage,
+    assignClaimPage,
+    allure
+  }) => {
+    allure.setStory("Claim Approval");
+    allure.setSeverity("critical");
+    allure.setTestCaseId("Claim_1");
+    allure.setDescription("Verify that a claim total is the sum of its expenses and that the claim can be approved and paid");
+
+    const suffix = TestUtils.generateRandomString(6);
+    const submitClaimPage = new SubmitClaimPage(await asRole("ESS"));
+
+    await submitClaimPage.create({ event: EVENT, currency: CURRENCY, remarks: `Claim ${suffix}` });
+    await submitClaimPage.addExpenses([
+      { expenseType: "Transport", date: new Date(), amount: 1250.5, note: "Flight" },
+      { expenseType: "Accommodation", date: new Date(), amount: 99.99, note: "Hotel" }
+    ]);
+    await submitClaimPage.uploadAttachment({ name: `receipt-${suffix}.txt`, content: `Receipt ${suffix}` });
+    await submitClaimPage.shouldMatchExpenseTotal(CURRENCY);
+
+    const referenceId = await submitClaimPage.getReferenceId();
+    await submitClaimPage.submit();
+    await submitClaimPage.shouldHaveStatus("Submitted");
+
+    await employeeClaimsPage.open();
+    await employeeClaimsPage.search({ referenceId });
+    await employeeClaimsPage.viewDetails(referenceId);
+
+    await assignClaimPage.approve();
+    await assignClaimPage.pay();
+    await assignClaimPage.shouldHaveStatus("Paid");
+
+    await employeeClaimsPage.open();
+    await employeeClaimsPage.search({ referenceId });
+    await employeeClaimsPage.shouldHaveClaim(referenceId, "Paid", 1350.49);
+  });
+});
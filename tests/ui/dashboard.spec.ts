@@ -0,0 +1,42 @@
+import { expect, test } from "../../src/fixtures";
+
+test.describe("Dashboard Feature @ui", () => {
+  test.beforeEach(async ({ allure }) => {
+    allure.setFeature("Dashboard");
+    allure.setStory("Dashboard Widgets");
+    allure.setEpic("Core Functionality");
+  });
+
+  test.describe("Admin", () => {
+    // Start from the cached Admin session built in global setup
+    test.use({ role: "Admin" });
+
+    test("Verify dashboard widgets: Admin @regression", async ({ dashboardPage, allure }) => {
+      allure.setSeverity("critical");
+      allure.setTestCaseId("Dashboard_1_Admin");
+      allure.setDescription("Verify that admin user sees every dashboard widget including the distribution charts");
+
+      await dashboardPage.open();
+      await dashboardPage.verifyDashboardForRole("Admin");
+
+      const subUnits = await dashboardPage.getChart("Employee Distribution by Sub Unit");
+      expect(subUnits.length).toBeGreaterThan(0);
+    });
+  });
+
+  test.describe("ESS", () => {
+    test.use({ role: "ESS" });
+
+    test("Verify dashboard widgets: ESS @regression", async ({ dashboardPage, allure }) => {
+      allure.setSeverity("critical");
+      allure.setTestCaseId("Dashboard_1_ESS");
+      allure.setDescription("Verify that ESS user sees the personal widgets and no distribution charts");
+
+      await dashboardPage.open();
+      await dashboardPage.verifyDashboardForRole("ESS");
+
+      const timeAtWork = await dashboardPage.getTimeAtWork();
+      expect(timeAtWork.state).not.toBe("");
+    });
+  });
+});
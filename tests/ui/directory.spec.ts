@@ -0,0 +1,39 @@
+import { expect, test } from "../../src/fixtures";
+
+const JOB_TITLE = "QA Engineer";
+
+test.describe("Directory Feature @ui", () => {
+  // Admin can read the PIM records the directory is compared with
+  test.use({ role: "Admin" });
+
+  test.beforeEach(async ({ allure }) => {
+    allure.setFeature("Directory");
+    allure.setEpic("Core Functionality");
+  });
+
+  test("Directory results match the PIM employee records @regression", async ({
+    employeeListPage,
+    directoryPage,
+    allure
+  }) => {
+    allure.setStory("Directory Search");
+    allure.setSeverity("normal");
+    allure.setTestCaseId("Directory_1");
+    allure.setDescription("Verify that every current employee with a job title has a matching directory card");
+
+    await employeeListPage.open();
+    await employeeListPage.search({ jobTitle: JOB_TITLE });
+    const records = await employeeListPage.getAllRows();
+
+    await directoryPage.open();
+    const cards = await directoryPage.search({ jobTitle: JOB_TITLE });
+
+    expect(cards).toHaveLength(records.length);
+    await directoryPage.shouldMatchEmployeeRecords(records, cards);
+
+    if (cards.length > 0) {
+      const contact = await directoryPage.getContact(cards[0].name);
+      expect(contact.jobTitle).toBe(JOB_TITLE);
+    }
+  });
+});
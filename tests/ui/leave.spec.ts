@@ -0,0 +1,64 @@
+import { expect, test } from "../../src/fixtures";
+import { TopBar } from "../../src/components";
+import { ApplyLeavePage } from "../../src/pages/ApplyLeavePage";
+
+const LEAVE_TYPE = "CAN - Personal";
+
+/**
+ * A future weekday far enough ahead that reruns rarely overlap an existing request
+ */
+function nextFreeWeekday(): Date {
+  const date = new Date();
+  date.setDate(date.getDate() + 30 + Math.floor(Math.random() * 300));
+
+  while (date.getDay() === 0 || date.getDay() === 6) {
+    date.setDate(date.getDate() + 1);
+  }
+
+  return date;
+}
+
+test.describe("Leave Feature @ui", () => {
+  // Admin approves what the ESS user applies for
+  test.use({ role: "Admin" });
+
+  test.beforeEach(async ({ allure }) => {
+    allure.setFeature("Leave");
+    allure.setEpic("Core Functionality");
+  });
+
+  test("Approved leave reduces the entitlement balance @regression", async ({
+    asRole,
+    leaveEntitlementsPage,
+    leaveListPage,
+    allure
+  }) => {
+    allure.setStory("Leave Approval");
+    allure.setSeverity("critical");
+    allure.setTestCaseId("Leave_1");
+    allure.setDescription("Verify that the leave balance of an ESS user goes down once their leave is approved");
+
+    const essPage = await asRole("ESS");
+    const employeeName = await TopBar.of(essPage).getUserName();
+    const leaveDate = nextFreeWeekday();
+
+    await leaveEntitlementsPage.openAdd();
+    await leaveEntitlementsPage.addEntitlement({ employeeName, leaveType: LEAVE_TYPE, entitlement: 1 });
+
+    const applyLeavePage = new ApplyLeavePage(essPage);
+    await applyLeavePage.open();
+    const balanceBefore = await applyLeavePage.getLeaveBalance(LEAVE_TYPE);
+
+    await applyLeavePage.open();
+    await applyLeavePage.applyLeave({ leaveType: LEAVE_TYPE, fromDate: leaveDate, comment: "Applied by automation" });
+
+    await leaveListPage.open();
+    await leaveListPage.search({ fromDate: leaveDate, toDate: leaveDate, statuses: ["Pending Approval"] });
+    await leaveListPage.approveLeave(employeeName);
+
+    await applyLeavePage.open();
+    const balanceAfter = await applyLeavePage.getLeaveBalance(LEAVE_TYPE);
+
+    expect(balanceAfter).toBe(balanceBefore - 1);
+  });
+});
@@ -1,78 +1,30 @@
-import { expect, test } from "@playwright/test";
-import { LoginPage } from "../../src/pages/LoginPage";
-import { AllureHelper } from "../../src/helpers/AllureHelper";
-import { configManager } from "../../src/config/configManager";
+import { expect, test } from "../../src/fixtures";
 import { TestUtils } from "../../src/utils/testUtils";
 import logger from "../../src/config/logger";
 import type { UserCredentials } from "../../src/types/index";
 
 // Test suite configuration
 test.describe("Login Functionality @ui", () => {
-  let loginPage: LoginPage;
-  let allure: AllureHelper;
   let testAccounts: any;
 
   // Suite-level setup
   test.beforeAll(async () => {
-    allure = new AllureHelper();
-    allure.setFeature("Authentication");
-    allure.setStory("User Login");
-    allure.setEpic("Core Functionality");
-
     // Load test accounts data
     testAccounts = await TestUtils.loadTestData<any>("test-data/test-accounts.json");
 
-    logger.test.start("Login Test Suite", "UI Authentication");
     logger.info("Test accounts loaded", {
       accountsCount: testAccounts.accounts?.length || 0,
     });
   });
 
-  // Test-level setup with new context
-  test.beforeEach(async ({ browser }) => {
-    // Create fresh context for each test
-    const context = await browser.newContext({
-      viewport: {
-        width: configManager.get("VIEWPORT_WIDTH"),
-        height: configManager.get("VIEWPORT_HEIGHT"),
-      },
-      ignoreHTTPSErrors: true,
-      acceptDownloads: true,
-    });
-
-    const page = await context.newPage();
-    loginPage = new LoginPage(page);
-
-    // Navigate to home page first for clean state
-    await page.goto(configManager.get("BASE_URL"));
-
-    // Add browser info to Allure
-    allure.addBrowserInfo({
-      name: configManager.get("BROWSER"),
-      platform: process.platform,
-      viewport: {
-        width: configManager.get("VIEWPORT_WIDTH"),
-        height: configManager.get("VIEWPORT_HEIGHT"),
-      },
-    });
-  });
-
-  // Test-level teardown
-  test.afterEach(async ({ context }, testInfo) => {
-    if (testInfo.status === "failed") {
-      const page = context.pages()[0];
-      if (page) {
-        await page.screenshot({
-          path: `screenshots/failed_${testInfo.title.replace(/\s+/g, "_")}_${Date.now()}.png`,
-          fullPage: true,
-        });
-      }
-    }
-    await context.close();
+  test.beforeEach(async ({ allure }) => {
+    allure.setFeature("Authentication");
+    allure.setStory("User Login");
+    allure.setEpic("Core Functionality");
   });
 
   test.describe("UI/UX Testing @smoke @regression", () => {
-    test("Verify UI correctly with design @normal", async () => {
+    test("Verify UI correctly with design @normal", async ({ loginPage, allure }) => {
       allure.setSeverity("normal");
       allure.setTestCaseId("Login_1");
       allure.setDescription("Verify UI correctly with design");
@@ -87,7 +39,7 @@ test.describe("Login Functionality @ui", () => {
   });
 
   test.describe("Functional Testing", () => {
-    test("Login Success: Admin @critical @smoke", async () => {
+    test("Login Success: Admin @critical @smoke", async ({ loginPage, allure }) => {
       allure.setSeverity("critical");
       allure.setTestCaseId("Login_3");
       allure.setDescription("Verify that admin user can login with valid credentials");
@@ -104,8 +56,6 @@ test.describe("Login Functionality @ui", () => {
         role: adminAccount.role,
       };
 
-      logger.test.start("Valid Admin Login", "Authentication");
-
       // Navigate to login page
       await loginPage.navigateToLogin();
 
@@ -126,11 +76,9 @@ test.describe("Login Functionality @ui", () => {
       allure.addParameter("User Role", adminCredentials.role);
       allure.addParameter("Username", adminCredentials.username);
       allure.addParameter("Final URL", currentUrl);
-
-      logger.test.end("Valid Admin Login", "Authentication", "passed", Date.now());
     });
 
-    test("Login Success: ESS @critical @smoke", async () => {
+    test("Login Success: ESS @critical @smoke", async ({ loginPage, allure }) => {
       allure.setSeverity("critical");
       allure.setTestCaseId("Login_4");
       allure.setDescription("Verify that ESS user can login with valid credentials");
@@ -147,8 +95,6 @@ test.describe("Login Functionality @ui", () => {
         role: essAccount.role,
       };
 
-      logger.test.start("Valid ESS Login", "Authentication");
-
       // Navigate to login page
       await loginPage.navigateToLogin();
 
@@ -169,11 +115,9 @@ test.describe("Login Functionality @ui", () => {
       allure.addParameter("User Role", essAccount.role);
       allure.addParameter("Username", essAccount.username);
       allure.addParameter("Final URL", currentUrl);
-
-      logger.test.end("Valid ESS Login", "Authentication", "passed", Date.now());
     });
 
-    test("Login Unsuccessfully: Invalid credentials @critical @smoke", async () => {
+    test("Login Unsuccessfully: Invalid credentials @critical @smoke", async ({ loginPage, allure }) => {
       allure.setSeverity("critical");
       allure.setTestCaseId("Login_5");
       allure.setDescription("Verify that user cannot login with invalid credentials");
@@ -190,8 +134,6 @@ test.describe("Login Functionality @ui", () => {
         role: essAccount.role,
       };
 
-      logger.test.start("Invalid ESS Login", "Authentication");
-
       // Navigate to login page
       await loginPage.navigateToLogin();
 
@@ -211,11 +153,9 @@ test.describe("Login Functionality @ui", () => {
       allure.addParameter("User Role", essCredentials.role);
       allure.addParameter("Username", essCredentials.username);
       allure.addParameter("Final URL", currentUrl);
-
-      logger.test.end("Invalid ESS Login", "Authentication", "passed", Date.now());
     });
 
-    test("Login Unsuccessfully: Account has been disabled @critical @smoke", async () => {
+    test("Login Unsuccessfully: Account has been disabled @critical @smoke", async ({ loginPage, allure }) => {
       allure.setSeverity("critical");
       allure.setTestCaseId("Login_6");
       allure.setDescription("Verify that user cannot login with disabled credentials");
@@ -232,8 +172,6 @@ test.describe("Login Functionality @ui", () => {
         role: disabledAccount.role,
       };
 
-      logger.test.start("Disabled Account Login", "Authentication");
-
       // Navigate to login page
       await loginPage.navigateToLogin();
 
@@ -253,8 +191,33 @@ test.describe("Login Functionality @ui", () => {
       allure.addParameter("User Role", disabledCredentials.role);
       allure.addParameter("Username", disabledCredentials.username);
       allure.addParameter("Final URL", currentUrl);
+    });
+
+    test("Logout: Admin @critical @regression", async ({ loginPage, topBar, allure }) => {
+      allure.setSeverity("critical");
+      allure.setTestCaseId("Login_7");
+      allure.setDescription("Verify that a logged in user can logout and is sent back to the login page");
+
+      // Log in through the UI so logging out does not invalidate the cached Admin session
+      const adminAccount = testAccounts.accounts.find((account: any) => account.role === "Admin" && account.active);
+      if (!adminAccount) {
+        throw new Error("Admin account not found in test data");
+      }
+
+      await loginPage.navigateToLogin();
+      await loginPage.login(adminAccount);
+      await loginPage.shouldBeLoggedIn();
+
+      const userName = await topBar.getUserName();
+      expect(userName).not.toEqual("");
+
+      // Perform logout
+      await topBar.logout();
+
+      // Verify user is back on the login page
+      await loginPage.shouldBeOnLoginPage();
 
-      logger.test.end("Disabled Account Login", "Authentication", "passed", Date.now());
+      allure.addParameter("Logged Out User", userName);
     });
   });
 });
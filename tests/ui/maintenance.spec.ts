@@ -0,0 +1,139 @@
+import { expect, test } from "../../src/fixtures";
+import { TestUtils } from "../../src/utils/testUtils";
+
+const JOB_TITLE = "QA Engineer";
+
+test.describe("Maintenance Feature @ui", () => {
+  test.use({ role: "Admin" });
+
+  test.beforeEach(async ({ allure }) => {
+    allure.setFeature("Maintenance");
+    allure.setEpic("Administration");
+  });
+
+  test("Admin downloads the personal data of an employee from Access Records @regression", async ({
+    addEmployeePage,
+    employeeListPage,
+    maintenancePage,
+    allure
+  }) => {
+    allure.setStory("Access Records");
+    allure.setSeverity("normal");
+    allure.setTestCaseId("Maintenance_1");
+    allure.setDescription("Verify that the Access Records download is a JSON file holding the employee's personal details");
+
+    const employee = TestUtils.generateEmployeeData();
+    await addEmployeePage.addEmployee(employee);
+
+    try {
+      await maintenancePage.openAccessRecords();
+      const download = await maintenancePage.downloadAccessRecords(`${employee.firstName} ${employee.lastName}`);
+
+      await maintenancePage.shouldContainPersonalData(download, employee.firstName, employee.lastName);
+    } finally {
+      const cleanupErrors = await TestUtils.runCleanup(async () => {
+        await employeeListPage.open();
+        await employeeListPage.deleteEmployee(employee.employeeId!);
+      });
+
+      expect.soft(cleanupErrors, "Cleanup should not fail").toEqual([]);
+    }
+  });
+
+  test("Admin purges the records of a past employee @regression", async ({ orangeHrmApi, maintenancePage, allure }) => {
+    allure.setStory("Purge Employee Records");
+    allure.setSeverity("normal");
+    allure.setTestCaseId("Maintenance_2");
+    allure.setDescription("Verify that a terminated employee is offered for purging and is gone once purged");
+
+    const employee = TestUtils.generateEmployeeData();
+    const employeeName = `${employee.firstName} ${employee.lastName}`;
+    const { empNumber } = await orangeHrmApi.employees.create({
+      firstName: employee.firstName,
+      lastName: employee.lastName,
+      employeeId: employee.employeeId
+    });
+    let purged = false;
+
+    try {
+      await orangeHrmApi.employees.terminate(empNumber, {
+        terminationReasonId: 1,
+        date: new Date().toISOString().slice(0, 10)
+      });
+
+      await maintenancePage.openPurgeEmployees();
+      expect(await maintenancePage.searchPastEmployees(employeeName)).toContain(employeeName);
+
+      await maintenancePage.purgeEmployee(employeeName);
+      purged = true;
+
+      await maintenancePage.openPurgeEmployees();
+      await maintenancePage.shouldNotHavePastEmployee(employeeName);
+      expect(await orangeHrmApi.employees.findByEmployeeId(employee.employeeId!)).toBeUndefined();
+    } finally {
+      const cleanupErrors = await TestUtils.runCleanup(async () => {
+        if (!purged) {
+          await orangeHrmApi.employees.delete([empNumber]);
+        }
+      });
+
+      expect.soft(cleanupErrors, "Cleanup should not fail").toEqual([]);
+    }
+  });
+
+  test("Admin purges the candidates of a vacancy @regression", async ({
+    topBar,
+    vacanciesPage,
+    candidatesPage,
+    maintenancePage,
+    allure
+  }) => {
+    allure.setStory("Purge Candidate Records");
+    allure.setSeverity("normal");
+    allure.setTestCaseId("Maintenance_3");
+    allure.setDescription("Verify that the candidates of a vacancy are listed for purging and none are left once purged");
+
+    const suffix = TestUtils.generateRandomString(6);
+    const vacancy = `Purge Vacancy ${suffix}`;
+    const candidateName = `Purge ${suffix}`;
+    let purged = false;
+
+    await vacanciesPage.createVacancy({ name: vacancy, jobTitle: JOB_TITLE, hiringManager: await topBar.getUserName() });
+
+    try {
+      await candidatesPage.addCandidate({
+        firstName: "Purge",
+        lastName: suffix,
+        email: `purge.${suffix}@example.com`,
+        vacancy
+      });
+
+      await maintenancePage.openPurgeCandidates();
+      const candidates = await maintenancePage.searchCandidates(vacancy);
+      expect(candidates.map(row => row.candidate)).toEqual([candidateName]);
+
+      expect(await maintenancePage.purgeCandidates(vacancy)).toBe(1);
+      purged = true;
+
+      await maintenancePage.openPurgeCandidates();
+      expect(await maintenancePage.searchCandidates(vacancy)).toHaveLength(0);
+    } finally {
+      const cleanupErrors = await TestUtils.runCleanup(
+        async () => {
+          if (!purged) {
+            await candidatesPage.open();
+            await candidatesPage.search({ candidateName });
+            await candidatesPage.deleteCandidate(candidateName);
+          }
+        },
+        async () => {
+          await vacanciesPage.open();
+          await vacanciesPage.search({ vacancy });
+          await vacanciesPage.deleteVacancy(vacancy);
+        }
+      );
+
+      expect.soft(cleanupErrors, "Cleanup should not fail").toEqual([]);
+    }
+  });
+});
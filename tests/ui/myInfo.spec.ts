@@ -0,0 +1,50 @@
+import { expect, test } from "../../src/fixtures";
+import { TestUtils } from "../../src/utils/testUtils";
+
+test.describe("My Info Feature @ui", () => {
+  // ESS users maintain their own records
+  test.use({ role: "ESS" });
+
+  test.beforeEach(async ({ allure }) => {
+    allure.setFeature("My Info");
+    allure.setEpic("Core Functionality");
+  });
+
+  test("Contact details are saved and read back @regression", async ({ myInfoPage, allure }) => {
+    allure.setStory("Contact Details");
+    allure.setSeverity("critical");
+    allure.setTestCaseId("MyInfo_1");
+    allure.setDescription("Verify that an ESS user can save contact details and read the same values back");
+
+    const suffix = TestUtils.generateRandomString(6);
+    const contact = {
+      address: { street1: `${suffix} Main Street`, city: "Springfield" },
+      phone: "0123456789"
+    };
+
+    await myInfoPage.contactDetails.open();
+    await myInfoPage.contactDetails.save(contact);
+
+    await myInfoPage.contactDetails.open();
+    const saved = await myInfoPage.contactDetails.read();
+
+    expect(saved.address).toMatchObject(contact.address);
+    expect(saved.phone).toBe(contact.phone);
+  });
+
+  test("Emergency contact attachment survives upload and download @regression", async ({ myInfoPage, allure }) => {
+    allure.setStory("Attachments");
+    allure.setSeverity("normal");
+    allure.setTestCaseId("MyInfo_2");
+    allure.setDescription("Verify that an attachment downloaded from My Info has the uploaded content");
+
+    const fileName = `${TestUtils.generateTestId("attachment")}.txt`;
+
+    await myInfoPage.emergencyContacts.open();
+    await myInfoPage.emergencyContacts.verifyAttachmentRoundTrip(
+      { name: fileName, content: `Attachment check ${fileName}` },
+      "Uploaded by automation"
+    );
+    await myInfoPage.emergencyContacts.deleteAttachment(fileName);
+  });
+});
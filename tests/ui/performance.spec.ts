@@ -0,0 +1,75 @@
+import { expect, test } from "../../src/fixtures";
+import { TopBar } from "../../src/components";
+import { MyInfoPage } from "../../src/pages/MyInfoPage";
+import { MyReviewsPage } from "../../src/pages/MyReviewsPage";
+import { ReviewEvaluationPage } from "../../src/pages/ReviewEvaluationPage";
+
+const KPI = "Delivers work on schedule";
+
+test.describe("Performance Feature @ui", () => {
+  // Admin creates the review and is its reviewer; the ESS user evaluates themselves
+  test.use({ role: "Admin" });
+
+  test.beforeEach(async ({ allure }) => {
+    allure.setFeature("Performance");
+    allure.setEpic("Core Functionality");
+  });
+
+  test("Review moves from Activated to Completed through self and reviewer evaluation @regression", async ({
+    page,
+    asRole,
+    kpiPage,
+    manageReviewsPage,
+    employeeReviewsPage,
+    reviewEvaluationPage,
+    allure
+  }) => {
+    allure.setStory("Performance Review");
+    allure.setSeverity("critical");
+    allure.setTestCaseId("Performance_1");
+    allure.setDescription("Verify the review status after activation, self-evaluation and reviewer finalization");
+
+    const essPage = await asRole("ESS");
+    const employeeName = await TopBar.of(essPage).getUserName();
+
+    const essJob = new MyInfoPage(essPage).job;
+    await essJob.open();
+    const { jobTitle } = await essJob.read();
+    expect(jobTitle, "The ESS user needs a job title to be reviewed on its KPIs").toBeTruthy();
+
+    await kpiPage.ensureKpis([{ indicator: KPI, jobTitle: jobTitle!, minRating: 1, maxRating: 5 }]);
+
+    await manageReviewsPage.open();
+    const reviewerName = await TopBar.of(page).getUserName();
+    const today = new Date();
+    const dueDate = new Date(today.getTime() + 14 * 24 * 60 * 60 * 1000);
+
+    await manageReviewsPage.createReview({
+      employeeName,
+      reviewer: reviewerName,
+      startDate: new Date(today.getFullYear(), 0, 1),
+      endDate: new Date(today.getFullYear(), 11, 31),
+      dueDate
+    });
+    await manageReviewsPage.search({ employeeName });
+    await manageReviewsPage.shouldHaveStatus("Activated", employeeName);
+
+    const myReviewsPage = new MyReviewsPage(essPage);
+    await myReviewsPage.open();
+    await myReviewsPage.openReview();
+    await new ReviewEvaluationPage(essPage).selfEvaluate([{ kpi: KPI, rating: 4, comment: "On time" }], "Good year");
+
+    await manageReviewsPage.open();
+    await manageReviewsPage.search({ employeeName });
+    await manageReviewsPage.shouldHaveStatus("In Progress", employeeName);
+
+    await employeeReviewsPage.open();
+    await employeeReviewsPage.search({ employeeName });
+    await employeeReviewsPage.openReview(employeeName);
+    await reviewEvaluationPage.finalize([{ kpi: KPI, rating: 5 }], { rating: 4.5, comments: "Well done" });
+
+    await manageReviewsPage.open();
+    await manageReviewsPage.search({ employeeName });
+    await manageReviewsPage.shouldHaveStatus("Completed", employeeName);
+  });
+});
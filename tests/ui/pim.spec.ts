@@ -0,0 +1,59 @@
+import { expect, test } from "../../src/fixtures";
+import { TestUtils } from "../../src/utils/testUtils";
+
+test.describe("PIM Feature @ui", () => {
+  test.use({ role: "Admin" });
+
+  test.beforeEach(async ({ allure }) => {
+    allure.setFeature("PIM");
+    allure.setEpic("Core Functionality");
+  });
+
+  test("Employee can be created, searched, opened and deleted @regression", async ({
+    addEmployeePage,
+    employeeListPage,
+    employeeDetailsPage,
+    allure
+  }) => {
+    allure.setStory("Employee Lifecycle");
+    allure.setSeverity("critical");
+    allure.setTestCaseId("PIM_1");
+    allure.setDescription("Verify that a new employee is listed by id and name, shows its personal details and disappears once deleted");
+
+    const employee = TestUtils.generateEmployeeData({ middleName: "Pim" });
+    const empNumber = await addEmployeePage.addEmployee(employee);
+    let deleted = false;
+
+    try {
+      expect(empNumber).toMatch(/^\d+$/);
+      await employeeListPage.open();
+      await employeeListPage.shouldContainEmployee(employee);
+
+      expect(await employeeListPage.searchById(`NONE${TestUtils.generateRandomString(6)}`)).toHaveLength(0);
+      const byName = await employeeListPage.searchByName(`${employee.firstName} ${employee.lastName}`);
+      expect(byName.map(row => row.id)).toContain(employee.employeeId);
+
+      await employeeListPage.openEmployee(employee.employeeId!);
+      expect(await employeeDetailsPage.getPersonalDetails()).toMatchObject({
+        firstName: employee.firstName,
+        middleName: employee.middleName,
+        lastName: employee.lastName,
+        employeeId: employee.employeeId
+      });
+
+      await employeeListPage.open();
+      await employeeListPage.deleteEmployee(employee.employeeId!);
+      deleted = true;
+      await employeeListPage.shouldNotContainEmployee(employee.employeeId!);
+    } finally {
+      const cleanupErrors = await TestUtils.runCleanup(async () => {
+        if (!deleted) {
+          await employeeListPage.open();
+          await employeeListPage.deleteEmployee(employee.employeeId!);
+        }
+      });
+
+      expect.soft(cleanupErrors, "Cleanup should not fail").toEqual([]);
+    }
+  });
+});
@@ -0,0 +1,55 @@
+import { expect, test } from "../../src/fixtures";
+import { TopBar } from "../../src/components";
+import { HiringWorkflow } from "../../src/helpers/HiringWorkflow";
+import { TestUtils } from "../../src/utils/testUtils";
+
+const JOB_TITLE = "QA Engineer";
+
+test.describe("Recruitment Feature @ui", () => {
+  // Admin is hiring manager and interviewer of the vacancies created here
+  test.use({ role: "Admin" });
+
+  test.beforeEach(async ({ allure }) => {
+    allure.setFeature("Recruitment");
+    allure.setEpic("Core Functionality");
+  });
+
+  test("Candidate is hired through the full pipeline @regression", async ({
+    page,
+    vacanciesPage,
+    candidatesPage,
+    allure
+  }) => {
+    allure.setStory("Hiring Pipeline");
+    allure.setSeverity("critical");
+    allure.setTestCaseId("Recruitment_1");
+    allure.setDescription("Verify that a candidate moves from application to hired and every step is in the status history");
+
+    await vacanciesPage.open();
+
+    const suffix = TestUtils.generateRandomString(6);
+    const adminName = await TopBar.of(page).getUserName();
+
+    await vacanciesPage.createVacancy({
+      name: `QA Vacancy ${suffix}`,
+      jobTitle: JOB_TITLE,
+      hiringManager: adminName
+    });
+
+    const { status } = await new HiringWorkflow(candidatesPage)
+      .shortlist()
+      .scheduleInterview({ title: "Technical Interview", interviewer: adminName, date: new Date() })
+      .markInterviewPassed()
+      .offerJob()
+      .hire()
+      .runFor({
+        firstName: "Candidate",
+        lastName: suffix,
+        email: `candidate.${suffix}@example.com`,
+        vacancy: `QA Vacancy ${suffix}`,
+        resume: { name: `resume-${suffix}.txt`, content: `Resume of candidate ${suffix}`, mimeType: "text/plain" }
+      });
+
+    expect(status).toBe("Hired");
+  });
+});
@@ -0,0 +1,96 @@
+import { expect, test } from "../../src/fixtures";
+import { AuthHelper } from "../../src/helpers/AuthHelper";
+import { SmtpCaptureServer } from "../../src/helpers/SmtpCaptureServer";
+import { AddEmployeePage } from "../../src/pages/AddEmployeePage";
+import { AdminUsersPage } from "../../src/pages/AdminUsersPage";
+import { EmployeeListPage } from "../../src/pages/EmployeeListPage";
+import { configManager } from "../../src/config/configManager";
+import { TestUtils } from "../../src/utils/testUtils";
+
+test.describe("Reset Password @ui", () => {
+  test.beforeEach(async ({ allure }) => {
+    allure.setFeature("Authentication");
+    allure.setStory("Reset Password");
+    allure.setEpic("Core Functionality");
+  });
+
+  test("Forgot password link leads to a sent confirmation @regression", async ({ loginPage, resetPasswordPage, allure }) => {
+    allure.setSeverity("normal");
+    allure.setTestCaseId("ResetPassword_1");
+    allure.setDescription("Verify that requesting a reset for a username shows the reset link sent confirmation");
+
+    const account = await AuthHelper.getAccountForRole("ESS");
+
+    await loginPage.navigateToLogin();
+    await loginPage.clickForgotPassword();
+    await resetPasswordPage.requestReset(account.username);
+
+    await resetPasswordPage.shouldShowResetSent();
+  });
+
+  test("Reset email link sets a new password that can log in @regression", async ({
+    loginPage,
+    resetPasswordPage,
+    smtpServer,
+    asRole,
+    allure
+  }) => {
+    // The demo site cannot send mail here; needs a local OrangeHRM using the capture server
+    test.skip(!configManager.getSmtpCaptureConfig().enabled, "SMTP capture is disabled");
+
+    allure.setSeverity("critical");
+    allure.setTestCaseId("ResetPassword_2");
+    allure.setDescription("Verify that the emailed reset link sets a new password and the account logs in with it");
+
+    // A throwaway user keeps the shared test accounts and their passwords untouched
+    const adminPage = await asRole("Admin");
+    const employee = TestUtils.generateEmployeeData();
+    const username = `reset${TestUtils.generateRandomString(6).toLowerCase()}`;
+    const newPassword = `Reset${TestUtils.generateRandomString(6)}1!`;
+    const adminUsersPage = new AdminUsersPage(adminPage);
+    const employeeListPage = new EmployeeListPage(adminPage);
+
+    await new AddEmployeePage(adminPage).addEmployee(employee);
+
+    try {
+      await adminUsersPage.addUser({
+        username,
+        password: `Initial${TestUtils.generateRandomString(6)}1!`,
+        role: "ESS",
+        employeeName: `${employee.firstName} ${employee.lastName}`,
+        status: "Enabled"
+      });
+
+      await resetPasswordPage.open();
+      await resetPasswordPage.requestReset(username);
+      await resetPasswordPage.shouldShowResetSent();
+
+      const email = await smtpServer.waitForEmailTo(employee.email!);
+      const resetLink = SmtpCaptureServer.extractLinks(email).find(link => link.includes("resetPassword"));
+      expect(resetLink, "Reset email should contain a reset link").toBeDefined();
+
+      await resetPasswordPage.openResetLink(resetLink!);
+      await resetPasswordPage.setNewPassword(newPassword);
+      await resetPasswordPage.shouldBeReset();
+
+      await loginPage.login({ username, password: newPassword });
+      await loginPage.shouldBeLoggedIn();
+    } finally {
+      const cleanupErrors = await TestUtils.runCleanup(
+        async () => {
+          await adminUsersPage.open();
+
+          if (await adminUsersPage.findUser(username)) {
+            await adminUsersPage.deleteUser(username);
+          }
+        },
+        async () => {
+          await employeeListPage.open();
+          await employeeListPage.deleteEmployee(employee.employeeId!);
+        }
+      );
+
+      expect.soft(cleanupErrors, "Cleanup should not fail").toEqual([]);
+    }
+  });
+});
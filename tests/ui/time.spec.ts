@@ -0,0 +1,85 @@
+import { expect, test } from "../../src/fixtures";
+import { TopBar } from "../../src/components";
+import { TimesheetPage } from "../../src/pages/TimesheetPage";
+import type { TimesheetEntry } from "../../src/types";
+
+// Project and activity available on the demo instance
+const PROJECT = "ACME Ltd";
+const ACTIVITY = "Bug Fixes";
+
+/**
+ * A past date a random number of weeks back so reruns rarely hit an existing timesheet or record
+ */
+function randomPastDate(): Date {
+  const date = new Date();
+  date.setDate(date.getDate() - 7 * (5 + Math.floor(Math.random() * 200)));
+  return date;
+}
+
+test.describe("Time Feature @ui", () => {
+  test.beforeEach(async ({ allure }) => {
+    allure.setFeature("Time");
+    allure.setEpic("Core Functionality");
+  });
+
+  test.describe("Timesheets", () => {
+    // Admin reviews what the ESS user submits
+    test.use({ role: "Admin" });
+
+    test("Submitted timesheet totals match entered hours and can be approved @regression", async ({
+      asRole,
+      timesheetPage,
+      allure
+    }) => {
+      allure.setStory("Timesheet Approval");
+      allure.setSeverity("critical");
+      allure.setTestCaseId("Time_1");
+      allure.setDescription("Verify that daily and weekly totals match the entered hours and that a supervisor can approve the timesheet");
+
+      const entries: TimesheetEntry[] = [
+        { project: PROJECT, activity: ACTIVITY, hours: [8, 7.5, 8, 6.25, 4] }
+      ];
+      const week = randomPastDate();
+
+      const essPage = await asRole("ESS");
+      const employeeName = await TopBar.of(essPage).getUserName();
+      const essTimesheet = new TimesheetPage(essPage);
+
+      await essTimesheet.openMyTimesheet(week);
+      await essTimesheet.fillTimesheet(entries);
+      await essTimesheet.shouldMatchTotals(entries);
+      await essTimesheet.submit();
+      await essTimesheet.shouldHaveStatus("Submitted");
+
+      await timesheetPage.openEmployeeTimesheet(employeeName, week);
+      await timesheetPage.shouldMatchTotals(entries);
+      await timesheetPage.approve("Approved by automation");
+      await timesheetPage.shouldHaveStatus("Approved");
+    });
+  });
+
+  test.describe("Attendance", () => {
+    test.use({ role: "ESS" });
+
+    test("Attendance duration equals the time between punch in and punch out @regression", async ({
+      attendancePage,
+      allure
+    }) => {
+      allure.setStory("Punch In/Out");
+      allure.setSeverity("critical");
+      allure.setTestCaseId("Time_2");
+      allure.setDescription("Verify that the recorded duration is exactly the time between the test-controlled punch in and punch out");
+
+      const punchInTime = randomPastDate();
+      punchInTime.setHours(9, 0, 0, 0);
+      const punchOutTime = new Date(punchInTime);
+      punchOutTime.setHours(17, 30, 0, 0);
+
+      await attendancePage.punchIn(punchInTime, "Start of day");
+      await attendancePage.punchOut(punchOutTime, "End of day");
+
+      await attendancePage.shouldHaveRecordOf(punchInTime, 8.5);
+      expect(await attendancePage.getTotalDuration()).toBeGreaterThanOrEqual(8.5);
+    });
+  });
+});